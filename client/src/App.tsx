@@ -1,46 +1,193 @@
 import { useState, useEffect, useCallback } from 'react';
 import { trpc } from '@/utils/trpc';
-import { LoginForm } from '@/components/LoginForm';
+import { LoginForm, type LoginStepResult } from '@/components/LoginForm';
 import { Dashboard } from '@/components/Dashboard';
+import { TwoFactorSetup } from '@/components/TwoFactorSetup';
+import { FirstRunSetup } from '@/components/FirstRunSetup';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { Toaster } from '@/components/ui/sonner';
 import { toast } from 'sonner';
-import type { Admin } from '../../server/src/schema';
+import type { PublicAdmin, Permission, CurrentAdmin, AuthenticatedLogin, LoginResult, SsoConfig, SetupFirstAdminInput } from '../../server/src/schema';
 
 function App() {
-  const [currentAdmin, setCurrentAdmin] = useState<Admin | null>(null);
+  const [currentAdmin, setCurrentAdmin] = useState<PublicAdmin | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [ssoConfig, setSsoConfig] = useState<SsoConfig | null>(null);
+  const [setupRequired, setSetupRequired] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Check if admin is logged in on app startup
+  const applyCurrentAdmin = useCallback((current: CurrentAdmin) => {
+    setCurrentAdmin(current.admin);
+    setPermissions(current.permissions);
+    setTwoFactorSetupRequired(current.two_factor_setup_required);
+  }, []);
+
+  const completeLogin = useCallback((result: AuthenticatedLogin) => {
+    localStorage.setItem('sessionToken', result.token);
+    setChallengeToken(null);
+    applyCurrentAdmin(result);
+    toast.success('Login successful!');
+  }, [applyCurrentAdmin]);
+
+  // Password and single sign-on logins both end here, possibly needing a second factor
+  const applyLoginResult = useCallback((result: LoginResult): LoginStepResult => {
+    if (result.status === 'two_factor_required') {
+      setChallengeToken(result.challenge_token);
+      return 'two_factor_required';
+    }
+    completeLogin(result);
+    return 'authenticated';
+  }, [completeLogin]);
+
+  // Restore the session on app startup - the server is the source of truth for who is signed in
   useEffect(() => {
-    const storedAdmin = localStorage.getItem('currentAdmin');
-    if (storedAdmin) {
-      try {
-        setCurrentAdmin(JSON.parse(storedAdmin));
-      } catch (error) {
-        console.error('Failed to parse stored admin:', error);
-        localStorage.removeItem('currentAdmin');
+    // Older builds cached the admin record in the browser
+    localStorage.removeItem('currentAdmin');
+    localStorage.removeItem('currentPermissions');
+
+    // The identity provider redirects back here with either a code or an error
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('code');
+    const state = params.get('state');
+    const ssoError = params.get('error');
+    // Only the tab that started the sign-in holds its key, so a redirect without one was not ours
+    const browserKey = sessionStorage.getItem('oidcBrowserKey');
+    if ((code && state) || ssoError) {
+      window.history.replaceState(null, '', window.location.pathname);
+      sessionStorage.removeItem('oidcBrowserKey');
+    }
+
+    if (ssoError) {
+      toast.error(params.get('error_description') || 'Single sign-on was cancelled');
+    } else if (code && state && !browserKey) {
+      toast.error('This sign-in was not started from this browser. Please start again.');
+    } else if (code && state && browserKey) {
+      trpc.completeOidcLogin.mutate({ code, state, browser_key: browserKey })
+        .then(applyLoginResult)
+        .catch((error) => {
+          console.error('Single sign-on failed:', error);
+          toast.error(error instanceof Error && error.message ? error.message : 'Single sign-on failed');
+        })
+        .finally(() => setIsLoading(false));
+      return;
+    }
+
+    // Without a session, a fresh install offers first-run setup instead of the login form
+    if (!localStorage.getItem('sessionToken')) {
+      trpc.getSetupStatus.query()
+        .then((status) => setSetupRequired(status.setup_required))
+        .catch((error) => console.error('Failed to load setup status:', error))
+        .finally(() => setIsLoading(false));
+      return;
+    }
+
+    trpc.me.query()
+      .then((result) => {
+        if (result) {
+          applyCurrentAdmin(result);
+        } else {
+          localStorage.removeItem('sessionToken');
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to restore session:', error);
+        localStorage.removeItem('sessionToken');
+      })
+      .finally(() => setIsLoading(false));
+  }, [applyCurrentAdmin, applyLoginResult]);
+
+  // The login page only offers single sign-on when the server has it configured
+  useEffect(() => {
+    if (currentAdmin || ssoConfig) {
+      return;
+    }
+    trpc.getSsoConfig.query()
+      .then(setSsoConfig)
+      .catch((error) => console.error('Failed to load SSO configuration:', error));
+  }, [currentAdmin, ssoConfig]);
+
+  // Reloads the signed-in admin, e.g. after changing their two-factor settings
+  const refreshCurrentAdmin = useCallback(async () => {
+    try {
+      const result = await trpc.me.query();
+      if (result) {
+        applyCurrentAdmin(result);
       }
+    } catch (error) {
+      console.error('Failed to refresh current admin:', error);
     }
-    setIsLoading(false);
-  }, []);
+  }, [applyCurrentAdmin]);
 
-  const handleLogin = useCallback(async (username: string, password: string) => {
+  const handleLogin = useCallback(async (username: string, password: string): Promise<LoginStepResult> => {
     try {
-      const admin = await trpc.loginAdmin.mutate({ username, password });
-      setCurrentAdmin(admin);
-      localStorage.setItem('currentAdmin', JSON.stringify(admin));
-      toast.success('Login successful!');
-      return true;
+      const result = await trpc.loginAdmin.mutate({ username, password });
+      if (!result) {
+        toast.error('Login failed. Please check your credentials.');
+        return 'failed';
+      }
+      return applyLoginResult(result);
     } catch (error) {
       console.error('Login failed:', error);
-      toast.error('Login failed. Please check your credentials.');
-      return false;
+      // Throttled attempts carry a message saying when to try again
+      toast.error(error instanceof Error && error.message ? error.message : 'Login failed. Please check your credentials.');
+      return 'failed';
+    }
+  }, [applyLoginResult]);
+
+  const handleSetup = useCallback(async (input: SetupFirstAdminInput): Promise<string | null> => {
+    try {
+      const result = await trpc.setupFirstAdmin.mutate(input);
+      setSetupRequired(false);
+      completeLogin(result);
+      return null;
+    } catch (error) {
+      console.error('First-run setup failed:', error);
+      return error instanceof Error && error.message ? error.message : 'Setup failed';
+    }
+  }, [completeLogin]);
+
+  const handleSsoLogin = useCallback(async () => {
+    try {
+      const { authorization_url, browser_key } = await trpc.beginOidcLogin.mutate();
+      sessionStorage.setItem('oidcBrowserKey', browser_key);
+      window.location.assign(authorization_url);
+    } catch (error) {
+      console.error('Failed to start single sign-on:', error);
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to start single sign-on');
     }
   }, []);
 
-  const handleLogout = useCallback(() => {
+  const handleVerifyCode = useCallback(async (code: string): Promise<LoginStepResult> => {
+    if (!challengeToken) {
+      return 'failed';
+    }
+    try {
+      const result = await trpc.verifyTwoFactorLogin.mutate({ challenge_token: challengeToken, code });
+      if (!result) {
+        return 'failed';
+      }
+      completeLogin(result);
+      return 'authenticated';
+    } catch (error) {
+      console.error('Two-factor verification failed:', error);
+      toast.error(error instanceof Error && error.message ? error.message : 'Verification failed');
+      return 'failed';
+    }
+  }, [challengeToken, completeLogin]);
+
+  const handleLogout = useCallback(async () => {
+    try {
+      await trpc.logoutAdmin.mutate();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
     setCurrentAdmin(null);
-    localStorage.removeItem('currentAdmin');
+    setPermissions([]);
+    setTwoFactorSetupRequired(false);
+    localStorage.removeItem('sessionToken');
     toast.success('Logged out successfully');
   }, []);
 
@@ -55,10 +202,50 @@ function App() {
     );
   }
 
+  if (!currentAdmin && setupRequired) {
+    return (
+      <>
+        <FirstRunSetup onSetup={handleSetup} />
+        <Toaster />
+      </>
+    );
+  }
+
   if (!currentAdmin) {
     return (
       <>
-        <LoginForm onLogin={handleLogin} />
+        <LoginForm
+          onLogin={handleLogin}
+          onVerifyCode={handleVerifyCode}
+          ssoProviderName={ssoConfig?.enabled ? ssoConfig.provider_name : null}
+          onSsoLogin={handleSsoLogin}
+          awaitingCode={challengeToken !== null}
+        />
+        <Toaster />
+      </>
+    );
+  }
+
+  // Mandatory 2FA: nothing else is available until the admin has enrolled
+  if (twoFactorSetupRequired) {
+    return (
+      <>
+        <div className="min-h-screen flex items-center justify-center bg-slate-50 p-4">
+          <Card className="w-full max-w-md shadow-xl">
+            <CardHeader>
+              <CardTitle>Set Up Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                Your organisation requires two-factor authentication for every account.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <TwoFactorSetup onComplete={refreshCurrentAdmin} />
+              <Button variant="ghost" className="w-full" onClick={handleLogout}>
+                Sign out
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
         <Toaster />
       </>
     );
@@ -66,10 +253,15 @@ function App() {
 
   return (
     <>
-      <Dashboard admin={currentAdmin} onLogout={handleLogout} />
+      <Dashboard
+        admin={currentAdmin}
+        permissions={permissions}
+        onLogout={handleLogout}
+        onAccountChange={refreshCurrentAdmin}
+      />
       <Toaster />
     </>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
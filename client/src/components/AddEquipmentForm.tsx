@@ -23,6 +23,8 @@ export function AddEquipmentForm({ adminId, onEquipmentAdded }: AddEquipmentForm
     model: null,
     status: 'available',
   });
+  // Weight is entered in kilograms and stored in grams
+  const [weightKg, setWeightKg] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -35,7 +37,10 @@ export function AddEquipmentForm({ adminId, onEquipmentAdded }: AddEquipmentForm
 
     setIsSubmitting(true);
     try {
-      await trpc.createEquipment.mutate(formData);
+      await trpc.createEquipment.mutate({
+        ...formData,
+        weight_grams: weightKg ? Math.round(Number(weightKg) * 1000) : null,
+      });
       
       // Reset form
       setFormData({
@@ -47,6 +52,7 @@ export function AddEquipmentForm({ adminId, onEquipmentAdded }: AddEquipmentForm
         model: null,
         status: 'available',
       });
+      setWeightKg('');
       
       onEquipmentAdded();
     } catch (error) {
@@ -146,6 +152,67 @@ export function AddEquipmentForm({ adminId, onEquipmentAdded }: AddEquipmentForm
         />
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="replacement_value">Replacement Value</Label>
+        <Input
+          id="replacement_value"
+          type="number"
+          min="0"
+          step="1"
+          value={formData.replacement_value ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData((prev: CreateEquipmentInput) => ({ 
+              ...prev, 
+              replacement_value: e.target.value ? Number(e.target.value) : null 
+            }))
+          }
+          placeholder="Counts towards borrowers' value limits"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="weight">Weight (kg)</Label>
+        <Input
+          id="weight"
+          type="number"
+          min="0"
+          step="0.01"
+          value={weightKg}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setWeightKg(e.target.value)}
+          placeholder="Packed weight, for load planning"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="storage_location">Storage Location</Label>
+        <Input
+          id="storage_location"
+          value={formData.storage_location || ''}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData((prev: CreateEquipmentInput) => ({ 
+              ...prev, 
+              storage_location: e.target.value || null 
+            }))
+          }
+          placeholder="e.g., Bay 4, shelf 2"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="case_label">Case</Label>
+        <Input
+          id="case_label"
+          value={formData.case_label || ''}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setFormData((prev: CreateEquipmentInput) => ({ 
+              ...prev, 
+              case_label: e.target.value || null 
+            }))
+          }
+          placeholder="Road case or rack it travels in"
+        />
+      </div>
+
       <div className="md:col-span-2 space-y-2">
         <Label htmlFor="description">Description</Label>
         <Textarea
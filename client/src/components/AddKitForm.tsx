@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { X } from 'lucide-react';
+import type { Equipment } from '../../../server/src/schema';
+
+interface AddKitFormProps {
+  onKitAdded: () => void;
+}
+
+export function AddKitForm({ onKitAdded }: AddKitFormProps) {
+  const [name, setName] = useState('');
+  const [serialNumber, setSerialNumber] = useState('');
+  const [description, setDescription] = useState('');
+  const [memberSerial, setMemberSerial] = useState('');
+  const [members, setMembers] = useState<Equipment[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const addMember = async () => {
+    const serial = memberSerial.trim();
+    if (!serial) return;
+
+    try {
+      const equipment = await trpc.getEquipmentBySerial.query({ serialNumber: serial });
+      if (!equipment) {
+        toast.error(`No equipment with serial ${serial}`);
+      } else if (members.some(member => member.id === equipment.id)) {
+        toast.error(`${equipment.serial_number} is already in the kit`);
+      } else {
+        setMembers(prev => [...prev, equipment]);
+      }
+      setMemberSerial('');
+    } catch (error) {
+      console.error('Failed to look up equipment:', error);
+      toast.error('Equipment not found with that serial number');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || members.length === 0) {
+      toast.error('Enter a kit name and add at least one item');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await trpc.createKit.mutate({
+        name: name.trim(),
+        serial_number: serialNumber.trim() || null,
+        description: description.trim() || null,
+        equipment_ids: members.map(member => member.id),
+      });
+
+      setName('');
+      setSerialNumber('');
+      setDescription('');
+      setMembers([]);
+      toast.success('Kit added successfully!');
+      onKitAdded();
+    } catch (error) {
+      console.error('Failed to create kit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add kit');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="kit-name">Kit Name *</Label>
+          <Input
+            id="kit-name"
+            value={name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+            placeholder="e.g., Vocal Kit 3"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="kit-serial">Kit Serial Number</Label>
+          <Input
+            id="kit-serial"
+            value={serialNumber}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSerialNumber(e.target.value)}
+            placeholder="Label on the case (optional)"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="kit-member">Members *</Label>
+        <div className="flex space-x-4">
+          <Input
+            id="kit-member"
+            value={memberSerial}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMemberSerial(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addMember();
+              }
+            }}
+            placeholder="Scan or type a member's serial number"
+          />
+          <Button type="button" variant="outline" onClick={addMember} disabled={!memberSerial.trim()}>
+            Add
+          </Button>
+        </div>
+        {members.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {members.map(member => (
+              <span key={member.id} className="inline-flex items-center space-x-1 px-2 py-1 rounded border border-gray-200 text-sm">
+                <span>{member.name} ({member.serial_number})</span>
+                <button
+                  type="button"
+                  onClick={() => setMembers(prev => prev.filter(item => item.id !== member.id))}
+                  className="text-gray-500 hover:text-red-600"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="kit-description">Description</Label>
+        <Textarea
+          id="kit-description"
+          value={description}
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDescription(e.target.value)}
+          placeholder="What the kit is for (optional)"
+          rows={2}
+        />
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isSubmitting || !name.trim() || members.length === 0}
+        className="w-full bg-blue-600 hover:bg-blue-700"
+      >
+        {isSubmitting ? 'Adding Kit...' : 'Add Kit'}
+      </Button>
+    </form>
+  );
+}
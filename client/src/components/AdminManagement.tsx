@@ -5,17 +5,24 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { trpc } from '@/utils/trpc';
 import { toast } from 'sonner';
-import { Users, UserPlus, Shield } from 'lucide-react';
-import type { Admin, CreateAdminInput } from '../../../server/src/schema';
+import { LoginActivityLog } from '@/components/LoginActivityLog';
+import { Users, UserPlus, Shield, ShieldCheck, ShieldOff, Edit, KeyRound, Ban, CheckCircle, Trash2, LockOpen } from 'lucide-react';
+import type { PublicAdmin, AdminRole, AdminLockout, CreateAdminInput, SecuritySettings } from '../../../server/src/schema';
 
 interface AdminManagementProps {
-  currentAdmin: Admin;
+  currentAdmin: PublicAdmin;
 }
 
 export function AdminManagement({ currentAdmin }: AdminManagementProps) {
-  const [admins, setAdmins] = useState<Admin[]>([]);
+  const [admins, setAdmins] = useState<PublicAdmin[]>([]);
+  const [lockouts, setLockouts] = useState<AdminLockout[]>([]);
+  const [activityRefreshKey, setActivityRefreshKey] = useState(0);
+  const [securitySettings, setSecuritySettings] = useState<SecuritySettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreating, setIsCreating] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -24,13 +31,20 @@ export function AdminManagement({ currentAdmin }: AdminManagementProps) {
     username: '',
     email: '',
     password: '',
+    role: 'clerk',
   });
 
   const loadAdmins = useCallback(async () => {
     try {
       setIsLoading(true);
-      const adminsData = await trpc.getAdmins.query();
+      const [adminsData, lockoutsData, settingsData] = await Promise.all([
+        trpc.getAdmins.query(),
+        trpc.getAdminLockouts.query(),
+        trpc.getSecuritySettings.query(),
+      ]);
       setAdmins(adminsData);
+      setLockouts(lockoutsData);
+      setSecuritySettings(settingsData);
     } catch (error) {
       console.error('Failed to load admins:', error);
       toast.error('Failed to load admin accounts');
@@ -43,6 +57,126 @@ export function AdminManagement({ currentAdmin }: AdminManagementProps) {
     loadAdmins();
   }, [loadAdmins]);
 
+  // Edit dialog state
+  const [editingAdmin, setEditingAdmin] = useState<PublicAdmin | null>(null);
+  const [editData, setEditData] = useState<{ username: string; email: string; role: AdminRole }>({
+    username: '',
+    email: '',
+    role: 'clerk',
+  });
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  // Password reset dialog state
+  const [resettingAdmin, setResettingAdmin] = useState<PublicAdmin | null>(null);
+  const [resetPassword, setResetPassword] = useState('');
+
+  const handleEdit = (admin: PublicAdmin) => {
+    setEditingAdmin(admin);
+    setEditData({ username: admin.username, email: admin.email, role: admin.role });
+  };
+
+  const handleUpdateAdmin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingAdmin) return;
+
+    setIsUpdating(true);
+    try {
+      await trpc.updateAdmin.mutate({ id: editingAdmin.id, ...editData });
+      toast.success('Admin account updated successfully!');
+      setEditingAdmin(null);
+      loadAdmins();
+    } catch (error) {
+      console.error('Failed to update admin:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update admin account');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resettingAdmin) return;
+
+    if (resetPassword.length < 6) {
+      toast.error('Password must be at least 6 characters long');
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      await trpc.resetAdminPassword.mutate({ id: resettingAdmin.id, new_password: resetPassword });
+      toast.success(`Password reset for ${resettingAdmin.username}`);
+      setResettingAdmin(null);
+      setResetPassword('');
+    } catch (error) {
+      console.error('Failed to reset password:', error);
+      toast.error('Failed to reset password');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleToggleDisabled = async (admin: PublicAdmin) => {
+    const disabled = admin.disabled_at === null;
+    try {
+      await trpc.setAdminDisabled.mutate({ id: admin.id, disabled });
+      toast.success(disabled ? `${admin.username} has been disabled` : `${admin.username} has been re-enabled`);
+      loadAdmins();
+    } catch (error) {
+      console.error('Failed to change admin status:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change admin status');
+    }
+  };
+
+  const handleUnlock = async (admin: PublicAdmin) => {
+    try {
+      await trpc.unlockAdmin.mutate({ id: admin.id });
+      toast.success(`${admin.username} has been unlocked`);
+      loadAdmins();
+      setActivityRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error('Failed to unlock admin:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock admin account');
+    }
+  };
+
+  const handleResetTwoFactor = async (admin: PublicAdmin) => {
+    try {
+      await trpc.resetAdminTwoFactor.mutate({ id: admin.id });
+      toast.success(`Two-factor authentication reset for ${admin.username}`);
+      loadAdmins();
+    } catch (error) {
+      console.error('Failed to reset two-factor authentication:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reset two-factor authentication');
+    }
+  };
+
+  const handleRequireTwoFactorChange = async (require_two_factor: boolean) => {
+    try {
+      const settings = await trpc.updateSecuritySettings.mutate({ require_two_factor });
+      setSecuritySettings(settings);
+      toast.success(require_two_factor
+        ? 'Two-factor authentication is now required for every account'
+        : 'Two-factor authentication is now optional');
+    } catch (error) {
+      console.error('Failed to update security settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update security settings');
+    }
+  };
+
+  const getLockout = (admin: PublicAdmin) => lockouts.find((lockout) => lockout.admin_id === admin.id);
+
+  const handleDelete = async (admin: PublicAdmin) => {
+    try {
+      await trpc.deleteAdmin.mutate({ id: admin.id });
+      toast.success('Admin account deleted');
+      loadAdmins();
+    } catch (error) {
+      console.error('Failed to delete admin:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete admin account');
+    }
+  };
+
   const handleCreateAdmin = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -62,7 +196,7 @@ export function AdminManagement({ currentAdmin }: AdminManagementProps) {
       toast.success('Admin account created successfully!');
       
       // Reset form
-      setNewAdminData({ username: '', email: '', password: '' });
+      setNewAdminData({ username: '', email: '', password: '', role: 'clerk' });
       setIsDialogOpen(false);
       
       // Reload admin list
@@ -75,6 +209,16 @@ export function AdminManagement({ currentAdmin }: AdminManagementProps) {
     }
   };
 
+  const getRoleColor = (role: AdminRole) => {
+    switch (role) {
+      case 'owner': return 'bg-purple-100 text-purple-800 border-purple-300';
+      case 'manager': return 'bg-blue-100 text-blue-800 border-blue-300';
+      case 'clerk': return 'bg-yellow-100 text-yellow-800 border-yellow-300';
+      case 'viewer': return 'bg-gray-100 text-gray-800 border-gray-300';
+      default: return 'bg-gray-100 text-gray-800 border-gray-300';
+    }
+  };
+
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
@@ -176,6 +320,26 @@ export function AdminManagement({ currentAdmin }: AdminManagementProps) {
                     />
                   </div>
                   
+                  <div className="space-y-2">
+                    <Label htmlFor="new-role">Role *</Label>
+                    <Select
+                      value={newAdminData.role || 'clerk'}
+                      onValueChange={(value: AdminRole) =>
+                        setNewAdminData(prev => ({ ...prev, role: value }))
+                      }
+                    >
+                      <SelectTrigger id="new-role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="owner">Owner - full access including admin accounts</SelectItem>
+                        <SelectItem value="manager">Manager - catalog and transactions</SelectItem>
+                        <SelectItem value="clerk">Clerk - check in, check out and book</SelectItem>
+                        <SelectItem value="viewer">Viewer - read only</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
                   <div className="flex justify-end space-x-2">
                     <Button
                       type="button"
@@ -203,6 +367,34 @@ export function AdminManagement({ currentAdmin }: AdminManagementProps) {
         </CardHeader>
       </Card>
 
+      {/* Security Policy */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5" />
+            <span>Security Policy</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between">
+            <div className="space-y-1">
+              <Label htmlFor="require-two-factor">Require two-factor authentication for all accounts</Label>
+              <p className="text-sm text-gray-500">
+                {currentAdmin.totp_enabled_at
+                  ? 'Admins without an authenticator must set one up before they can continue.'
+                  : 'Enable two-factor authentication on your own account first.'}
+              </p>
+            </div>
+            <Switch
+              id="require-two-factor"
+              checked={securitySettings?.require_two_factor ?? false}
+              onCheckedChange={handleRequireTwoFactorChange}
+              disabled={!securitySettings || (!securitySettings.require_two_factor && !currentAdmin.totp_enabled_at)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Current Admins List */}
       <Card>
         <CardHeader>
@@ -217,42 +409,193 @@ export function AdminManagement({ currentAdmin }: AdminManagementProps) {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {admins.map((admin) => (
-              <Card key={admin.id} className={`${admin.id === currentAdmin.id ? 'border-blue-500 bg-blue-50' : ''}`}>
-                <CardContent className="p-4">
-                  <div className="flex justify-between items-start">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3 mb-2">
-                        <div className="flex items-center space-x-2">
-                          <Shield className="h-5 w-5 text-blue-600" />
-                          <h3 className="font-semibold text-lg">{admin.username}</h3>
-                          {admin.id === currentAdmin.id && (
-                            <Badge className="bg-green-100 text-green-800 border-green-300">
-                              You
+            {admins.map((admin) => {
+              const lockout = getLockout(admin);
+              return (
+                <Card
+                  key={admin.id}
+                  className={`${admin.id === currentAdmin.id ? 'border-blue-500 bg-blue-50' : ''} ${admin.disabled_at ? 'opacity-60' : ''}`}
+                >
+                  <CardContent className="p-4">
+                    <div className="flex justify-between items-start">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <div className="flex items-center space-x-2">
+                            <Shield className="h-5 w-5 text-blue-600" />
+                            <h3 className="font-semibold text-lg">{admin.username}</h3>
+                            <Badge className={`${getRoleColor(admin.role)} capitalize`}>
+                              {admin.role}
                             </Badge>
+                            {admin.id === currentAdmin.id && (
+                              <Badge className="bg-green-100 text-green-800 border-green-300">
+                                You
+                              </Badge>
+                            )}
+                            {admin.disabled_at && (
+                              <Badge className="bg-red-100 text-red-800 border-red-300">
+                                Disabled
+                              </Badge>
+                            )}
+                            {lockout && (
+                              <Badge className="bg-orange-100 text-orange-800 border-orange-300">
+                                Locked
+                              </Badge>
+                            )}
+                            {admin.totp_enabled_at && (
+                              <Badge className="bg-green-100 text-green-800 border-green-300">
+                                <ShieldCheck className="h-3 w-3 mr-1" />
+                                2FA
+                              </Badge>
+                            )}
+                            {admin.oidc_subject && (
+                              <Badge className="bg-blue-100 text-blue-800 border-blue-300" title="Linked to the single sign-on provider">
+                                SSO
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                        
+                        <div className="space-y-1 text-sm text-gray-600">
+                          <p>
+                            <span className="font-medium">Email:</span> {admin.email}
+                          </p>
+                          <p>
+                            <span className="font-medium">Account ID:</span> {admin.id}
+                          </p>
+                          <p>
+                            <span className="font-medium">Created:</span> {formatDate(admin.created_at)}
+                          </p>
+                          <p>
+                            <span className="font-medium">Last Updated:</span> {formatDate(admin.updated_at)}
+                          </p>
+                          {admin.disabled_at && (
+                            <p>
+                              <span className="font-medium">Disabled:</span> {formatDate(admin.disabled_at)}
+                            </p>
+                          )}
+                          {lockout && (
+                            <p className="text-orange-700">
+                              <span className="font-medium">Locked until:</span> {formatDate(lockout.blocked_until)}
+                              {' '}after {lockout.failed_count} failed attempts
+                            </p>
                           )}
                         </div>
                       </div>
-                      
-                      <div className="space-y-1 text-sm text-gray-600">
-                        <p>
-                          <span className="font-medium">Email:</span> {admin.email}
-                        </p>
-                        <p>
-                          <span className="font-medium">Account ID:</span> {admin.id}
-                        </p>
-                        <p>
-                          <span className="font-medium">Created:</span> {formatDate(admin.created_at)}
-                        </p>
-                        <p>
-                          <span className="font-medium">Last Updated:</span> {formatDate(admin.updated_at)}
-                        </p>
-                      </div>
+
+                      {admin.id !== currentAdmin.id && (
+                        <div className="flex space-x-2 ml-4">
+                          {lockout && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleUnlock(admin)}
+                              className="text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+                              title="Unlock account"
+                            >
+                              <LockOpen className="h-4 w-4" />
+                            </Button>
+                          )}
+
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEdit(admin)}
+                            className="text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                            title="Edit account"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setResettingAdmin(admin)}
+                            className="text-slate-600 hover:text-slate-700 hover:bg-slate-50"
+                            title="Reset password"
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+
+                          {admin.totp_enabled_at && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-slate-600 hover:text-slate-700 hover:bg-slate-50"
+                                  title="Reset two-factor authentication"
+                                >
+                                  <ShieldOff className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Reset Two-Factor Authentication</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Remove the authenticator and recovery codes of "{admin.username}" and sign them out
+                                    everywhere. Use this when they have lost access to their authenticator app.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleResetTwoFactor(admin)}>
+                                    Reset 2FA
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleToggleDisabled(admin)}
+                            className={admin.disabled_at
+                              ? 'text-green-600 hover:text-green-700 hover:bg-green-50'
+                              : 'text-orange-600 hover:text-orange-700 hover:bg-orange-50'
+                            }
+                            title={admin.disabled_at ? 'Re-enable account' : 'Disable account'}
+                          >
+                            {admin.disabled_at ? <CheckCircle className="h-4 w-4" /> : <Ban className="h-4 w-4" />}
+                          </Button>
+
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                title="Delete account"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Admin Account</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete "{admin.username}"? Accounts that have recorded
+                                  transactions cannot be deleted - disable them instead to keep their history.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(admin)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      )}
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
           
           {admins.length === 0 && (
@@ -264,6 +607,141 @@ export function AdminManagement({ currentAdmin }: AdminManagementProps) {
           )}
         </CardContent>
       </Card>
+
+      {/* Login Audit Log */}
+      <LoginActivityLog refreshKey={activityRefreshKey} />
+
+      {/* Edit Admin Dialog */}
+      <Dialog open={editingAdmin !== null} onOpenChange={(open: boolean) => !open && setEditingAdmin(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Admin Account</DialogTitle>
+            <DialogDescription>
+              Update the username, email or role of this administrator
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleUpdateAdmin} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-username">Username *</Label>
+              <Input
+                id="edit-username"
+                value={editData.username}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setEditData(prev => ({ ...prev, username: e.target.value }))
+                }
+                required
+                minLength={3}
+                maxLength={50}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-email">Email *</Label>
+              <Input
+                id="edit-email"
+                type="email"
+                value={editData.email}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setEditData(prev => ({ ...prev, email: e.target.value }))
+                }
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-role">Role *</Label>
+              <Select
+                value={editData.role || 'clerk'}
+                onValueChange={(value: AdminRole) =>
+                  setEditData(prev => ({ ...prev, role: value }))
+                }
+              >
+                <SelectTrigger id="edit-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="owner">Owner</SelectItem>
+                  <SelectItem value="manager">Manager</SelectItem>
+                  <SelectItem value="clerk">Clerk</SelectItem>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setEditingAdmin(null)}
+                disabled={isUpdating}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isUpdating}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {isUpdating ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset Password Dialog */}
+      <Dialog
+        open={resettingAdmin !== null}
+        onOpenChange={(open: boolean) => {
+          if (!open) {
+            setResettingAdmin(null);
+            setResetPassword('');
+          }
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a new password for {resettingAdmin?.username}. They will be signed out everywhere.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleResetPassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reset-password">New Password *</Label>
+              <Input
+                id="reset-password"
+                type="password"
+                value={resetPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setResetPassword(e.target.value)}
+                placeholder="Enter new password (min 6 characters)"
+                required
+                minLength={6}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setResettingAdmin(null)}
+                disabled={isUpdating}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isUpdating}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {isUpdating ? 'Resetting...' : 'Reset Password'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
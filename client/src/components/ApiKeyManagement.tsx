@@ -0,0 +1,312 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { KeyRound, Plus, Copy, Ban } from 'lucide-react';
+import type { ApiKey, PublicAdmin, Permission } from '../../../server/src/schema';
+
+interface ApiKeyManagementProps {
+  currentAdmin: PublicAdmin;
+  permissions: Permission[];
+}
+
+const formatDate = (date: Date) => {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  }).format(date);
+};
+
+export function ApiKeyManagement({ currentAdmin, permissions }: ApiKeyManagementProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [limitScopes, setLimitScopes] = useState(false);
+  const [scopes, setScopes] = useState<Permission[]>([]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  // Admin managers see every admin's keys so they can revoke them
+  const canManageAll = permissions.includes('admins:manage');
+
+  const loadApiKeys = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = canManageAll
+        ? await trpc.getAllApiKeys.query()
+        : await trpc.getApiKeys.query();
+      setApiKeys(result);
+    } catch (error) {
+      console.error('Failed to load API keys:', error);
+      toast.error('Failed to load API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canManageAll]);
+
+  useEffect(() => {
+    loadApiKeys();
+  }, [loadApiKeys]);
+
+  const resetForm = () => {
+    setName('');
+    setExpiresOn('');
+    setLimitScopes(false);
+    setScopes([]);
+    setCreatedKey(null);
+  };
+
+  const toggleScope = (scope: Permission, checked: boolean) => {
+    setScopes((prev: Permission[]) => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (limitScopes && scopes.length === 0) {
+      toast.error('Select at least one permission');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await trpc.createApiKey.mutate({
+        name,
+        scopes: limitScopes ? scopes : null,
+        // Keys stay valid until the end of the chosen day
+        expires_at: expiresOn ? new Date(`${expiresOn}T23:59:59`) : null,
+      });
+      setCreatedKey(result.key);
+      setApiKeys((prev: ApiKey[]) => [result.api_key, ...prev]);
+      toast.success('API key created');
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create API key');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Copy failed, select the key and copy it manually');
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    try {
+      const result = await trpc.revokeApiKey.mutate({ id: apiKey.id });
+      if (result) {
+        setApiKeys((prev: ApiKey[]) => prev.map(k => k.id === result.id ? result : k));
+      }
+      toast.success(`Revoked "${apiKey.name}"`);
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke API key');
+    }
+  };
+
+  const getKeyStatus = (apiKey: ApiKey): { label: string; className: string } => {
+    if (apiKey.revoked_at) {
+      return { label: 'revoked', className: 'bg-gray-100 text-gray-800 border-gray-300' };
+    }
+    if (apiKey.expires_at && apiKey.expires_at <= new Date()) {
+      return { label: 'expired', className: 'bg-orange-100 text-orange-800 border-orange-300' };
+    }
+    return { label: 'active', className: 'bg-green-100 text-green-800 border-green-300' };
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          Scripts and devices authenticate with <code>Authorization: Bearer &lt;key&gt;</code> and act as
+          the admin who created the key.
+        </p>
+        <Dialog
+          open={isCreateOpen}
+          onOpenChange={(open: boolean) => {
+            setIsCreateOpen(open);
+            if (!open) resetForm();
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              New API Key
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>{createdKey ? 'Copy Your API Key' : 'Create API Key'}</DialogTitle>
+              <DialogDescription>
+                {createdKey
+                  ? 'This key is shown only once. Store it somewhere safe before closing this dialog.'
+                  : 'The key can do at most what your role allows.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            {createdKey ? (
+              <div className="space-y-4">
+                <div className="flex space-x-2">
+                  <Input value={createdKey} readOnly className="font-mono text-xs" />
+                  <Button type="button" variant="outline" onClick={handleCopy} title="Copy key">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={() => { setIsCreateOpen(false); resetForm(); }}>Done</Button>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="api-key-name">Name *</Label>
+                  <Input
+                    id="api-key-name"
+                    value={name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                    placeholder="e.g. Barcode station"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="api-key-expires">Expires On</Label>
+                  <Input
+                    id="api-key-expires"
+                    type="date"
+                    value={expiresOn}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExpiresOn(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">Leave empty for a key that does not expire.</p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="api-key-limit-scopes"
+                      checked={limitScopes}
+                      onCheckedChange={(checked: boolean | 'indeterminate') => setLimitScopes(checked === true)}
+                    />
+                    <Label htmlFor="api-key-limit-scopes">Limit to selected permissions</Label>
+                  </div>
+                  {limitScopes && (
+                    <div className="grid grid-cols-2 gap-2 pl-6">
+                      {permissions.map((permission: Permission) => (
+                        <div key={permission} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`api-key-scope-${permission}`}
+                            checked={scopes.includes(permission)}
+                            onCheckedChange={(checked: boolean | 'indeterminate') => toggleScope(permission, checked === true)}
+                          />
+                          <Label htmlFor={`api-key-scope-${permission}`} className="font-mono text-xs">
+                            {permission}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={isSaving}>
+                    {isSaving ? 'Creating...' : 'Create Key'}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading API keys...</p>
+      ) : apiKeys.length === 0 ? (
+        <div className="text-center py-12">
+          <KeyRound className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No API keys</h3>
+          <p className="text-gray-500">Create a key to give a script or device access.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {apiKeys.map((apiKey: ApiKey) => {
+            const status = getKeyStatus(apiKey);
+            return (
+              <Card key={apiKey.id}>
+                <CardContent className="p-4">
+                  <div className="flex justify-between items-start">
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <h3 className="font-semibold">{apiKey.name}</h3>
+                        <Badge className={status.className}>{status.label}</Badge>
+                      </div>
+                      <p className="font-mono text-xs text-gray-500">{apiKey.prefix}…</p>
+                      <p className="text-sm text-gray-600">
+                        {apiKey.scopes ? apiKey.scopes.join(', ') : 'All permissions of the owning admin'}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        Key #{apiKey.id}
+                        {apiKey.admin_id !== currentAdmin.id && ` • Admin ID: ${apiKey.admin_id}`}
+                        {' • '}Created {formatDate(apiKey.created_at)}
+                        {' • '}{apiKey.last_used_at ? `Last used ${formatDate(apiKey.last_used_at)}` : 'Never used'}
+                        {apiKey.expires_at && ` • Expires ${formatDate(apiKey.expires_at)}`}
+                      </p>
+                    </div>
+
+                    {!apiKey.revoked_at && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            title="Revoke key"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Revoke API Key</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Anything using "{apiKey.name}" will stop working immediately. Transactions already
+                              recorded with it keep their history.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRevoke(apiKey)}>
+                              Revoke
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import type { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { DateRangePicker } from '@/components/DateRangePicker';
+import { trpc } from '@/utils/trpc';
+import { atTime } from '@/utils/dates';
+import { toast } from 'sonner';
+import type { AvailabilityQuery, AvailableEquipment, Commitment } from '../../../server/src/schema';
+
+interface AvailabilitySearchProps {
+  // The Dashboard's search term and category filters, applied to the availability search too
+  searchTerm: string;
+  category: string | null;
+}
+
+const describeCommitment = (commitment: Commitment): string => {
+  const kind = commitment.transaction_type === 'booking' ? 'Reserved' : 'Checked out';
+  const until = commitment.end ? ` until ${format(commitment.end, 'PPp')}` : '';
+  return `${kind} by ${commitment.user_name} from ${format(commitment.start, 'PPp')}${until}`;
+};
+
+export function AvailabilitySearch({ searchTerm, category }: AvailabilitySearchProps) {
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('17:00');
+  const [results, setResults] = useState<AvailableEquipment[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const search = async () => {
+    if (!range?.from) {
+      toast.error('Please pick the dates to check');
+      return;
+    }
+
+    const query: AvailabilityQuery = {
+      start_date: atTime(range.from, startTime),
+      end_date: atTime(range.to ?? range.from, endTime),
+    };
+    if (query.end_date <= query.start_date) {
+      toast.error('The window must end after it starts');
+      return;
+    }
+    if (category) {
+      query.category = category;
+    }
+    if (searchTerm.trim()) {
+      query.search = searchTerm.trim();
+    }
+
+    setIsSearching(true);
+    try {
+      setResults(await trpc.getAvailableEquipment.query(query));
+    } catch (error) {
+      console.error('Failed to search availability:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to search availability');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="availability-range">Dates</Label>
+          <DateRangePicker id="availability-range" value={range} onChange={setRange} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="availability-start">From</Label>
+          <Input
+            id="availability-start"
+            type="time"
+            value={startTime}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartTime(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="availability-end">Until</Label>
+          <Input
+            id="availability-end"
+            type="time"
+            value={endTime}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndTime(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          onClick={search}
+          disabled={isSearching || !range?.from}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          {isSearching ? 'Searching...' : 'Find Free Equipment'}
+        </Button>
+        {results && (
+          <Button variant="outline" onClick={() => setResults(null)}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {results && (
+        results.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">
+            Nothing matching the filters is free for the whole window
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {results.length} unit{results.length === 1 ? '' : 's'} free for the whole window
+            </p>
+            {results.map(({ equipment, next_commitment }: AvailableEquipment) => (
+              <div
+                key={equipment.id}
+                className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-3 rounded border border-gray-200"
+              >
+                <div>
+                  <p className="font-medium">{equipment.name}</p>
+                  <p className="text-sm text-gray-600">
+                    Serial: {equipment.serial_number} • {equipment.category}
+                  </p>
+                </div>
+                {next_commitment ? (
+                  <Badge variant="outline" className="text-gray-700">
+                    Next: {describeCommitment(next_commitment)}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="text-green-700 border-green-300">
+                    No later commitments
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
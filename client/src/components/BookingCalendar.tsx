@@ -0,0 +1,332 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { EquipmentTransaction, LoanExtension, TransactionInterval } from '../../../server/src/schema';
+
+type Period = 'month' | 'week';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+// Open-ended intervals are drawn to the edge of the visible window
+const intervalEnd = (interval: TransactionInterval, windowEnd: Date): Date => {
+  if (interval.transaction_type === 'check_out') {
+    return interval.actual_end ?? interval.overdue_until ?? interval.expected_end ?? windowEnd;
+  }
+  return interval.expected_end ?? windowEnd;
+};
+
+const overlaps = (interval: TransactionInterval, start: Date, end: Date, windowEnd: Date) => {
+  return interval.start < end && intervalEnd(interval, windowEnd) > start;
+};
+
+const isOverdueDuring = (interval: TransactionInterval, start: Date, end: Date) => {
+  return interval.overdue_until !== null && interval.expected_end !== null
+    && interval.expected_end < end && interval.overdue_until > start;
+};
+
+const barColor = (interval: TransactionInterval) => {
+  return interval.transaction_type === 'booking'
+    ? 'bg-purple-500 hover:bg-purple-600'
+    : 'bg-blue-500 hover:bg-blue-600';
+};
+
+export function BookingCalendar() {
+  const [period, setPeriod] = useState<Period>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [intervals, setIntervals] = useState<TransactionInterval[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<TransactionInterval | null>(null);
+  const [details, setDetails] = useState<EquipmentTransaction | null>(null);
+  const [detailExtensions, setDetailExtensions] = useState<LoanExtension[]>([]);
+
+  // The month view covers whole weeks, so it also shows the edges of the neighbouring months
+  const windowStart = period === 'month'
+    ? startOfWeek(startOfMonth(anchor), WEEK_OPTIONS)
+    : startOfWeek(anchor, WEEK_OPTIONS);
+  const windowEnd = period === 'month'
+    ? addWeeks(startOfWeek(endOfMonth(anchor), WEEK_OPTIONS), 1)
+    : addWeeks(windowStart, 1);
+  const days = eachDayOfInterval({ start: windowStart, end: new Date(windowEnd.getTime() - 1) });
+
+  const windowStartTime = windowStart.getTime();
+  const windowEndTime = windowEnd.getTime();
+
+  const loadIntervals = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await trpc.getTransactionIntervals.query({
+        start_date: new Date(windowStartTime),
+        end_date: new Date(windowEndTime)
+      });
+      setIntervals(result);
+    } catch (error) {
+      console.error('Failed to load calendar:', error);
+      toast.error('Failed to load calendar');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [windowStartTime, windowEndTime]);
+
+  useEffect(() => {
+    loadIntervals();
+  }, [loadIntervals]);
+
+  const openInterval = async (interval: TransactionInterval) => {
+    setSelected(interval);
+    setDetails(null);
+    setDetailExtensions([]);
+    try {
+      const result = await trpc.getEquipmentWithTransactions.query({ equipmentId: interval.equipment_id });
+      setDetails(result?.transactions.find(transaction => transaction.id === interval.transaction_id) ?? null);
+      setDetailExtensions(result?.extensions.filter(extension => extension.transaction_id === interval.transaction_id) ?? []);
+    } catch (error) {
+      console.error('Failed to load transaction:', error);
+      toast.error('Failed to load transaction details');
+    }
+  };
+
+  const move = (step: number) => {
+    setAnchor(prev => period === 'month' ? addMonths(prev, step) : addWeeks(prev, step));
+  };
+
+  const title = period === 'month'
+    ? format(anchor, 'MMMM yyyy')
+    : `${format(windowStart, 'PP')} – ${format(days[days.length - 1], 'PP')}`;
+
+  // One timeline row per unit, in the order the server returned them
+  const rows = intervals.reduce((acc, interval) => {
+    const row = acc.find(entry => entry.equipment_id === interval.equipment_id);
+    if (row) {
+      row.intervals.push(interval);
+    } else {
+      acc.push({
+        equipment_id: interval.equipment_id,
+        label: `${interval.equipment_name} (${interval.serial_number})`,
+        intervals: [interval]
+      });
+    }
+    return acc;
+  }, [] as { equipment_id: number; label: string; intervals: TransactionInterval[] }[]);
+
+  const span = windowEndTime - windowStartTime;
+  const clip = (date: Date) => Math.min(Math.max(date.getTime(), windowStartTime), windowEndTime);
+
+  const position = (from: Date, to: Date) => {
+    const left = clip(from) - windowStartTime;
+    const right = clip(to) - windowStartTime;
+    return {
+      left: `${(left / span) * 100}%`,
+      width: `${(Math.max(right - left, 0) / span) * 100}%`
+    };
+  };
+
+  // Where the overdue part starts, as a share of the visible bar
+  const overdueOffset = (from: Date, due: Date, to: Date) => {
+    const barStart = clip(from);
+    const barLength = Math.max(clip(to) - barStart, 1);
+    return `${(Math.max(clip(due) - barStart, 0) / barLength) * 100}%`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => move(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => move(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="font-semibold text-slate-800 ml-2">{title}</span>
+        </div>
+
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-3 text-xs text-gray-600">
+            <span className="flex items-center space-x-1"><span className="h-3 w-3 rounded bg-blue-500" /><span>Check-out</span></span>
+            <span className="flex items-center space-x-1"><span className="h-3 w-3 rounded bg-purple-500" /><span>Reservation</span></span>
+            <span className="flex items-center space-x-1"><span className="h-3 w-3 rounded bg-red-500" /><span>Overdue</span></span>
+          </div>
+          <Select value={period} onValueChange={(value: string) => setPeriod(value as Period)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="month">Month</SelectItem>
+              <SelectItem value="week">Week</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Tabs defaultValue="calendar">
+        <TabsList>
+          <TabsTrigger value="calendar">Calendar</TabsTrigger>
+          <TabsTrigger value="timeline">Timeline</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="calendar" className="mt-4">
+          <div className="grid grid-cols-7 border-l border-t border-gray-200 text-sm">
+            {days.slice(0, 7).map((day) => (
+              <div key={day.toISOString()} className="border-r border-b border-gray-200 bg-gray-50 px-2 py-1 font-medium text-gray-600">
+                {format(day, 'EEE')}
+              </div>
+            ))}
+            {days.map((day) => {
+              const dayEnd = addDays(day, 1);
+              const dayIntervals = intervals.filter(interval => overlaps(interval, day, dayEnd, windowEnd));
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={`border-r border-b border-gray-200 p-1 space-y-1 ${period === 'month' ? 'min-h-24' : 'min-h-64'} ${
+                    period === 'month' && !isSameMonth(day, anchor) ? 'bg-gray-50 text-gray-400' : ''
+                  }`}
+                >
+                  <div className={`text-xs font-medium ${isToday(day) ? 'text-blue-600' : ''}`}>
+                    {format(day, 'd')}
+                  </div>
+                  {dayIntervals.map((interval) => (
+                    <button
+                      key={interval.transaction_id}
+                      type="button"
+                      onClick={() => openInterval(interval)}
+                      className={`block w-full truncate rounded px-1 text-left text-xs text-white ${
+                        isOverdueDuring(interval, day, dayEnd) ? 'bg-red-500 hover:bg-red-600' : barColor(interval)
+                      }`}
+                      title={`${interval.user_name} – ${interval.equipment_name}`}
+                    >
+                      {interval.serial_number} · {interval.user_name}
+                    </button>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="timeline" className="mt-4">
+          {rows.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              {isLoading ? 'Loading...' : 'No check-outs or reservations in this period'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <div className="min-w-[720px]">
+                <div className="flex text-xs text-gray-500 border-b border-gray-200">
+                  <div className="w-48 shrink-0" />
+                  <div className="flex flex-1">
+                    {days.map((day) => (
+                      <div
+                        key={day.toISOString()}
+                        className={`flex-1 text-center py-1 ${isToday(day) ? 'text-blue-600 font-medium' : ''}`}
+                      >
+                        {period === 'month' ? format(day, 'd') : format(day, 'EEE d')}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {rows.map((row) => (
+                  <div key={row.equipment_id} className="flex items-center border-b border-gray-100 py-2">
+                    <div className="w-48 shrink-0 truncate pr-2 text-sm font-medium text-slate-700" title={row.label}>
+                      {row.label}
+                    </div>
+                    <div className="relative flex-1 h-6">
+                      {row.intervals.map((interval) => {
+                        const end = intervalEnd(interval, windowEnd);
+                        return (
+                          <button
+                            key={interval.transaction_id}
+                            type="button"
+                            onClick={() => openInterval(interval)}
+                            className={`absolute top-0 h-6 overflow-hidden rounded text-left text-xs text-white ${barColor(interval)}`}
+                            style={position(interval.start, end)}
+                            title={`${interval.user_name}: ${format(interval.start, 'PPp')} – ${format(end, 'PPp')}`}
+                          >
+                            {interval.overdue_until && interval.expected_end && (
+                              <span
+                                className="absolute top-0 h-6 bg-red-500"
+                                style={{ left: overdueOffset(interval.start, interval.expected_end, end), right: 0 }}
+                              />
+                            )}
+                            <span className="relative px-1 whitespace-nowrap">{interval.user_name}</span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={selected !== null} onOpenChange={(open: boolean) => !open && setSelected(null)}>
+        <DialogContent>
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center space-x-2">
+                  <span>{selected.transaction_type === 'booking' ? 'Reservation' : 'Check-out'} #{selected.transaction_id}</span>
+                  {selected.overdue_until && (
+                    <Badge className="bg-red-100 text-red-800 border-red-300">Overdue</Badge>
+                  )}
+                </DialogTitle>
+                <DialogDescription>
+                  {selected.equipment_name} ({selected.serial_number})
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2 text-sm">
+                <p><span className="font-medium">Borrower:</span> {selected.user_name}</p>
+                <p><span className="font-medium">From:</span> {format(selected.start, 'PPp')}</p>
+                <p>
+                  <span className="font-medium">Expected back:</span>{' '}
+                  {selected.expected_end ? format(selected.expected_end, 'PPp') : 'Not specified'}
+                </p>
+                {selected.actual_end && (
+                  <p>
+                    <span className="font-medium">{selected.transaction_type === 'booking' ? 'Hold ended' : 'Returned'}:</span>{' '}
+                    {format(selected.actual_end, 'PPp')}
+                  </p>
+                )}
+                {details?.user_contact && (
+                  <p><span className="font-medium">Contact:</span> {details.user_contact}</p>
+                )}
+                {details?.notes && (
+                  <p><span className="font-medium">Notes:</span> {details.notes}</p>
+                )}
+                {detailExtensions.map(extension => (
+                  <p key={extension.id}>
+                    <span className="font-medium">Extended {format(extension.created_at, 'PP')}:</span>{' '}
+                    to {format(extension.new_return_date, 'PPp')} ({extension.reason})
+                  </p>
+                ))}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { BorrowerRestrictions } from '@/components/BorrowerRestrictions';
+import { DepartmentSelect } from '@/components/DepartmentSelect';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { Search, UserPlus, UserRound, Package, History, ShieldAlert } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Borrower, BorrowerProfile, BorrowerRuleOverride, BorrowerTransaction } from '../../../server/src/schema';
+
+interface BorrowerDirectoryProps {
+  canEdit: boolean;
+  canRestrict: boolean;
+}
+
+const emptyForm = { name: '', organisation: '', email: '', phone: '', notes: '', department_id: null as number | null };
+
+const toForm = (borrower: Borrower) => ({
+  name: borrower.name,
+  organisation: borrower.organisation ?? '',
+  email: borrower.email ?? '',
+  phone: borrower.phone ?? '',
+  notes: borrower.notes ?? '',
+  department_id: borrower.department_id,
+});
+
+const ruleLabels: Record<BorrowerRuleOverride['rule'], string> = {
+  suspended: 'Suspension',
+  item_limit: 'Item limit',
+  value_limit: 'Value limit',
+};
+
+// Mirrors the server: a suspension without an end date lasts until it is lifted
+const isSuspended = (borrower: Borrower): boolean =>
+  borrower.suspended_at !== null && (borrower.suspended_until === null || borrower.suspended_until > new Date());
+
+const transactionLabel = ({ transaction }: BorrowerTransaction): string => {
+  switch (transaction.transaction_type) {
+    case 'check_out': return 'Checked out';
+    case 'booking': return transaction.cancelled_at ? 'Booking cancelled' : 'Booked';
+    default: return 'Checked in';
+  }
+};
+
+export function BorrowerDirectory({ canEdit, canRestrict }: BorrowerDirectoryProps) {
+  const [search, setSearch] = useState('');
+  const [borrowers, setBorrowers] = useState<Borrower[]>([]);
+  const [profile, setProfile] = useState<BorrowerProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // The same form adds a borrower, or edits the one whose profile is open
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadBorrowers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setBorrowers(await trpc.getBorrowers.query({ search: search.trim() || undefined, limit: 50 }));
+    } catch (error) {
+      console.error('Failed to load borrowers:', error);
+      toast.error('Failed to load borrowers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    loadBorrowers();
+  }, [loadBorrowers]);
+
+  const openProfile = async (borrowerId: number) => {
+    try {
+      setProfile(await trpc.getBorrowerProfile.query({ id: borrowerId }));
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Failed to load borrower profile:', error);
+      toast.error('Failed to load borrower profile');
+    }
+  };
+
+  const startEditing = (borrower: Borrower | null) => {
+    setFormData(borrower ? toForm(borrower) : emptyForm);
+    setIsEditing(true);
+    if (!borrower) {
+      setProfile(null);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    const details = {
+      name: formData.name.trim(),
+      organisation: formData.organisation.trim() || null,
+      email: formData.email.trim() || null,
+      phone: formData.phone.trim() || null,
+      notes: formData.notes.trim() || null,
+      department_id: formData.department_id,
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = profile
+        ? await trpc.updateBorrower.mutate({ id: profile.borrower.id, ...details })
+        : await trpc.createBorrower.mutate(details);
+      if (saved) {
+        toast.success(profile ? `${saved.name} updated` : `${saved.name} added to the directory`);
+        await openProfile(saved.id);
+      }
+      await loadBorrowers();
+    } catch (error) {
+      console.error('Failed to save borrower:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save borrower');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderTransactions = (rows: BorrowerTransaction[], empty: string) => rows.length === 0 ? (
+    <p className="text-sm text-gray-500">{empty}</p>
+  ) : (
+    <div className="space-y-2">
+      {rows.map((row: BorrowerTransaction) => (
+        <div key={row.transaction.id} className="flex justify-between items-start border rounded-md p-3 text-sm">
+          <div>
+            <div className="font-medium">{row.equipment.name}</div>
+            <div className="text-gray-500">{row.equipment.serial_number}</div>
+          </div>
+          <div className="text-right">
+            <Badge variant="outline">{transactionLabel(row)}</Badge>
+            <div className="text-gray-500 mt-1">{format(row.transaction.reserved_from ?? row.transaction.transaction_date, 'MMM d, yyyy HH:mm')}</div>
+            {row.transaction.transaction_type === 'check_out' && row.transaction.actual_return_date ? (
+              <div className="text-gray-500">Returned {format(row.transaction.actual_return_date, 'MMM d, yyyy HH:mm')}</div>
+            ) : row.transaction.expected_return_date && (
+              <div className="text-gray-500">Due {format(row.transaction.expected_return_date, 'MMM d, yyyy HH:mm')}</div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="space-y-4">
+        <div className="flex space-x-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search name, organisation, email..."
+              value={search}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          {canEdit && (
+            <Button variant="outline" onClick={() => startEditing(null)} title="Add borrower">
+              <UserPlus className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading borrowers...</p>
+        ) : borrowers.length === 0 ? (
+          <p className="text-sm text-gray-500">No borrowers found</p>
+        ) : (
+          <div className="space-y-1">
+            {borrowers.map((borrower: Borrower) => (
+              <button
+                key={borrower.id}
+                type="button"
+                onClick={() => openProfile(borrower.id)}
+                className={`flex w-full items-start space-x-2 rounded-md px-3 py-2 text-left hover:bg-gray-100 ${profile?.borrower.id === borrower.id ? 'bg-gray-100' : ''}`}
+              >
+                <UserRound className="h-4 w-4 mt-0.5 text-gray-400" />
+                <span>
+                  <span className="block text-sm font-medium">{borrower.name}</span>
+                  {borrower.organisation && <span className="block text-xs text-gray-500">{borrower.organisation}</span>}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="md:col-span-2 space-y-6">
+        {isEditing ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>{profile ? `Edit ${profile.borrower.name}` : 'Add Borrower'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSave} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="borrower-name">Name *</Label>
+                    <Input
+                      id="borrower-name"
+                      value={formData.name}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="borrower-organisation">Organisation</Label>
+                    <Input
+                      id="borrower-organisation"
+                      value={formData.organisation}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, organisation: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="borrower-email">Email</Label>
+                    <Input
+                      id="borrower-email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="borrower-phone">Phone</Label>
+                    <Input
+                      id="borrower-phone"
+                      value={formData.phone}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="borrower-department">Department</Label>
+                    <DepartmentSelect
+                      id="borrower-department"
+                      departmentId={formData.department_id}
+                      onChange={(departmentId: number | null) => setFormData(prev => ({ ...prev, department_id: departmentId }))}
+                      noneLabel="No department"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="borrower-notes">Notes</Label>
+                  <Textarea
+                    id="borrower-notes"
+                    value={formData.notes}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                    rows={2}
+                  />
+                </div>
+                <div className="flex space-x-2">
+                  <Button type="submit" disabled={isSaving || !formData.name.trim()}>
+                    {isSaving ? 'Saving...' : 'Save'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setIsEditing(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        ) : profile ? (
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="flex items-center space-x-2">
+                    <span>{profile.borrower.name}</span>
+                    {isSuspended(profile.borrower) && <Badge variant="destructive">Suspended</Badge>}
+                  </CardTitle>
+                  {profile.borrower.organisation && <p className="text-sm text-gray-500">{profile.borrower.organisation}</p>}
+                </div>
+                {canEdit && (
+                  <Button variant="outline" size="sm" onClick={() => startEditing(profile.borrower)}>
+                    Edit
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <div><span className="text-gray-500">Email:</span> {profile.borrower.email ?? '—'}</div>
+              <div><span className="text-gray-500">Phone:</span> {profile.borrower.phone ?? '—'}</div>
+              <div>
+                <span className="text-gray-500">Department:</span>{' '}
+                {profile.department
+                  ? [profile.department.name, profile.department.cost_centre].filter(Boolean).join(' · ')
+                  : '—'}
+              </div>
+              <div>
+                <span className="text-gray-500">Limits:</span>{' '}
+                {[
+                  profile.borrower.max_items !== null && `${profile.borrower.max_items} items`,
+                  profile.borrower.max_value !== null && `${profile.borrower.max_value} in value`,
+                ].filter(Boolean).join(', ') || 'None'}
+              </div>
+              {isSuspended(profile.borrower) && (
+                <div className="text-red-700">
+                  Suspended{profile.borrower.suspended_until && ` until ${format(profile.borrower.suspended_until, 'MMM d, yyyy HH:mm')}`}: {profile.borrower.suspension_reason}
+                </div>
+              )}
+              {profile.borrower.notes && <div className="text-gray-600 mt-2">{profile.borrower.notes}</div>}
+            </CardContent>
+          </Card>
+        ) : (
+          <p className="text-sm text-gray-500">Select a borrower to see what they hold and have borrowed</p>
+        )}
+
+        {profile && !isEditing && (
+          <>
+            {canRestrict && (
+              <BorrowerRestrictions borrower={profile.borrower} onChanged={() => openProfile(profile.borrower.id)} />
+            )}
+            <div>
+              <h3 className="flex items-center space-x-2 font-medium mb-2">
+                <Package className="h-4 w-4" />
+                <span>Currently Holding ({profile.holding.length})</span>
+              </h3>
+              {renderTransactions(profile.holding, 'Nothing checked out or booked')}
+            </div>
+            <div>
+              <h3 className="flex items-center space-x-2 font-medium mb-2">
+                <History className="h-4 w-4" />
+                <span>History</span>
+              </h3>
+              {renderTransactions(profile.history, 'No transactions yet')}
+            </div>
+            {profile.overrides.length > 0 && (
+              <div>
+                <h3 className="flex items-center space-x-2 font-medium mb-2">
+                  <ShieldAlert className="h-4 w-4" />
+                  <span>Rule Overrides</span>
+                </h3>
+                <div className="space-y-2">
+                  {profile.overrides.map((override: BorrowerRuleOverride) => (
+                    <div key={override.id} className="border rounded-md p-3 text-sm">
+                      <div className="flex justify-between">
+                        <Badge variant="outline">{ruleLabels[override.rule]}</Badge>
+                        <span className="text-gray-500">
+                          {format(override.created_at, 'MMM d, yyyy HH:mm')} · transaction #{override.transaction_id}
+                        </span>
+                      </div>
+                      <div className="text-gray-500 mt-1">{override.detail}</div>
+                      <div className="mt-1">{override.justification}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { trpc } from '@/utils/trpc';
+import { borrowerContact } from '@/utils/borrowers';
+import { UserRound } from 'lucide-react';
+import type { Borrower } from '../../../server/src/schema';
+
+interface BorrowerPickerProps {
+  id: string;
+  value: string;
+  placeholder?: string;
+  // Called with the picked directory entry, or with null once the name is typed freely
+  onChange: (name: string, borrower: Borrower | null) => void;
+}
+
+export function BorrowerPicker({ id, value, placeholder, onChange }: BorrowerPickerProps) {
+  const [suggestions, setSuggestions] = useState<Borrower[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const search = value.trim();
+    if (!isOpen || search.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    // Wait for a pause in typing before searching the directory
+    const timer = setTimeout(async () => {
+      try {
+        setSuggestions(await trpc.getBorrowers.query({ search, limit: 8 }));
+      } catch (error) {
+        console.error('Failed to search borrowers:', error);
+        setSuggestions([]);
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [value, isOpen]);
+
+  const pick = (borrower: Borrower) => {
+    onChange(borrower.name, borrower);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          onChange(e.target.value, null);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        // Let a click on a suggestion land before the list closes
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        placeholder={placeholder}
+        autoComplete="off"
+        required
+      />
+      {isOpen && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full rounded-md border bg-white shadow-md max-h-64 overflow-auto">
+          {suggestions.map((borrower: Borrower) => (
+            <li key={borrower.id}>
+              <button
+                type="button"
+                className="flex w-full items-start space-x-2 px-3 py-2 text-left hover:bg-gray-100"
+                onMouseDown={(e: React.MouseEvent) => e.preventDefault()}
+                onClick={() => pick(borrower)}
+              >
+                <UserRound className="h-4 w-4 mt-0.5 text-gray-400" />
+                <span>
+                  <span className="block text-sm font-medium">{borrower.name}</span>
+                  <span className="block text-xs text-gray-500">
+                    {[borrower.organisation, borrowerContact(borrower)].filter(Boolean).join(' · ') || 'No contact details'}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
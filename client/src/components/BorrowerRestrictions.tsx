@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { Ban } from 'lucide-react';
+import type { Borrower } from '../../../server/src/schema';
+
+interface BorrowerRestrictionsProps {
+  borrower: Borrower;
+  onChanged: () => void;
+}
+
+// Suspension and loan limits of a borrower, for admins who may also override them
+export function BorrowerRestrictions({ borrower, onChanged }: BorrowerRestrictionsProps) {
+  const [reason, setReason] = useState('');
+  const [until, setUntil] = useState('');
+  const [maxItems, setMaxItems] = useState('');
+  const [maxValue, setMaxValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setReason('');
+    setUntil('');
+    setMaxItems(borrower.max_items?.toString() ?? '');
+    setMaxValue(borrower.max_value?.toString() ?? '');
+  }, [borrower]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast.success(success);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to update borrower restrictions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update borrower restrictions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSuspend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    run(
+      () => trpc.suspendBorrower.mutate({ id: borrower.id, reason: reason.trim(), until: until ? new Date(until) : null }),
+      `${borrower.name} suspended`
+    );
+  };
+
+  const handleLimits = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(
+      () => trpc.setBorrowerLimits.mutate({
+        id: borrower.id,
+        max_items: maxItems ? Number(maxItems) : null,
+        max_value: maxValue ? Number(maxValue) : null,
+      }),
+      `Loan limits of ${borrower.name} saved`
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <Ban className="h-4 w-4" />
+          <span>Restrictions</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {borrower.suspended_at ? (
+          <Button
+            variant="outline"
+            disabled={isSaving}
+            onClick={() => run(() => trpc.reinstateBorrower.mutate({ id: borrower.id }), `${borrower.name} reinstated`)}
+          >
+            Lift Suspension
+          </Button>
+        ) : (
+          <form onSubmit={handleSuspend} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="suspend-reason">Suspension Reason *</Label>
+              <Input
+                id="suspend-reason"
+                value={reason}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReason(e.target.value)}
+                placeholder="e.g. Returned a mixer damaged"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suspend-until">Until</Label>
+              <Input
+                id="suspend-until"
+                type="datetime-local"
+                value={until}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUntil(e.target.value)}
+              />
+            </div>
+            <Button type="submit" variant="destructive" disabled={isSaving || !reason.trim()}>
+              Suspend
+            </Button>
+          </form>
+        )}
+
+        <form onSubmit={handleLimits} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="limit-items">Most Items at Once</Label>
+            <Input
+              id="limit-items"
+              type="number"
+              min="1"
+              step="1"
+              value={maxItems}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMaxItems(e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="limit-value">Most Value at Once</Label>
+            <Input
+              id="limit-value"
+              type="number"
+              min="1"
+              step="1"
+              value={maxValue}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMaxValue(e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={isSaving}>
+            Save Limits
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { KeyRound } from 'lucide-react';
+
+export function ChangePasswordDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    current_password: '',
+    new_password: '',
+    confirm_password: '',
+  });
+
+  const resetForm = () => {
+    setFormData({ current_password: '', new_password: '', confirm_password: '' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.new_password.length < 6) {
+      toast.error('Password must be at least 6 characters long');
+      return;
+    }
+
+    if (formData.new_password !== formData.confirm_password) {
+      toast.error('New passwords do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await trpc.changePassword.mutate({
+        current_password: formData.current_password,
+        new_password: formData.new_password,
+      });
+      toast.success('Password changed. Other devices have been signed out.');
+      resetForm();
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to change password:', error);
+      toast.error('Failed to change password. Check your current password.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open: boolean) => {
+        setIsOpen(open);
+        if (!open) resetForm();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="text-slate-600 hover:text-slate-800">
+          <KeyRound className="h-4 w-4 mr-2" />
+          Password
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change Password</DialogTitle>
+          <DialogDescription>
+            Update the password for your account
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current Password *</Label>
+            <Input
+              id="current-password"
+              type="password"
+              value={formData.current_password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, current_password: e.target.value }))
+              }
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New Password *</Label>
+            <Input
+              id="new-password"
+              type="password"
+              value={formData.new_password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, new_password: e.target.value }))
+              }
+              placeholder="Min 6 characters"
+              required
+              minLength={6}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Confirm New Password *</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              value={formData.confirm_password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, confirm_password: e.target.value }))
+              }
+              required
+              minLength={6}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsOpen(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSaving}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {isSaving ? 'Saving...' : 'Change Password'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { EventSelect } from '@/components/EventSelect';
+import { PackingListDownloads } from '@/components/PackingListDownloads';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { ShoppingCart, Undo2, X } from 'lucide-react';
+import type { CheckOutGroupInput, Equipment, TransactionGroupDetails } from '../../../server/src/schema';
+
+interface CheckoutCartProps {
+  onActionComplete: () => void;
+}
+
+export function CheckoutCart({ onActionComplete }: CheckoutCartProps) {
+  const [serialNumber, setSerialNumber] = useState('');
+  const [cart, setCart] = useState<Equipment[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [borrower, setBorrower] = useState({
+    user_name: '',
+    user_contact: '',
+    expected_return_date: '',
+    notes: '',
+    event_id: null as number | null,
+  });
+  const [receipt, setReceipt] = useState<TransactionGroupDetails | null>(null);
+
+  // Group return
+  const [groupNumber, setGroupNumber] = useState('');
+  const [group, setGroup] = useState<TransactionGroupDetails | null>(null);
+  const [selectedReturns, setSelectedReturns] = useState<number[]>([]);
+  const [returnNotes, setReturnNotes] = useState('');
+
+  // Barcode scanners type the serial and press Enter, so each scan adds straight to the cart
+  const addToCart = async () => {
+    const serial = serialNumber.trim();
+    if (!serial) return;
+
+    setIsScanning(true);
+    try {
+      const equipment = await trpc.getEquipmentBySerial.query({ serialNumber: serial });
+      if (!equipment) {
+        toast.error(`No equipment with serial ${serial}`);
+      } else if (cart.some(item => item.id === equipment.id)) {
+        toast.error(`${equipment.serial_number} is already in the cart`);
+      } else if (equipment.status !== 'available') {
+        toast.error(`${equipment.serial_number} is ${equipment.status.replace('_', ' ')}`);
+      } else {
+        setCart(prev => [...prev, equipment]);
+      }
+      setSerialNumber('');
+    } catch (error) {
+      console.error('Failed to look up equipment:', error);
+      toast.error('Equipment not found with that serial number');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const removeFromCart = (id: number) => {
+    setCart(prev => prev.filter(item => item.id !== id));
+  };
+
+  const handleCheckOut = async () => {
+    if (cart.length === 0 || !borrower.user_name.trim()) {
+      toast.error('Scan at least one item and enter the borrower');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const input: CheckOutGroupInput = {
+        equipment_ids: cart.map(item => item.id),
+        user_name: borrower.user_name,
+        user_contact: borrower.user_contact || null,
+        expected_return_date: borrower.expected_return_date ?
+          new Date(borrower.expected_return_date) : null,
+        notes: borrower.notes || null,
+        event_id: borrower.event_id ?? undefined,
+      };
+
+      const result = await trpc.checkOutGroup.mutate(input);
+      setReceipt(result);
+      setCart([]);
+      setBorrower({ user_name: '', user_contact: '', expected_return_date: '', notes: '', event_id: null });
+      toast.success(`${result.items.length} items checked out under receipt #${result.group.id}`);
+      onActionComplete();
+    } catch (error) {
+      console.error('Failed to check out cart:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to check out cart');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const showGroup = (details: TransactionGroupDetails | null) => {
+    setGroup(details);
+    setSelectedReturns(details ? details.outstanding.map(item => item.id) : []);
+  };
+
+  const loadGroup = async () => {
+    const id = Number(groupNumber.replace('#', '').trim());
+    if (!Number.isInteger(id) || id < 1) {
+      toast.error('Enter a receipt number');
+      return;
+    }
+
+    try {
+      const details = await trpc.getTransactionGroup.query({ id });
+      if (!details) {
+        toast.error(`No receipt #${id}`);
+      }
+      showGroup(details);
+    } catch (error) {
+      console.error('Failed to load group:', error);
+      toast.error('Failed to load receipt');
+    }
+  };
+
+  const toggleReturn = (id: number, checked: boolean) => {
+    setSelectedReturns(prev => checked ? [...prev, id] : prev.filter(selected => selected !== id));
+  };
+
+  const handleReturn = async () => {
+    if (!group || selectedReturns.length === 0) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await trpc.checkInGroup.mutate({
+        group_id: group.group.id,
+        equipment_ids: selectedReturns,
+        notes: returnNotes || null,
+      });
+      showGroup(result);
+      setReturnNotes('');
+      toast.success(result && result.outstanding.length > 0
+        ? `${result.outstanding.length} items still outstanding`
+        : 'Everything in this receipt is back');
+      onActionComplete();
+    } catch (error) {
+      console.error('Failed to check in group:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to check in group');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ShoppingCart className="h-5 w-5" />
+            <span>Cart Check-Out</span>
+          </CardTitle>
+          <CardDescription>
+            Scan several items, then check them all out to one borrower under a single receipt
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex space-x-4">
+            <Input
+              placeholder="Scan or type a serial number"
+              value={serialNumber}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSerialNumber(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addToCart()}
+              disabled={isScanning}
+            />
+            <Button onClick={addToCart} disabled={isScanning || !serialNumber.trim()} variant="outline">
+              Add
+            </Button>
+          </div>
+
+          {cart.length === 0 ? (
+            <div className="text-center py-4 text-gray-500">The cart is empty</div>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">{cart.length} items in the cart</p>
+              {cart.map((item: Equipment) => (
+                <div key={item.id} className="flex items-center justify-between p-2 rounded border border-gray-200">
+                  <div>
+                    <span className="font-medium">{item.name}</span>
+                    <span className="text-sm text-gray-600 ml-2">{item.serial_number}</span>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => removeFromCart(item.id)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="cart-user">Borrower *</Label>
+              <Input
+                id="cart-user"
+                value={borrower.user_name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setBorrower(prev => ({ ...prev, user_name: e.target.value }))
+                }
+                placeholder="Who is taking the cart?"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cart-contact">Contact Info</Label>
+              <Input
+                id="cart-contact"
+                value={borrower.user_contact}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setBorrower(prev => ({ ...prev, user_contact: e.target.value }))
+                }
+                placeholder="Phone or email (optional)"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cart-return">Expected Return Date</Label>
+              <Input
+                id="cart-return"
+                type="datetime-local"
+                value={borrower.expected_return_date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setBorrower(prev => ({ ...prev, expected_return_date: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cart-event">Event</Label>
+              <EventSelect
+                id="cart-event"
+                eventId={borrower.event_id}
+                onChange={(eventId: number | null) => setBorrower(prev => ({ ...prev, event_id: eventId }))}
+                noneLabel="No event"
+                upcoming
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cart-notes">Notes</Label>
+            <Textarea
+              id="cart-notes"
+              value={borrower.notes}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                setBorrower(prev => ({ ...prev, notes: e.target.value }))
+              }
+              placeholder="Event or purpose (optional)"
+              rows={2}
+            />
+          </div>
+
+          <Button
+            onClick={handleCheckOut}
+            disabled={isProcessing || cart.length === 0 || !borrower.user_name.trim()}
+            className="w-full bg-red-600 hover:bg-red-700"
+          >
+            {isProcessing ? 'Processing...' : `Check Out ${cart.length} Items`}
+          </Button>
+
+          {receipt && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded text-sm">
+              <p className="font-medium text-green-800">
+                Receipt #{receipt.group.id}: {receipt.items.length} items checked out to {receipt.group.user_name}
+              </p>
+              <p className="text-green-700 mt-1">
+                {receipt.items.map(item => item.equipment.serial_number).join(', ')}
+              </p>
+              <div className="mt-3">
+                <PackingListDownloads groupId={receipt.group.id} />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Undo2 className="h-5 w-5" />
+            <span>Return a Cart</span>
+          </CardTitle>
+          <CardDescription>
+            Check in some or all items of a receipt; whatever is not returned stays outstanding
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex space-x-4">
+            <Input
+              placeholder="Receipt number"
+              value={groupNumber}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGroupNumber(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && loadGroup()}
+            />
+            <Button onClick={loadGroup} disabled={!groupNumber.trim()} variant="outline">
+              Open
+            </Button>
+          </div>
+
+          {group && (
+            <>
+              <div className="text-sm text-gray-600">
+                Receipt #{group.group.id} • {group.group.user_name} • {group.items.length} items
+              </div>
+
+              <PackingListDownloads groupId={group.group.id} />
+
+              <div className="space-y-2">
+                {group.items.map(({ equipment, check_out }) => {
+                  const outstanding = check_out.actual_return_date === null;
+                  return (
+                    <div key={equipment.id} className="flex items-center justify-between p-2 rounded border border-gray-200">
+                      <label className="flex items-center space-x-3">
+                        <Checkbox
+                          checked={selectedReturns.includes(equipment.id)}
+                          onCheckedChange={(checked) => toggleReturn(equipment.id, checked === true)}
+                          disabled={!outstanding}
+                        />
+                        <span className="font-medium">{equipment.name}</span>
+                        <span className="text-sm text-gray-600">{equipment.serial_number}</span>
+                      </label>
+                      {outstanding ? (
+                        <Badge className="bg-red-100 text-red-800 border-red-300">Outstanding</Badge>
+                      ) : (
+                        <Badge className="bg-green-100 text-green-800 border-green-300">Returned</Badge>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {group.outstanding.length > 0 ? (
+                <>
+                  <p className="text-sm font-medium text-red-700">
+                    Still outstanding: {group.outstanding.map(item => item.serial_number).join(', ')}
+                  </p>
+                  <Textarea
+                    value={returnNotes}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReturnNotes(e.target.value)}
+                    placeholder="Condition notes (optional)"
+                    rows={2}
+                  />
+                  <Button
+                    onClick={handleReturn}
+                    disabled={isProcessing || selectedReturns.length === 0}
+                    className="w-full bg-green-600 hover:bg-green-700"
+                  >
+                    {isProcessing ? 'Processing...' : `Check In ${selectedReturns.length} Items`}
+                  </Button>
+                </>
+              ) : (
+                <p className="text-sm font-medium text-green-700">Everything in this receipt is back</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,9 +7,21 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { EquipmentList } from '@/components/EquipmentList';
 import { AddEquipmentForm } from '@/components/AddEquipmentForm';
+import { AddKitForm } from '@/components/AddKitForm';
 import { TransactionsList } from '@/components/TransactionsList';
 import { AdminManagement } from '@/components/AdminManagement';
+import { ApiKeyManagement } from '@/components/ApiKeyManagement';
 import { EquipmentActions } from '@/components/EquipmentActions';
+import { AvailabilitySearch } from '@/components/AvailabilitySearch';
+import { BookingCalendar } from '@/components/BookingCalendar';
+import { CheckoutCart } from '@/components/CheckoutCart';
+import { KitActions } from '@/components/KitActions';
+import { BorrowerDirectory } from '@/components/BorrowerDirectory';
+import { DepartmentManagement } from '@/components/DepartmentManagement';
+import { DepartmentUsageReport } from '@/components/DepartmentUsageReport';
+import { EventManagement } from '@/components/EventManagement';
+import { ChangePasswordDialog } from '@/components/ChangePasswordDialog';
+import { TwoFactorDialog } from '@/components/TwoFactorDialog';
 import { trpc } from '@/utils/trpc';
 import { toast } from 'sonner';
 import { 
@@ -21,17 +33,29 @@ import {
   Search,
   Filter,
   Plus,
-  Activity
+  Activity,
+  KeyRound,
+  CalendarSearch,
+  CalendarDays,
+  Boxes,
+  AlarmClock,
+  UserRound,
+  Building2,
+  Ticket
 } from 'lucide-react';
-import type { Admin, Equipment, GetEquipmentQuery } from '../../../server/src/schema';
+import type { PublicAdmin, Equipment, GetEquipmentQuery, KitDetails, OverdueCheckOut, Permission } from '../../../server/src/schema';
 
 interface DashboardProps {
-  admin: Admin;
+  admin: PublicAdmin;
+  permissions: Permission[];
   onLogout: () => void;
+  onAccountChange: () => void;
 }
 
-export function Dashboard({ admin, onLogout }: DashboardProps) {
+export function Dashboard({ admin, permissions, onLogout, onAccountChange }: DashboardProps) {
   const [equipment, setEquipment] = useState<Equipment[]>([]);
+  const [kits, setKits] = useState<KitDetails[]>([]);
+  const [overdue, setOverdue] = useState<OverdueCheckOut[]>([]);
   const [categories, setCategories] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -54,15 +78,22 @@ export function Dashboard({ admin, onLogout }: DashboardProps) {
         query.search = searchTerm.trim();
       }
 
-      const equipmentData = await trpc.getEquipment.query(query);
+      const [equipmentData, kitsData, overdueData] = await Promise.all([
+        trpc.getEquipment.query(query),
+        trpc.getKits.query(query.search ? { search: query.search } : undefined),
+        permissions.includes('transactions:read') ? trpc.getOverdueCheckOuts.query() : Promise.resolve([])
+      ]);
       setEquipment(equipmentData);
+      setOverdue(overdueData);
+      // Kits have no category of their own and take their status from their members
+      setKits(categoryFilter !== 'all' ? [] : kitsData.filter(kit => statusFilter === 'all' || kit.status === statusFilter));
     } catch (error) {
       console.error('Failed to load equipment:', error);
       toast.error('Failed to load equipment');
     } finally {
       setIsLoading(false);
     }
-  }, [searchTerm, statusFilter, categoryFilter]);
+  }, [searchTerm, statusFilter, categoryFilter, permissions]);
 
   // Load categories
   const loadCategories = useCallback(async () => {
@@ -93,6 +124,9 @@ export function Dashboard({ admin, onLogout }: DashboardProps) {
     toast.success('Equipment updated successfully!');
   }, [loadEquipment]);
 
+  // Actions are hidden when the admin's role doesn't grant them; the server enforces the same rules
+  const can = (permission: Permission) => permissions.includes(permission);
+
   // Count equipment by status
   const statusCounts = equipment.reduce((acc, item) => {
     acc[item.status] = (acc[item.status] || 0) + 1;
@@ -127,7 +161,12 @@ export function Dashboard({ admin, onLogout }: DashboardProps) {
             <div className="flex items-center space-x-4">
               <span className="text-sm text-slate-600">
                 Welcome, <span className="font-medium">{admin.username}</span>
+                <Badge variant="secondary" className="ml-2 capitalize">{admin.role}</Badge>
               </span>
+              <ChangePasswordDialog />
+              {(can('catalog:delete') || can('admins:manage') || admin.totp_enabled_at) && (
+                <TwoFactorDialog admin={admin} onChange={onAccountChange} />
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -144,7 +183,7 @@ export function Dashboard({ admin, onLogout }: DashboardProps) {
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Stats Overview */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <div className={`grid grid-cols-1 ${can('transactions:read') ? 'md:grid-cols-5' : 'md:grid-cols-4'} gap-6 mb-8`}>
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Equipment</CardTitle>
@@ -190,6 +229,32 @@ export function Dashboard({ admin, onLogout }: DashboardProps) {
               </div>
             </CardContent>
           </Card>
+
+          {can('transactions:read') && (
+            <Card className={overdue.length > 0 ? 'border-red-300' : undefined}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+                <AlarmClock className={`h-4 w-4 ${overdue.length > 0 ? 'text-red-600' : 'text-muted-foreground'}`} />
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${overdue.length > 0 ? 'text-red-700' : ''}`}>
+                  {overdue.length}
+                </div>
+                {overdue.slice(0, 3).map(({ check_out, equipment: item, reminders }) => {
+                  const sent = reminders.filter(reminder => reminder.recipient !== null).length;
+                  return (
+                    <p key={check_out.id} className="text-xs text-gray-600 truncate">
+                      {item.serial_number} • {check_out.user_name} • due {check_out.expected_return_date!.toLocaleDateString()}
+                      {sent > 0 && ` • ${sent} reminders`}
+                    </p>
+                  );
+                })}
+                {overdue.length > 3 && (
+                  <p className="text-xs text-gray-500">and {overdue.length - 3} more</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Main Content */}
@@ -203,14 +268,46 @@ export function Dashboard({ admin, onLogout }: DashboardProps) {
               <Activity className="h-4 w-4" />
               <span>Transactions</span>
             </TabsTrigger>
-            <TabsTrigger value="actions" className="flex items-center space-x-2">
-              <Clock className="h-4 w-4" />
-              <span>Quick Actions</span>
-            </TabsTrigger>
-            <TabsTrigger value="admin" className="flex items-center space-x-2">
-              <Users className="h-4 w-4" />
-              <span>Admin</span>
+            {can('transactions:read') && (
+              <TabsTrigger value="calendar" className="flex items-center space-x-2">
+                <CalendarDays className="h-4 w-4" />
+                <span>Calendar</span>
+              </TabsTrigger>
+            )}
+            {can('transactions:read') && (
+              <TabsTrigger value="borrowers" className="flex items-center space-x-2">
+                <UserRound className="h-4 w-4" />
+                <span>Borrowers</span>
+              </TabsTrigger>
+            )}
+            {can('transactions:read') && (
+              <TabsTrigger value="departments" className="flex items-center space-x-2">
+                <Building2 className="h-4 w-4" />
+                <span>Departments</span>
+              </TabsTrigger>
+            )}
+            {can('transactions:read') && (
+              <TabsTrigger value="events" className="flex items-center space-x-2">
+                <Ticket className="h-4 w-4" />
+                <span>Events</span>
+              </TabsTrigger>
+            )}
+            {can('transactions:write') && (
+              <TabsTrigger value="actions" className="flex items-center space-x-2">
+                <Clock className="h-4 w-4" />
+                <span>Quick Actions</span>
+              </TabsTrigger>
+            )}
+            <TabsTrigger value="api-keys" className="flex items-center space-x-2">
+              <KeyRound className="h-4 w-4" />
+              <span>API Keys</span>
             </TabsTrigger>
+            {can('admins:manage') && (
+              <TabsTrigger value="admin" className="flex items-center space-x-2">
+                <Users className="h-4 w-4" />
+                <span>Admin</span>
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="equipment" className="space-y-6">
@@ -279,24 +376,65 @@ export function Dashboard({ admin, onLogout }: DashboardProps) {
               </CardContent>
             </Card>
 
+            {/* Availability Search */}
+            {can('transactions:read') && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <CalendarSearch className="h-5 w-5" />
+                    <span>Check Availability</span>
+                  </CardTitle>
+                  <CardDescription>
+                    Find units free for a whole time window, using the search and category filters above
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AvailabilitySearch
+                    searchTerm={searchTerm}
+                    category={categoryFilter !== 'all' ? categoryFilter : null}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Add Equipment Form */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center space-x-2">
-                  <Plus className="h-5 w-5" />
-                  <span>Add New Equipment</span>
-                </CardTitle>
-                <CardDescription>
-                  Add new sound equipment to the warehouse inventory
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <AddEquipmentForm 
-                  adminId={admin.id} 
-                  onEquipmentAdded={handleEquipmentAdded}
-                />
-              </CardContent>
-            </Card>
+            {can('catalog:write') && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Plus className="h-5 w-5" />
+                    <span>Add New Equipment</span>
+                  </CardTitle>
+                  <CardDescription>
+                    Add new sound equipment to the warehouse inventory
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AddEquipmentForm 
+                    adminId={admin.id} 
+                    onEquipmentAdded={handleEquipmentAdded}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Add Kit Form */}
+            {can('catalog:write') && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Boxes className="h-5 w-5" />
+                    <span>Add New Kit</span>
+                  </CardTitle>
+                  <CardDescription>
+                    Bundle items that always travel together, so they check out and return as one unit
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AddKitForm onKitAdded={handleEquipmentUpdated} />
+                </CardContent>
+              </Card>
+            )}
 
             {/* Equipment List */}
             <Card>
@@ -309,7 +447,10 @@ export function Dashboard({ admin, onLogout }: DashboardProps) {
               <CardContent>
                 <EquipmentList 
                   equipment={equipment}
+                  kits={kits}
                   isLoading={isLoading}
+                  canEdit={can('catalog:write')}
+                  canDelete={can('catalog:delete')}
                   onEquipmentUpdated={handleEquipmentUpdated}
                 />
               </CardContent>
@@ -325,41 +466,140 @@ export function Dashboard({ admin, onLogout }: DashboardProps) {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <TransactionsList />
+                <TransactionsList canExtend={can('transactions:write')} />
               </CardContent>
             </Card>
           </TabsContent>
 
-          <TabsContent value="actions">
-            <Card>
-              <CardHeader>
-                <CardTitle>Quick Actions</CardTitle>
-                <CardDescription>
-                  Check out, check in, or book equipment by serial number
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <EquipmentActions 
-                  adminId={admin.id} 
-                  onActionComplete={handleEquipmentUpdated}
-                />
-              </CardContent>
-            </Card>
-          </TabsContent>
+          {can('transactions:read') && (
+            <TabsContent value="calendar">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Booking Calendar</CardTitle>
+                  <CardDescription>
+                    Who has what and when: check-outs, reservations and overdue returns
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BookingCalendar />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {can('transactions:read') && (
+            <TabsContent value="borrowers">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Borrowers</CardTitle>
+                  <CardDescription>
+                    Everyone equipment is lent to, what they hold now and what they borrowed before
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BorrowerDirectory canEdit={can('transactions:write')} canRestrict={can('borrowers:restrict')} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {can('transactions:read') && (
+            <TabsContent value="departments" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Charge-back Report</CardTitle>
+                  <CardDescription>
+                    Item-days borrowed, overdue days and damage costs per department over a period
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <DepartmentUsageReport />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Departments</CardTitle>
+                  <CardDescription>
+                    The departments and cost centres that loans are charged to
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <DepartmentManagement canEdit={can('transactions:write')} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {can('transactions:read') && (
+            <TabsContent value="events">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Events</CardTitle>
+                  <CardDescription>
+                    Gigs with their venue, dates and crew lead, and every piece allocated to them
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <EventManagement canEdit={can('transactions:write')} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
 
-          <TabsContent value="admin">
+          {can('transactions:write') && (
+            <TabsContent value="actions">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Quick Actions</CardTitle>
+                  <CardDescription>
+                    Check out, check in, or book equipment by serial number
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <EquipmentActions 
+                    canOverride={can('borrowers:restrict')}
+                    onActionComplete={handleEquipmentUpdated}
+                  />
+                </CardContent>
+              </Card>
+              <div className="mt-6">
+                <KitActions onActionComplete={handleEquipmentUpdated} />
+              </div>
+              <div className="mt-6">
+                <CheckoutCart onActionComplete={handleEquipmentUpdated} />
+              </div>
+            </TabsContent>
+          )}
+
+          <TabsContent value="api-keys">
             <Card>
               <CardHeader>
-                <CardTitle>Admin Management</CardTitle>
+                <CardTitle>API Keys</CardTitle>
                 <CardDescription>
-                  Manage administrator accounts
+                  Keys for scripts and devices that use the API without signing in
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <AdminManagement currentAdmin={admin} />
+                <ApiKeyManagement currentAdmin={admin} permissions={permissions} />
               </CardContent>
             </Card>
           </TabsContent>
+
+          {can('admins:manage') && (
+            <TabsContent value="admin">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Admin Management</CardTitle>
+                  <CardDescription>
+                    Manage administrator accounts
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AdminManagement currentAdmin={admin} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
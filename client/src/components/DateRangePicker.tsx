@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import type { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarRange } from 'lucide-react';
+
+interface DateRangePickerProps {
+  id?: string;
+  value: DateRange | undefined;
+  onChange: (range: DateRange | undefined) => void;
+  disabled?: boolean;
+  // Days before this one cannot be picked
+  fromDate?: Date;
+}
+
+const describeRange = (range: DateRange | undefined): string => {
+  if (!range?.from) {
+    return 'Pick a date range';
+  }
+  if (!range.to) {
+    return `${format(range.from, 'PP')} – ...`;
+  }
+  return `${format(range.from, 'PP')} – ${format(range.to, 'PP')}`;
+};
+
+export function DateRangePicker({ id, value, onChange, disabled, fromDate }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className="w-full justify-start font-normal"
+        >
+          <CalendarRange className="h-4 w-4 mr-2" />
+          <span className={value?.from ? '' : 'text-gray-500'}>{describeRange(value)}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          selected={value}
+          onSelect={onChange}
+          defaultMonth={value?.from}
+          numberOfMonths={2}
+          disabled={fromDate ? { before: fromDate } : undefined}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
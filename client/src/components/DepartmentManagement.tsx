@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { Building2, Pencil } from 'lucide-react';
+import type { Department } from '../../../server/src/schema';
+
+interface DepartmentManagementProps {
+  canEdit: boolean;
+}
+
+const emptyForm = { name: '', cost_centre: '' };
+
+// The departments loans are charged to; the same form adds one or edits the picked one
+export function DepartmentManagement({ canEdit }: DepartmentManagementProps) {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadDepartments = useCallback(async () => {
+    try {
+      setDepartments(await trpc.getDepartments.query());
+    } catch (error) {
+      console.error('Failed to load departments:', error);
+      toast.error('Failed to load departments');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDepartments();
+  }, [loadDepartments]);
+
+  const startEditing = (department: Department) => {
+    setEditingId(department.id);
+    setFormData({ name: department.name, cost_centre: department.cost_centre ?? '' });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    const details = { name: formData.name.trim(), cost_centre: formData.cost_centre.trim() || null };
+
+    setIsSaving(true);
+    try {
+      const saved = editingId
+        ? await trpc.updateDepartment.mutate({ id: editingId, ...details })
+        : await trpc.createDepartment.mutate(details);
+      if (saved) {
+        toast.success(editingId ? `${saved.name} updated` : `${saved.name} added`);
+      }
+      resetForm();
+      await loadDepartments();
+    } catch (error) {
+      console.error('Failed to save department:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save department');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {departments.length === 0 ? (
+        <p className="text-sm text-gray-500">No departments yet</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {departments.map((department: Department) => (
+            <li key={department.id} className="flex items-center justify-between px-3 py-2">
+              <span className="flex items-center space-x-2">
+                <Building2 className="h-4 w-4 text-gray-400" />
+                <span className="text-sm font-medium">{department.name}</span>
+                {department.cost_centre && <span className="text-xs text-gray-500">{department.cost_centre}</span>}
+              </span>
+              {canEdit && (
+                <Button variant="ghost" size="sm" onClick={() => startEditing(department)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="department-name">Name *</Label>
+            <Input
+              id="department-name"
+              value={formData.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. Drama Society"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="department-cost-centre">Cost Centre</Label>
+            <Input
+              id="department-cost-centre"
+              value={formData.cost_centre}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData(prev => ({ ...prev, cost_centre: e.target.value }))}
+              placeholder="e.g. CC-4100"
+            />
+          </div>
+          <div className="flex space-x-2">
+            <Button type="submit" disabled={isSaving || !formData.name.trim()}>
+              {editingId ? 'Save' : 'Add Department'}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
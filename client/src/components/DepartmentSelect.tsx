@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import type { Department } from '../../../server/src/schema';
+
+interface DepartmentSelectProps {
+  id: string;
+  departmentId: number | null;
+  onChange: (departmentId: number | null) => void;
+  // What picking no department means on this form
+  noneLabel: string;
+}
+
+// Select items cannot have an empty value, so "no department" gets one of its own
+const NONE = 'none';
+
+export function DepartmentSelect({ id, departmentId, onChange, noneLabel }: DepartmentSelectProps) {
+  const [departments, setDepartments] = useState<Department[]>([]);
+
+  useEffect(() => {
+    trpc.getDepartments.query()
+      .then(setDepartments)
+      .catch((error: unknown) => {
+        console.error('Failed to load departments:', error);
+        setDepartments([]);
+      });
+  }, []);
+
+  return (
+    <Select
+      value={departmentId === null ? NONE : departmentId.toString()}
+      onValueChange={(selected: string) => onChange(selected === NONE ? null : Number(selected))}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{noneLabel}</SelectItem>
+        {departments.map((department: Department) => (
+          <SelectItem key={department.id} value={department.id.toString()}>
+            {department.cost_centre ? `${department.name} (${department.cost_centre})` : department.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -6,25 +6,59 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { DateRangePicker } from '@/components/DateRangePicker';
+import { BorrowerPicker } from '@/components/BorrowerPicker';
+import { DepartmentSelect } from '@/components/DepartmentSelect';
+import { EventSelect } from '@/components/EventSelect';
+import { RuleOverrideDialog } from '@/components/RuleOverrideDialog';
 import { trpc } from '@/utils/trpc';
+import { atTime } from '@/utils/dates';
+import { borrowerContact, isLoanRefusal } from '@/utils/borrowers';
 import { toast } from 'sonner';
-import { Search, ArrowRight, ArrowLeft, Calendar } from 'lucide-react';
-import type { Equipment, CheckOutEquipmentInput, CheckInEquipmentInput, BookEquipmentInput } from '../../../server/src/schema';
+import { Search, ArrowRight, ArrowLeft, Calendar, CalendarRange, PackageCheck } from 'lucide-react';
+import type { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import type {
+  Borrower,
+  Equipment,
+  EquipmentTransaction,
+  CheckOutEquipmentInput,
+  CheckInEquipmentInput,
+  BookEquipmentInput,
+  ReserveEquipmentInput,
+  PickUpReservationInput
+} from '../../../server/src/schema';
 
 interface EquipmentActionsProps {
-  adminId: number;
+  canOverride: boolean;
   onActionComplete: () => void;
 }
 
-export function EquipmentActions({ adminId, onActionComplete }: EquipmentActionsProps) {
+// A borrower picked from the directory fills in their contact; typing a name unlinks it again
+const pickBorrower = <T extends { user_name: string; borrower_id: number | null; user_contact: string }>(
+  data: T,
+  name: string,
+  borrower: Borrower | null
+): T => borrower
+  ? { ...data, user_name: name, borrower_id: borrower.id, user_contact: borrowerContact(borrower) }
+  : { ...data, user_name: name, borrower_id: null };
+
+export function EquipmentActions({ canOverride, onActionComplete }: EquipmentActionsProps) {
   const [serialNumber, setSerialNumber] = useState('');
   const [foundEquipment, setFoundEquipment] = useState<Equipment | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
 
+  // A check-out or booking refused by a borrower rule, and how to retry it with an override
+  const [refusal, setRefusal] = useState<{ message: string; retry: (justification: string) => Promise<void> } | null>(null);
+
   // Check-out form data
   const [checkOutData, setCheckOutData] = useState({
     user_name: '',
+    borrower_id: null as number | null,
+    department_id: null as number | null, // Null charges the borrower's own department
+    event_id: null as number | null,
     user_contact: '',
     expected_return_date: '',
     notes: '',
@@ -33,16 +67,92 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
   // Check-in form data
   const [checkInData, setCheckInData] = useState({
     notes: '',
+    damage_cost: '',
   });
 
   // Booking form data
   const [bookingData, setBookingData] = useState({
     user_name: '',
+    borrower_id: null as number | null,
+    department_id: null as number | null,
+    event_id: null as number | null,
+    user_contact: '',
+    expected_return_date: '',
+    notes: '',
+  });
+
+  // Reservation form data; the picked days are combined with the times when submitting
+  const [reservationData, setReservationData] = useState({
+    user_name: '',
+    borrower_id: null as number | null,
+    department_id: null as number | null,
+    event_id: null as number | null,
+    user_contact: '',
+    start_time: '09:00',
+    end_time: '17:00',
+    notes: '',
+  });
+  const [reservationRange, setReservationRange] = useState<DateRange | undefined>();
+
+  // Open bookings of the found item and the pickup form, prefilled from the selected booking
+  const [reservations, setReservations] = useState<EquipmentTransaction[]>([]);
+  const [selectedBookingId, setSelectedBookingId] = useState<number | null>(null);
+  const [pickupData, setPickupData] = useState({
     user_contact: '',
     expected_return_date: '',
     notes: '',
   });
 
+  // Accessories of the found item, and the ones ticked to go out or come back with it
+  const [accessories, setAccessories] = useState<Equipment[]>([]);
+  const [accessoryIds, setAccessoryIds] = useState<number[]>([]);
+
+  const toDateTimeInput = (date: Date | null): string => date ? format(date, "yyyy-MM-dd'T'HH:mm") : '';
+
+  const selectBooking = (booking: EquipmentTransaction) => {
+    setSelectedBookingId(booking.id);
+    setPickupData({
+      user_contact: booking.user_contact ?? '',
+      expected_return_date: toDateTimeInput(booking.expected_return_date),
+      notes: booking.notes ?? '',
+    });
+  };
+
+  const loadReservations = async (equipmentId: number) => {
+    try {
+      const result = await trpc.getReservations.query({ equipment_id: equipmentId });
+      setReservations(result);
+      if (result.length > 0) {
+        selectBooking(result[0]);
+      } else {
+        setSelectedBookingId(null);
+      }
+    } catch (error) {
+      console.error('Failed to load reservations:', error);
+      setReservations([]);
+    }
+  };
+
+  const loadAccessories = async (equipment: Equipment) => {
+    try {
+      const details = await trpc.getEquipmentWithTransactions.query({ equipmentId: equipment.id });
+      const list = details?.accessories ?? [];
+      setAccessories(list);
+      // Offer everything that can travel with the item: free accessories on the way out,
+      // and the ones that went with it on the way back
+      const travelling = equipment.status === 'available' ? 'available' : 'checked_out';
+      setAccessoryIds(list.filter(accessory => accessory.status === travelling).map(accessory => accessory.id));
+    } catch (error) {
+      console.error('Failed to load accessories:', error);
+      setAccessories([]);
+      setAccessoryIds([]);
+    }
+  };
+
+  const toggleAccessory = (id: number, checked: boolean) => {
+    setAccessoryIds(prev => checked ? [...prev, id] : prev.filter(selected => selected !== id));
+  };
+
   const searchEquipment = async () => {
     if (!serialNumber.trim()) {
       toast.error('Please enter a serial number');
@@ -55,6 +165,10 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
         serialNumber: serialNumber.trim() 
       });
       setFoundEquipment(equipment);
+      if (equipment) {
+        await loadReservations(equipment.id);
+        await loadAccessories(equipment);
+      }
       toast.success('Equipment found!');
     } catch (error) {
       console.error('Equipment not found:', error);
@@ -65,7 +179,17 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
     }
   };
 
-  const handleCheckOut = async () => {
+  // Managers are offered to override a refusal; everyone else sees why the loan was refused
+  const handleRefusal = (error: unknown, overrideReason: string | undefined, retry: (justification: string) => Promise<void>, fallback: string) => {
+    if (isLoanRefusal(error) && canOverride && overrideReason === undefined) {
+      setRefusal({ message: error.message, retry });
+    } else {
+      setRefusal(null);
+      toast.error(isLoanRefusal(error) ? error.message : fallback);
+    }
+  };
+
+  const handleCheckOut = async (overrideReason?: string) => {
     if (!foundEquipment || !checkOutData.user_name.trim()) {
       toast.error('Please fill in all required fields');
       return;
@@ -75,21 +199,26 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
     try {
       const input: CheckOutEquipmentInput = {
         equipment_id: foundEquipment.id,
-        admin_id: adminId,
         user_name: checkOutData.user_name,
+        borrower_id: checkOutData.borrower_id ?? undefined,
+        department_id: checkOutData.department_id ?? undefined,
+        event_id: checkOutData.event_id ?? undefined,
         user_contact: checkOutData.user_contact || null,
         expected_return_date: checkOutData.expected_return_date ? 
           new Date(checkOutData.expected_return_date) : null,
         notes: checkOutData.notes || null,
+        accessory_ids: checkOutAccessories.filter(accessory => accessoryIds.includes(accessory.id)).map(accessory => accessory.id),
+        override_reason: overrideReason,
       };
 
       await trpc.checkOutEquipment.mutate(input);
       toast.success(`Equipment checked out to ${checkOutData.user_name}`);
+      setRefusal(null);
       resetForm();
       onActionComplete();
     } catch (error) {
       console.error('Failed to check out equipment:', error);
-      toast.error('Failed to check out equipment');
+      handleRefusal(error, overrideReason, handleCheckOut, 'Failed to check out equipment');
     } finally {
       setIsProcessing(false);
     }
@@ -102,23 +231,28 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
     try {
       const input: CheckInEquipmentInput = {
         equipment_id: foundEquipment.id,
-        admin_id: adminId,
+        accessory_ids: checkInAccessories.filter(accessory => accessoryIds.includes(accessory.id)).map(accessory => accessory.id),
         notes: checkInData.notes || null,
+        damage_cost: checkInData.damage_cost ? Number(checkInData.damage_cost) : null,
       };
 
       await trpc.checkInEquipment.mutate(input);
-      toast.success('Equipment checked in successfully');
+      if (missingAccessories.length > 0) {
+        toast.warning(`Checked in without ${missingAccessories.map(accessory => accessory.serial_number).join(', ')}; they stay outstanding`);
+      } else {
+        toast.success('Equipment checked in successfully');
+      }
       resetForm();
       onActionComplete();
     } catch (error) {
       console.error('Failed to check in equipment:', error);
-      toast.error('Failed to check in equipment');
+      toast.error(error instanceof Error ? error.message : 'Failed to check in equipment');
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleBooking = async () => {
+  const handleBooking = async (overrideReason?: string) => {
     if (!foundEquipment || !bookingData.user_name.trim() || !bookingData.expected_return_date) {
       toast.error('Please fill in all required fields');
       return;
@@ -128,20 +262,116 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
     try {
       const input: BookEquipmentInput = {
         equipment_id: foundEquipment.id,
-        admin_id: adminId,
         user_name: bookingData.user_name,
+        borrower_id: bookingData.borrower_id ?? undefined,
+        department_id: bookingData.department_id ?? undefined,
+        event_id: bookingData.event_id ?? undefined,
         user_contact: bookingData.user_contact || null,
         expected_return_date: new Date(bookingData.expected_return_date),
         notes: bookingData.notes || null,
+        override_reason: overrideReason,
       };
 
       await trpc.bookEquipment.mutate(input);
       toast.success(`Equipment booked for ${bookingData.user_name}`);
+      setRefusal(null);
       resetForm();
       onActionComplete();
     } catch (error) {
       console.error('Failed to book equipment:', error);
-      toast.error('Failed to book equipment');
+      handleRefusal(error, overrideReason, handleBooking, 'Failed to book equipment');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleReservation = async (overrideReason?: string) => {
+    if (!foundEquipment || !reservationData.user_name.trim() || !reservationRange?.from) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    // A single picked day reserves from the start time to the end time of that day
+    const startDate = atTime(reservationRange.from, reservationData.start_time);
+    const endDate = atTime(reservationRange.to ?? reservationRange.from, reservationData.end_time);
+    if (endDate <= startDate) {
+      toast.error('The reservation must end after it starts');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const input: ReserveEquipmentInput = {
+        equipment_id: foundEquipment.id,
+        user_name: reservationData.user_name,
+        borrower_id: reservationData.borrower_id ?? undefined,
+        department_id: reservationData.department_id ?? undefined,
+        event_id: reservationData.event_id ?? undefined,
+        user_contact: reservationData.user_contact || null,
+        start_date: startDate,
+        end_date: endDate,
+        notes: reservationData.notes || null,
+        override_reason: overrideReason,
+      };
+
+      await trpc.reserveEquipment.mutate(input);
+      toast.success(`Equipment reserved for ${reservationData.user_name}`);
+      resetForm();
+      onActionComplete();
+    } catch (error) {
+      console.error('Failed to reserve equipment:', error);
+      // Conflict errors name the clashing reservation, so show them as they are
+      handleRefusal(error, overrideReason, handleReservation, error instanceof Error ? error.message : 'Failed to reserve equipment');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handlePickup = async (overrideReason?: string) => {
+    const booking = reservations.find(reservation => reservation.id === selectedBookingId);
+    if (!booking) {
+      toast.error('Please select a reservation');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const input: PickUpReservationInput = {
+        booking_id: booking.id,
+        user_contact: pickupData.user_contact || null,
+        expected_return_date: pickupData.expected_return_date ?
+          new Date(pickupData.expected_return_date) : null,
+        notes: pickupData.notes || null,
+        override_reason: overrideReason,
+      };
+
+      await trpc.pickUpReservation.mutate(input);
+      toast.success(`Equipment picked up by ${booking.user_name}`);
+      resetForm();
+      onActionComplete();
+    } catch (error) {
+      console.error('Failed to pick up reservation:', error);
+      handleRefusal(error, overrideReason, handlePickup, error instanceof Error ? error.message : 'Failed to pick up reservation');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCancelReservation = async (booking: EquipmentTransaction) => {
+    setIsProcessing(true);
+    try {
+      await trpc.cancelReservation.mutate({ id: booking.id });
+      toast.success(`Reservation for ${booking.user_name} cancelled`);
+      if (foundEquipment) {
+        // Cancelling an immediate booking frees the item, so refresh its status too
+        const equipment = await trpc.getEquipmentBySerial.query({ serialNumber: foundEquipment.serial_number });
+        setFoundEquipment(equipment);
+        await loadReservations(foundEquipment.id);
+      }
+      onActionComplete();
+    } catch (error) {
+      console.error('Failed to cancel reservation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel reservation');
     } finally {
       setIsProcessing(false);
     }
@@ -150,9 +380,16 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
   const resetForm = () => {
     setSerialNumber('');
     setFoundEquipment(null);
-    setCheckOutData({ user_name: '', user_contact: '', expected_return_date: '', notes: '' });
-    setCheckInData({ notes: '' });
-    setBookingData({ user_name: '', user_contact: '', expected_return_date: '', notes: '' });
+    setCheckOutData({ user_name: '', borrower_id: null, department_id: null, event_id: null, user_contact: '', expected_return_date: '', notes: '' });
+    setCheckInData({ notes: '', damage_cost: '' });
+    setBookingData({ user_name: '', borrower_id: null, department_id: null, event_id: null, user_contact: '', expected_return_date: '', notes: '' });
+    setReservationData({ user_name: '', borrower_id: null, department_id: null, event_id: null, user_contact: '', start_time: '09:00', end_time: '17:00', notes: '' });
+    setReservationRange(undefined);
+    setReservations([]);
+    setSelectedBookingId(null);
+    setPickupData({ user_contact: '', expected_return_date: '', notes: '' });
+    setAccessories([]);
+    setAccessoryIds([]);
   };
 
   const getStatusColor = (status: string) => {
@@ -168,6 +405,32 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
   const canCheckOut = foundEquipment?.status === 'available';
   const canCheckIn = foundEquipment?.status === 'checked_out';
   const canBook = foundEquipment?.status === 'available';
+  const canPickUp = reservations.length > 0;
+
+  const checkOutAccessories = accessories.filter(accessory => accessory.status === 'available');
+  const checkInAccessories = accessories.filter(accessory => accessory.status === 'checked_out');
+  const missingAccessories = checkInAccessories.filter(accessory => !accessoryIds.includes(accessory.id));
+
+  const accessoryChecklist = (list: Equipment[], flagMissing: boolean) => (
+    <div className="space-y-2">
+      <Label>{flagMissing ? 'Accessories returned' : 'Include accessories'}</Label>
+      {list.map(accessory => (
+        <div key={accessory.id} className="flex items-center justify-between p-2 rounded border border-gray-200">
+          <label className="flex items-center space-x-3">
+            <Checkbox
+              checked={accessoryIds.includes(accessory.id)}
+              onCheckedChange={(checked) => toggleAccessory(accessory.id, checked === true)}
+            />
+            <span className="font-medium">{accessory.name}</span>
+            <span className="text-sm text-gray-600">{accessory.serial_number}</span>
+          </label>
+          {flagMissing && !accessoryIds.includes(accessory.id) && (
+            <Badge className="bg-red-100 text-red-800 border-red-300">Missing</Badge>
+          )}
+        </div>
+      ))}
+    </div>
+  );
 
   return (
     <div className="space-y-6">
@@ -231,12 +494,22 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
                 {foundEquipment.description && (
                   <p className="text-sm text-gray-600">{foundEquipment.description}</p>
                 )}
+                {accessories.length > 0 && (
+                  <p className="text-sm text-gray-600">
+                    Accessories: {accessories.map(accessory => accessory.name).join(', ')}
+                  </p>
+                )}
+                {foundEquipment.status !== 'checked_out' && checkInAccessories.length > 0 && (
+                  <p className="text-sm text-red-600 font-medium">
+                    Still outstanding: {checkInAccessories.map(accessory => accessory.serial_number).join(', ')}
+                  </p>
+                )}
               </div>
             </div>
 
             {/* Action Tabs */}
             <Tabs defaultValue="checkout" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger 
                   value="checkout" 
                   disabled={!canCheckOut}
@@ -261,6 +534,21 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
                   <Calendar className="h-4 w-4" />
                   <span>Book</span>
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="reserve" 
+                  className="flex items-center space-x-2"
+                >
+                  <CalendarRange className="h-4 w-4" />
+                  <span>Reserve</span>
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="pickup" 
+                  disabled={!canPickUp}
+                  className="flex items-center space-x-2"
+                >
+                  <PackageCheck className="h-4 w-4" />
+                  <span>Pick Up</span>
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="checkout" className="space-y-4 mt-4">
@@ -269,14 +557,13 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div className="space-y-2">
                         <Label htmlFor="checkout-user">User Name *</Label>
-                        <Input
+                        <BorrowerPicker
                           id="checkout-user"
                           value={checkOutData.user_name}
-                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                            setCheckOutData(prev => ({ ...prev, user_name: e.target.value }))
+                          onChange={(name: string, borrower: Borrower | null) =>
+                            setCheckOutData(prev => pickBorrower(prev, name, borrower))
                           }
                           placeholder="Who is taking this equipment?"
-                          required
                         />
                       </div>
                       
@@ -303,8 +590,35 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
                           }
                         />
                       </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="checkout-department">Department</Label>
+                        <DepartmentSelect
+                          id="checkout-department"
+                          departmentId={checkOutData.department_id}
+                          onChange={(departmentId: number | null) =>
+                            setCheckOutData(prev => ({ ...prev, department_id: departmentId }))
+                          }
+                          noneLabel="Borrower's department"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="checkout-event">Event</Label>
+                        <EventSelect
+                          id="checkout-event"
+                          eventId={checkOutData.event_id}
+                          onChange={(eventId: number | null) =>
+                            setCheckOutData(prev => ({ ...prev, event_id: eventId }))
+                          }
+                          noneLabel="No event"
+                          upcoming
+                        />
+                      </div>
                     </div>
                     
+                    {checkOutAccessories.length > 0 && accessoryChecklist(checkOutAccessories, false)}
+
                     <div className="space-y-2">
                       <Label htmlFor="checkout-notes">Notes</Label>
                       <Textarea
@@ -319,7 +633,7 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
                     </div>
                     
                     <Button
-                      onClick={handleCheckOut}
+                      onClick={() => handleCheckOut()}
                       disabled={isProcessing || !checkOutData.user_name.trim()}
                       className="w-full bg-red-600 hover:bg-red-700"
                     >
@@ -336,6 +650,25 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
               <TabsContent value="checkin" className="space-y-4 mt-4">
                 {canCheckIn ? (
                   <>
+                    {checkInAccessories.length > 0 && accessoryChecklist(checkInAccessories, true)}
+
+                    {foundEquipment.status === 'checked_out' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="checkin-damage">Damage Cost</Label>
+                        <Input
+                          id="checkin-damage"
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={checkInData.damage_cost}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setCheckInData(prev => ({ ...prev, damage_cost: e.target.value }))
+                          }
+                          placeholder="Repair cost, if it came back damaged (optional)"
+                        />
+                      </div>
+                    )}
+
                     <div className="space-y-2">
                       <Label htmlFor="checkin-notes">Notes</Label>
                       <Textarea
@@ -370,14 +703,13 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div className="space-y-2">
                         <Label htmlFor="book-user">User Name *</Label>
-                        <Input
+                        <BorrowerPicker
                           id="book-user"
                           value={bookingData.user_name}
-                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                            setBookingData(prev => ({ ...prev, user_name: e.target.value }))
+                          onChange={(name: string, borrower: Borrower | null) =>
+                            setBookingData(prev => pickBorrower(prev, name, borrower))
                           }
                           placeholder="Who is booking this equipment?"
-                          required
                         />
                       </div>
                       
@@ -405,6 +737,31 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
                           required
                         />
                       </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="book-department">Department</Label>
+                        <DepartmentSelect
+                          id="book-department"
+                          departmentId={bookingData.department_id}
+                          onChange={(departmentId: number | null) =>
+                            setBookingData(prev => ({ ...prev, department_id: departmentId }))
+                          }
+                          noneLabel="Borrower's department"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="book-event">Event</Label>
+                        <EventSelect
+                          id="book-event"
+                          eventId={bookingData.event_id}
+                          onChange={(eventId: number | null) =>
+                            setBookingData(prev => ({ ...prev, event_id: eventId }))
+                          }
+                          noneLabel="No event"
+                          upcoming
+                        />
+                      </div>
                     </div>
                     
                     <div className="space-y-2">
@@ -421,7 +778,7 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
                     </div>
                     
                     <Button
-                      onClick={handleBooking}
+                      onClick={() => handleBooking()}
                       disabled={isProcessing || !bookingData.user_name.trim() || !bookingData.expected_return_date}
                       className="w-full bg-yellow-600 hover:bg-yellow-700"
                     >
@@ -434,10 +791,216 @@ export function EquipmentActions({ adminId, onActionComplete }: EquipmentActions
                   </div>
                 )}
               </TabsContent>
+
+              <TabsContent value="reserve" className="space-y-4 mt-4">
+                <p className="text-sm text-gray-600">
+                  Hold this item for a future date range. Its status stays as it is until pickup.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="reserve-user">User Name *</Label>
+                    <BorrowerPicker
+                      id="reserve-user"
+                      value={reservationData.user_name}
+                      onChange={(name: string, borrower: Borrower | null) =>
+                        setReservationData(prev => pickBorrower(prev, name, borrower))
+                      }
+                      placeholder="Who is reserving this equipment?"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="reserve-contact">Contact Info</Label>
+                    <Input
+                      id="reserve-contact"
+                      value={reservationData.user_contact}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setReservationData(prev => ({ ...prev, user_contact: e.target.value }))
+                      }
+                      placeholder="Phone or email (optional)"
+                    />
+                  </div>
+
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="reserve-department">Department</Label>
+                    <DepartmentSelect
+                      id="reserve-department"
+                      departmentId={reservationData.department_id}
+                      onChange={(departmentId: number | null) =>
+                        setReservationData(prev => ({ ...prev, department_id: departmentId }))
+                      }
+                      noneLabel="Borrower's department"
+                    />
+                  </div>
+
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="reserve-event">Event</Label>
+                    <EventSelect
+                      id="reserve-event"
+                      eventId={reservationData.event_id}
+                      onChange={(eventId: number | null) =>
+                        setReservationData(prev => ({ ...prev, event_id: eventId }))
+                      }
+                      noneLabel="No event"
+                      upcoming
+                    />
+                  </div>
+
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="reserve-range">Dates *</Label>
+                    <DateRangePicker
+                      id="reserve-range"
+                      value={reservationRange}
+                      onChange={setReservationRange}
+                      fromDate={new Date()}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="reserve-start-time">Pickup Time</Label>
+                    <Input
+                      id="reserve-start-time"
+                      type="time"
+                      value={reservationData.start_time}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setReservationData(prev => ({ ...prev, start_time: e.target.value }))
+                      }
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="reserve-end-time">Return Time</Label>
+                    <Input
+                      id="reserve-end-time"
+                      type="time"
+                      value={reservationData.end_time}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setReservationData(prev => ({ ...prev, end_time: e.target.value }))
+                      }
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="reserve-notes">Notes</Label>
+                  <Textarea
+                    id="reserve-notes"
+                    value={reservationData.notes}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                      setReservationData(prev => ({ ...prev, notes: e.target.value }))
+                    }
+                    placeholder="Event or purpose (optional)"
+                    rows={3}
+                  />
+                </div>
+
+                <Button
+                  onClick={() => handleReservation()}
+                  disabled={isProcessing || !reservationData.user_name.trim() || !reservationRange?.from}
+                  className="w-full bg-purple-600 hover:bg-purple-700"
+                >
+                  {isProcessing ? 'Processing...' : 'Reserve Equipment'}
+                </Button>
+              </TabsContent>
+
+              <TabsContent value="pickup" className="space-y-4 mt-4">
+                {canPickUp ? (
+                  <>
+                    <div className="space-y-2">
+                      {reservations.map((booking: EquipmentTransaction) => (
+                        <div
+                          key={booking.id}
+                          className={`flex items-center justify-between p-3 rounded border ${
+                            booking.id === selectedBookingId ? 'border-purple-400 bg-purple-50' : 'border-gray-200'
+                          }`}
+                        >
+                          <button
+                            type="button"
+                            className="text-left flex-1"
+                            onClick={() => selectBooking(booking)}
+                          >
+                            <p className="font-medium">{booking.user_name}</p>
+                            <p className="text-sm text-gray-600">
+                              {format(booking.reserved_from ?? booking.transaction_date, 'PPp')}
+                              {booking.expected_return_date && ` – ${format(booking.expected_return_date, 'PPp')}`}
+                            </p>
+                          </button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCancelReservation(booking)}
+                            disabled={isProcessing}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            Cancel Reservation
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="pickup-contact">Contact Info</Label>
+                        <Input
+                          id="pickup-contact"
+                          value={pickupData.user_contact}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setPickupData(prev => ({ ...prev, user_contact: e.target.value }))
+                          }
+                          placeholder="Phone or email (optional)"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="pickup-return">Expected Return Date</Label>
+                        <Input
+                          id="pickup-return"
+                          type="datetime-local"
+                          value={pickupData.expected_return_date}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setPickupData(prev => ({ ...prev, expected_return_date: e.target.value }))
+                          }
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="pickup-notes">Notes</Label>
+                      <Textarea
+                        id="pickup-notes"
+                        value={pickupData.notes}
+                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                          setPickupData(prev => ({ ...prev, notes: e.target.value }))
+                        }
+                        placeholder="Additional notes (optional)"
+                        rows={3}
+                      />
+                    </div>
+
+                    <Button
+                      onClick={() => handlePickup()}
+                      disabled={isProcessing || selectedBookingId === null}
+                      className="w-full bg-red-600 hover:bg-red-700"
+                    >
+                      {isProcessing ? 'Processing...' : 'Check Out to Reserved Borrower'}
+                    </Button>
+                  </>
+                ) : (
+                  <div className="text-center py-6 text-gray-500">
+                    This equipment has no open reservations
+                  </div>
+                )}
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
       )}
+
+      <RuleOverrideDialog
+        refusal={refusal?.message ?? null}
+        onOverride={(justification: string) => refusal ? refusal.retry(justification) : Promise.resolve()}
+        onCancel={() => setRefusal(null)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
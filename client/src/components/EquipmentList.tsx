@@ -10,16 +10,19 @@ import { Textarea } from '@/components/ui/textarea';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { trpc } from '@/utils/trpc';
 import { toast } from 'sonner';
-import { Edit, Trash2, Eye } from 'lucide-react';
-import type { Equipment, UpdateEquipmentInput } from '../../../server/src/schema';
+import { Edit, Trash2, Eye, Boxes } from 'lucide-react';
+import type { Equipment, KitDetails, UpdateEquipmentInput } from '../../../server/src/schema';
 
 interface EquipmentListProps {
   equipment: Equipment[];
+  kits: KitDetails[];
   isLoading: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
   onEquipmentUpdated: () => void;
 }
 
-export function EquipmentList({ equipment, isLoading, onEquipmentUpdated }: EquipmentListProps) {
+export function EquipmentList({ equipment, kits, isLoading, canEdit, canDelete, onEquipmentUpdated }: EquipmentListProps) {
   const [editingEquipment, setEditingEquipment] = useState<Equipment | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
@@ -54,7 +57,14 @@ export function EquipmentList({ equipment, isLoading, onEquipmentUpdated }: Equi
         category: formData.get('category') as string || undefined,
         brand: (formData.get('brand') as string) || null,
         model: (formData.get('model') as string) || null,
+        replacement_value: formData.get('replacement_value') ? Number(formData.get('replacement_value')) : null,
+        storage_location: (formData.get('storage_location') as string) || null,
+        case_label: (formData.get('case_label') as string) || null,
+        weight_grams: formData.get('weight_kg') ? Math.round(Number(formData.get('weight_kg')) * 1000) : null,
         status: (formData.get('status') as any) || undefined,
+        // A parent outside the current filter has no option and submits nothing, so it is kept
+        parent_id: !formData.get('parent_id') ? undefined :
+          formData.get('parent_id') === 'none' ? null : Number(formData.get('parent_id')),
       };
 
       await trpc.updateEquipment.mutate(updateData);
@@ -64,7 +74,7 @@ export function EquipmentList({ equipment, isLoading, onEquipmentUpdated }: Equi
       onEquipmentUpdated();
     } catch (error) {
       console.error('Failed to update equipment:', error);
-      toast.error('Failed to update equipment');
+      toast.error(error instanceof Error ? error.message : 'Failed to update equipment');
     } finally {
       setIsUpdating(false);
     }
@@ -81,6 +91,22 @@ export function EquipmentList({ equipment, isLoading, onEquipmentUpdated }: Equi
     }
   };
 
+  const describeItem = (id: number) => {
+    const item = equipment.find(candidate => candidate.id === id);
+    return item ? `${item.name} (${item.serial_number})` : `#${id}`;
+  };
+
+  const handleDeleteKit = async (id: number) => {
+    try {
+      await trpc.deleteKit.mutate({ id });
+      toast.success('Kit deleted successfully!');
+      onEquipmentUpdated();
+    } catch (error) {
+      console.error('Failed to delete kit:', error);
+      toast.error('Failed to delete kit');
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -100,7 +126,7 @@ export function EquipmentList({ equipment, isLoading, onEquipmentUpdated }: Equi
     );
   }
 
-  if (equipment.length === 0) {
+  if (equipment.length === 0 && kits.length === 0) {
     return (
       <div className="text-center py-12">
         <div className="text-gray-400 mb-4">
@@ -114,6 +140,83 @@ export function EquipmentList({ equipment, isLoading, onEquipmentUpdated }: Equi
 
   return (
     <div className="space-y-4">
+      {kits.map(({ kit, members, status, outstanding }) => (
+        <Card key={`kit-${kit.id}`} className="hover:shadow-md transition-shadow border-blue-200">
+          <CardContent className="p-6">
+            <div className="flex justify-between items-start mb-4">
+              <div className="flex-1">
+                <div className="flex items-center space-x-3 mb-2">
+                  <Boxes className="h-5 w-5 text-blue-600" />
+                  <h3 className="text-lg font-semibold text-gray-900">{kit.name}</h3>
+                  <Badge variant="outline" className="border-blue-300 text-blue-700">Kit</Badge>
+                  <Badge className={getStatusColor(status)}>
+                    {status.replace('_', ' ')}
+                  </Badge>
+                </div>
+                {kit.serial_number && (
+                  <p className="text-sm text-gray-600 mb-1">
+                    <span className="font-medium">Serial:</span> {kit.serial_number}
+                  </p>
+                )}
+                <p className="text-sm text-gray-600 mb-1">
+                  <span className="font-medium">Members:</span>{' '}
+                  {members.length > 0
+                    ? members.map(member => `${member.name} (${member.serial_number})`).join(', ')
+                    : 'none'}
+                </p>
+                {outstanding.length > 0 && outstanding.length < members.length && (
+                  <p className="text-sm text-red-600 mb-1">
+                    <span className="font-medium">Still out:</span>{' '}
+                    {outstanding.map(member => member.serial_number).join(', ')}
+                  </p>
+                )}
+                {kit.description && (
+                  <p className="text-sm text-gray-600 mt-2">{kit.description}</p>
+                )}
+              </div>
+
+              {canDelete && (
+                <div className="flex space-x-2 ml-4">
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Kit</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to delete the kit "{kit.name}"? Its items stay in the inventory.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleDeleteKit(kit.id)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              )}
+            </div>
+
+            <div className="text-xs text-gray-400 border-t pt-2">
+              Created: {kit.created_at.toLocaleDateString()} • 
+              Updated: {kit.updated_at.toLocaleDateString()}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
       {equipment.map((item) => (
         <Card key={item.id} className="hover:shadow-md transition-shadow">
           <CardContent className="p-6">
@@ -131,6 +234,11 @@ export function EquipmentList({ equipment, isLoading, onEquipmentUpdated }: Equi
                 <p className="text-sm text-gray-600 mb-1">
                   <span className="font-medium">Category:</span> {item.category}
                 </p>
+                {item.parent_id && (
+                  <p className="text-sm text-gray-600 mb-1">
+                    <span className="font-medium">Accessory of:</span> {describeItem(item.parent_id)}
+                  </p>
+                )}
                 {item.brand && (
                   <p className="text-sm text-gray-600 mb-1">
                     <span className="font-medium">Brand:</span> {item.brand}
@@ -143,43 +251,47 @@ export function EquipmentList({ equipment, isLoading, onEquipmentUpdated }: Equi
               </div>
               
               <div className="flex space-x-2 ml-4">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleEdit(item)}
-                  className="text-blue-600 hover:text-blue-700 hover:bg-blue-50"
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleEdit(item)}
+                    className="text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
                 
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Delete Equipment</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        Are you sure you want to delete "{item.name}"? This action cannot be undone.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction
-                        onClick={() => handleDelete(item.id)}
-                        className="bg-red-600 hover:bg-red-700"
+                {canDelete && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
                       >
-                        Delete
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Equipment</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to delete "{item.name}"? This action cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleDelete(item.id)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
               </div>
             </div>
             
@@ -250,6 +362,48 @@ export function EquipmentList({ equipment, isLoading, onEquipmentUpdated }: Equi
                   defaultValue={editingEquipment.model || ''}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-replacement-value">Replacement Value</Label>
+                <Input
+                  id="edit-replacement-value"
+                  name="replacement_value"
+                  type="number"
+                  min="0"
+                  step="1"
+                  defaultValue={editingEquipment.replacement_value ?? ''}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-weight">Weight (kg)</Label>
+                <Input
+                  id="edit-weight"
+                  name="weight_kg"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  defaultValue={editingEquipment.weight_grams === null ? '' : editingEquipment.weight_grams / 1000}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-storage-location">Storage Location</Label>
+                <Input
+                  id="edit-storage-location"
+                  name="storage_location"
+                  defaultValue={editingEquipment.storage_location || ''}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-case-label">Case</Label>
+                <Input
+                  id="edit-case-label"
+                  name="case_label"
+                  defaultValue={editingEquipment.case_label || ''}
+                />
+              </div>
               
               <div className="space-y-2">
                 <Label htmlFor="edit-status">Status</Label>
@@ -266,6 +420,25 @@ export function EquipmentList({ equipment, isLoading, onEquipmentUpdated }: Equi
                 </Select>
               </div>
               
+              <div className="space-y-2">
+                <Label htmlFor="edit-parent">Accessory Of</Label>
+                <Select name="parent_id" defaultValue={editingEquipment.parent_id?.toString() ?? 'none'}>
+                  <SelectTrigger id="edit-parent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not an accessory</SelectItem>
+                    {equipment
+                      .filter(candidate => candidate.id !== editingEquipment.id)
+                      .map(candidate => (
+                        <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                          {candidate.name} ({candidate.serial_number})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="edit-description">Description</Label>
                 <Textarea
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { PackageCheck } from 'lucide-react';
+import type { EventDetails, EventItem, EventItemStatus } from '../../../server/src/schema';
+
+interface EventChecklistProps {
+  details: EventDetails;
+  canEdit: boolean;
+  onChanged: (details: EventDetails) => void;
+}
+
+const statusBadges: Record<EventItemStatus, { label: string; className: string }> = {
+  reserved: { label: 'Reserved', className: 'bg-purple-100 text-purple-800 border-purple-300' },
+  picked: { label: 'Picked', className: 'bg-blue-100 text-blue-800 border-blue-300' },
+  out: { label: 'Out', className: 'bg-orange-100 text-orange-800 border-orange-300' },
+  returned: { label: 'Returned', className: 'bg-green-100 text-green-800 border-green-300' },
+  missing: { label: 'Missing', className: 'bg-red-100 text-red-800 border-red-300' },
+};
+
+// Every item allocated to an event, ticked off as it is pulled from storage and brought back
+export function EventChecklist({ details, canEdit, onChanged }: EventChecklistProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const outstanding = details.items.filter(item => item.status === 'out' || item.status === 'missing');
+
+  const togglePicked = async (item: EventItem, picked: boolean) => {
+    setIsSaving(true);
+    try {
+      await trpc.pickEventItem.mutate({ transaction_id: item.transaction.id, picked });
+      const refreshed = await trpc.getEvent.query({ id: details.event.id });
+      if (refreshed) {
+        onChanged(refreshed);
+      }
+    } catch (error) {
+      console.error('Failed to pick event item:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to pick event item');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const returnEverything = async () => {
+    setIsSaving(true);
+    try {
+      const returned = await trpc.returnEvent.mutate({ event_id: details.event.id });
+      if (returned) {
+        toast.success(`${outstanding.length} items of ${returned.event.name} checked in`);
+        onChanged(returned);
+      }
+    } catch (error) {
+      console.error('Failed to return event:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to return event');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (details.items.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing allocated yet. Pick this event when reserving or checking out equipment.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-12">Picked</TableHead>
+            <TableHead>Equipment</TableHead>
+            <TableHead>Serial</TableHead>
+            <TableHead>Borrower</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {details.items.map((item: EventItem) => (
+            <TableRow key={item.transaction.id}>
+              <TableCell>
+                {(item.status === 'reserved' || item.status === 'picked') && (
+                  <Checkbox
+                    checked={item.status === 'picked'}
+                    disabled={!canEdit || isSaving}
+                    onCheckedChange={(checked: boolean | 'indeterminate') => togglePicked(item, checked === true)}
+                  />
+                )}
+              </TableCell>
+              <TableCell className="font-medium">{item.equipment.name}</TableCell>
+              <TableCell>{item.equipment.serial_number}</TableCell>
+              <TableCell>{item.transaction.user_name}</TableCell>
+              <TableCell>
+                <Badge className={statusBadges[item.status].className}>{statusBadges[item.status].label}</Badge>
+                {item.status === 'picked' && item.transaction.picked_by !== null && (
+                  <span className="ml-2 text-xs text-gray-500">by Admin ID: {item.transaction.picked_by}</span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {canEdit && (
+        <Button onClick={returnEverything} disabled={isSaving || outstanding.length === 0}>
+          <PackageCheck className="h-4 w-4 mr-2" />
+          Return Everything ({outstanding.length})
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { EventChecklist } from '@/components/EventChecklist';
+import { PackingListDownloads } from '@/components/PackingListDownloads';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { CalendarPlus, MapPin, Pencil, Search, Ticket } from 'lucide-react';
+import { format } from 'date-fns';
+import type { Event, EventDetails } from '../../../server/src/schema';
+
+interface EventManagementProps {
+  canEdit: boolean;
+}
+
+const emptyForm = { name: '', venue: '', load_in_at: '', starts_at: '', ends_at: '', crew_lead: '', notes: '' };
+
+// datetime-local inputs take the browser's local time without a zone
+const toInput = (date: Date | null): string => date ? format(date, "yyyy-MM-dd'T'HH:mm") : '';
+
+const toForm = (event: Event) => ({
+  name: event.name,
+  venue: event.venue ?? '',
+  load_in_at: toInput(event.load_in_at),
+  starts_at: toInput(event.starts_at),
+  ends_at: toInput(event.ends_at),
+  crew_lead: event.crew_lead ?? '',
+  notes: event.notes ?? '',
+});
+
+const showDates = (event: Event): string =>
+  `${format(event.starts_at, 'MMM d, yyyy HH:mm')} – ${format(event.ends_at, 'MMM d, yyyy HH:mm')}`;
+
+export function EventManagement({ canEdit }: EventManagementProps) {
+  const [search, setSearch] = useState('');
+  const [upcoming, setUpcoming] = useState(true);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [details, setDetails] = useState<EventDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // The same form adds an event, or edits the one that is open
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setEvents(await trpc.getEvents.query({ search: search.trim() || undefined, upcoming }));
+    } catch (error) {
+      console.error('Failed to load events:', error);
+      toast.error('Failed to load events');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, upcoming]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const openEvent = async (eventId: number) => {
+    try {
+      setDetails(await trpc.getEvent.query({ id: eventId }));
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Failed to load event:', error);
+      toast.error('Failed to load event');
+    }
+  };
+
+  const startEditing = (event: Event | null) => {
+    setFormData(event ? toForm(event) : emptyForm);
+    setIsEditing(true);
+    if (!event) {
+      setDetails(null);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || !formData.starts_at || !formData.ends_at) return;
+
+    const values = {
+      name: formData.name.trim(),
+      venue: formData.venue.trim() || null,
+      load_in_at: formData.load_in_at ? new Date(formData.load_in_at) : null,
+      starts_at: new Date(formData.starts_at),
+      ends_at: new Date(formData.ends_at),
+      crew_lead: formData.crew_lead.trim() || null,
+      notes: formData.notes.trim() || null,
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = details
+        ? await trpc.updateEvent.mutate({ id: details.event.id, ...values })
+        : await trpc.createEvent.mutate(values);
+      if (saved) {
+        toast.success(details ? `${saved.name} updated` : `${saved.name} added`);
+        await openEvent(saved.id);
+      }
+      await loadEvents();
+    } catch (error) {
+      console.error('Failed to save event:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save event');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const field = (key: keyof typeof emptyForm) => ({
+    value: formData[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setFormData(prev => ({ ...prev, [key]: e.target.value })),
+  });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-4">
+        <div className="flex space-x-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+              placeholder="Name, venue or crew lead"
+              className="pl-8"
+            />
+          </div>
+          {canEdit && (
+            <Button variant="outline" onClick={() => startEditing(null)}>
+              <CalendarPlus className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="events-upcoming"
+            checked={upcoming}
+            onCheckedChange={(checked: boolean | 'indeterminate') => setUpcoming(checked === true)}
+          />
+          <Label htmlFor="events-upcoming">Only events that have not ended</Label>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading events...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500">No events found</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {events.map((event: Event) => (
+              <li key={event.id}>
+                <button
+                  type="button"
+                  className={`w-full px-3 py-2 text-left hover:bg-gray-50 ${details?.event.id === event.id ? 'bg-gray-100' : ''}`}
+                  onClick={() => openEvent(event.id)}
+                >
+                  <span className="block text-sm font-medium">{event.name}</span>
+                  <span className="block text-xs text-gray-500">
+                    {[event.venue, format(event.starts_at, 'MMM d, yyyy')].filter(Boolean).join(' · ')}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="lg:col-span-2 space-y-6">
+        {isEditing ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{details ? `Edit ${details.event.name}` : 'New Event'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSave} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="event-name">Name *</Label>
+                    <Input id="event-name" {...field('name')} placeholder="e.g. Summer Festival" required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="event-venue">Venue</Label>
+                    <Input id="event-venue" {...field('venue')} placeholder="e.g. Riverside Park" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="event-starts">Show Starts *</Label>
+                    <Input id="event-starts" type="datetime-local" {...field('starts_at')} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="event-ends">Show Ends *</Label>
+                    <Input id="event-ends" type="datetime-local" {...field('ends_at')} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="event-load-in">Load-in</Label>
+                    <Input id="event-load-in" type="datetime-local" {...field('load_in_at')} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="event-crew-lead">Crew Lead</Label>
+                    <Input id="event-crew-lead" {...field('crew_lead')} placeholder="Who runs the crew?" />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="event-notes">Notes</Label>
+                  <Textarea id="event-notes" {...field('notes')} rows={2} />
+                </div>
+                <div className="flex space-x-2">
+                  <Button type="submit" disabled={isSaving || !formData.name.trim()}>
+                    {details ? 'Save' : 'Add Event'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setIsEditing(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        ) : details ? (
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Ticket className="h-5 w-5" />
+                    <span>{details.event.name}</span>
+                  </CardTitle>
+                  <div className="mt-2 space-y-1 text-sm text-gray-600">
+                    {details.event.venue && (
+                      <div className="flex items-center space-x-1">
+                        <MapPin className="h-4 w-4" />
+                        <span>{details.event.venue}</span>
+                      </div>
+                    )}
+                    <div>{showDates(details.event)}</div>
+                    {details.event.load_in_at && <div>Load-in {format(details.event.load_in_at, 'MMM d, yyyy HH:mm')}</div>}
+                    {details.event.crew_lead && <div>Crew lead: {details.event.crew_lead}</div>}
+                    {details.event.returned_at && <div>Returned {format(details.event.returned_at, 'MMM d, yyyy HH:mm')}</div>}
+                    {details.event.notes && <div className="text-gray-500">{details.event.notes}</div>}
+                  </div>
+                </div>
+                {canEdit && (
+                  <Button variant="outline" size="sm" onClick={() => startEditing(details.event)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <PackingListDownloads eventId={details.event.id} />
+              <EventChecklist details={details} canEdit={canEdit} onChanged={setDetails} />
+            </CardContent>
+          </Card>
+        ) : (
+          <p className="text-sm text-gray-500">Pick an event to see what is allocated to it</p>
+        )}
+      </div>
+    </div>
+  );
+}
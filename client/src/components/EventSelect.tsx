@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { format } from 'date-fns';
+import type { Event } from '../../../server/src/schema';
+
+interface EventSelectProps {
+  id: string;
+  eventId: number | null;
+  onChange: (eventId: number | null) => void;
+  noneLabel: string;
+  // Forms only offer events that have not ended; filters offer past ones too
+  upcoming?: boolean;
+}
+
+// Select items cannot have an empty value, so "no event" gets one of its own
+const NONE = 'none';
+
+export function EventSelect({ id, eventId, onChange, noneLabel, upcoming = false }: EventSelectProps) {
+  const [events, setEvents] = useState<Event[]>([]);
+
+  useEffect(() => {
+    trpc.getEvents.query({ upcoming })
+      .then(setEvents)
+      .catch((error: unknown) => {
+        console.error('Failed to load events:', error);
+        setEvents([]);
+      });
+  }, [upcoming]);
+
+  return (
+    <Select
+      value={eventId === null ? NONE : eventId.toString()}
+      onValueChange={(selected: string) => onChange(selected === NONE ? null : Number(selected))}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{noneLabel}</SelectItem>
+        {events.map((event: Event) => (
+          <SelectItem key={event.id} value={event.id.toString()}>
+            {event.name} ({format(event.starts_at, 'd MMM yyyy')})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
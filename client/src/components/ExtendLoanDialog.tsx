@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { CalendarPlus } from 'lucide-react';
+import { format } from 'date-fns';
+import type { EquipmentTransaction } from '../../../server/src/schema';
+
+interface ExtendLoanDialogProps {
+  transaction: EquipmentTransaction;
+  onExtended: () => void;
+}
+
+export function ExtendLoanDialog({ transaction, onExtended }: ExtendLoanDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [returnDate, setReturnDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const open = (next: boolean) => {
+    setIsOpen(next);
+    if (next) {
+      setReturnDate(transaction.expected_return_date ? format(transaction.expected_return_date, "yyyy-MM-dd'T'HH:mm") : '');
+      setReason('');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!returnDate || !reason.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await trpc.extendLoan.mutate({
+        transaction_id: transaction.id,
+        expected_return_date: new Date(returnDate),
+        reason: reason.trim(),
+      });
+      toast.success(`Loan for ${transaction.user_name} extended`);
+      setIsOpen(false);
+      onExtended();
+    } catch (error) {
+      console.error('Failed to extend loan:', error);
+      // Conflict errors name the reservation that is in the way, so show them as they are
+      toast.error(error instanceof Error ? error.message : 'Failed to extend loan');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center space-x-1">
+          <CalendarPlus className="h-4 w-4" />
+          <span>Extend</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Extend Loan</DialogTitle>
+          <DialogDescription>
+            Move the expected return of transaction #{transaction.id} for {transaction.user_name}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`extend-${transaction.id}-date`}>New Expected Return *</Label>
+            <Input
+              id={`extend-${transaction.id}-date`}
+              type="datetime-local"
+              value={returnDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReturnDate(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`extend-${transaction.id}-reason`}>Reason *</Label>
+            <Textarea
+              id={`extend-${transaction.id}-reason`}
+              value={reason}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReason(e.target.value)}
+              placeholder="Why is the borrower keeping it longer?"
+              rows={2}
+              required
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={isSubmitting || !returnDate || !reason.trim()}
+            className="w-full bg-blue-600 hover:bg-blue-700"
+          >
+            {isSubmitting ? 'Extending...' : 'Extend Loan'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
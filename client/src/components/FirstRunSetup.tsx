@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, Headphones } from 'lucide-react';
+import type { SetupFirstAdminInput } from '../../../server/src/schema';
+
+interface FirstRunSetupProps {
+  // Resolves to an error message, or null once the owner account exists and is signed in
+  onSetup: (input: SetupFirstAdminInput) => Promise<string | null>;
+}
+
+export function FirstRunSetup({ onSetup }: FirstRunSetupProps) {
+  const [formData, setFormData] = useState<SetupFirstAdminInput>({
+    username: '',
+    email: '',
+    password: ''
+  });
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (formData.password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    const result = await onSetup(formData);
+    if (result) {
+      setError(result);
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-purple-50 p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center space-y-4">
+          <div className="mx-auto w-12 h-12 bg-blue-600 rounded-full flex items-center justify-center">
+            <Headphones className="h-6 w-6 text-white" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-slate-800">
+            Welcome to Sound Equipment Warehouse
+          </CardTitle>
+          <CardDescription className="text-slate-600">
+            Create the owner account. It can add every other admin once you are signed in.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="flex items-center gap-2 text-red-600 bg-red-50 p-3 rounded-md border border-red-200 mb-4">
+              <AlertCircle className="h-4 w-4" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="setup-username">Username</Label>
+              <Input
+                id="setup-username"
+                value={formData.username}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: SetupFirstAdminInput) => ({ ...prev, username: e.target.value }))
+                }
+                minLength={3}
+                maxLength={50}
+                required
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="setup-email">Email</Label>
+              <Input
+                id="setup-email"
+                type="email"
+                value={formData.email}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: SetupFirstAdminInput) => ({ ...prev, email: e.target.value }))
+                }
+                required
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="setup-password">Password</Label>
+              <Input
+                id="setup-password"
+                type="password"
+                value={formData.password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: SetupFirstAdminInput) => ({ ...prev, password: e.target.value }))
+                }
+                minLength={6}
+                required
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="setup-confirm-password">Confirm Password</Label>
+              <Input
+                id="setup-confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmPassword(e.target.value)}
+                minLength={6}
+                required
+                disabled={isLoading}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full bg-blue-600 hover:bg-blue-700"
+              disabled={isLoading}
+            >
+              {isLoading ? 'Creating account...' : 'Create Owner Account'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
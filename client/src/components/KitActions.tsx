@@ -0,0 +1,294 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { AlertTriangle, Boxes } from 'lucide-react';
+import type { KitDetails } from '../../../server/src/schema';
+
+interface KitActionsProps {
+  onActionComplete: () => void;
+}
+
+const emptyBorrower = { user_name: '', user_contact: '', expected_return_date: '', notes: '' };
+
+export function KitActions({ onActionComplete }: KitActionsProps) {
+  const [kits, setKits] = useState<KitDetails[]>([]);
+  const [selectedKitId, setSelectedKitId] = useState<string>('');
+  const [borrower, setBorrower] = useState(emptyBorrower);
+  const [returned, setReturned] = useState<number[]>([]);
+  const [returnNotes, setReturnNotes] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const selected = kits.find(details => details.kit.id.toString() === selectedKitId) ?? null;
+
+  const loadKits = useCallback(async () => {
+    try {
+      setKits(await trpc.getKits.query());
+    } catch (error) {
+      console.error('Failed to load kits:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKits();
+  }, [loadKits]);
+
+  // Every outstanding member starts ticked; unticking one marks it as missing from the return
+  const selectKit = (id: string, list: KitDetails[] = kits) => {
+    setSelectedKitId(id);
+    const details = list.find(item => item.kit.id.toString() === id);
+    setReturned(details ? details.outstanding.map(member => member.id) : []);
+  };
+
+  const refresh = async () => {
+    const list = await trpc.getKits.query();
+    setKits(list);
+    selectKit(selectedKitId, list);
+    onActionComplete();
+  };
+
+  const handleCheckOut = async () => {
+    if (!selected || !borrower.user_name.trim()) return;
+
+    setIsProcessing(true);
+    try {
+      const receipt = await trpc.checkOutKit.mutate({
+        kit_id: selected.kit.id,
+        user_name: borrower.user_name,
+        user_contact: borrower.user_contact || null,
+        expected_return_date: borrower.expected_return_date ? new Date(borrower.expected_return_date) : null,
+        notes: borrower.notes || null,
+      });
+      toast.success(`${selected.kit.name} checked out under receipt #${receipt.group.id}`);
+      setBorrower(emptyBorrower);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to check out kit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to check out kit');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleBook = async () => {
+    if (!selected || !borrower.user_name.trim() || !borrower.expected_return_date) return;
+
+    setIsProcessing(true);
+    try {
+      await trpc.bookKit.mutate({
+        kit_id: selected.kit.id,
+        user_name: borrower.user_name,
+        user_contact: borrower.user_contact || null,
+        expected_return_date: new Date(borrower.expected_return_date),
+        notes: borrower.notes || null,
+      });
+      toast.success(`${selected.kit.name} booked`);
+      setBorrower(emptyBorrower);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to book kit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to book kit');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCheckIn = async () => {
+    if (!selected || returned.length === 0) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await trpc.checkInKit.mutate({
+        kit_id: selected.kit.id,
+        equipment_ids: returned,
+        notes: returnNotes || null,
+      });
+      if (result && result.outstanding.length > 0) {
+        toast.warning(`${selected.kit.name} is missing ${result.outstanding.map(member => member.serial_number).join(', ')}`);
+      } else {
+        toast.success(`${selected.kit.name} checked in`);
+      }
+      setReturnNotes('');
+      await refresh();
+    } catch (error) {
+      console.error('Failed to check in kit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to check in kit');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const missing = selected ? selected.outstanding.filter(member => !returned.includes(member.id)) : [];
+
+  const borrowerFields = (prefix: string, returnRequired: boolean) => (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${prefix}-user`}>Borrower *</Label>
+          <Input
+            id={`${prefix}-user`}
+            value={borrower.user_name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setBorrower(prev => ({ ...prev, user_name: e.target.value }))
+            }
+            placeholder="Who is taking the kit?"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${prefix}-contact`}>Contact Info</Label>
+          <Input
+            id={`${prefix}-contact`}
+            value={borrower.user_contact}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setBorrower(prev => ({ ...prev, user_contact: e.target.value }))
+            }
+            placeholder="Phone or email (optional)"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${prefix}-return`}>Expected Return Date{returnRequired && ' *'}</Label>
+          <Input
+            id={`${prefix}-return`}
+            type="datetime-local"
+            value={borrower.expected_return_date}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setBorrower(prev => ({ ...prev, expected_return_date: e.target.value }))
+            }
+          />
+        </div>
+      </div>
+      <Textarea
+        value={borrower.notes}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+          setBorrower(prev => ({ ...prev, notes: e.target.value }))
+        }
+        placeholder="Notes (optional)"
+        rows={2}
+      />
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Boxes className="h-5 w-5" />
+          <span>Kits</span>
+        </CardTitle>
+        <CardDescription>
+          Check out, book or return every item of a kit at once
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {kits.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No kits yet. Add one from the Equipment tab.</div>
+        ) : (
+          <Select value={selectedKitId} onValueChange={(id: string) => selectKit(id)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a kit" />
+            </SelectTrigger>
+            <SelectContent>
+              {kits.map(({ kit, status }) => (
+                <SelectItem key={kit.id} value={kit.id.toString()}>
+                  {kit.name}{kit.serial_number && ` (${kit.serial_number})`} • {status.replace('_', ' ')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {selected && (
+          <Tabs defaultValue={selected.outstanding.length > 0 ? 'checkin' : 'checkout'} key={selected.kit.id}>
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="checkout">Check Out</TabsTrigger>
+              <TabsTrigger value="book">Book</TabsTrigger>
+              <TabsTrigger value="checkin">Check In</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="checkout" className="space-y-4">
+              {borrowerFields('kit-checkout', false)}
+              <Button
+                onClick={handleCheckOut}
+                disabled={isProcessing || selected.status !== 'available' || !borrower.user_name.trim()}
+                className="w-full bg-red-600 hover:bg-red-700"
+              >
+                {isProcessing ? 'Processing...' : `Check Out ${selected.members.length} Items`}
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="book" className="space-y-4">
+              {borrowerFields('kit-book', true)}
+              <Button
+                onClick={handleBook}
+                disabled={isProcessing || selected.status !== 'available' || !borrower.user_name.trim() || !borrower.expected_return_date}
+                className="w-full bg-yellow-600 hover:bg-yellow-700"
+              >
+                {isProcessing ? 'Processing...' : `Book ${selected.members.length} Items`}
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="checkin" className="space-y-4">
+              {selected.outstanding.length === 0 ? (
+                <div className="text-center py-4 text-gray-500">Every item of this kit is in the warehouse</div>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600">Untick anything that did not come back.</p>
+                  <div className="space-y-2">
+                    {selected.outstanding.map(member => (
+                      <div key={member.id} className="flex items-center justify-between p-2 rounded border border-gray-200">
+                        <label className="flex items-center space-x-3">
+                          <Checkbox
+                            checked={returned.includes(member.id)}
+                            onCheckedChange={(checked) => setReturned(prev =>
+                              checked === true ? [...prev, member.id] : prev.filter(id => id !== member.id)
+                            )}
+                          />
+                          <span className="font-medium">{member.name}</span>
+                          <span className="text-sm text-gray-600">{member.serial_number}</span>
+                        </label>
+                        {!returned.includes(member.id) && (
+                          <Badge className="bg-red-100 text-red-800 border-red-300">Missing</Badge>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {missing.length > 0 && (
+                    <div className="flex items-center gap-2 text-red-700 bg-red-50 p-3 rounded-md border border-red-200 text-sm">
+                      <AlertTriangle className="h-4 w-4" />
+                      <span>
+                        {missing.map(member => member.serial_number).join(', ')} will stay out after this return
+                      </span>
+                    </div>
+                  )}
+
+                  <Textarea
+                    value={returnNotes}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReturnNotes(e.target.value)}
+                    placeholder="Condition notes (optional)"
+                    rows={2}
+                  />
+                  <Button
+                    onClick={handleCheckIn}
+                    disabled={isProcessing || returned.length === 0}
+                    className="w-full bg-green-600 hover:bg-green-700"
+                  >
+                    {isProcessing ? 'Processing...' : `Check In ${returned.length} Items`}
+                  </Button>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { History, RefreshCw } from 'lucide-react';
+import type { LoginEvent, LoginOutcome } from '../../../server/src/schema';
+
+interface LoginActivityLogProps {
+  // Bumped by the parent to reload after an unlock
+  refreshKey?: number;
+}
+
+export function LoginActivityLog({ refreshKey = 0 }: LoginActivityLogProps) {
+  const [events, setEvents] = useState<LoginEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [outcome, setOutcome] = useState<LoginOutcome | undefined>(undefined);
+  const [username, setUsername] = useState('');
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const eventsData = await trpc.getLoginEvents.query({
+        outcome,
+        username: username.trim() || undefined,
+        limit: 100,
+      });
+      setEvents(eventsData);
+    } catch (error) {
+      console.error('Failed to load login activity:', error);
+      toast.error('Failed to load login activity');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [outcome, username]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents, refreshKey]);
+
+  const getOutcomeColor = (value: LoginOutcome) => {
+    switch (value) {
+      case 'success': return 'bg-green-100 text-green-800 border-green-300';
+      case 'invalid_credentials': return 'bg-red-100 text-red-800 border-red-300';
+      case 'invalid_two_factor': return 'bg-red-100 text-red-800 border-red-300';
+      case 'account_disabled': return 'bg-gray-100 text-gray-800 border-gray-300';
+      case 'throttled': return 'bg-orange-100 text-orange-800 border-orange-300';
+      default: return 'bg-gray-100 text-gray-800 border-gray-300';
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).format(date);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Login Activity</span>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadEvents} disabled={isLoading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Successful and failed sign-in attempts, most recent first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Outcome</Label>
+            <Select
+              value={outcome || 'all'}
+              onValueChange={(value) => setOutcome(value === 'all' ? undefined : value as LoginOutcome)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="All outcomes" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Outcomes</SelectItem>
+                <SelectItem value="success">Success</SelectItem>
+                <SelectItem value="invalid_credentials">Invalid Credentials</SelectItem>
+                <SelectItem value="invalid_two_factor">Invalid 2FA Code</SelectItem>
+                <SelectItem value="account_disabled">Account Disabled</SelectItem>
+                <SelectItem value="throttled">Throttled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="login-log-username">Username</Label>
+            <Input
+              id="login-log-username"
+              placeholder="Any username"
+              value={username}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsername(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {!isLoading && events.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">No login attempts recorded.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {events.map((event) => (
+              <div key={event.id} className="flex items-center justify-between p-3 text-sm">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{event.username}</span>
+                    {event.admin_id === null && (
+                      <span className="text-xs text-gray-500">(unknown account)</span>
+                    )}
+                  </div>
+                  <p className="text-gray-500">
+                    {formatDate(event.created_at)} · {event.ip_address || 'unknown address'}
+                  </p>
+                </div>
+                <Badge className={getOutcomeColor(event.outcome)}>
+                  {event.outcome.replace(/_/g, ' ')}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
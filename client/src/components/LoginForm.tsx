@@ -3,15 +3,23 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { AlertCircle, Headphones } from 'lucide-react';
+import { AlertCircle, Headphones, KeyRound } from 'lucide-react';
+
+export type LoginStepResult = 'authenticated' | 'two_factor_required' | 'failed';
 
 interface LoginFormProps {
-  onLogin: (username: string, password: string) => Promise<boolean>;
+  onLogin: (username: string, password: string) => Promise<LoginStepResult>;
+  onVerifyCode: (code: string) => Promise<LoginStepResult>;
+  ssoProviderName: string | null; // Shown as a sign-in button when single sign-on is configured
+  onSsoLogin: () => Promise<void>;
+  awaitingCode: boolean; // A single sign-on login came back needing the second factor
 }
 
-export function LoginForm({ onLogin }: LoginFormProps) {
+export function LoginForm({ onLogin, onVerifyCode, ssoProviderName, onSsoLogin, awaitingCode }: LoginFormProps) {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [step, setStep] = useState<'password' | 'code'>(awaitingCode ? 'code' : 'password');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -26,13 +34,44 @@ export function LoginForm({ onLogin }: LoginFormProps) {
       return;
     }
 
-    const success = await onLogin(username, password);
-    if (!success) {
+    const result = await onLogin(username, password);
+    if (result === 'two_factor_required') {
+      setStep('code');
+    } else if (result === 'failed') {
       setError('Invalid username or password');
     }
     setIsLoading(false);
   };
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    const result = await onVerifyCode(code.trim());
+    if (result === 'failed') {
+      setError('Invalid or expired code');
+      setCode('');
+    }
+    setIsLoading(false);
+  };
+
+  const handleSsoClick = async () => {
+    setIsLoading(true);
+    setError('');
+    await onSsoLogin();
+    // On success the browser is already leaving for the identity provider
+    setIsLoading(false);
+  };
+
+  // Going back discards the challenge; the password has to be entered again
+  const handleBack = () => {
+    setStep('password');
+    setPassword('');
+    setCode('');
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-purple-50 p-4">
       <Card className="w-full max-w-md shadow-xl">
@@ -44,52 +83,111 @@ export function LoginForm({ onLogin }: LoginFormProps) {
             Sound Equipment Warehouse
           </CardTitle>
           <CardDescription className="text-slate-600">
-            Sign in to manage equipment inventory
+            {step === 'password'
+              ? 'Sign in to manage equipment inventory'
+              : 'Enter the code from your authenticator app'}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {error && (
-              <div className="flex items-center gap-2 text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
-                <AlertCircle className="h-4 w-4" />
-                <span className="text-sm">{error}</span>
+          {error && (
+            <div className="flex items-center gap-2 text-red-600 bg-red-50 p-3 rounded-md border border-red-200 mb-4">
+              <AlertCircle className="h-4 w-4" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          {step === 'password' ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  value={username}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsername(e.target.value)}
+                  placeholder="Enter your username"
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                  placeholder="Enter your password"
+                  required
+                  disabled={isLoading}
+                />
               </div>
-            )}
-            
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsername(e.target.value)}
-                placeholder="Enter your username"
-                required
+              
+              <Button 
+                type="submit" 
+                className="w-full bg-blue-600 hover:bg-blue-700" 
                 disabled={isLoading}
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
-                placeholder="Enter your password"
-                required
+              >
+                {isLoading ? 'Signing in...' : 'Sign In'}
+              </Button>
+
+              {ssoProviderName && (
+                <>
+                  <div className="flex items-center gap-3 text-xs text-slate-400">
+                    <div className="h-px flex-1 bg-slate-200" />
+                    <span>or</span>
+                    <div className="h-px flex-1 bg-slate-200" />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleSsoClick}
+                    disabled={isLoading}
+                  >
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    Sign in with {ssoProviderName}
+                  </Button>
+                </>
+              )}
+            </form>
+          ) : (
+            <form onSubmit={handleCodeSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-code">Authentication Code</Label>
+                <Input
+                  id="two-factor-code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                  placeholder="6-digit code or recovery code"
+                  required
+                  autoFocus
+                  disabled={isLoading}
+                />
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full bg-blue-600 hover:bg-blue-700"
                 disabled={isLoading}
-              />
-            </div>
-            
-            <Button 
-              type="submit" 
-              className="w-full bg-blue-600 hover:bg-blue-700" 
-              disabled={isLoading}
-            >
-              {isLoading ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
+              >
+                {isLoading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={handleBack}
+                disabled={isLoading}
+              >
+                Back to sign in
+              </Button>
+            </form>
+          )}
           
           <div className="mt-6 text-center text-sm text-slate-500">
             <p>🎵 Professional Sound Equipment Management System</p>
@@ -98,4 +196,4 @@ export function LoginForm({ onLogin }: LoginFormProps) {
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { trpc } from '@/utils/trpc';
+import { downloadFile, fromBase64 } from '@/utils/download';
+import { toast } from 'sonner';
+import { FileDown, FileText } from 'lucide-react';
+import type { PackingListSheet } from '../../../server/src/schema';
+
+interface PackingListDownloadsProps {
+  // The sheets are of an event or of a multi-item check-out
+  eventId?: number;
+  groupId?: number;
+}
+
+const SHEETS: { sheet: PackingListSheet; label: string }[] = [
+  { sheet: 'pull', label: 'Pull Sheet' },
+  { sheet: 'return', label: 'Return Checklist' },
+];
+
+// Printable pull sheets and return checklists, as HTML to print from the browser or as PDF
+export function PackingListDownloads({ eventId, groupId }: PackingListDownloadsProps) {
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const download = async (sheet: PackingListSheet, format: 'html' | 'pdf') => {
+    // Dates on the sheet are printed in the browser's time zone
+    const query = { sheet, event_id: eventId, group_id: groupId, time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone };
+
+    setIsDownloading(true);
+    try {
+      if (format === 'html') {
+        const result = await trpc.printPackingList.query(query);
+        if (result) {
+          downloadFile(result.filename, result.html, 'text/html;charset=utf-8');
+        }
+      } else {
+        const result = await trpc.exportPackingListPdf.query(query);
+        if (result) {
+          downloadFile(result.filename, fromBase64(result.pdf), 'application/pdf');
+        }
+      }
+    } catch (error) {
+      console.error('Failed to download packing list:', error);
+      toast.error('Failed to download packing list');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {SHEETS.map(({ sheet, label }) => (
+        <div key={sheet} className="flex items-center gap-1">
+          <span className="text-sm font-medium mr-1">{label}</span>
+          <Button variant="outline" size="sm" disabled={isDownloading} onClick={() => download(sheet, 'html')}>
+            <FileText className="h-4 w-4 mr-1" />
+            HTML
+          </Button>
+          <Button variant="outline" size="sm" disabled={isDownloading} onClick={() => download(sheet, 'pdf')}>
+            <FileDown className="h-4 w-4 mr-1" />
+            PDF
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
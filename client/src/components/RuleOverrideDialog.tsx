@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ShieldAlert } from 'lucide-react';
+
+interface RuleOverrideDialogProps {
+  refusal: string | null;
+  onOverride: (justification: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Offers a manager to let a refused loan through; the justification is logged with the loan
+export function RuleOverrideDialog({ refusal, onOverride, onCancel }: RuleOverrideDialogProps) {
+  const [justification, setJustification] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const close = () => {
+    setJustification('');
+    onCancel();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!justification.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onOverride(justification.trim());
+      setJustification('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={refusal !== null} onOpenChange={(open: boolean) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ShieldAlert className="h-5 w-5 text-amber-600" />
+            <span>Override Borrower Rule</span>
+          </DialogTitle>
+          <DialogDescription>{refusal?.replace(/^Loan refused: /, '')}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="override-justification">Justification *</Label>
+            <Textarea
+              id="override-justification"
+              value={justification}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setJustification(e.target.value)}
+              placeholder="Why is this loan going ahead anyway?"
+              rows={3}
+              required
+            />
+          </div>
+          <div className="flex space-x-2">
+            <Button type="submit" disabled={isSubmitting || !justification.trim()} className="bg-amber-600 hover:bg-amber-700">
+              {isSubmitting ? 'Overriding...' : 'Override and Continue'}
+            </Button>
+            <Button type="button" variant="outline" onClick={close}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
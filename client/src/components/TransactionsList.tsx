@@ -7,11 +7,18 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { trpc } from '@/utils/trpc';
 import { toast } from 'sonner';
+import { ExtendLoanDialog } from '@/components/ExtendLoanDialog';
+import { EventSelect } from '@/components/EventSelect';
 import { Filter, Clock, User, Package } from 'lucide-react';
-import type { EquipmentTransaction, GetTransactionsQuery } from '../../../server/src/schema';
+import type { EquipmentTransaction, GetTransactionsQuery, LoanExtension } from '../../../server/src/schema';
 
-export function TransactionsList() {
+interface TransactionsListProps {
+  canExtend: boolean;
+}
+
+export function TransactionsList({ canExtend }: TransactionsListProps) {
   const [transactions, setTransactions] = useState<EquipmentTransaction[]>([]);
+  const [extensions, setExtensions] = useState<LoanExtension[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [filters, setFilters] = useState<GetTransactionsQuery>({});
 
@@ -20,6 +27,11 @@ export function TransactionsList() {
       setIsLoading(true);
       const transactionsData = await trpc.getTransactions.query(filters);
       setTransactions(transactionsData);
+      // Only check-outs and bookings can be extended
+      const loanIds = transactionsData
+        .filter(transaction => transaction.transaction_type !== 'check_in')
+        .map(transaction => transaction.id);
+      setExtensions(loanIds.length > 0 ? await trpc.getLoanExtensions.query({ transaction_ids: loanIds }) : []);
     } catch (error) {
       console.error('Failed to load transactions:', error);
       toast.error('Failed to load transactions');
@@ -91,7 +103,7 @@ export function TransactionsList() {
             <h3 className="font-medium">Filter Transactions</h3>
           </div>
           
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div className="space-y-2">
               <Label>Transaction Type</Label>
               <Select
@@ -157,6 +169,18 @@ export function TransactionsList() {
                 }
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="transactions-event">Event</Label>
+              <EventSelect
+                id="transactions-event"
+                eventId={filters.event_id ?? null}
+                onChange={(eventId: number | null) =>
+                  setFilters(prev => ({ ...prev, event_id: eventId ?? undefined }))
+                }
+                noneLabel="All Events"
+              />
+            </div>
           </div>
           
           <div className="flex justify-end space-x-2 mt-4">
@@ -204,9 +228,14 @@ export function TransactionsList() {
                     </div>
                   </div>
                   
-                  <Badge className={getTransactionTypeColor(transaction.transaction_type)}>
-                    {transaction.transaction_type.replace('_', ' ')}
-                  </Badge>
+                  <div className="flex items-center space-x-2">
+                    {canExtend && transaction.transaction_type !== 'check_in' && !transaction.actual_return_date && (
+                      <ExtendLoanDialog transaction={transaction} onExtended={loadTransactions} />
+                    )}
+                    <Badge className={getTransactionTypeColor(transaction.transaction_type)}>
+                      {transaction.transaction_type.replace('_', ' ')}
+                    </Badge>
+                  </div>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
@@ -235,10 +264,52 @@ export function TransactionsList() {
                   </div>
                 </div>
 
-                {transaction.actual_return_date && (
+                {transaction.reserved_from && (
+                  <div className="mt-4 p-3 bg-purple-50 border border-purple-200 rounded">
+                    <p className="text-sm font-medium text-purple-800">
+                      Reserved: {formatDate(transaction.reserved_from)}
+                      {transaction.expected_return_date && ` – ${formatDate(transaction.expected_return_date)}`}
+                    </p>
+                  </div>
+                )}
+
+                {transaction.cancelled_at && (
+                  <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded">
+                    <p className="text-sm font-medium text-gray-700">
+                      Cancelled: {formatDate(transaction.cancelled_at)}
+                      {transaction.cancelled_by !== null && ` • Admin ID: ${transaction.cancelled_by}`}
+                      {transaction.cancelled_by_api_key_id !== null && ` • API Key #${transaction.cancelled_by_api_key_id}`}
+                    </p>
+                  </div>
+                )}
+
+                {extensions.some(extension => extension.transaction_id === transaction.id) && (
+                  <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded">
+                    <p className="text-sm font-medium text-blue-800 mb-1">Extensions</p>
+                    {extensions
+                      .filter(extension => extension.transaction_id === transaction.id)
+                      .map(extension => (
+                        <p key={extension.id} className="text-sm text-blue-700">
+                          {extension.previous_return_date ? formatDate(extension.previous_return_date) : 'No date'} → {formatDate(extension.new_return_date)}
+                          {' • '}{extension.reason}
+                          {' • '}Admin ID: {extension.admin_id}, {formatDate(extension.created_at)}
+                        </p>
+                      ))}
+                  </div>
+                )}
+
+                {transaction.overdue_at && !transaction.actual_return_date && (
+                  <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded">
+                    <p className="text-sm font-medium text-red-800">
+                      Overdue since: {formatDate(transaction.overdue_at)}
+                    </p>
+                  </div>
+                )}
+
+                {transaction.actual_return_date && !transaction.cancelled_at && (
                   <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded">
                     <p className="text-sm font-medium text-green-800">
-                      Returned: {formatDate(transaction.actual_return_date)}
+                      {transaction.transaction_type === 'booking' ? 'Hold ended' : 'Returned'}: {formatDate(transaction.actual_return_date)}
                     </p>
                   </div>
                 )}
@@ -252,6 +323,9 @@ export function TransactionsList() {
 
                 <div className="mt-4 pt-3 border-t border-gray-200 text-xs text-gray-400">
                   Transaction #{transaction.id} • Admin ID: {transaction.admin_id} • 
+                  {transaction.api_key_id && `API Key #${transaction.api_key_id} • `}
+                  {transaction.booking_id && `Picked up booking #${transaction.booking_id} • `}
+                  {transaction.group_id && `Receipt #${transaction.group_id} • `}
                   Created: {formatDate(transaction.created_at)}
                 </div>
               </CardContent>
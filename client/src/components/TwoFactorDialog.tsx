@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { TwoFactorSetup } from '@/components/TwoFactorSetup';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { ShieldCheck } from 'lucide-react';
+import type { PublicAdmin } from '../../../server/src/schema';
+
+interface TwoFactorDialogProps {
+  admin: PublicAdmin;
+  // Reloads the signed-in admin after 2FA is turned on or off
+  onChange: () => void;
+}
+
+export function TwoFactorDialog({ admin, onChange }: TwoFactorDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isEnabled = admin.totp_enabled_at !== null;
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    try {
+      await trpc.disableTwoFactor.mutate({ password });
+      toast.success('Two-factor authentication turned off');
+      setPassword('');
+      setIsOpen(false);
+      onChange();
+    } catch (error) {
+      console.error('Failed to disable two-factor authentication:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to turn off two-factor authentication');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open: boolean) => {
+        setIsOpen(open);
+        if (!open) setPassword('');
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="text-slate-600 hover:text-slate-800">
+          <ShieldCheck className={`h-4 w-4 mr-2 ${isEnabled ? 'text-green-600' : ''}`} />
+          2FA
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            {isEnabled
+              ? 'Your account asks for a code from your authenticator app when you sign in.'
+              : 'Protect your account with a code from an authenticator app.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isEnabled ? (
+          <form onSubmit={handleDisable} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-disable-password">Confirm Password *</Label>
+              <Input
+                id="two-factor-disable-password"
+                type="password"
+                value={password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsOpen(false)}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving} className="bg-red-600 hover:bg-red-700">
+                {isSaving ? 'Turning off...' : 'Turn Off 2FA'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <TwoFactorSetup
+            onComplete={() => {
+              setIsOpen(false);
+              onChange();
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { trpc } from '@/utils/trpc';
+import { toast } from 'sonner';
+import { Copy, ShieldCheck } from 'lucide-react';
+import type { TwoFactorEnrolment } from '../../../server/src/schema';
+
+interface TwoFactorSetupProps {
+  // Called once the recovery codes have been acknowledged
+  onComplete: () => void;
+}
+
+// Enrolment flow: scan the QR code, confirm with a first code, then save the recovery codes
+export function TwoFactorSetup({ onComplete }: TwoFactorSetupProps) {
+  const [enrolment, setEnrolment] = useState<TwoFactorEnrolment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleBegin = async () => {
+    setIsWorking(true);
+    try {
+      const result = await trpc.beginTwoFactorEnrolment.mutate();
+      setEnrolment(result);
+    } catch (error) {
+      console.error('Failed to start two-factor enrolment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start two-factor setup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsWorking(true);
+    try {
+      const result = await trpc.confirmTwoFactorEnrolment.mutate({ code: code.trim() });
+      setRecoveryCodes(result.recovery_codes);
+      toast.success('Two-factor authentication enabled');
+    } catch (error) {
+      console.error('Failed to confirm two-factor enrolment:', error);
+      toast.error('That code did not match. Check the time on your device and try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error);
+      toast.error('Copy failed - write the codes down instead');
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600">
+          Store these recovery codes somewhere safe. Each one signs you in once if you lose your
+          authenticator. They will not be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 rounded-md border bg-slate-50 p-4 font-mono text-sm">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={handleCopyCodes}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button type="button" onClick={onComplete} className="bg-blue-600 hover:bg-blue-700">
+            I have saved my codes
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!enrolment) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600">
+          Use an authenticator app such as Google Authenticator, 1Password or Authy to generate a
+          6-digit code each time you sign in.
+        </p>
+        <Button onClick={handleBegin} disabled={isWorking} className="w-full bg-blue-600 hover:bg-blue-700">
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          {isWorking ? 'Preparing...' : 'Set Up Authenticator'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-4">
+      <p className="text-sm text-slate-600">
+        Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center rounded-md border bg-white p-4">
+        <QRCodeSVG value={enrolment.provisioning_uri} size={192} />
+      </div>
+      <div className="space-y-1 text-xs text-slate-500">
+        <p>Can't scan? Enter this key manually:</p>
+        <p className="font-mono text-sm text-slate-700 break-all">{enrolment.secret}</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-setup-code">Authentication Code *</Label>
+        <Input
+          id="two-factor-setup-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+          placeholder="123456"
+          maxLength={6}
+          required
+        />
+      </div>
+      <Button type="submit" disabled={isWorking} className="w-full bg-blue-600 hover:bg-blue-700">
+        {isWorking ? 'Verifying...' : 'Verify and Enable'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,9 @@
+import type { Borrower } from '../../../server/src/schema';
+
+// The contact line a picked borrower prefills, in the same form the server records it
+export const borrowerContact = (borrower: Borrower): string =>
+  [borrower.email, borrower.phone].filter(Boolean).join(', ');
+
+// Check-outs and bookings refused by a borrower's suspension or loan limit; managers may override them
+export const isLoanRefusal = (error: unknown): error is Error =>
+  error instanceof Error && error.message.startsWith('Loan refused:');
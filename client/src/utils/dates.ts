@@ -0,0 +1,7 @@
+// Combines a day picked in a calendar with an HH:mm time input, in the browser's time zone
+export const atTime = (day: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(day);
+  result.setHours(hours || 0, minutes || 0, 0, 0);
+  return result;
+};
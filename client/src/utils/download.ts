@@ -0,0 +1,13 @@
+// Saves content the server generated as a file, without a round trip through a download URL
+export const downloadFile = (filename: string, content: BlobPart, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Binary files come back from the API base64-encoded
+export const fromBase64 = (data: string): Uint8Array =>
+  Uint8Array.from(atob(data), char => char.charCodeAt(0));
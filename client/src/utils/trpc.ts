@@ -4,7 +4,15 @@ import superjson from 'superjson';
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      // Attach the session token issued by loginAdmin to every request
+      headers() {
+        const token = localStorage.getItem('sessionToken');
+        return token ? { authorization: `Bearer ${token}` } : {};
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
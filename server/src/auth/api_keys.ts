@@ -0,0 +1,68 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { adminsTable, apiKeysTable } from '../db/schema';
+import { type Admin, type ApiKey, type Permission } from '../schema';
+import { hasPermission } from './permissions';
+import { eq, and, isNull, or, gt, getTableColumns } from 'drizzle-orm';
+
+// Keys carry a fixed prefix so the context can tell them apart from session tokens
+const API_KEY_PREFIX = 'swk_';
+
+// Characters of the key kept in clear text so admins can recognise it in listings
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Every column except the hash, for selects whose results leave the server
+const { key_hash, ...publicColumns } = getTableColumns(apiKeysTable);
+export const apiKeyColumns = publicColumns;
+
+export const isApiKeyToken = (token: string): boolean => {
+  return token.startsWith(API_KEY_PREFIX);
+};
+
+export const hashApiKey = (key: string): string => {
+  return createHash('sha256').update(key).digest('hex');
+};
+
+// Returns a new random key with its display prefix. Only the hash is persisted.
+export const generateApiKey = (): { key: string; prefix: string } => {
+  const key = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+};
+
+// Resolves a key to its admin, or null when unknown, revoked, expired or the admin is disabled
+export const resolveApiKey = async (key: string): Promise<{ admin: Admin; apiKey: ApiKey } | null> => {
+  const now = new Date();
+  const results = await db.select({ apiKey: apiKeyColumns, admin: adminsTable })
+    .from(apiKeysTable)
+    .innerJoin(adminsTable, eq(apiKeysTable.admin_id, adminsTable.id))
+    .where(
+      and(
+        eq(apiKeysTable.key_hash, hashApiKey(key)),
+        isNull(apiKeysTable.revoked_at),
+        or(isNull(apiKeysTable.expires_at), gt(apiKeysTable.expires_at, now)),
+        isNull(adminsTable.disabled_at)
+      )
+    )
+    .execute();
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  const { admin, apiKey } = results[0];
+
+  await db.update(apiKeysTable)
+    .set({ last_used_at: now })
+    .where(eq(apiKeysTable.id, apiKey.id))
+    .execute();
+
+  return { admin, apiKey: { ...apiKey, last_used_at: now } };
+};
+
+// A key never grants more than the admin's role; scopes can only narrow it further
+export const apiKeyAllows = (admin: Admin, apiKey: ApiKey, permission: Permission): boolean => {
+  if (!hasPermission(admin.role, permission)) {
+    return false;
+  }
+  return apiKey.scopes === null || apiKey.scopes.includes(permission);
+};
@@ -0,0 +1,33 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Hashes written before Bun.password was adopted are unsalted hex SHA-256 digests
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+export interface PasswordVerification {
+  valid: boolean;
+  needsRehash: boolean; // True when the stored hash should be replaced with hashPassword()
+}
+
+export const hashPassword = async (password: string): Promise<string> => {
+  return Bun.password.hash(password);
+};
+
+export const isLegacyHash = (hash: string): boolean => {
+  return LEGACY_SHA256_PATTERN.test(hash);
+};
+
+export const verifyPassword = async (password: string, hash: string): Promise<PasswordVerification> => {
+  if (isLegacyHash(hash)) {
+    const candidate = createHash('sha256').update(password).digest();
+    const valid = timingSafeEqual(candidate, Buffer.from(hash, 'hex'));
+    return { valid, needsRehash: valid };
+  }
+
+  try {
+    const valid = await Bun.password.verify(password, hash);
+    return { valid, needsRehash: false };
+  } catch (error) {
+    // Unrecognised hash formats can never match
+    return { valid: false, needsRehash: false };
+  }
+};
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { loginEventsTable, type NewLoginEvent } from '../db/schema';
+import { type Admin, type AuthenticatedLogin } from '../schema';
+import { createSession } from './session';
+import { getRolePermissions } from './permissions';
+import { toPublicAdmin } from './redact';
+import { getLoginBlock, clearUsernameThrottle } from './throttle';
+import { isTwoFactorSetupRequired } from './two_factor';
+
+type LoginAttempt = Omit<NewLoginEvent, 'outcome'>;
+
+export const recordLoginEvent = async (event: NewLoginEvent): Promise<void> => {
+  await db.insert(loginEventsTable)
+    .values(event)
+    .execute();
+};
+
+const formatRetryDelay = (until: Date): string => {
+  const seconds = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000));
+  return seconds < 60 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+};
+
+// Refuses the attempt, without checking any credential, while its username or address is throttled
+export const ensureLoginNotThrottled = async (attempt: LoginAttempt): Promise<void> => {
+  const blockedUntil = await getLoginBlock(attempt.username, attempt.ip_address ?? null);
+  if (blockedUntil) {
+    await recordLoginEvent({ ...attempt, outcome: 'throttled' });
+    throw new Error(`Too many failed login attempts. Try again in ${formatRetryDelay(blockedUntil)}.`);
+  }
+};
+
+// Finishes a login once every factor has been checked: resets the username counter,
+// logs the success and issues a session token for subsequent authenticated requests
+export const completeLogin = async (admin: Admin, ipAddress: string | null): Promise<AuthenticatedLogin> => {
+  await clearUsernameThrottle(admin.username);
+  await recordLoginEvent({ admin_id: admin.id, username: admin.username, ip_address: ipAddress, outcome: 'success' });
+
+  const session = await createSession(admin.id);
+
+  return {
+    status: 'authenticated',
+    admin: toPublicAdmin(admin),
+    permissions: getRolePermissions(admin.role),
+    two_factor_setup_required: await isTwoFactorSetupRequired(admin),
+    token: session.token,
+    expires_at: session.expires_at
+  };
+};
@@ -0,0 +1,228 @@
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey, type KeyObject } from 'crypto';
+import { adminRoleSchema, type AdminRole } from '../schema';
+
+// Single sign-on is off unless OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_REDIRECT_URI are set.
+// OIDC_CLIENT_SECRET is optional: without it the app is a public client relying on PKCE alone.
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string; // The client app URL the provider sends the browser back to
+  scopes: string;
+  providerName: string; // Label for the login button
+  jitProvisioning: boolean; // Create an admin for identities that match no account
+  defaultRole: AdminRole; // Role given to admins created by just-in-time provisioning
+}
+
+export interface IdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+  name?: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// Tolerance for clock drift between this server and the identity provider
+const CLOCK_SKEW_SECONDS = 60;
+
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env['OIDC_ISSUER'];
+  const clientId = process.env['OIDC_CLIENT_ID'];
+  const redirectUri = process.env['OIDC_REDIRECT_URI'];
+  if (!issuer || !clientId || !redirectUri) {
+    return null;
+  }
+
+  const role = adminRoleSchema.safeParse(process.env['OIDC_DEFAULT_ROLE'] || 'viewer');
+  if (!role.success) {
+    throw new Error(`OIDC_DEFAULT_ROLE must be one of: ${adminRoleSchema.options.join(', ')}`);
+  }
+
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env['OIDC_CLIENT_SECRET'] || null,
+    redirectUri,
+    scopes: process.env['OIDC_SCOPES'] || 'openid email profile',
+    providerName: process.env['OIDC_PROVIDER_NAME'] || 'Single Sign-On',
+    jitProvisioning: process.env['OIDC_JIT_PROVISIONING'] === 'true',
+    defaultRole: role.data,
+  };
+};
+
+const base64url = (data: Buffer): string => data.toString('base64url');
+
+export const generateOidcToken = (): string => base64url(randomBytes(32));
+
+// PKCE S256: the challenge goes to the authorization endpoint, the verifier to the token endpoint
+export const createCodeChallenge = (verifier: string): string => {
+  return base64url(createHash('sha256').update(verifier).digest());
+};
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<Record<string, unknown>> => {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body || typeof body !== 'object') {
+    const detail = body && typeof body === 'object' && 'error' in body ? `: ${String(body.error)}` : '';
+    throw new Error(`Identity provider request failed (${response.status})${detail}`);
+  }
+  return body as Record<string, unknown>;
+};
+
+const metadataCache = new Map<string, ProviderMetadata>();
+
+export const discoverProvider = async (issuer: string): Promise<ProviderMetadata> => {
+  const cached = metadataCache.get(issuer);
+  if (cached) {
+    return cached;
+  }
+
+  const document = await fetchJson(`${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`);
+  const { authorization_endpoint, token_endpoint, jwks_uri } = document;
+  if (document['issuer'] !== issuer || typeof authorization_endpoint !== 'string'
+    || typeof token_endpoint !== 'string' || typeof jwks_uri !== 'string') {
+    throw new Error('Identity provider returned an invalid discovery document');
+  }
+
+  const metadata = { issuer, authorization_endpoint, token_endpoint, jwks_uri };
+  metadataCache.set(issuer, metadata);
+  return metadata;
+};
+
+export const buildAuthorizationUrl = (
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  params: { state: string; nonce: string; codeVerifier: string }
+): string => {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', config.redirectUri);
+  url.searchParams.set('scope', config.scopes);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', createCodeChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+};
+
+// Redeems the authorization code and returns the raw ID token
+export const exchangeAuthorizationCode = async (
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  code: string,
+  codeVerifier: string
+): Promise<string> => {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    code_verifier: codeVerifier,
+    client_id: config.clientId,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (config.clientSecret) {
+    // client_secret_basic, the default authentication method for confidential clients
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson(metadata.token_endpoint, { method: 'POST', headers, body });
+  if (typeof tokens['id_token'] !== 'string') {
+    throw new Error('Identity provider did not return an ID token');
+  }
+  return tokens['id_token'];
+};
+
+const jwksCache = new Map<string, JsonWebKey[]>();
+
+// Keys are re-fetched once when the token names an unknown kid, which covers key rotation
+const findSigningKey = async (jwksUri: string, kid: string | undefined): Promise<KeyObject> => {
+  const pick = (keys: JsonWebKey[]) => keys.find(key => kid === undefined || key['kid'] === kid);
+
+  let key = pick(jwksCache.get(jwksUri) ?? []);
+  if (!key) {
+    const jwks = await fetchJson(jwksUri);
+    const keys = Array.isArray(jwks['keys']) ? jwks['keys'] as JsonWebKey[] : [];
+    jwksCache.set(jwksUri, keys);
+    key = pick(keys);
+  }
+  if (!key) {
+    throw new Error('ID token was signed with an unknown key');
+  }
+
+  return createPublicKey({ key, format: 'jwk' });
+};
+
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('ID token is malformed');
+  }
+};
+
+// Checks the signature and the claims that bind the token to this client and this sign-in
+export const verifyIdToken = async (
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  idToken: string,
+  expectedNonce: string
+): Promise<IdTokenClaims> => {
+  const segments = idToken.split('.');
+  if (segments.length !== 3) {
+    throw new Error('ID token is malformed');
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment(encodedHeader);
+  const claims = decodeSegment(encodedPayload);
+
+  const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, 'base64url');
+  const key = await findSigningKey(metadata.jwks_uri, typeof header['kid'] === 'string' ? header['kid'] : undefined);
+
+  let valid: boolean;
+  if (header['alg'] === 'RS256') {
+    valid = verify('sha256', signingInput, key, signature);
+  } else if (header['alg'] === 'ES256') {
+    valid = verify('sha256', signingInput, { key, dsaEncoding: 'ieee-p1363' }, signature);
+  } else {
+    throw new Error(`Unsupported ID token algorithm: ${String(header['alg'])}`);
+  }
+  if (!valid) {
+    throw new Error('ID token signature is invalid');
+  }
+
+  const audiences = Array.isArray(claims['aud']) ? claims['aud'] : [claims['aud']];
+  const now = Math.floor(Date.now() / 1000);
+  if (claims['iss'] !== metadata.issuer) {
+    throw new Error('ID token was issued by a different provider');
+  }
+  if (!audiences.includes(config.clientId) || (audiences.length > 1 && claims['azp'] !== config.clientId)) {
+    throw new Error('ID token was issued to a different client');
+  }
+  if (typeof claims['exp'] !== 'number' || claims['exp'] + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (claims['nonce'] !== expectedNonce) {
+    throw new Error('ID token does not belong to this sign-in');
+  }
+  if (typeof claims['sub'] !== 'string' || !claims['sub']) {
+    throw new Error('ID token has no subject');
+  }
+
+  return {
+    sub: claims['sub'],
+    email: typeof claims['email'] === 'string' ? claims['email'] : undefined,
+    email_verified: typeof claims['email_verified'] === 'boolean' ? claims['email_verified'] : undefined,
+    preferred_username: typeof claims['preferred_username'] === 'string' ? claims['preferred_username'] : undefined,
+    name: typeof claims['name'] === 'string' ? claims['name'] : undefined,
+  };
+};
@@ -0,0 +1,24 @@
+import { type Transaction } from '../db';
+import { adminsTable } from '../db/schema';
+import { eq, and, asc, isNull } from 'drizzle-orm';
+
+// Throws when removing owner access from adminId would leave no active owner. The active owners
+// are locked in id order, and callers check before locking the admin they change, so concurrent
+// demotions, disables and deletes of owners queue up here and each sees what the others left.
+export const ensureAnotherActiveOwner = async (tx: Transaction, adminId: number): Promise<void> => {
+  const owners = await tx.select({ id: adminsTable.id })
+    .from(adminsTable)
+    .where(
+      and(
+        eq(adminsTable.role, 'owner'),
+        isNull(adminsTable.disabled_at)
+      )
+    )
+    .orderBy(asc(adminsTable.id))
+    .for('update')
+    .execute();
+
+  if (!owners.some(owner => owner.id !== adminId)) {
+    throw new Error('Cannot remove the last active owner account');
+  }
+};
@@ -0,0 +1,49 @@
+import { type AdminRole, type Permission } from '../schema';
+
+// Permission matrix - the single source of truth for what each role may do
+const rolePermissions: Record<AdminRole, Permission[]> = {
+  owner: [
+    'catalog:read',
+    'catalog:write',
+    'catalog:delete',
+    'equipment:set_status',
+    'transactions:read',
+    'transactions:write',
+    'borrowers:restrict',
+    'admins:read',
+    'admins:manage',
+  ],
+  manager: [
+    'catalog:read',
+    'catalog:write',
+    'catalog:delete',
+    'equipment:set_status',
+    'transactions:read',
+    'transactions:write',
+    'borrowers:restrict',
+    'admins:read',
+  ],
+  clerk: [
+    'catalog:read',
+    'transactions:read',
+    'transactions:write',
+  ],
+  viewer: [
+    'catalog:read',
+    'transactions:read',
+  ],
+};
+
+export const getRolePermissions = (role: AdminRole): Permission[] => {
+  return [...rolePermissions[role]];
+};
+
+export const hasPermission = (role: AdminRole, permission: Permission): boolean => {
+  return rolePermissions[role].includes(permission);
+};
+
+// Roles that can delete equipment or manage admins may protect their account with TOTP.
+// Everyone else enrols only when an owner makes two-factor authentication mandatory.
+export const canEnrolTwoFactor = (role: AdminRole): boolean => {
+  return hasPermission(role, 'catalog:delete') || hasPermission(role, 'admins:manage');
+};
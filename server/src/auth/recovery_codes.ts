@@ -0,0 +1,49 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { adminRecoveryCodesTable } from '../db/schema';
+import { eq, and, isNull } from 'drizzle-orm';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Codes are compared without case, spaces or dashes so they can be typed loosely
+const hashRecoveryCode = (code: string): string => {
+  const normalised = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+  return createHash('sha256').update(normalised).digest('hex');
+};
+
+// Replaces the admin's recovery codes with a fresh set. The plain codes are returned once
+// and only their hashes are stored.
+export const issueRecoveryCodes = async (adminId: number): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await db.delete(adminRecoveryCodesTable)
+    .where(eq(adminRecoveryCodesTable.admin_id, adminId))
+    .execute();
+
+  await db.insert(adminRecoveryCodesTable)
+    .values(codes.map(code => ({ admin_id: adminId, code_hash: hashRecoveryCode(code) })))
+    .execute();
+
+  return codes;
+};
+
+// Marks a matching unused code as used. Returns false when the code is unknown or spent,
+// including when a concurrent login spent it first.
+export const consumeRecoveryCode = async (adminId: number, code: string): Promise<boolean> => {
+  const used = await db.update(adminRecoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(
+      and(
+        eq(adminRecoveryCodesTable.admin_id, adminId),
+        eq(adminRecoveryCodesTable.code_hash, hashRecoveryCode(code)),
+        isNull(adminRecoveryCodesTable.used_at)
+      )
+    )
+    .returning()
+    .execute();
+
+  return used.length > 0;
+};
@@ -0,0 +1,7 @@
+import { type Admin, type PublicAdmin } from '../schema';
+
+// Strips credentials from an admin row before it is returned to a client
+export const toPublicAdmin = (admin: Admin): PublicAdmin => {
+  const { password_hash, totp_secret, totp_last_used_step, ...publicAdmin } = admin;
+  return publicAdmin;
+};
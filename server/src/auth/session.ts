@@ -0,0 +1,75 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { adminsTable, adminSessionsTable } from '../db/schema';
+import { type Admin } from '../schema';
+import { eq, and, gt, ne, isNull } from 'drizzle-orm';
+
+// Session lifetime, configurable in hours via SESSION_TTL_HOURS (defaults to 12h)
+const SESSION_TTL_MS = (Number(process.env['SESSION_TTL_HOURS']) || 12) * 60 * 60 * 1000;
+
+export const hashSessionToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+// Issues a new opaque bearer token for the admin. Only its hash is persisted.
+export const createSession = async (adminId: number): Promise<{ token: string; expires_at: Date }> => {
+  const token = randomBytes(32).toString('base64url');
+  const expires_at = new Date(Date.now() + SESSION_TTL_MS);
+
+  await db.insert(adminSessionsTable)
+    .values({
+      admin_id: adminId,
+      token_hash: hashSessionToken(token),
+      expires_at,
+    })
+    .execute();
+
+  return { token, expires_at };
+};
+
+// Resolves a bearer token to its admin, or null when unknown, expired or disabled
+export const resolveSession = async (token: string): Promise<Admin | null> => {
+  const results = await db.select()
+    .from(adminSessionsTable)
+    .innerJoin(adminsTable, eq(adminSessionsTable.admin_id, adminsTable.id))
+    .where(
+      and(
+        eq(adminSessionsTable.token_hash, hashSessionToken(token)),
+        gt(adminSessionsTable.expires_at, new Date()),
+        isNull(adminsTable.disabled_at)
+      )
+    )
+    .execute();
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  return results[0].admins;
+};
+
+// Revokes every session of the admin, optionally keeping the one identified by exceptToken
+export const revokeAdminSessions = async (adminId: number, exceptToken?: string): Promise<void> => {
+  const conditions = [eq(adminSessionsTable.admin_id, adminId)];
+  if (exceptToken) {
+    conditions.push(ne(adminSessionsTable.token_hash, hashSessionToken(exceptToken)));
+  }
+
+  await db.delete(adminSessionsTable)
+    .where(and(...conditions))
+    .execute();
+};
+
+// Extracts the token from an `Authorization: Bearer <token>` header
+export const getBearerToken = (header: string | undefined): string | null => {
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+
+  return token;
+};
@@ -0,0 +1,102 @@
+import { db } from '../db';
+import { loginThrottlesTable } from '../db/schema';
+import { eq, and, or, gt, lt, isNull, sql, type SQL } from 'drizzle-orm';
+
+export type ThrottleScope = 'username' | 'ip';
+
+// Consecutive failures tolerated before any delay is imposed
+const FREE_ATTEMPTS = 3;
+
+// Lockout thresholds and duration, configurable via LOGIN_LOCKOUT_THRESHOLD, LOGIN_IP_LOCKOUT_THRESHOLD
+// and LOGIN_LOCKOUT_MINUTES. Addresses get a higher threshold since several admins may share one.
+const USERNAME_LOCKOUT_THRESHOLD = Number(process.env['LOGIN_LOCKOUT_THRESHOLD']) || 5;
+const IP_LOCKOUT_THRESHOLD = Number(process.env['LOGIN_IP_LOCKOUT_THRESHOLD']) || 20;
+const LOCKOUT_MS = (Number(process.env['LOGIN_LOCKOUT_MINUTES']) || 15) * 60 * 1000;
+
+const throttleKeys = (username: string, ipAddress: string | null): { scope: ThrottleScope; key: string }[] => [
+  { scope: 'username', key: username },
+  ...(ipAddress ? [{ scope: 'ip' as const, key: ipAddress }] : []),
+];
+
+// How long further attempts are refused after the given number of consecutive failures:
+// nothing for the first few, then doubling delays, then a full lockout at the threshold
+export const getBlockDurationMs = (scope: ThrottleScope, failedCount: number): number => {
+  const threshold = scope === 'username' ? USERNAME_LOCKOUT_THRESHOLD : IP_LOCKOUT_THRESHOLD;
+
+  if (failedCount >= threshold) {
+    return LOCKOUT_MS;
+  }
+  if (failedCount <= FREE_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(2 ** (failedCount - FREE_ATTEMPTS) * 1000, LOCKOUT_MS);
+};
+
+// Returns when attempts for this username or address may resume, or null when they are not blocked
+export const getLoginBlock = async (username: string, ipAddress: string | null): Promise<Date | null> => {
+  const keyConditions: SQL<unknown>[] = throttleKeys(username, ipAddress).map(({ scope, key }) =>
+    and(eq(loginThrottlesTable.scope, scope), eq(loginThrottlesTable.key, key))!
+  );
+
+  const blocks = await db.select({ blocked_until: loginThrottlesTable.blocked_until })
+    .from(loginThrottlesTable)
+    .where(and(or(...keyConditions), gt(loginThrottlesTable.blocked_until, new Date())))
+    .execute();
+
+  return blocks.reduce<Date | null>((latest, { blocked_until }) =>
+    blocked_until && (!latest || blocked_until > latest) ? blocked_until : latest, null);
+};
+
+// Counts a failed attempt against the username and address. Counters older than the
+// lockout window start again from one.
+export const recordLoginFailure = async (username: string, ipAddress: string | null): Promise<void> => {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - LOCKOUT_MS);
+
+  for (const { scope, key } of throttleKeys(username, ipAddress)) {
+    const [throttle] = await db.insert(loginThrottlesTable)
+      .values({ scope, key, failed_count: 1, last_failed_at: now })
+      .onConflictDoUpdate({
+        target: [loginThrottlesTable.scope, loginThrottlesTable.key],
+        set: {
+          failed_count: sql`case when ${loginThrottlesTable.last_failed_at} < ${windowStart.toISOString()} then 1 else ${loginThrottlesTable.failed_count} + 1 end`,
+          last_failed_at: now,
+        },
+      })
+      .returning()
+      .execute();
+
+    const blockMs = getBlockDurationMs(scope, throttle.failed_count);
+    if (blockMs > 0) {
+      await db.update(loginThrottlesTable)
+        .set({ blocked_until: new Date(now.getTime() + blockMs) })
+        .where(eq(loginThrottlesTable.id, throttle.id))
+        .execute();
+    }
+  }
+};
+
+// Clears the failure counter for a username, after a successful login or a manual unlock.
+// Address counters are left to expire so one valid account cannot reset them.
+export const clearUsernameThrottle = async (username: string): Promise<void> => {
+  await db.delete(loginThrottlesTable)
+    .where(and(eq(loginThrottlesTable.scope, 'username'), eq(loginThrottlesTable.key, username)))
+    .execute();
+};
+
+// Deletes counters that no longer block anything and whose window has passed; returns how many
+export const pruneStaleThrottles = async (now: Date = new Date()): Promise<number> => {
+  const windowStart = new Date(now.getTime() - LOCKOUT_MS);
+
+  const deleted = await db.delete(loginThrottlesTable)
+    .where(
+      and(
+        lt(loginThrottlesTable.last_failed_at, windowStart),
+        or(isNull(loginThrottlesTable.blocked_until), lt(loginThrottlesTable.blocked_until, now))
+      )
+    )
+    .returning({ id: loginThrottlesTable.id })
+    .execute();
+
+  return deleted.length;
+};
@@ -0,0 +1,113 @@
+import { createHmac, randomBytes } from 'crypto';
+
+// RFC 6238 parameters understood by every common authenticator app
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from the neighbouring steps are accepted to tolerate clock drift
+const DRIFT_STEPS = 1;
+
+const ISSUER = process.env['TOTP_ISSUER'] || 'Sound Equipment Warehouse';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of input.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in TOTP secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// 160-bit secret, the size recommended for HMAC-SHA1
+export const generateTotpSecret = (): string => {
+  return base32Encode(randomBytes(20));
+};
+
+export const getTotpStep = (time: number = Date.now()): number => {
+  return Math.floor(time / 1000 / STEP_SECONDS);
+};
+
+export const generateTotpCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+};
+
+// Returns the time step the code belongs to, or null when it does not match. Steps at or
+// before lastUsedStep are refused so an intercepted code cannot be replayed.
+export const verifyTotpCode = (
+  secret: string,
+  code: string,
+  lastUsedStep: number | null,
+  time: number = Date.now()
+): number | null => {
+  const normalised = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalised)) {
+    return null;
+  }
+
+  const currentStep = getTotpStep(time);
+  for (let step = currentStep - DRIFT_STEPS; step <= currentStep + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    if (generateTotpCode(secret, step) === normalised) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+// otpauth:// URI that authenticator apps read from a QR code
+export const buildProvisioningUri = (secret: string, accountName: string): string => {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
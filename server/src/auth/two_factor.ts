@@ -0,0 +1,106 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { adminsTable, adminRecoveryCodesTable, loginChallengesTable, securitySettingsTable, type LoginChallenge } from '../db/schema';
+import { type Admin } from '../schema';
+import { hashSessionToken } from './session';
+import { verifyTotpCode } from './totp';
+import { consumeRecoveryCode } from './recovery_codes';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+
+// The second login step must follow the password promptly
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Security settings live in a single row; until an owner saves them the defaults apply
+export const SECURITY_SETTINGS_ID = 1;
+
+export const isTwoFactorRequired = async (): Promise<boolean> => {
+  const settings = await db.select()
+    .from(securitySettingsTable)
+    .where(eq(securitySettingsTable.id, SECURITY_SETTINGS_ID))
+    .execute();
+
+  return settings.length > 0 && settings[0].require_two_factor;
+};
+
+// True when policy requires 2FA and the admin has not enrolled yet
+export const isTwoFactorSetupRequired = async (admin: Admin): Promise<boolean> => {
+  return admin.totp_enabled_at === null && await isTwoFactorRequired();
+};
+
+// Issues the token that carries a password-verified login over to the TOTP step
+export const createLoginChallenge = async (adminId: number): Promise<{ challenge_token: string; expires_at: Date }> => {
+  const challenge_token = randomBytes(32).toString('base64url');
+  const expires_at = new Date(Date.now() + CHALLENGE_TTL_MS);
+
+  await db.insert(loginChallengesTable)
+    .values({
+      admin_id: adminId,
+      token_hash: hashSessionToken(challenge_token),
+      expires_at,
+    })
+    .execute();
+
+  return { challenge_token, expires_at };
+};
+
+// Counts a wrong code against the challenge, discarding it once too many have been tried
+export const recordChallengeFailure = async (challenge: LoginChallenge): Promise<void> => {
+  if (challenge.failed_attempts + 1 >= MAX_CHALLENGE_ATTEMPTS) {
+    await db.delete(loginChallengesTable)
+      .where(eq(loginChallengesTable.id, challenge.id))
+      .execute();
+    return;
+  }
+
+  await db.update(loginChallengesTable)
+    .set({ failed_attempts: challenge.failed_attempts + 1 })
+    .where(eq(loginChallengesTable.id, challenge.id))
+    .execute();
+};
+
+// Checks a TOTP code, falling back to the admin's one-time recovery codes
+export const verifySecondFactor = async (admin: Admin, code: string): Promise<boolean> => {
+  if (!admin.totp_secret || admin.totp_enabled_at === null) {
+    return false;
+  }
+
+  const step = verifyTotpCode(admin.totp_secret, code, admin.totp_last_used_step);
+  if (step !== null) {
+    // Only one of two logins racing with the same code may move the step forward
+    const claimed = await db.update(adminsTable)
+      .set({ totp_last_used_step: step })
+      .where(
+        and(
+          eq(adminsTable.id, admin.id),
+          or(isNull(adminsTable.totp_last_used_step), lt(adminsTable.totp_last_used_step, step))
+        )
+      )
+      .returning({ id: adminsTable.id })
+      .execute();
+    return claimed.length > 0;
+  }
+
+  return consumeRecoveryCode(admin.id, code);
+};
+
+// Turns 2FA off for the admin and discards their secret, recovery codes and pending challenges
+export const clearTwoFactor = async (adminId: number): Promise<void> => {
+  await db.delete(adminRecoveryCodesTable)
+    .where(eq(adminRecoveryCodesTable.admin_id, adminId))
+    .execute();
+
+  await db.delete(loginChallengesTable)
+    .where(eq(loginChallengesTable.admin_id, adminId))
+    .execute();
+
+  await db.update(adminsTable)
+    .set({
+      totp_secret: null,
+      totp_enabled_at: null,
+      totp_last_used_step: null,
+      updated_at: new Date()
+    })
+    .where(eq(adminsTable.id, adminId))
+    .execute();
+};
@@ -0,0 +1,52 @@
+import { type Database } from '../db';
+import { equipmentTable } from '../db/schema';
+import { type Equipment, type EquipmentStatus } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+// Verifies that an item can be attached to a parent: the parent must exist, and must not be
+// the item itself or one of its own accessories, so the chain of parents always ends.
+export const checkParent = async (database: Database, parentId: number, equipmentId: number | null): Promise<void> => {
+  let ancestorId: number | null = parentId;
+  while (ancestorId !== null) {
+    if (ancestorId === equipmentId) {
+      throw new Error('Equipment cannot be an accessory of itself or of its own accessories');
+    }
+
+    const ancestors: { parent_id: number | null }[] = await database.select({ parent_id: equipmentTable.parent_id })
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, ancestorId))
+      .execute();
+
+    if (ancestors.length === 0) {
+      throw new Error(`Parent equipment with id ${ancestorId} not found`);
+    }
+    ancestorId = ancestors[0].parent_id;
+  }
+};
+
+export const loadAccessories = async (database: Database, parentId: number): Promise<Equipment[]> =>
+  database.select()
+    .from(equipmentTable)
+    .where(eq(equipmentTable.parent_id, parentId))
+    .orderBy(asc(equipmentTable.name), asc(equipmentTable.serial_number))
+    .execute();
+
+// Verifies that the locked rows of the requested accessories all belong to the parent and
+// are in one of the expected statuses
+export const checkAccessories = (
+  parent: Equipment,
+  accessoryIds: number[],
+  locked: Equipment[],
+  statuses: EquipmentStatus[]
+): Equipment[] => {
+  return accessoryIds.map(id => {
+    const accessory = locked.find(item => item.id === id);
+    if (!accessory || accessory.parent_id !== parent.id) {
+      throw new Error(`Equipment with id ${id} is not an accessory of ${parent.serial_number}`);
+    }
+    if (!statuses.includes(accessory.status)) {
+      throw new Error(`Accessory ${accessory.serial_number} is ${accessory.status}`);
+    }
+    return accessory;
+  });
+};
@@ -0,0 +1,107 @@
+import { type Transaction } from '../db';
+import { borrowerRuleOverridesTable, borrowersTable, equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { type Borrower, type BorrowerRule } from '../schema';
+import { reservationStart } from './conflicts';
+import { and, eq, inArray, isNull, lte, ne } from 'drizzle-orm';
+
+export interface BrokenRule {
+  rule: BorrowerRule;
+  detail: string;
+}
+
+export interface RuleOverride {
+  borrower_id: number;
+  transaction_id: number;
+  justification: string;
+  admin_id: number;
+  api_key_id: number | null;
+}
+
+// A suspension without an end date lasts until it is lifted
+export const isSuspended = (borrower: Borrower, now: Date): boolean =>
+  borrower.suspended_at !== null && (borrower.suspended_until === null || borrower.suspended_until > now);
+
+const totalValue = (items: { replacement_value: number | null }[]): number =>
+  items.reduce((sum, item) => sum + (item.replacement_value ?? 0), 0);
+
+// Checks a borrower's suspension and loan limits before they take the given items. What they
+// hold is their open check-outs and the bookings that have started; reservations further ahead
+// are not counted until they start. The borrower row is locked, so two concurrent loans cannot
+// both fit under a limit that only one of them does.
+//
+// Broken rules refuse the loan unless an override reason is given, in which case they are
+// returned for recordOverrides to log once the loan is recorded. A booking being picked up is
+// passed as replacing, so the item it already holds is not counted twice.
+export const checkBorrowerRules = async (
+  tx: Transaction,
+  borrowerId: number,
+  equipmentIds: number[],
+  overrideReason: string | undefined,
+  replacing?: number
+): Promise<BrokenRule[]> => {
+  const borrowers = await tx.select()
+    .from(borrowersTable)
+    .where(eq(borrowersTable.id, borrowerId))
+    .for('update')
+    .execute();
+  const borrower = borrowers[0];
+
+  const now = new Date();
+  const broken: BrokenRule[] = [];
+
+  if (isSuspended(borrower, now)) {
+    const until = borrower.suspended_until ? ` until ${borrower.suspended_until.toISOString()}` : '';
+    broken.push({
+      rule: 'suspended',
+      detail: `${borrower.name} is suspended${until}: ${borrower.suspension_reason ?? 'no reason given'}`,
+    });
+  }
+
+  if (borrower.max_items !== null || borrower.max_value !== null) {
+    const held = await tx.select({ replacement_value: equipmentTable.replacement_value })
+      .from(equipmentTransactionsTable)
+      .innerJoin(equipmentTable, eq(equipmentTransactionsTable.equipment_id, equipmentTable.id))
+      .where(and(
+        eq(equipmentTransactionsTable.borrower_id, borrowerId),
+        ne(equipmentTransactionsTable.transaction_type, 'check_in'),
+        isNull(equipmentTransactionsTable.actual_return_date),
+        lte(reservationStart, now),
+        replacing === undefined ? undefined : ne(equipmentTransactionsTable.id, replacing)
+      ))
+      .execute();
+
+    if (borrower.max_items !== null && held.length + equipmentIds.length > borrower.max_items) {
+      broken.push({
+        rule: 'item_limit',
+        detail: `${borrower.name} may hold at most ${borrower.max_items} items at once and already holds ${held.length}`,
+      });
+    }
+
+    if (borrower.max_value !== null) {
+      const taking = await tx.select({ replacement_value: equipmentTable.replacement_value })
+        .from(equipmentTable)
+        .where(inArray(equipmentTable.id, equipmentIds))
+        .execute();
+      if (totalValue(held) + totalValue(taking) > borrower.max_value) {
+        broken.push({
+          rule: 'value_limit',
+          detail: `${borrower.name} may hold equipment worth at most ${borrower.max_value} at once; they hold ${totalValue(held)} and this adds ${totalValue(taking)}`,
+        });
+      }
+    }
+  }
+
+  if (broken.length > 0 && !overrideReason) {
+    throw new Error(`Loan refused: ${broken.map(rule => rule.detail).join('; ')}`);
+  }
+  return broken;
+};
+
+export const recordOverrides = async (tx: Transaction, broken: BrokenRule[], override: RuleOverride): Promise<void> => {
+  if (broken.length === 0) {
+    return;
+  }
+  await tx.insert(borrowerRuleOverridesTable)
+    .values(broken.map(({ rule, detail }) => ({ ...override, rule, detail })))
+    .execute();
+};
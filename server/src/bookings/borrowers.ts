@@ -0,0 +1,125 @@
+import { type Database, type Transaction } from '../db';
+import { borrowersTable } from '../db/schema';
+import { type Borrower } from '../schema';
+import { requireDepartment } from './departments';
+import { asc, eq, sql } from 'drizzle-orm';
+
+// user_contact is free text ("Jane, 555-0100, jane@example.com"), so the parts the directory
+// keeps separately are picked out of it
+export const contactEmail = (contact: string | null | undefined): string | null =>
+  contact?.match(/[^\s<>(),;:"]+@[^\s<>(),;:"]+\.[^\s<>(),;:"]+/)?.[0] ?? null;
+
+const contactPhone = (contact: string | null | undefined): string | null =>
+  contact?.match(/\+?\d[\d\s().-]{4,}\d/)?.[0] ?? null;
+
+// "  John   Smith " and "john smith" are the same borrower
+const foldName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+const foldedName = sql`lower(regexp_replace(trim(${borrowersTable.name}), '\\s+', ' ', 'g'))`;
+
+// The contact line recorded on transactions of a directory borrower
+export const borrowerContact = (borrower: Borrower): string | null =>
+  [borrower.email, borrower.phone].filter(Boolean).join(', ') || null;
+
+const findByEmail = async (database: Database, email: string): Promise<Borrower | null> => {
+  const borrowers = await database.select()
+    .from(borrowersTable)
+    .where(sql`lower(${borrowersTable.email}) = ${email.toLowerCase()}`)
+    .execute();
+  return borrowers[0] ?? null;
+};
+
+// Matches free-text borrower details to the directory: by email when the contact holds one,
+// then by name among borrowers without a different email. Anyone not found is added, so every
+// check-out and booking has a borrower to show up under.
+export const findOrCreateBorrower = async (database: Transaction, name: string, contact: string | null): Promise<Borrower> => {
+  const email = contactEmail(contact);
+  if (email) {
+    const byEmail = await findByEmail(database, email);
+    if (byEmail) {
+      return byEmail;
+    }
+  }
+
+  // Names cannot be unique, so requests for the same name take turns until their transactions
+  // end: the second one finds the borrower the first added instead of adding another
+  await database.execute(sql`select pg_advisory_xact_lock(hashtext(${foldName(name).toLowerCase()}))`);
+
+  const byName = await database.select()
+    .from(borrowersTable)
+    .where(eq(foldedName, foldName(name).toLowerCase()))
+    .orderBy(asc(borrowersTable.id))
+    .execute();
+  const match = byName.find(borrower => borrower.email === null || email === null);
+  if (match) {
+    if (email && match.email === null) {
+      // Learn the address the first time it comes with the name
+      const updated = await database.update(borrowersTable)
+        .set({ email, updated_at: new Date() })
+        .where(eq(borrowersTable.id, match.id))
+        .returning()
+        .execute();
+      return updated[0];
+    }
+    return match;
+  }
+
+  const created = await database.insert(borrowersTable)
+    .values({ name: foldName(name), email, phone: contactPhone(contact) })
+    .onConflictDoNothing()
+    .returning()
+    .execute();
+
+  // Another request added the same email in the meantime
+  return created[0] ?? (await findByEmail(database, email!))!;
+};
+
+export interface BorrowerDetails {
+  borrower_id?: number;
+  department_id?: number;
+  user_name: string;
+  user_contact?: string | null;
+}
+
+export interface ResolvedBorrower {
+  borrower_id: number;
+  department_id: number | null;
+  user_name: string;
+  user_contact: string | null;
+}
+
+// The department a loan is charged to: the one the form picked, or else the borrower's own
+const resolveDepartment = async (database: Database, input: BorrowerDetails, borrower: Borrower): Promise<number | null> => {
+  if (input.department_id === undefined) {
+    return borrower.department_id;
+  }
+  return (await requireDepartment(database, input.department_id)).id;
+};
+
+// What a check-out or booking records about its borrower. A directory entry supplies the name,
+// and the contact unless the form gave one for this loan.
+export const resolveBorrower = async (database: Transaction, input: BorrowerDetails): Promise<ResolvedBorrower> => {
+  if (input.borrower_id !== undefined) {
+    const borrowers = await database.select()
+      .from(borrowersTable)
+      .where(eq(borrowersTable.id, input.borrower_id))
+      .execute();
+
+    if (borrowers.length === 0) {
+      throw new Error(`Borrower with id ${input.borrower_id} not found`);
+    }
+    return {
+      borrower_id: borrowers[0].id,
+      department_id: await resolveDepartment(database, input, borrowers[0]),
+      user_name: borrowers[0].name,
+      user_contact: input.user_contact || borrowerContact(borrowers[0]),
+    };
+  }
+
+  const borrower = await findOrCreateBorrower(database, input.user_name, input.user_contact || null);
+  return {
+    borrower_id: borrower.id,
+    department_id: await resolveDepartment(database, input, borrower),
+    user_name: input.user_name,
+    user_contact: input.user_contact || null,
+  };
+};
@@ -0,0 +1,23 @@
+import { type Commitment, type EquipmentTransaction } from '../schema';
+
+// The window an open check-out or booking claims its item for. A check-out without a return
+// date, or one that is past due, keeps the item until it is actually checked in.
+export const commitmentOf = (transaction: EquipmentTransaction, now: Date): Commitment => {
+  const start = transaction.reserved_from ?? transaction.transaction_date;
+  let end = transaction.expected_return_date;
+  if (transaction.transaction_type === 'check_out' && (end === null || end < now)) {
+    end = null;
+  }
+
+  return {
+    transaction_id: transaction.id,
+    transaction_type: transaction.transaction_type,
+    user_name: transaction.user_name,
+    start,
+    end,
+  };
+};
+
+export const overlapsWindow = (commitment: Commitment, start: Date, end: Date): boolean => {
+  return commitment.start < end && (commitment.end === null || commitment.end > start);
+};
@@ -0,0 +1,56 @@
+import { type Transaction } from '../db';
+import { equipmentTransactionsTable } from '../db/schema';
+import { type EquipmentTransaction } from '../schema';
+import { and, asc, eq, gt, inArray, isNull, lt, ne, or, sql, type SQL } from 'drizzle-orm';
+
+// A booking holds its item from reserved_from until expected_return_date. Immediate bookings
+// have no reserved_from and hold the item from the moment they were made.
+export const reservationStart = sql`coalesce(${equipmentTransactionsTable.reserved_from}, ${equipmentTransactionsTable.transaction_date})`;
+
+// Open bookings and check-outs of an item whose window overlaps [start, end), where a null end
+// means open-ended. A check-out holds its item until it is returned: past its expected return
+// date if it is overdue, and indefinitely if it has none. Callers lock the equipment row first,
+// so two overlapping claims on the item cannot both pass this check.
+export const findReservationConflicts = async (
+  tx: Transaction,
+  equipmentId: number,
+  start: Date,
+  end: Date | null,
+  excludeId?: number
+): Promise<EquipmentTransaction[]> => {
+  const conditions: SQL<unknown>[] = [
+    eq(equipmentTransactionsTable.equipment_id, equipmentId),
+    inArray(equipmentTransactionsTable.transaction_type, ['booking', 'check_out']),
+    isNull(equipmentTransactionsTable.actual_return_date),
+    or(
+      isNull(equipmentTransactionsTable.expected_return_date),
+      gt(equipmentTransactionsTable.expected_return_date, start),
+      // An open check-out is still out now, so it overlaps any window that has already begun
+      start <= new Date() ? eq(equipmentTransactionsTable.transaction_type, 'check_out') : undefined
+    )!,
+  ];
+
+  if (end !== null) {
+    conditions.push(lt(reservationStart, end));
+  }
+  if (excludeId !== undefined) {
+    conditions.push(ne(equipmentTransactionsTable.id, excludeId));
+  }
+
+  return tx.select()
+    .from(equipmentTransactionsTable)
+    .where(and(...conditions))
+    .orderBy(asc(reservationStart))
+    .execute();
+};
+
+const describeReservation = (booking: EquipmentTransaction): string => {
+  const start = (booking.reserved_from ?? booking.transaction_date).toISOString();
+  const end = booking.expected_return_date ? booking.expected_return_date.toISOString() : 'open-ended';
+  const holder = booking.transaction_type === 'check_out' ? 'checked out to' : 'for';
+  return `#${booking.id} ${holder} ${booking.user_name} (${start} to ${end})`;
+};
+
+export const reservationConflictError = (conflicts: EquipmentTransaction[]): Error => {
+  return new Error(`Equipment is already reserved for this period: ${conflicts.map(describeReservation).join('; ')}`);
+};
@@ -0,0 +1,39 @@
+import { type Transaction } from '../db';
+import { equipmentTransactionsTable } from '../db/schema';
+import { type EquipmentTransaction, type ReturnedDamage } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Damage can only be charged to items that are part of the return
+export const checkReturnedDamage = (damage: ReturnedDamage[] | undefined, returning: number[]): void => {
+  const notReturning = (damage ?? []).filter(entry => !returning.includes(entry.equipment_id));
+  if (notReturning.length > 0) {
+    throw new Error(`Damage recorded for equipment that is not being returned: ${notReturning.map(entry => entry.equipment_id).join(', ')}`);
+  }
+};
+
+// Charges each damaged item's repair cost to the check-out it came back from, as checkInEquipment
+// does for a single item. Items that were only booked never left, so they cannot be damaged.
+export const recordReturnedDamage = async (
+  tx: Transaction,
+  damage: ReturnedDamage[] | undefined,
+  closed: EquipmentTransaction[]
+): Promise<void> => {
+  const charges = (damage ?? []).map(entry => ({
+    ...entry,
+    checkOut: closed.find(transaction =>
+      transaction.equipment_id === entry.equipment_id && transaction.transaction_type === 'check_out'
+    ),
+  }));
+
+  const notCheckedOut = charges.filter(charge => !charge.checkOut);
+  if (notCheckedOut.length > 0) {
+    throw new Error(`Damage can only be recorded when checked-out equipment comes back: ${notCheckedOut.map(charge => charge.equipment_id).join(', ')}`);
+  }
+
+  for (const charge of charges) {
+    await tx.update(equipmentTransactionsTable)
+      .set({ damage_cost: charge.damage_cost })
+      .where(eq(equipmentTransactionsTable.id, charge.checkOut!.id))
+      .execute();
+  }
+};
@@ -0,0 +1,17 @@
+import { type Database } from '../db';
+import { departmentsTable } from '../db/schema';
+import { type Department } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Loads a department that a borrower or loan is about to be charged to
+export const requireDepartment = async (database: Database, departmentId: number): Promise<Department> => {
+  const departments = await database.select()
+    .from(departmentsTable)
+    .where(eq(departmentsTable.id, departmentId))
+    .execute();
+
+  if (departments.length === 0) {
+    throw new Error(`Department with id ${departmentId} not found`);
+  }
+  return departments[0];
+};
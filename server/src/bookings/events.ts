@@ -0,0 +1,71 @@
+import { type Database } from '../db';
+import { equipmentTable, equipmentTransactionsTable, eventsTable } from '../db/schema';
+import { type Event, type EventDetails, type EventItemStatus, type EquipmentTransaction } from '../schema';
+import { and, asc, eq, ne } from 'drizzle-orm';
+
+// The event a new booking or check-out is allocated to, if the form picked one
+export const resolveEvent = async (database: Database, eventId: number | undefined): Promise<number | null> => {
+  if (eventId === undefined) {
+    return null;
+  }
+
+  const events = await database.select({ id: eventsTable.id })
+    .from(eventsTable)
+    .where(eq(eventsTable.id, eventId))
+    .execute();
+
+  if (events.length === 0) {
+    throw new Error(`Event with id ${eventId} not found`);
+  }
+  return eventId;
+};
+
+// A booking stays reserved until it is picked up, when its check-out takes over. Check-outs
+// still open when the event's items were returned did not come back, so they are missing.
+const itemStatus = (transaction: EquipmentTransaction, event: Event): EventItemStatus => {
+  if (transaction.transaction_type === 'booking') {
+    if (transaction.actual_return_date !== null) {
+      return 'returned'; // An immediate booking released without being picked up
+    }
+    return transaction.picked_at ? 'picked' : 'reserved';
+  }
+  if (transaction.actual_return_date !== null) {
+    return 'returned';
+  }
+  return event.returned_at && transaction.transaction_date <= event.returned_at ? 'missing' : 'out';
+};
+
+// Builds the detail view of an event: every item allocated to it, through a booking or a
+// check-out, once. Cancelled bookings and bookings that were picked up are left out.
+export const loadEventDetails = async (database: Database, eventId: number): Promise<EventDetails | null> => {
+  const events = await database.select()
+    .from(eventsTable)
+    .where(eq(eventsTable.id, eventId))
+    .execute();
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  const rows = await database.select({
+    transaction: equipmentTransactionsTable,
+    equipment: equipmentTable,
+  })
+    .from(equipmentTransactionsTable)
+    .innerJoin(equipmentTable, eq(equipmentTransactionsTable.equipment_id, equipmentTable.id))
+    .where(
+      and(
+        eq(equipmentTransactionsTable.event_id, eventId),
+        ne(equipmentTransactionsTable.transaction_type, 'check_in')
+      )
+    )
+    .orderBy(asc(equipmentTable.name), asc(equipmentTable.serial_number), asc(equipmentTransactionsTable.id))
+    .execute();
+
+  const pickedUp = new Set(rows.map(({ transaction }) => transaction.booking_id));
+  const items = rows
+    .filter(({ transaction }) => transaction.cancelled_at === null && !pickedUp.has(transaction.id))
+    .map(({ transaction, equipment }) => ({ transaction, equipment, status: itemStatus(transaction, events[0]) }));
+
+  return { event: events[0], items };
+};
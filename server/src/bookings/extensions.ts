@@ -0,0 +1,17 @@
+import { type Database } from '../db';
+import { loanExtensionsTable } from '../db/schema';
+import { type LoanExtension } from '../schema';
+import { asc, inArray } from 'drizzle-orm';
+
+// Extension history of some transactions, oldest first
+export const loadExtensions = async (database: Database, transactionIds: number[]): Promise<LoanExtension[]> => {
+  if (transactionIds.length === 0) {
+    return [];
+  }
+
+  return database.select()
+    .from(loanExtensionsTable)
+    .where(inArray(loanExtensionsTable.transaction_id, transactionIds))
+    .orderBy(asc(loanExtensionsTable.created_at), asc(loanExtensionsTable.id))
+    .execute();
+};
@@ -0,0 +1,136 @@
+import { type Database, type Transaction } from '../db';
+import { equipmentTable, equipmentTransactionsTable, transactionGroupsTable } from '../db/schema';
+import { type CheckOutGroupInput, type TransactionGroupDetails } from '../schema';
+import { resolveBorrower } from './borrowers';
+import { resolveEvent } from './events';
+import { checkBorrowerRules, recordOverrides } from './borrower_rules';
+import { findReservationConflicts, reservationConflictError } from './conflicts';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+
+// Builds the receipt of a group. An item is outstanding while its check-out is still open,
+// however it was checked in, so single-item check-ins of group items are counted too.
+export const loadGroupDetails = async (database: Database, groupId: number): Promise<TransactionGroupDetails | null> => {
+  const groups = await database.select()
+    .from(transactionGroupsTable)
+    .where(eq(transactionGroupsTable.id, groupId))
+    .execute();
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  const rows = await database.select({
+    equipment: equipmentTable,
+    check_out: equipmentTransactionsTable,
+  })
+    .from(equipmentTransactionsTable)
+    .innerJoin(equipmentTable, eq(equipmentTransactionsTable.equipment_id, equipmentTable.id))
+    .where(
+      and(
+        eq(equipmentTransactionsTable.group_id, groupId),
+        eq(equipmentTransactionsTable.transaction_type, 'check_out')
+      )
+    )
+    .orderBy(asc(equipmentTable.name), asc(equipmentTable.serial_number))
+    .execute();
+
+  return {
+    group: groups[0],
+    items: rows,
+    outstanding: rows
+      .filter(row => row.check_out.actual_return_date === null)
+      .map(row => row.equipment),
+  };
+};
+
+// Checks several items out under one new group, inside the caller's transaction. Either every
+// item leaves or, if any item cannot be checked out, the error rolls the whole transaction back.
+export const checkOutItems = async (
+  tx: Transaction,
+  input: CheckOutGroupInput,
+  adminId: number,
+  apiKeyId: number | null,
+  kitId: number | null = null
+): Promise<TransactionGroupDetails> => {
+  // Lock the rows in id order, so two carts sharing items cannot deadlock each other
+  const equipment = await tx.select()
+    .from(equipmentTable)
+    .where(inArray(equipmentTable.id, input.equipment_ids))
+    .orderBy(asc(equipmentTable.id))
+    .for('update')
+    .execute();
+
+  const missing = input.equipment_ids.filter(id => !equipment.some(item => item.id === id));
+  if (missing.length > 0) {
+    throw new Error(`Equipment not found: ${missing.join(', ')}`);
+  }
+
+  // Report every item that is not available, so the whole cart can be fixed in one go
+  const unavailable = equipment.filter(item => item.status !== 'available');
+  if (unavailable.length > 0) {
+    const details = unavailable.map(item => `${item.serial_number} (${item.status})`).join(', ');
+    throw new Error(`Some equipment is not available: ${details}`);
+  }
+
+  // The items leave now and must be back before any reservation already on the books
+  const now = new Date();
+  const conflicts = [];
+  for (const item of equipment) {
+    conflicts.push(...await findReservationConflicts(tx, item.id, now, input.expected_return_date ?? null));
+  }
+  if (conflicts.length > 0) {
+    throw reservationConflictError(conflicts);
+  }
+
+  const borrower = await resolveBorrower(tx, input);
+  const eventId = await resolveEvent(tx, input.event_id);
+  const broken = await checkBorrowerRules(tx, borrower.borrower_id, input.equipment_ids, input.override_reason);
+
+  const groups = await tx.insert(transactionGroupsTable)
+    .values({
+      admin_id: adminId,
+      api_key_id: apiKeyId,
+      ...borrower,
+      event_id: eventId,
+      notes: input.notes || null,
+      expected_return_date: input.expected_return_date || null,
+      kit_id: kitId
+    })
+    .returning()
+    .execute();
+
+  await tx.update(equipmentTable)
+    .set({
+      status: 'checked_out',
+      updated_at: now
+    })
+    .where(inArray(equipmentTable.id, input.equipment_ids))
+    .execute();
+
+  const checkOuts = await tx.insert(equipmentTransactionsTable)
+    .values(input.equipment_ids.map(equipmentId => ({
+      equipment_id: equipmentId,
+      admin_id: adminId,
+      api_key_id: apiKeyId,
+      transaction_type: 'check_out' as const,
+      ...borrower,
+      event_id: eventId,
+      notes: input.notes || null,
+      expected_return_date: input.expected_return_date || null,
+      actual_return_date: null,
+      group_id: groups[0].id
+    })))
+    .returning()
+    .execute();
+
+  // Overrides are logged against the first item of the cart
+  await recordOverrides(tx, broken, {
+    borrower_id: borrower.borrower_id,
+    transaction_id: checkOuts[0].id,
+    justification: input.override_reason!,
+    admin_id: adminId,
+    api_key_id: apiKeyId
+  });
+
+  return (await loadGroupDetails(tx, groups[0].id))!;
+};
@@ -0,0 +1,106 @@
+import { type Database, type Transaction } from '../db';
+import { equipmentTable, kitMembersTable, kitsTable } from '../db/schema';
+import { type Equipment, type EquipmentStatus, type Kit, type KitDetails } from '../schema';
+import { and, asc, eq, inArray, ne } from 'drizzle-orm';
+
+// A kit takes the first of these statuses that any member has, so it reads as checked out
+// while any member is out and is only available when every member is
+const KIT_STATUS_PRECEDENCE: EquipmentStatus[] = ['checked_out', 'booked', 'maintenance'];
+
+export const kitStatus = (members: Equipment[]): EquipmentStatus =>
+  KIT_STATUS_PRECEDENCE.find(status => members.some(member => member.status === status)) ?? 'available';
+
+export const isOutstanding = (member: Equipment): boolean =>
+  member.status === 'checked_out' || member.status === 'booked';
+
+export const loadKitsDetails = async (database: Database, kits: Kit[]): Promise<KitDetails[]> => {
+  if (kits.length === 0) {
+    return [];
+  }
+
+  const rows = await database.select({
+    kit_id: kitMembersTable.kit_id,
+    equipment: equipmentTable,
+  })
+    .from(kitMembersTable)
+    .innerJoin(equipmentTable, eq(kitMembersTable.equipment_id, equipmentTable.id))
+    .where(inArray(kitMembersTable.kit_id, kits.map(kit => kit.id)))
+    .orderBy(asc(equipmentTable.name), asc(equipmentTable.serial_number))
+    .execute();
+
+  return kits.map(kit => {
+    const members = rows.filter(row => row.kit_id === kit.id).map(row => row.equipment);
+    return {
+      kit,
+      members,
+      status: kitStatus(members),
+      outstanding: members.filter(isOutstanding),
+    };
+  });
+};
+
+export const loadKitDetails = async (database: Database, kitId: number): Promise<KitDetails | null> => {
+  const kits = await database.select()
+    .from(kitsTable)
+    .where(eq(kitsTable.id, kitId))
+    .execute();
+
+  const [details] = await loadKitsDetails(database, kits);
+  return details ?? null;
+};
+
+// Locks a kit, so its member list cannot change underneath a cascading transaction, and then
+// its members in id order like every other multi-item operation
+export const lockKit = async (tx: Transaction, kitId: number): Promise<{ kit: Kit; members: Equipment[] } | null> => {
+  const kits = await tx.select()
+    .from(kitsTable)
+    .where(eq(kitsTable.id, kitId))
+    .for('update')
+    .execute();
+
+  if (kits.length === 0) {
+    return null;
+  }
+
+  const members = await tx.select({ equipment: equipmentTable })
+    .from(kitMembersTable)
+    .innerJoin(equipmentTable, eq(kitMembersTable.equipment_id, equipmentTable.id))
+    .where(eq(kitMembersTable.kit_id, kitId))
+    .orderBy(asc(equipmentTable.id))
+    .for('update', { of: equipmentTable })
+    .execute();
+
+  return { kit: kits[0], members: members.map(row => row.equipment) };
+};
+
+// Verifies that every item exists and is not already part of another kit
+export const checkKitMembers = async (tx: Transaction, equipmentIds: number[], kitId: number | null): Promise<void> => {
+  const equipment = await tx.select({ id: equipmentTable.id })
+    .from(equipmentTable)
+    .where(inArray(equipmentTable.id, equipmentIds))
+    .execute();
+
+  const missing = equipmentIds.filter(id => !equipment.some(item => item.id === id));
+  if (missing.length > 0) {
+    throw new Error(`Equipment not found: ${missing.join(', ')}`);
+  }
+
+  const taken = await tx.select({
+    serial_number: equipmentTable.serial_number,
+    kit_name: kitsTable.name,
+  })
+    .from(kitMembersTable)
+    .innerJoin(equipmentTable, eq(kitMembersTable.equipment_id, equipmentTable.id))
+    .innerJoin(kitsTable, eq(kitMembersTable.kit_id, kitsTable.id))
+    .where(
+      kitId === null
+        ? inArray(kitMembersTable.equipment_id, equipmentIds)
+        : and(inArray(kitMembersTable.equipment_id, equipmentIds), ne(kitMembersTable.kit_id, kitId))
+    )
+    .execute();
+
+  if (taken.length > 0) {
+    const details = taken.map(member => `${member.serial_number} (${member.kit_name})`).join(', ');
+    throw new Error(`Some equipment already belongs to another kit: ${details}`);
+  }
+};
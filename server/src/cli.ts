@@ -0,0 +1,178 @@
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import { db } from './db';
+import { adminsTable } from './db/schema';
+import { createAdminInputSchema, resetAdminPasswordInputSchema, type Admin } from './schema';
+import { createAdmin } from './handlers/create_admin';
+import { getAdmins } from './handlers/get_admins';
+import { resetAdminPassword } from './handlers/reset_admin_password';
+import { unlockAdmin } from './handlers/unlock_admin';
+import { getAdminSessions } from './handlers/get_admin_sessions';
+import { pruneExpiredRecords } from './handlers/prune_expired_records';
+import { runOverdueCheck } from './handlers/run_overdue_check';
+import { migrateBorrowers } from './handlers/migrate_borrowers';
+import { revokeAdminSessions } from './auth/session';
+import { clearTwoFactor } from './auth/two_factor';
+import { eq } from 'drizzle-orm';
+
+// Server-side administration that works directly against APP_DATABASE_URL, for when nobody
+// can sign in: a fresh install, a locked-out owner, or scheduled maintenance.
+const USAGE = `Usage: bun run cli <command> [options]
+
+Commands:
+  create-admin --username <name> --email <email> [--role <role>] [--password <password>]
+  reset-password --username <name> [--password <password>]
+  list-admins
+  list-sessions [--username <name>]
+  revoke-sessions --username <name>
+  unlock --username <name>
+  reset-2fa --username <name>
+  prune [--login-events-days <days>]
+  overdue-check
+  migrate-borrowers
+
+Passwords can also be passed in ADMIN_PASSWORD; otherwise they are prompted for.`;
+
+class UsageError extends Error {}
+
+const requireOption = (value: string | undefined, name: string): string => {
+  if (!value) {
+    throw new UsageError(`Missing --${name}`);
+  }
+  return value;
+};
+
+const readPassword = (value: string | undefined): string => {
+  const password = value ?? process.env['ADMIN_PASSWORD'] ?? prompt('Password:');
+  if (!password) {
+    throw new UsageError('A password is required');
+  }
+  return password;
+};
+
+const findAdmin = async (username: string): Promise<Admin> => {
+  const admins = await db.select()
+    .from(adminsTable)
+    .where(eq(adminsTable.username, username))
+    .execute();
+
+  if (admins.length === 0) {
+    throw new Error(`No admin named "${username}"`);
+  }
+  return admins[0];
+};
+
+const run = async (argv: string[]): Promise<void> => {
+  const { positionals, values } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      username: { type: 'string' },
+      email: { type: 'string' },
+      role: { type: 'string' },
+      password: { type: 'string' },
+      'login-events-days': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command] = positionals;
+  if (!command || values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  switch (command) {
+    case 'create-admin': {
+      const input = createAdminInputSchema.parse({
+        username: requireOption(values.username, 'username'),
+        email: requireOption(values.email, 'email'),
+        role: values.role,
+        password: readPassword(values.password),
+      });
+      const admin = await createAdmin(input);
+      console.log(`Created ${admin.role} "${admin.username}" (id ${admin.id})`);
+      return;
+    }
+
+    case 'reset-password': {
+      const admin = await findAdmin(requireOption(values.username, 'username'));
+      const input = resetAdminPasswordInputSchema.parse({ id: admin.id, new_password: readPassword(values.password) });
+      await resetAdminPassword(input);
+      console.log(`Password reset for "${admin.username}"; their sessions were signed out`);
+      return;
+    }
+
+    case 'list-admins': {
+      const admins = await getAdmins();
+      console.table(admins.map(admin => ({
+        id: admin.id,
+        username: admin.username,
+        email: admin.email,
+        role: admin.role,
+        disabled: admin.disabled_at !== null,
+        two_factor: admin.totp_enabled_at !== null,
+      })));
+      return;
+    }
+
+    case 'list-sessions': {
+      const admin = values.username ? await findAdmin(values.username) : null;
+      const sessions = await getAdminSessions(admin?.id);
+      console.table(sessions);
+      return;
+    }
+
+    case 'revoke-sessions': {
+      const admin = await findAdmin(requireOption(values.username, 'username'));
+      await revokeAdminSessions(admin.id);
+      console.log(`Signed out every session of "${admin.username}"`);
+      return;
+    }
+
+    case 'unlock': {
+      const admin = await findAdmin(requireOption(values.username, 'username'));
+      await unlockAdmin(admin.id);
+      console.log(`Cleared the login lockout of "${admin.username}"`);
+      return;
+    }
+
+    case 'reset-2fa': {
+      const admin = await findAdmin(requireOption(values.username, 'username'));
+      await clearTwoFactor(admin.id);
+      await revokeAdminSessions(admin.id);
+      console.log(`Removed two-factor authentication from "${admin.username}"; their sessions were signed out`);
+      return;
+    }
+
+    case 'prune': {
+      const days = values['login-events-days'];
+      const retention = days !== undefined ? Number(days) : undefined;
+      if (retention !== undefined && (!Number.isInteger(retention) || retention < 1)) {
+        throw new UsageError('--login-events-days must be a positive whole number');
+      }
+      console.table(await pruneExpiredRecords(retention));
+      return;
+    }
+
+    case 'overdue-check': {
+      console.table(await runOverdueCheck());
+      return;
+    }
+
+    case 'migrate-borrowers': {
+      console.table(await migrateBorrowers());
+      return;
+    }
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+};
+
+run(process.argv.slice(2))
+  .catch((error) => {
+    console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : `Error: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$client.end());
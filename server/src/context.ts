@@ -0,0 +1,30 @@
+import { type IncomingMessage } from 'http';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { getBearerToken, resolveSession } from './auth/session';
+import { isApiKeyToken, resolveApiKey } from './auth/api_keys';
+
+// Source address of the request. Behind a reverse proxy set TRUST_PROXY=true so the
+// client address is taken from X-Forwarded-For instead of the proxy's own.
+const getClientAddress = (req: IncomingMessage): string | null => {
+  if (process.env['TRUST_PROXY'] === 'true') {
+    const header = req.headers['x-forwarded-for'];
+    const forwarded = (Array.isArray(header) ? header[0] : header)?.split(',')[0]?.trim();
+    if (forwarded) {
+      return forwarded;
+    }
+  }
+  return req.socket.remoteAddress ?? null;
+};
+
+// Resolves the calling admin on every request, either from a session token or from an
+// API key. Exactly one of sessionToken and apiKey is set once a caller is authenticated.
+export const createContext = async ({ req }: CreateHTTPContextOptions) => {
+  const token = getBearerToken(req.headers.authorization);
+  const resolvedKey = token && isApiKeyToken(token) ? await resolveApiKey(token) : null;
+  const sessionToken = token && !isApiKeyToken(token) ? token : null;
+  const admin = resolvedKey?.admin ?? (sessionToken ? await resolveSession(sessionToken) : null);
+
+  return { admin, sessionToken, apiKey: resolvedKey?.apiKey ?? null, ipAddress: getClientAddress(req) };
+};
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
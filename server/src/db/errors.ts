@@ -0,0 +1,11 @@
+// Postgres reports unique violations with SQLSTATE 23505 and the name of the violated constraint
+// or index. Query errors may arrive wrapped, so the cause is checked as well.
+export const isUniqueViolation = (error: unknown, constraint: string): boolean => {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  if ('code' in error && error.code === '23505' && 'constraint' in error && error.constraint === constraint) {
+    return true;
+  }
+  return 'cause' in error && isUniqueViolation(error.cause, constraint);
+};
@@ -9,3 +9,9 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// The handle passed to db.transaction callbacks, for helpers that run inside one
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Either the pool or an open transaction, for reads that work in both
+export type Database = typeof db | Transaction;
@@ -1,5 +1,6 @@
-import { serial, text, pgTable, timestamp, integer, pgEnum, unique } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, integer, boolean, pgEnum, unique, index, uniqueIndex, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { type Permission } from '../schema';
 
 // Equipment status enum
 export const equipmentStatusEnum = pgEnum('equipment_status', ['available', 'checked_out', 'booked', 'maintenance']);
@@ -7,16 +8,122 @@ export const equipmentStatusEnum = pgEnum('equipment_status', ['available', 'che
 // Transaction type enum
 export const transactionTypeEnum = pgEnum('transaction_type', ['check_out', 'check_in', 'booking']);
 
+// Admin role enum
+export const adminRoleEnum = pgEnum('admin_role', ['owner', 'manager', 'clerk', 'viewer']);
+
+// Login throttle scope enum - failures are counted per submitted username and per source address
+export const loginThrottleScopeEnum = pgEnum('login_throttle_scope', ['username', 'ip']);
+
+// Login outcome enum
+export const loginOutcomeEnum = pgEnum('login_outcome', ['success', 'invalid_credentials', 'invalid_two_factor', 'account_disabled', 'throttled']);
+
+// Reminder stage enum: ahead of the due date, on it, and after it
+export const reminderStageEnum = pgEnum('reminder_stage', ['due_soon', 'due', 'overdue']);
+
+// Borrower rules a check-out or booking can break
+export const borrowerRuleEnum = pgEnum('borrower_rule', ['suspended', 'item_limit', 'value_limit']);
+
 // Admins table
 export const adminsTable = pgTable('admins', {
   id: serial('id').primaryKey(),
   username: text('username').notNull().unique(),
   email: text('email').notNull().unique(),
   password_hash: text('password_hash').notNull(),
+  role: adminRoleEnum('role').notNull().default('owner'), // Existing accounts keep the full access they had before roles
+  disabled_at: timestamp('disabled_at'), // Disabled accounts cannot log in but keep their history (nullable)
+  totp_secret: text('totp_secret'), // Base32 TOTP secret, set when enrolment starts (nullable)
+  totp_enabled_at: timestamp('totp_enabled_at'), // Set once enrolment is confirmed with a valid code (nullable)
+  totp_last_used_step: integer('totp_last_used_step'), // Last accepted TOTP time step, so a code cannot be replayed (nullable)
+  oidc_subject: text('oidc_subject').unique(), // Identity provider `sub` claim once linked for single sign-on (nullable)
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Admin sessions table - one row per issued login token
+export const adminSessionsTable = pgTable('admin_sessions', {
+  id: serial('id').primaryKey(),
+  admin_id: integer('admin_id').notNull().references(() => adminsTable.id),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the bearer token, never the token itself
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// API keys table - long-lived credentials for scripts, acting as the admin who created them
+export const apiKeysTable = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  admin_id: integer('admin_id').notNull().references(() => adminsTable.id),
+  name: text('name').notNull(), // What the key is for, e.g. "Barcode station"
+  prefix: text('prefix').notNull(), // Leading characters of the key, shown so it can be recognised
+  key_hash: text('key_hash').notNull().unique(), // SHA-256 of the key, never the key itself
+  scopes: text('scopes').array().$type<Permission[]>(), // Null means every permission of the admin's role
+  expires_at: timestamp('expires_at'), // Null keys never expire
+  last_used_at: timestamp('last_used_at'), // Nullable
+  revoked_at: timestamp('revoked_at'), // Revoked keys are kept so transactions can still name them (nullable)
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Recovery codes table - one-time codes for signing in without the authenticator app
+export const adminRecoveryCodesTable = pgTable('admin_recovery_codes', {
+  id: serial('id').primaryKey(),
+  admin_id: integer('admin_id').notNull().references(() => adminsTable.id),
+  code_hash: text('code_hash').notNull(), // SHA-256 of the normalised code
+  used_at: timestamp('used_at'), // Set when the code is consumed (nullable)
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Login challenges table - issued after a correct password when a TOTP code is still needed
+export const loginChallengesTable = pgTable('login_challenges', {
+  id: serial('id').primaryKey(),
+  admin_id: integer('admin_id').notNull().references(() => adminsTable.id),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the challenge token
+  failed_attempts: integer('failed_attempts').notNull().default(0),
+  expires_at: timestamp('expires_at').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// OIDC login states table - one row per sign-in redirected to the identity provider
+export const oidcLoginStatesTable = pgTable('oidc_login_states', {
+  id: serial('id').primaryKey(),
+  state_hash: text('state_hash').notNull().unique(), // SHA-256 of the state parameter
+  nonce: text('nonce').notNull(), // Must come back inside the ID token
+  code_verifier: text('code_verifier').notNull(), // PKCE verifier sent with the code exchange
+  browser_key_hash: text('browser_key_hash').notNull(), // SHA-256 of the key held by the browser that started the sign-in
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Security settings table - a single row of system-wide security policy
+export const securitySettingsTable = pgTable('security_settings', {
+  id: serial('id').primaryKey(),
+  require_two_factor: boolean('require_two_factor').notNull().default(false), // Every account must enrol TOTP
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Login throttles table - failed attempt counters, kept in the database so lockouts survive restarts
+export const loginThrottlesTable = pgTable('login_throttles', {
+  id: serial('id').primaryKey(),
+  scope: loginThrottleScopeEnum('scope').notNull(),
+  key: text('key').notNull(), // Username or IP address, depending on scope
+  failed_count: integer('failed_count').notNull().default(0),
+  last_failed_at: timestamp('last_failed_at').notNull(),
+  blocked_until: timestamp('blocked_until'), // No attempts are checked before this time (nullable)
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique('login_throttles_scope_key_unique').on(table.scope, table.key),
+]);
+
+// Login events table - audit trail of every sign-in attempt
+export const loginEventsTable = pgTable('login_events', {
+  id: serial('id').primaryKey(),
+  admin_id: integer('admin_id').references(() => adminsTable.id), // Null when the username is unknown
+  username: text('username').notNull(), // Username as submitted
+  ip_address: text('ip_address'), // Source address of the request (nullable)
+  outcome: loginOutcomeEnum('outcome').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('login_events_created_at_idx').on(table.created_at),
+]);
+
 // Equipment table
 export const equipmentTable = pgTable('equipment', {
   id: serial('id').primaryKey(),
@@ -27,35 +134,312 @@ export const equipmentTable = pgTable('equipment', {
   brand: text('brand'), // Nullable by default
   model: text('model'), // Nullable by default
   status: equipmentStatusEnum('status').notNull().default('available'),
+  parent_id: integer('parent_id').references((): AnyPgColumn => equipmentTable.id, { onDelete: 'set null' }), // Item this accessory travels with (nullable)
+  replacement_value: integer('replacement_value'), // What replacing the item would cost, in whole currency units (nullable)
+  storage_location: text('storage_location'), // Shelf or bay the item is kept on (nullable)
+  case_label: text('case_label'), // Road case or rack the item travels in; items sharing a label share the case (nullable)
+  weight_grams: integer('weight_grams'), // Packed weight, for load planning (nullable)
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Name of the index keeping department names unique, so violations can be recognised
+export const DEPARTMENT_NAME_INDEX = 'departments_name_unique';
+
+// Departments table - the departments and cost centres equipment use is charged back to
+export const departmentsTable = pgTable('departments', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(), // Unique regardless of case
+  cost_centre: text('cost_centre'), // Accounting code the charges are booked against (nullable)
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex(DEPARTMENT_NAME_INDEX).on(sql`lower(${table.name})`),
+]);
+
+// Name of the index keeping borrower emails unique, so violations can be recognised
+export const BORROWER_EMAIL_INDEX = 'borrowers_email_unique';
+
+// Borrowers table - the people and organisations equipment is lent to
+export const borrowersTable = pgTable('borrowers', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  organisation: text('organisation'), // Nullable
+  email: text('email'), // Nullable; unique regardless of case when set
+  phone: text('phone'), // Nullable
+  notes: text('notes'), // Nullable
+  suspended_at: timestamp('suspended_at'), // Set while the borrower is suspended (nullable)
+  suspension_reason: text('suspension_reason'), // Nullable
+  suspended_until: timestamp('suspended_until'), // The suspension ends by itself at this time (nullable: until lifted)
+  max_items: integer('max_items'), // Most items held at once (nullable: no limit)
+  max_value: integer('max_value'), // Most replacement value held at once (nullable: no limit)
+  department_id: integer('department_id').references(() => departmentsTable.id), // Default department of their loans (nullable)
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex(BORROWER_EMAIL_INDEX).on(sql`lower(${table.email})`),
+  index('borrowers_name_idx').on(sql`lower(${table.name})`),
+]);
+
+// Events table - the gigs and projects reservations and check-outs are allocated to
+export const eventsTable = pgTable('events', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  venue: text('venue'), // Nullable
+  load_in_at: timestamp('load_in_at'), // When the crew loads in at the venue (nullable)
+  starts_at: timestamp('starts_at').notNull(), // First show
+  ends_at: timestamp('ends_at').notNull(), // End of the last show
+  crew_lead: text('crew_lead'), // Nullable
+  notes: text('notes'), // Nullable
+  returned_at: timestamp('returned_at'), // When everything was returned; items still out after it are missing (nullable)
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('events_starts_at_idx').on(table.starts_at),
+]);
+
+// Kits table - fixed bundles of equipment that are checked out, booked and returned together
+export const kitsTable = pgTable('kits', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(), // e.g. "Vocal Kit 3"
+  serial_number: text('serial_number').unique(), // Label on the kit's case (nullable)
+  description: text('description'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Name of the constraint that keeps an item in at most one kit, so violations can be recognised
+export const KIT_MEMBERSHIP_CONSTRAINT = 'kit_members_equipment_id_unique';
+
+// Kit members table - one row per item in a kit
+export const kitMembersTable = pgTable('kit_members', {
+  id: serial('id').primaryKey(),
+  kit_id: integer('kit_id').notNull().references(() => kitsTable.id, { onDelete: 'cascade' }),
+  equipment_id: integer('equipment_id').notNull().unique(KIT_MEMBERSHIP_CONSTRAINT).references(() => equipmentTable.id, { onDelete: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Transaction groups table - one row per cart check-out, shared by every item it took out
+export const transactionGroupsTable = pgTable('transaction_groups', {
+  id: serial('id').primaryKey(), // The receipt number
+  admin_id: integer('admin_id').notNull().references(() => adminsTable.id),
+  api_key_id: integer('api_key_id').references(() => apiKeysTable.id), // Set when recorded through an API key (nullable)
+  user_name: text('user_name').notNull(), // Borrower of every item in the group
+  user_contact: text('user_contact'), // Nullable
+  borrower_id: integer('borrower_id').references(() => borrowersTable.id), // Nullable until folded by migrate-borrowers
+  department_id: integer('department_id').references(() => departmentsTable.id), // Nullable
+  event_id: integer('event_id').references(() => eventsTable.id), // Nullable
+  notes: text('notes'), // Nullable
+  expected_return_date: timestamp('expected_return_date'), // Nullable
+  kit_id: integer('kit_id').references(() => kitsTable.id, { onDelete: 'set null' }), // Kit the group checked out (nullable)
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Name of the index backing the one-open-check-out rule, so violations can be recognised
+export const OPEN_CHECK_OUT_INDEX = 'equipment_transactions_one_open_check_out';
+export const OPEN_BOOKING_INDEX = 'equipment_transactions_one_open_booking';
+
 // Equipment transactions table
 export const equipmentTransactionsTable = pgTable('equipment_transactions', {
   id: serial('id').primaryKey(),
   equipment_id: integer('equipment_id').notNull().references(() => equipmentTable.id),
   admin_id: integer('admin_id').notNull().references(() => adminsTable.id),
   transaction_type: transactionTypeEnum('transaction_type').notNull(),
-  user_name: text('user_name').notNull(), // Person who took/booked the equipment
+  user_name: text('user_name').notNull(), // Person who took/booked the equipment, as recorded at the time
   user_contact: text('user_contact'), // Contact info for the person (nullable)
+  borrower_id: integer('borrower_id').references(() => borrowersTable.id), // Null for check-ins, and until folded by migrate-borrowers
+  department_id: integer('department_id').references(() => departmentsTable.id), // Department charged for the loan (nullable)
+  event_id: integer('event_id').references(() => eventsTable.id), // Event the item is allocated to; check-ins carry it on (nullable)
+  picked_at: timestamp('picked_at'), // When a reserved item was pulled from storage for its event (nullable)
+  picked_by: integer('picked_by').references(() => adminsTable.id), // Admin who picked the item (nullable)
+  picked_by_api_key_id: integer('picked_by_api_key_id').references(() => apiKeysTable.id), // Set when picked through an API key (nullable)
   notes: text('notes'), // Additional notes (nullable)
   transaction_date: timestamp('transaction_date').defaultNow().notNull(),
+  reserved_from: timestamp('reserved_from'), // Start of a dated reservation; immediate bookings leave it null (nullable)
   expected_return_date: timestamp('expected_return_date'), // For bookings and check-outs (nullable)
-  actual_return_date: timestamp('actual_return_date'), // When actually returned (nullable)
+  actual_return_date: timestamp('actual_return_date'), // When actually returned, or when a booking's hold ended (nullable)
+  booking_id: integer('booking_id').references((): AnyPgColumn => equipmentTransactionsTable.id), // Booking a check-out picked up (nullable)
+  cancelled_at: timestamp('cancelled_at'), // When a booking was cancelled instead of picked up (nullable)
+  cancelled_by: integer('cancelled_by').references(() => adminsTable.id), // Admin who cancelled the booking (nullable)
+  cancelled_by_api_key_id: integer('cancelled_by_api_key_id').references(() => apiKeysTable.id), // Set when cancelled through an API key (nullable)
+  group_id: integer('group_id').references(() => transactionGroupsTable.id), // Cart check-out the item left in (nullable)
+  api_key_id: integer('api_key_id').references(() => apiKeysTable.id), // Set when recorded through an API key (nullable)
+  overdue_at: timestamp('overdue_at'), // When the overdue check found a check-out past its expected return (nullable)
+  damage_cost: integer('damage_cost'), // Repair cost found when a check-out came back, in whole currency units (nullable)
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('equipment_transactions_event_idx').on(table.event_id),
+  // An item can have at most one check-out that has not been returned. Bookings are excluded
+  // because an item can hold several future reservations; their overlaps are checked on insert.
+  uniqueIndex(OPEN_CHECK_OUT_INDEX)
+    .on(table.equipment_id)
+    .where(sql`${table.actual_return_date} is null and ${table.transaction_type} = 'check_out'`),
+  // Likewise an item can be held by at most one immediate booking. Dated reservations are left
+  // out for the same reason.
+  uniqueIndex(OPEN_BOOKING_INDEX)
+    .on(table.equipment_id)
+    .where(sql`${table.transaction_type} = 'booking' and ${table.reserved_from} is null and ${table.actual_return_date} is null and ${table.cancelled_at} is null`),
+]);
+
+// Transaction reminders table - every reminder email sent to a borrower about a check-out
+export const transactionRemindersTable = pgTable('transaction_reminders', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').notNull().references(() => equipmentTransactionsTable.id, { onDelete: 'cascade' }),
+  stage: reminderStageEnum('stage').notNull(),
+  overdue_days: integer('overdue_days').notNull().default(0), // Days past the due date for overdue reminders, 0 otherwise
+  due_date: timestamp('due_date').notNull(), // Expected return the reminder was about; an extension starts a new schedule
+  recipient: text('recipient'), // Nullable: no email address was known, so the reminder was skipped
+  subject: text('subject').notNull(),
+  sent_at: timestamp('sent_at').defaultNow().notNull(),
+}, (table) => [
+  // Each reminder goes out once, even when overdue checks run side by side
+  unique('transaction_reminders_stage_unique').on(table.transaction_id, table.due_date, table.stage, table.overdue_days),
+]);
+
+// Loan extensions table - every change to the expected return of an open check-out or booking
+export const loanExtensionsTable = pgTable('loan_extensions', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').notNull().references(() => equipmentTransactionsTable.id, { onDelete: 'cascade' }),
+  admin_id: integer('admin_id').notNull().references(() => adminsTable.id), // Who approved the extension
+  api_key_id: integer('api_key_id').references(() => apiKeysTable.id), // Set when recorded through an API key (nullable)
+  previous_return_date: timestamp('previous_return_date'), // Nullable: the loan may have had no due date
+  new_return_date: timestamp('new_return_date').notNull(),
+  reason: text('reason').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Borrower rule overrides table - the justification each time a manager lets a check-out or
+// booking through despite a suspension or loan limit
+export const borrowerRuleOverridesTable = pgTable('borrower_rule_overrides', {
+  id: serial('id').primaryKey(),
+  borrower_id: integer('borrower_id').notNull().references(() => borrowersTable.id, { onDelete: 'cascade' }),
+  transaction_id: integer('transaction_id').notNull().references(() => equipmentTransactionsTable.id, { onDelete: 'cascade' }), // For a cart or kit, its first item's
+  rule: borrowerRuleEnum('rule').notNull(),
+  detail: text('detail').notNull(), // The refusal that was overridden, e.g. the limit and what was held
+  justification: text('justification').notNull(),
+  admin_id: integer('admin_id').notNull().references(() => adminsTable.id),
+  api_key_id: integer('api_key_id').references(() => apiKeysTable.id), // Set when recorded through an API key (nullable)
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
 // Define relationships
 export const adminsRelations = relations(adminsTable, ({ many }) => ({
   transactions: many(equipmentTransactionsTable),
+  sessions: many(adminSessionsTable),
+  loginEvents: many(loginEventsTable),
+  recoveryCodes: many(adminRecoveryCodesTable),
+  apiKeys: many(apiKeysTable),
+  loginChallenges: many(loginChallengesTable),
 }));
 
-export const equipmentRelations = relations(equipmentTable, ({ many }) => ({
+export const apiKeysRelations = relations(apiKeysTable, ({ one, many }) => ({
+  admin: one(adminsTable, {
+    fields: [apiKeysTable.admin_id],
+    references: [adminsTable.id],
+  }),
   transactions: many(equipmentTransactionsTable),
 }));
 
-export const equipmentTransactionsRelations = relations(equipmentTransactionsTable, ({ one }) => ({
+export const adminRecoveryCodesRelations = relations(adminRecoveryCodesTable, ({ one }) => ({
+  admin: one(adminsTable, {
+    fields: [adminRecoveryCodesTable.admin_id],
+    references: [adminsTable.id],
+  }),
+}));
+
+export const loginChallengesRelations = relations(loginChallengesTable, ({ one }) => ({
+  admin: one(adminsTable, {
+    fields: [loginChallengesTable.admin_id],
+    references: [adminsTable.id],
+  }),
+}));
+
+export const loginEventsRelations = relations(loginEventsTable, ({ one }) => ({
+  admin: one(adminsTable, {
+    fields: [loginEventsTable.admin_id],
+    references: [adminsTable.id],
+  }),
+}));
+
+export const adminSessionsRelations = relations(adminSessionsTable, ({ one }) => ({
+  admin: one(adminsTable, {
+    fields: [adminSessionsTable.admin_id],
+    references: [adminsTable.id],
+  }),
+}));
+
+export const equipmentRelations = relations(equipmentTable, ({ one, many }) => ({
+  transactions: many(equipmentTransactionsTable),
+  parent: one(equipmentTable, {
+    fields: [equipmentTable.parent_id],
+    references: [equipmentTable.id],
+    relationName: 'accessories',
+  }),
+  accessories: many(equipmentTable, { relationName: 'accessories' }),
+}));
+
+export const departmentsRelations = relations(departmentsTable, ({ many }) => ({
+  borrowers: many(borrowersTable),
+  transactions: many(equipmentTransactionsTable),
+  groups: many(transactionGroupsTable),
+}));
+
+export const borrowersRelations = relations(borrowersTable, ({ one, many }) => ({
+  department: one(departmentsTable, {
+    fields: [borrowersTable.department_id],
+    references: [departmentsTable.id],
+  }),
+  transactions: many(equipmentTransactionsTable),
+  groups: many(transactionGroupsTable),
+  ruleOverrides: many(borrowerRuleOverridesTable),
+}));
+
+export const eventsRelations = relations(eventsTable, ({ many }) => ({
+  transactions: many(equipmentTransactionsTable),
+  groups: many(transactionGroupsTable),
+}));
+
+export const kitsRelations = relations(kitsTable, ({ many }) => ({
+  members: many(kitMembersTable),
+  groups: many(transactionGroupsTable),
+}));
+
+export const kitMembersRelations = relations(kitMembersTable, ({ one }) => ({
+  kit: one(kitsTable, {
+    fields: [kitMembersTable.kit_id],
+    references: [kitsTable.id],
+  }),
+  equipment: one(equipmentTable, {
+    fields: [kitMembersTable.equipment_id],
+    references: [equipmentTable.id],
+  }),
+}));
+
+export const transactionGroupsRelations = relations(transactionGroupsTable, ({ one, many }) => ({
+  admin: one(adminsTable, {
+    fields: [transactionGroupsTable.admin_id],
+    references: [adminsTable.id],
+  }),
+  kit: one(kitsTable, {
+    fields: [transactionGroupsTable.kit_id],
+    references: [kitsTable.id],
+  }),
+  borrower: one(borrowersTable, {
+    fields: [transactionGroupsTable.borrower_id],
+    references: [borrowersTable.id],
+  }),
+  department: one(departmentsTable, {
+    fields: [transactionGroupsTable.department_id],
+    references: [departmentsTable.id],
+  }),
+  event: one(eventsTable, {
+    fields: [transactionGroupsTable.event_id],
+    references: [eventsTable.id],
+  }),
+  transactions: many(equipmentTransactionsTable),
+}));
+
+export const equipmentTransactionsRelations = relations(equipmentTransactionsTable, ({ one, many }) => ({
   equipment: one(equipmentTable, {
     fields: [equipmentTransactionsTable.equipment_id],
     references: [equipmentTable.id],
@@ -64,21 +448,139 @@ export const equipmentTransactionsRelations = relations(equipmentTransactionsTab
     fields: [equipmentTransactionsTable.admin_id],
     references: [adminsTable.id],
   }),
+  group: one(transactionGroupsTable, {
+    fields: [equipmentTransactionsTable.group_id],
+    references: [transactionGroupsTable.id],
+  }),
+  borrower: one(borrowersTable, {
+    fields: [equipmentTransactionsTable.borrower_id],
+    references: [borrowersTable.id],
+  }),
+  department: one(departmentsTable, {
+    fields: [equipmentTransactionsTable.department_id],
+    references: [departmentsTable.id],
+  }),
+  event: one(eventsTable, {
+    fields: [equipmentTransactionsTable.event_id],
+    references: [eventsTable.id],
+  }),
+  reminders: many(transactionRemindersTable),
+  extensions: many(loanExtensionsTable),
+}));
+
+export const loanExtensionsRelations = relations(loanExtensionsTable, ({ one }) => ({
+  transaction: one(equipmentTransactionsTable, {
+    fields: [loanExtensionsTable.transaction_id],
+    references: [equipmentTransactionsTable.id],
+  }),
+  admin: one(adminsTable, {
+    fields: [loanExtensionsTable.admin_id],
+    references: [adminsTable.id],
+  }),
+}));
+
+export const borrowerRuleOverridesRelations = relations(borrowerRuleOverridesTable, ({ one }) => ({
+  borrower: one(borrowersTable, {
+    fields: [borrowerRuleOverridesTable.borrower_id],
+    references: [borrowersTable.id],
+  }),
+  transaction: one(equipmentTransactionsTable, {
+    fields: [borrowerRuleOverridesTable.transaction_id],
+    references: [equipmentTransactionsTable.id],
+  }),
+  admin: one(adminsTable, {
+    fields: [borrowerRuleOverridesTable.admin_id],
+    references: [adminsTable.id],
+  }),
+}));
+
+export const transactionRemindersRelations = relations(transactionRemindersTable, ({ one }) => ({
+  transaction: one(equipmentTransactionsTable, {
+    fields: [transactionRemindersTable.transaction_id],
+    references: [equipmentTransactionsTable.id],
+  }),
 }));
 
 // TypeScript types for the table schemas
 export type Admin = typeof adminsTable.$inferSelect;
 export type NewAdmin = typeof adminsTable.$inferInsert;
 
+export type AdminSession = typeof adminSessionsTable.$inferSelect;
+export type NewAdminSession = typeof adminSessionsTable.$inferInsert;
+
+export type ApiKey = typeof apiKeysTable.$inferSelect;
+export type NewApiKey = typeof apiKeysTable.$inferInsert;
+
+export type AdminRecoveryCode = typeof adminRecoveryCodesTable.$inferSelect;
+export type NewAdminRecoveryCode = typeof adminRecoveryCodesTable.$inferInsert;
+
+export type LoginChallenge = typeof loginChallengesTable.$inferSelect;
+export type NewLoginChallenge = typeof loginChallengesTable.$inferInsert;
+
+export type OidcLoginState = typeof oidcLoginStatesTable.$inferSelect;
+export type NewOidcLoginState = typeof oidcLoginStatesTable.$inferInsert;
+
+export type SecuritySettings = typeof securitySettingsTable.$inferSelect;
+
+export type LoginThrottle = typeof loginThrottlesTable.$inferSelect;
+export type NewLoginThrottle = typeof loginThrottlesTable.$inferInsert;
+
+export type LoginEvent = typeof loginEventsTable.$inferSelect;
+export type NewLoginEvent = typeof loginEventsTable.$inferInsert;
+
 export type Equipment = typeof equipmentTable.$inferSelect;
 export type NewEquipment = typeof equipmentTable.$inferInsert;
 
 export type EquipmentTransaction = typeof equipmentTransactionsTable.$inferSelect;
 export type NewEquipmentTransaction = typeof equipmentTransactionsTable.$inferInsert;
 
+export type Department = typeof departmentsTable.$inferSelect;
+export type NewDepartment = typeof departmentsTable.$inferInsert;
+
+export type Borrower = typeof borrowersTable.$inferSelect;
+export type NewBorrower = typeof borrowersTable.$inferInsert;
+
+export type Event = typeof eventsTable.$inferSelect;
+export type NewEvent = typeof eventsTable.$inferInsert;
+
+export type Kit = typeof kitsTable.$inferSelect;
+export type NewKit = typeof kitsTable.$inferInsert;
+
+export type KitMember = typeof kitMembersTable.$inferSelect;
+export type NewKitMember = typeof kitMembersTable.$inferInsert;
+
+export type TransactionGroup = typeof transactionGroupsTable.$inferSelect;
+export type NewTransactionGroup = typeof transactionGroupsTable.$inferInsert;
+
+export type TransactionReminder = typeof transactionRemindersTable.$inferSelect;
+export type NewTransactionReminder = typeof transactionRemindersTable.$inferInsert;
+
+export type LoanExtension = typeof loanExtensionsTable.$inferSelect;
+export type NewLoanExtension = typeof loanExtensionsTable.$inferInsert;
+
+export type BorrowerRuleOverride = typeof borrowerRuleOverridesTable.$inferSelect;
+export type NewBorrowerRuleOverride = typeof borrowerRuleOverridesTable.$inferInsert;
+
 // Export all tables for proper query building
 export const tables = { 
   admins: adminsTable,
+  adminSessions: adminSessionsTable,
+  apiKeys: apiKeysTable,
+  adminRecoveryCodes: adminRecoveryCodesTable,
+  loginChallenges: loginChallengesTable,
+  oidcLoginStates: oidcLoginStatesTable,
+  securitySettings: securitySettingsTable,
+  loginThrottles: loginThrottlesTable,
+  loginEvents: loginEventsTable,
   equipment: equipmentTable,
   equipmentTransactions: equipmentTransactionsTable,
+  departments: departmentsTable,
+  borrowers: borrowersTable,
+  events: eventsTable,
+  kits: kitsTable,
+  kitMembers: kitMembersTable,
+  transactionGroups: transactionGroupsTable,
+  transactionReminders: transactionRemindersTable,
+  loanExtensions: loanExtensionsTable,
+  borrowerRuleOverrides: borrowerRuleOverridesTable,
 };
\ No newline at end of file
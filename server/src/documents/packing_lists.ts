@@ -0,0 +1,352 @@
+import { type Database } from '../db';
+import { loadEventDetails } from '../bookings/events';
+import { loadGroupDetails } from '../bookings/groups';
+import { type Equipment, type GetPackingListQuery, type PackingListSheet } from '../schema';
+import { PAGE_HEIGHT, PAGE_WIDTH, fitText, renderPdf, type PdfPage } from './pdf';
+
+export interface PackingListCategory {
+  category: string;
+  items: Equipment[];
+  weight_grams: number; // Of the items whose weight is known
+}
+
+export interface PackingList {
+  sheet: PackingListSheet;
+  subject: string; // The event name or the receipt number
+  basename: string; // Filename without the extension
+  details: [string, string][]; // Label and value lines printed under the heading
+  categories: PackingListCategory[];
+  totals: {
+    items: number;
+    weight_grams: number;
+    unweighed: number; // Items without a weight, left out of the total
+    cases: number; // Distinct case labels
+    loose: number; // Items not packed in a case
+  };
+  time_zone: string;
+  generated_at: Date;
+}
+
+const SHEET_TITLES: Record<PackingListSheet, string> = {
+  pull: 'Pull Sheet',
+  return: 'Return Checklist',
+};
+
+interface Column {
+  label: string;
+  width: number; // In PDF points; the HTML sheet uses them as proportions
+  value: (item: Equipment) => string;
+}
+
+// The first column of each sheet is the tick box, labelled with what ticking it means
+const TICK_LABELS: Record<PackingListSheet, string> = { pull: 'Pulled', return: 'Back' };
+
+const formatWeight = (grams: number): string => `${Number((grams / 1000).toFixed(2))} kg`;
+
+const itemWeight = (item: Equipment): string => item.weight_grams === null ? '' : formatWeight(item.weight_grams);
+
+const COLUMNS: Record<PackingListSheet, Column[]> = {
+  pull: [
+    { label: 'Item', width: 171, value: item => item.name },
+    { label: 'Serial', width: 90, value: item => item.serial_number },
+    { label: 'Location', width: 100, value: item => item.storage_location ?? '' },
+    { label: 'Case', width: 80, value: item => item.case_label ?? '' },
+    { label: 'Weight', width: 50, value: itemWeight },
+  ],
+  return: [
+    { label: 'Item', width: 171, value: item => item.name },
+    { label: 'Serial', width: 90, value: item => item.serial_number },
+    { label: 'Case', width: 100, value: item => item.case_label ?? '' },
+    { label: 'Weight', width: 50, value: itemWeight },
+    { label: 'Condition / Notes', width: 80, value: () => '' },
+  ],
+};
+
+const TICK_WIDTH = 24;
+
+const byText = (a: string | null, b: string | null): number =>
+  a === b ? 0 : a === null ? 1 : b === null ? -1 : a.localeCompare(b);
+
+// Pull sheets follow the shelves so the crew can walk the store once; return checklists follow
+// the cases, as that is how the equipment comes back off the truck
+const SORT_KEYS: Record<PackingListSheet, (item: Equipment) => string | null> = {
+  pull: item => item.storage_location,
+  return: item => item.case_label,
+};
+
+const slug = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const formatDate = (date: Date, timeZone: string): string => new Intl.DateTimeFormat('en-GB', {
+  timeZone,
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+}).format(date);
+
+const buildList = (
+  sheet: PackingListSheet,
+  subject: string,
+  basename: string,
+  details: [string, string | null][],
+  items: Equipment[],
+  timeZone: string
+): PackingList => {
+  const sortKey = SORT_KEYS[sheet];
+  const categories = new Map<string, Equipment[]>();
+  for (const item of items) {
+    categories.set(item.category, [...(categories.get(item.category) ?? []), item]);
+  }
+
+  const weighed = items.filter(item => item.weight_grams !== null);
+  const sumWeight = (list: Equipment[]): number => list.reduce((sum, item) => sum + (item.weight_grams ?? 0), 0);
+
+  return {
+    sheet,
+    subject,
+    basename: `${slug(SHEET_TITLES[sheet])}-${basename}`,
+    details: details.filter((detail): detail is [string, string] => detail[1] !== null),
+    categories: [...categories.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([category, list]) => ({
+        category,
+        items: [...list].sort((a, b) =>
+          byText(sortKey(a), sortKey(b)) || a.name.localeCompare(b.name) || a.serial_number.localeCompare(b.serial_number)
+        ),
+        weight_grams: sumWeight(list),
+      })),
+    totals: {
+      items: items.length,
+      weight_grams: sumWeight(weighed),
+      unweighed: items.length - weighed.length,
+      cases: new Set(items.map(item => item.case_label).filter(label => label !== null)).size,
+      loose: items.filter(item => item.case_label === null).length,
+    },
+    time_zone: timeZone,
+    generated_at: new Date(),
+  };
+};
+
+// Gathers what goes on a sheet. For an event the pull sheet lists everything still booked for it
+// and everything that went out; the return checklist lists only what went out. A multi-item
+// check-out lists every item it took on both sheets. Returns null if the event or group is missing.
+export const loadPackingList = async (database: Database, query: GetPackingListQuery): Promise<PackingList | null> => {
+  const date = (value: Date | null): string | null => value ? formatDate(value, query.time_zone) : null;
+
+  if (query.event_id !== undefined) {
+    const details = await loadEventDetails(database, query.event_id);
+    if (!details) {
+      return null;
+    }
+
+    const { event } = details;
+    const items = details.items
+      .filter(({ transaction }) => transaction.transaction_type === 'check_out' ||
+        (query.sheet === 'pull' && transaction.actual_return_date === null))
+      .map(item => item.equipment);
+
+    return buildList(query.sheet, event.name, [`event-${event.id}`, slug(event.name)].filter(Boolean).join('-'), [
+      ['Venue', event.venue],
+      ['Load-in', date(event.load_in_at)],
+      ['Show', `${date(event.starts_at)} – ${date(event.ends_at)}`],
+      ['Crew lead', event.crew_lead],
+    ], items, query.time_zone);
+  }
+
+  const details = await loadGroupDetails(database, query.group_id!);
+  if (!details) {
+    return null;
+  }
+
+  const { group } = details;
+  return buildList(query.sheet, `Receipt #${group.id}`, `receipt-${group.id}`, [
+    ['Borrower', group.user_name],
+    ['Contact', group.user_contact],
+    ['Checked out', date(group.created_at)],
+    ['Due back', date(group.expected_return_date)],
+  ], details.items.map(item => item.equipment), query.time_zone);
+};
+
+const totalLines = (list: PackingList): string[] => {
+  const { totals } = list;
+  return [
+    `${totals.items} ${totals.items === 1 ? 'item' : 'items'}`,
+    totals.unweighed === totals.items
+      ? 'Weight unknown'
+      : `${formatWeight(totals.weight_grams)}${totals.unweighed > 0 ? ` (${totals.unweighed} without a weight)` : ''}`,
+    `${totals.cases} ${totals.cases === 1 ? 'case' : 'cases'}${totals.loose > 0 ? `, ${totals.loose} loose` : ''}`,
+  ];
+};
+
+const categoryHeading = (category: PackingListCategory): string =>
+  `${category.category} – ${category.items.length} ${category.items.length === 1 ? 'item' : 'items'}` +
+  (category.weight_grams > 0 ? `, ${formatWeight(category.weight_grams)}` : '');
+
+const generatedLine = (list: PackingList): string =>
+  `Generated ${formatDate(list.generated_at, list.time_zone)} (${list.time_zone})`;
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const HTML_STYLE = `
+  @page { size: A4; margin: 14mm; }
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 10pt; color: #111; margin: 0 auto; max-width: 190mm; }
+  h1 { font-size: 18pt; margin: 0; }
+  h2 { font-size: 14pt; margin: 2pt 0 8pt; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 2pt 12pt; margin: 0 0 12pt; }
+  dt { font-weight: bold; }
+  dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+  thead { display: table-header-group; }
+  th, td { border-bottom: 0.5pt solid #999; padding: 4pt; text-align: left; vertical-align: middle; overflow-wrap: anywhere; }
+  tr { break-inside: avoid; }
+  .category th { background: #eee; border-top: 1pt solid #111; }
+  .tick { width: 10pt; height: 10pt; border: 1pt solid #111; display: inline-block; }
+  .totals { margin-top: 12pt; font-weight: bold; }
+  .sign { margin-top: 24pt; display: flex; gap: 24pt; }
+  .sign span { flex: 1; border-top: 0.5pt solid #111; padding-top: 2pt; }
+  footer { margin-top: 12pt; font-size: 8pt; color: #555; }
+`;
+
+// The sheet as a standalone page, laid out to print on A4
+export const renderPackingListHtml = (list: PackingList): string => {
+  const columns = COLUMNS[list.sheet];
+  const title = `${SHEET_TITLES[list.sheet]}: ${list.subject}`;
+
+  const head = `<tr><th style="width:${TICK_WIDTH}pt">${TICK_LABELS[list.sheet]}</th>` +
+    columns.map(column => `<th style="width:${column.width}pt">${escapeHtml(column.label)}</th>`).join('') + '</tr>';
+
+  const body = list.categories.map(category =>
+    `<tbody><tr class="category"><th colspan="${columns.length + 1}">${escapeHtml(categoryHeading(category))}</th></tr>` +
+    category.items.map(item =>
+      '<tr><td><span class="tick"></span></td>' +
+      columns.map(column => `<td>${escapeHtml(column.value(item))}</td>`).join('') + '</tr>'
+    ).join('') + '</tbody>'
+  ).join('');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${SHEET_TITLES[list.sheet]}</h1>`,
+    `<h2>${escapeHtml(list.subject)}</h2>`,
+    `<dl>${list.details.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>`,
+    list.totals.items === 0
+      ? '<p>No items.</p>'
+      : `<table><thead>${head}</thead>${body}</table>`,
+    `<p class="totals">${totalLines(list).map(escapeHtml).join(' · ')}</p>`,
+    '<div class="sign"><span>Checked by</span><span>Date</span><span>Signature</span></div>',
+    `<footer>${escapeHtml(generatedLine(list))}</footer>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
+
+const MARGIN = 40;
+const ROW_HEIGHT = 18;
+const FOOTER_Y = PAGE_HEIGHT - 28;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 50;
+
+// The same sheet as a PDF. Rows flow onto new pages, each repeating the column headings.
+export const renderPackingListPdf = (list: PackingList): Buffer => {
+  const columns = COLUMNS[list.sheet];
+  const right = PAGE_WIDTH - MARGIN;
+  const pages: PdfPage[] = [[]];
+  let page = pages[0];
+  let y = MARGIN;
+
+  const cell = (text: string, x: number, width: number, bold = false, size = 9) => {
+    page.push({ kind: 'text', x: x + 3, y: y + 12, text: fitText(text, width - 6, size, bold), size, bold });
+  };
+
+  const columnHeadings = () => {
+    let x = MARGIN;
+    cell(TICK_LABELS[list.sheet], x, TICK_WIDTH + 8, true, 7);
+    x += TICK_WIDTH;
+    for (const column of columns) {
+      cell(column.label, x, column.width, true);
+      x += column.width;
+    }
+    y += ROW_HEIGHT;
+    page.push({ kind: 'line', x1: MARGIN, y1: y, x2: right, y2: y, width: 1 });
+  };
+
+  // Starts a new page when the next rows would not fit, so a category heading is never left
+  // alone at the foot of a page
+  const ensureRoom = (rows: number) => {
+    if (y + rows * ROW_HEIGHT <= CONTENT_BOTTOM) {
+      return;
+    }
+    page = [];
+    pages.push(page);
+    y = MARGIN;
+    columnHeadings();
+  };
+
+  page.push({ kind: 'text', x: MARGIN, y: y + 16, text: SHEET_TITLES[list.sheet], size: 18, bold: true });
+  y += 24;
+  page.push({ kind: 'text', x: MARGIN, y: y + 14, text: fitText(list.subject, right - MARGIN, 14, true), size: 14, bold: true });
+  y += 26;
+  for (const [label, value] of list.details) {
+    page.push({ kind: 'text', x: MARGIN, y: y + 10, text: label, size: 10, bold: true });
+    page.push({ kind: 'text', x: MARGIN + 80, y: y + 10, text: fitText(value, right - MARGIN - 80, 10), size: 10 });
+    y += 14;
+  }
+  y += 10;
+
+  if (list.totals.items === 0) {
+    page.push({ kind: 'text', x: MARGIN, y: y + 12, text: 'No items.', size: 10 });
+    y += ROW_HEIGHT;
+  } else {
+    columnHeadings();
+    for (const category of list.categories) {
+      ensureRoom(2);
+      cell(categoryHeading(category), MARGIN, right - MARGIN, true, 10);
+      y += ROW_HEIGHT;
+      page.push({ kind: 'line', x1: MARGIN, y1: y, x2: right, y2: y, width: 0.75 });
+
+      for (const item of category.items) {
+        ensureRoom(1);
+        page.push({ kind: 'box', x: MARGIN + 7, y: y + 4, width: 10, height: 10 });
+        let x = MARGIN + TICK_WIDTH;
+        for (const column of columns) {
+          cell(column.value(item), x, column.width);
+          x += column.width;
+        }
+        y += ROW_HEIGHT;
+        page.push({ kind: 'line', x1: MARGIN, y1: y, x2: right, y2: y, width: 0.25 });
+      }
+    }
+  }
+
+  // Totals and the sign-off lines stay together
+  ensureRoom(4);
+  y += 8;
+  cell(totalLines(list).join('  ·  '), MARGIN, right - MARGIN, true, 10);
+  y += ROW_HEIGHT + 28;
+  const signWidth = (right - MARGIN - 48) / 3;
+  ['Checked by', 'Date', 'Signature'].forEach((label, index) => {
+    const x = MARGIN + index * (signWidth + 24);
+    page.push({ kind: 'line', x1: x, y1: y, x2: x + signWidth, y2: y, width: 0.5 });
+    page.push({ kind: 'text', x, y: y + 10, text: label, size: 8 });
+  });
+
+  const footer = generatedLine(list);
+  pages.forEach((sheet, index) => {
+    sheet.push({ kind: 'text', x: MARGIN, y: FOOTER_Y, text: `${footer} · Page ${index + 1} of ${pages.length}`, size: 8 });
+  });
+
+  return renderPdf(pages, `${SHEET_TITLES[list.sheet]}: ${list.subject}`);
+};
@@ -0,0 +1,110 @@
+// A minimal PDF writer for printable sheets: A4 pages of text, lines and boxes in the standard
+// Helvetica fonts, which every PDF reader has built in, so no fonts need to be embedded.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// Coordinates are in points from the top left of the page, like the layout code thinks of them;
+// they are flipped to PDF's bottom-left origin when the page is written.
+export type PdfOperation =
+  | { kind: 'text'; x: number; y: number; text: string; size: number; bold?: boolean }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; width?: number }
+  | { kind: 'box'; x: number; y: number; width: number; height: number };
+
+export type PdfPage = PdfOperation[];
+
+// Advance widths of Helvetica for printable ASCII, in thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Bold glyphs are a little wider; widening them all slightly keeps truncated text inside its column
+const BOLD_FACTOR = 1.08;
+
+export const textWidth = (text: string, size: number, bold = false): number => {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (bold ? BOLD_FACTOR : 1);
+};
+
+// Shortens text with an ellipsis until it fits the given width
+export const fitText = (text: string, width: number, size: number, bold = false): string => {
+  if (textWidth(text, size, bold) <= width) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+};
+
+// Characters WinAnsiEncoding places where Latin-1 has control codes
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+// A PDF string literal in WinAnsiEncoding; anything the standard fonts cannot show becomes "?"
+const pdfString = (text: string): string => {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte = WIN_ANSI[char] ?? (char.length === 1 && ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) ? code : 0x3f);
+    const literal = String.fromCharCode(byte);
+    encoded += literal === '\\' || literal === '(' || literal === ')' ? `\\${literal}` : literal;
+  }
+  return `(${encoded})`;
+};
+
+const num = (value: number): string => Number(value.toFixed(2)).toString();
+
+const contentStream = (page: PdfPage): string => page.map(operation => {
+  switch (operation.kind) {
+    case 'text':
+      return `BT /${operation.bold ? 'F2' : 'F1'} ${num(operation.size)} Tf ${num(operation.x)} ${num(PAGE_HEIGHT - operation.y)} Td ${pdfString(operation.text)} Tj ET`;
+    case 'line':
+      return `${num(operation.width ?? 0.5)} w ${num(operation.x1)} ${num(PAGE_HEIGHT - operation.y1)} m ${num(operation.x2)} ${num(PAGE_HEIGHT - operation.y2)} l S`;
+    case 'box':
+      return `0.75 w ${num(operation.x)} ${num(PAGE_HEIGHT - operation.y - operation.height)} ${num(operation.width)} ${num(operation.height)} re S`;
+  }
+}).join('\n');
+
+// Writes the pages as a PDF 1.4 file. Every byte is Latin-1, so string lengths are byte offsets.
+export const renderPdf = (pages: PdfPage[], title: string): Buffer => {
+  // Objects 1-4 are the catalog, page tree, fonts and info; each page then takes two
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /F1 << /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >> /F2 << /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >> >>');
+  objects.push(`<< /Title ${pdfString(title)} /Producer (Sound Equipment Warehouse) >>`);
+
+  pages.forEach((page, index) => {
+    const stream = contentStream(page);
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font 3 0 R >> /Contents ${pageIds[index] + 1} 0 R >>`);
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
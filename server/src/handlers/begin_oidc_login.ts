@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { oidcLoginStatesTable } from '../db/schema';
+import { type OidcAuthorization } from '../schema';
+import { buildAuthorizationUrl, discoverProvider, generateOidcToken, getOidcConfig } from '../auth/oidc';
+import { hashSessionToken } from '../auth/session';
+import { lt } from 'drizzle-orm';
+
+// The browser has this long to sign in at the identity provider and come back
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+
+// Starts an authorization-code sign-in and returns the provider URL to redirect the browser to.
+// The browser keeps the returned key, so only it can finish this sign-in.
+export const beginOidcLogin = async (): Promise<OidcAuthorization> => {
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      throw new Error('Single sign-on is not configured');
+    }
+
+    const metadata = await discoverProvider(config.issuer);
+
+    const state = generateOidcToken();
+    const nonce = generateOidcToken();
+    const codeVerifier = generateOidcToken();
+    const browserKey = generateOidcToken();
+
+    // Abandoned sign-ins are cleared as new ones start
+    await db.delete(oidcLoginStatesTable)
+      .where(lt(oidcLoginStatesTable.expires_at, new Date()))
+      .execute();
+
+    await db.insert(oidcLoginStatesTable)
+      .values({
+        state_hash: hashSessionToken(state),
+        nonce,
+        code_verifier: codeVerifier,
+        browser_key_hash: hashSessionToken(browserKey),
+        expires_at: new Date(Date.now() + LOGIN_STATE_TTL_MS),
+      })
+      .execute();
+
+    return {
+      authorization_url: buildAuthorizationUrl(config, metadata, { state, nonce, codeVerifier }),
+      browser_key: browserKey
+    };
+  } catch (error) {
+    console.error('OIDC login start failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type TwoFactorEnrolment } from '../schema';
+import { canEnrolTwoFactor } from '../auth/permissions';
+import { isTwoFactorRequired } from '../auth/two_factor';
+import { generateTotpSecret, buildProvisioningUri } from '../auth/totp';
+import { eq } from 'drizzle-orm';
+
+// Generates a new secret for the admin. It stays inactive until confirmed with a valid code,
+// so restarting enrolment simply replaces it.
+export const beginTwoFactorEnrolment = async (adminId: number): Promise<TwoFactorEnrolment | null> => {
+  try {
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admins.length === 0) {
+      return null; // Admin doesn't exist
+    }
+
+    const admin = admins[0];
+
+    if (admin.totp_enabled_at !== null) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    if (!canEnrolTwoFactor(admin.role) && !await isTwoFactorRequired()) {
+      throw new Error('Two-factor authentication is not available for your role');
+    }
+
+    const secret = generateTotpSecret();
+
+    await db.update(adminsTable)
+      .set({ totp_secret: secret, totp_last_used_step: null })
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    return {
+      secret,
+      provisioning_uri: buildProvisioningUri(secret, admin.username)
+    };
+  } catch (error) {
+    console.error('Two-factor enrolment failed:', error);
+    throw error;
+  }
+};
@@ -1,61 +1,92 @@
 import { db } from '../db';
-import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { equipmentTable, equipmentTransactionsTable, adminsTable, OPEN_BOOKING_INDEX } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
 import { type BookEquipmentInput, type EquipmentTransaction } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { findReservationConflicts, reservationConflictError } from '../bookings/conflicts';
+import { resolveBorrower } from '../bookings/borrowers';
+import { resolveEvent } from '../bookings/events';
+import { checkBorrowerRules, recordOverrides } from '../bookings/borrower_rules';
+import { eq } from 'drizzle-orm';
 
-export async function bookEquipment(input: BookEquipmentInput): Promise<EquipmentTransaction> {
+export async function bookEquipment(input: BookEquipmentInput, adminId: number, apiKeyId: number | null = null): Promise<EquipmentTransaction> {
   try {
     // Verify admin exists
     const admin = await db.select()
       .from(adminsTable)
-      .where(eq(adminsTable.id, input.admin_id))
+      .where(eq(adminsTable.id, adminId))
       .execute();
 
     if (admin.length === 0) {
-      throw new Error(`Admin with id ${input.admin_id} not found`);
+      throw new Error(`Admin with id ${adminId} not found`);
     }
 
-    // Verify equipment exists and is available
-    const equipment = await db.select()
-      .from(equipmentTable)
-      .where(eq(equipmentTable.id, input.equipment_id))
-      .execute();
+    return await db.transaction(async (tx) => {
+      // Lock the equipment row and verify it exists and is available
+      const equipment = await tx.select()
+        .from(equipmentTable)
+        .where(eq(equipmentTable.id, input.equipment_id))
+        .for('update')
+        .execute();
 
-    if (equipment.length === 0) {
-      throw new Error(`Equipment with id ${input.equipment_id} not found`);
-    }
+      if (equipment.length === 0) {
+        throw new Error(`Equipment with id ${input.equipment_id} not found`);
+      }
 
-    if (equipment[0].status !== 'available') {
-      throw new Error(`Equipment is not available for booking. Current status: ${equipment[0].status}`);
-    }
+      if (equipment[0].status !== 'available') {
+        throw new Error(`Equipment is not available for booking. Current status: ${equipment[0].status}`);
+      }
 
-    // Update equipment status to 'booked'
-    await db.update(equipmentTable)
-      .set({ 
-        status: 'booked',
-        updated_at: new Date()
-      })
-      .where(eq(equipmentTable.id, input.equipment_id))
-      .execute();
+      // The hold starts now, so it must not overlap a reservation that is already on the books
+      const conflicts = await findReservationConflicts(tx, input.equipment_id, new Date(), input.expected_return_date);
+      if (conflicts.length > 0) {
+        throw reservationConflictError(conflicts);
+      }
 
-    // Create transaction record
-    const result = await db.insert(equipmentTransactionsTable)
-      .values({
-        equipment_id: input.equipment_id,
-        admin_id: input.admin_id,
-        transaction_type: 'booking',
-        user_name: input.user_name,
-        user_contact: input.user_contact || null,
-        notes: input.notes || null,
-        expected_return_date: input.expected_return_date,
-        actual_return_date: null
-      })
-      .returning()
-      .execute();
+      const borrower = await resolveBorrower(tx, input);
+      const eventId = await resolveEvent(tx, input.event_id);
+      const broken = await checkBorrowerRules(tx, borrower.borrower_id, [input.equipment_id], input.override_reason);
 
-    return result[0];
+      // Update equipment status to 'booked'
+      await tx.update(equipmentTable)
+        .set({ 
+          status: 'booked',
+          updated_at: new Date()
+        })
+        .where(eq(equipmentTable.id, input.equipment_id))
+        .execute();
+
+      // Create transaction record
+      const result = await tx.insert(equipmentTransactionsTable)
+        .values({
+          equipment_id: input.equipment_id,
+          admin_id: adminId,
+          api_key_id: apiKeyId,
+          transaction_type: 'booking',
+          ...borrower,
+          event_id: eventId,
+          notes: input.notes || null,
+          expected_return_date: input.expected_return_date,
+          actual_return_date: null
+        })
+        .returning()
+        .execute();
+
+      await recordOverrides(tx, broken, {
+        borrower_id: borrower.borrower_id,
+        transaction_id: result[0].id,
+        justification: input.override_reason!,
+        admin_id: adminId,
+        api_key_id: apiKeyId
+      });
+
+      return result[0];
+    });
   } catch (error) {
+    // The item is already held by a booking, e.g. one left behind by a manual status change
+    if (isUniqueViolation(error, OPEN_BOOKING_INDEX)) {
+      throw new Error('Equipment already has an open booking');
+    }
     console.error('Equipment booking failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,99 @@
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable, OPEN_BOOKING_INDEX } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
+import { type BookKitInput, type KitDetails } from '../schema';
+import { findReservationConflicts, reservationConflictError } from '../bookings/conflicts';
+import { resolveBorrower } from '../bookings/borrowers';
+import { resolveEvent } from '../bookings/events';
+import { checkBorrowerRules, recordOverrides } from '../bookings/borrower_rules';
+import { loadKitDetails, lockKit } from '../bookings/kits';
+import { eq, inArray } from 'drizzle-orm';
+
+// Puts an immediate hold on every member of a kit, or on none of them
+export async function bookKit(input: BookKitInput, adminId: number, apiKeyId: number | null = null): Promise<KitDetails> {
+  try {
+    // Verify admin exists
+    const admin = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admin.length === 0) {
+      throw new Error(`Admin with id ${adminId} not found`);
+    }
+
+    return await db.transaction(async (tx) => {
+      const locked = await lockKit(tx, input.kit_id);
+      if (!locked) {
+        throw new Error(`Kit with id ${input.kit_id} not found`);
+      }
+
+      const { kit, members } = locked;
+      if (members.length === 0) {
+        throw new Error(`Kit "${kit.name}" has no members`);
+      }
+
+      const unavailable = members.filter(member => member.status !== 'available');
+      if (unavailable.length > 0) {
+        const details = unavailable.map(member => `${member.serial_number} (${member.status})`).join(', ');
+        throw new Error(`Some equipment is not available: ${details}`);
+      }
+
+      // Each member's hold starts now and must not overlap a reservation already on the books
+      const now = new Date();
+      const conflicts = [];
+      for (const member of members) {
+        conflicts.push(...await findReservationConflicts(tx, member.id, now, input.expected_return_date));
+      }
+      if (conflicts.length > 0) {
+        throw reservationConflictError(conflicts);
+      }
+
+      const memberIds = members.map(member => member.id);
+      const borrower = await resolveBorrower(tx, input);
+      const eventId = await resolveEvent(tx, input.event_id);
+      const broken = await checkBorrowerRules(tx, borrower.borrower_id, memberIds, input.override_reason);
+
+      await tx.update(equipmentTable)
+        .set({
+          status: 'booked',
+          updated_at: now
+        })
+        .where(inArray(equipmentTable.id, memberIds))
+        .execute();
+
+      const bookings = await tx.insert(equipmentTransactionsTable)
+        .values(memberIds.map(equipmentId => ({
+          equipment_id: equipmentId,
+          admin_id: adminId,
+          api_key_id: apiKeyId,
+          transaction_type: 'booking' as const,
+          ...borrower,
+          event_id: eventId,
+          notes: input.notes || null,
+          expected_return_date: input.expected_return_date,
+          actual_return_date: null
+        })))
+        .returning()
+        .execute();
+
+      // Overrides are logged against the booking of the first member
+      await recordOverrides(tx, broken, {
+        borrower_id: borrower.borrower_id,
+        transaction_id: bookings[0].id,
+        justification: input.override_reason!,
+        admin_id: adminId,
+        api_key_id: apiKeyId
+      });
+
+      return (await loadKitDetails(tx, kit.id))!;
+    });
+  } catch (error) {
+    // A member is already held by a booking, e.g. one left behind by a manual status change
+    if (isUniqueViolation(error, OPEN_BOOKING_INDEX)) {
+      throw new Error('Some equipment already has an open booking');
+    }
+    console.error('Kit booking failed:', error);
+    throw error;
+  }
+}
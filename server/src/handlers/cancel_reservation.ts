@@ -0,0 +1,72 @@
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { type EquipmentTransaction } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Releases a booking without recording a check-in. An item held by an immediate booking
+// becomes available again; dated reservations never changed the status in the first place.
+export async function cancelReservation(id: number, adminId: number, apiKeyId: number | null = null): Promise<EquipmentTransaction | null> {
+  try {
+    return await db.transaction(async (tx) => {
+      // Lock the equipment row before the booking, in the same order as the other handlers
+      const target = await tx.select({ equipment_id: equipmentTransactionsTable.equipment_id })
+        .from(equipmentTransactionsTable)
+        .where(eq(equipmentTransactionsTable.id, id))
+        .execute();
+
+      if (target.length === 0) {
+        return null; // Reservation doesn't exist
+      }
+
+      const equipment = await tx.select()
+        .from(equipmentTable)
+        .where(eq(equipmentTable.id, target[0].equipment_id))
+        .for('update')
+        .execute();
+
+      const bookings = await tx.select()
+        .from(equipmentTransactionsTable)
+        .where(eq(equipmentTransactionsTable.id, id))
+        .for('update')
+        .execute();
+
+      const booking = bookings[0];
+      if (!booking || booking.transaction_type !== 'booking') {
+        return null; // Reservation doesn't exist
+      }
+      if (booking.cancelled_at !== null) {
+        return booking;
+      }
+      if (booking.actual_return_date !== null) {
+        throw new Error(`Reservation #${booking.id} has already been picked up or released`);
+      }
+
+      if (equipment[0].status === 'booked' && booking.reserved_from === null) {
+        await tx.update(equipmentTable)
+          .set({
+            status: 'available',
+            updated_at: new Date()
+          })
+          .where(eq(equipmentTable.id, booking.equipment_id))
+          .execute();
+      }
+
+      const now = new Date();
+      const result = await tx.update(equipmentTransactionsTable)
+        .set({
+          cancelled_at: now,
+          cancelled_by: adminId,
+          cancelled_by_api_key_id: apiKeyId,
+          actual_return_date: now
+        })
+        .where(eq(equipmentTransactionsTable.id, booking.id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Reservation cancellation failed:', error);
+    throw error;
+  }
+}
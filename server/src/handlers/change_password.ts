@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type ChangePasswordInput } from '../schema';
+import { hashPassword, verifyPassword } from '../auth/credentials';
+import { revokeAdminSessions } from '../auth/session';
+import { eq } from 'drizzle-orm';
+
+export const changePassword = async (adminId: number, input: ChangePasswordInput, currentToken: string): Promise<boolean> => {
+  try {
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admins.length === 0) {
+      throw new Error(`Admin with id ${adminId} not found`);
+    }
+
+    const verification = await verifyPassword(input.current_password, admins[0].password_hash);
+    if (!verification.valid) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await db.update(adminsTable)
+      .set({
+        password_hash: await hashPassword(input.new_password),
+        updated_at: new Date()
+      })
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    // Sign out other devices but keep the session that made the change
+    await revokeAdminSessions(adminId, currentToken);
+
+    return true;
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+};
@@ -1,76 +1,120 @@
-import { db } from '../db';
+import { db, type Transaction } from '../db';
 import { equipmentTable, equipmentTransactionsTable } from '../db/schema';
-import { type CheckInEquipmentInput, type EquipmentTransaction } from '../schema';
-import { eq, and, isNull, desc } from 'drizzle-orm';
+import { type CheckInEquipmentInput, type Equipment, type EquipmentTransaction } from '../schema';
+import { checkAccessories } from '../bookings/accessories';
+import { eq, and, isNull, desc, asc, inArray } from 'drizzle-orm';
 
-export async function checkInEquipment(input: CheckInEquipmentInput): Promise<EquipmentTransaction> {
+export async function checkInEquipment(input: CheckInEquipmentInput, adminId: number, apiKeyId: number | null = null): Promise<EquipmentTransaction> {
   try {
-    // 1. Verify equipment exists and is currently checked_out or booked
-    const equipment = await db.select()
-      .from(equipmentTable)
-      .where(eq(equipmentTable.id, input.equipment_id))
-      .execute();
-
-    if (equipment.length === 0) {
-      throw new Error(`Equipment with ID ${input.equipment_id} not found`);
-    }
-
-    const currentEquipment = equipment[0];
-    if (currentEquipment.status !== 'checked_out' && currentEquipment.status !== 'booked') {
-      throw new Error(`Equipment is currently ${currentEquipment.status}, cannot check in`);
-    }
+    // Closing the open transaction, freeing the item and recording the check-in happen atomically
+    return await db.transaction(async (tx) => {
+      // 1. Lock the equipment row, and those of the accessories that came back with it in id
+      // order, and verify it is currently checked_out or booked
+      const accessoryIds = [...new Set(input.accessory_ids ?? [])];
+      const locked = await tx.select()
+        .from(equipmentTable)
+        .where(inArray(equipmentTable.id, [input.equipment_id, ...accessoryIds]))
+        .orderBy(asc(equipmentTable.id))
+        .for('update')
+        .execute();
 
-    // 2. Update equipment status to 'available'
-    await db.update(equipmentTable)
-      .set({ 
-        status: 'available',
-        updated_at: new Date()
-      })
-      .where(eq(equipmentTable.id, input.equipment_id))
-      .execute();
+      const equipment = locked.filter(item => item.id === input.equipment_id);
+      if (equipment.length === 0) {
+        throw new Error(`Equipment with ID ${input.equipment_id} not found`);
+      }
 
-    // 3. Find the most recent check_out or booking transaction to update
-    const lastTransaction = await db.select()
-      .from(equipmentTransactionsTable)
-      .where(
-        and(
-          eq(equipmentTransactionsTable.equipment_id, input.equipment_id),
-          isNull(equipmentTransactionsTable.actual_return_date)
-        )
-      )
-      .orderBy(desc(equipmentTransactionsTable.created_at))
-      .limit(1)
-      .execute();
+      const currentEquipment = equipment[0];
+      if (currentEquipment.status !== 'checked_out' && currentEquipment.status !== 'booked') {
+        throw new Error(`Equipment is currently ${currentEquipment.status}, cannot check in`);
+      }
+      if (input.damage_cost && currentEquipment.status !== 'checked_out') {
+        throw new Error('Damage can only be recorded when checked-out equipment comes back');
+      }
 
-    // 4. Update the corresponding check_out/booking transaction's actual_return_date
-    if (lastTransaction.length > 0) {
-      await db.update(equipmentTransactionsTable)
-        .set({ 
-          actual_return_date: new Date()
-        })
-        .where(eq(equipmentTransactionsTable.id, lastTransaction[0].id))
-        .execute();
-    }
+      // Accessories left out stay checked out, and show up as outstanding on the item
+      const accessories = checkAccessories(currentEquipment, accessoryIds, locked, ['checked_out', 'booked']);
 
-    // 5. Create a transaction record with type 'check_in'
-    const checkInTransactionResult = await db.insert(equipmentTransactionsTable)
-      .values({
-        equipment_id: input.equipment_id,
-        admin_id: input.admin_id,
-        transaction_type: 'check_in',
-        user_name: 'System', // Check-ins are done by admins, not users
-        user_contact: null,
-        notes: input.notes || null,
-        transaction_date: new Date(),
-        expected_return_date: null,
-        actual_return_date: new Date(), // For check-ins, actual return is immediate
-      })
-      .returning()
-      .execute();
+      const checkIn = await checkInItem(tx, currentEquipment, input.notes, adminId, apiKeyId, input.damage_cost ?? null);
+      for (const accessory of accessories) {
+        await checkInItem(tx, accessory, input.notes, adminId, apiKeyId);
+      }
 
-    return checkInTransactionResult[0];
+      return checkIn;
+    });
   } catch (error) {
     console.error('Equipment check-in failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Steps 2 to 5 of a check-in, for an item whose row is already locked
+const checkInItem = async (
+  tx: Transaction,
+  currentEquipment: Equipment,
+  notes: string | null | undefined,
+  adminId: number,
+  apiKeyId: number | null,
+  damageCost: number | null = null
+): Promise<EquipmentTransaction> => {
+  // 2. Update equipment status to 'available'
+  await tx.update(equipmentTable)
+    .set({
+      status: 'available',
+      updated_at: new Date()
+    })
+    .where(eq(equipmentTable.id, currentEquipment.id))
+    .execute();
+
+  // 3. Find the most recent check_out or immediate booking to update. Dated reservations
+  // stay open, since they describe future use rather than the current hold.
+  const lastTransaction = await tx.select()
+    .from(equipmentTransactionsTable)
+    .where(
+      and(
+        eq(equipmentTransactionsTable.equipment_id, currentEquipment.id),
+        isNull(equipmentTransactionsTable.actual_return_date),
+        currentEquipment.status === 'checked_out'
+          ? eq(equipmentTransactionsTable.transaction_type, 'check_out')
+          : and(
+              eq(equipmentTransactionsTable.transaction_type, 'booking'),
+              isNull(equipmentTransactionsTable.reserved_from)
+            )
+      )
+    )
+    .orderBy(desc(equipmentTransactionsTable.created_at))
+    .limit(1)
+    .execute();
+
+  // 4. Update the corresponding check_out/booking transaction's actual_return_date, and the
+  // damage found, which is charged to the check-out's department
+  if (lastTransaction.length > 0) {
+    await tx.update(equipmentTransactionsTable)
+      .set({
+        actual_return_date: new Date(),
+        damage_cost: damageCost
+      })
+      .where(eq(equipmentTransactionsTable.id, lastTransaction[0].id))
+      .execute();
+  }
+
+  // 5. Create a transaction record with type 'check_in'
+  const checkInTransactionResult = await tx.insert(equipmentTransactionsTable)
+    .values({
+      equipment_id: currentEquipment.id,
+      admin_id: adminId,
+      api_key_id: apiKeyId,
+      transaction_type: 'check_in',
+      user_name: 'System', // Check-ins are done by admins, not users
+      user_contact: null,
+      notes: notes || null,
+      transaction_date: new Date(),
+      expected_return_date: null,
+      actual_return_date: new Date(), // For check-ins, actual return is immediate
+      group_id: lastTransaction[0]?.group_id ?? null, // Keeps a group's partial returns together
+      event_id: lastTransaction[0]?.event_id ?? null,
+    })
+    .returning()
+    .execute();
+
+  return checkInTransactionResult[0];
+};
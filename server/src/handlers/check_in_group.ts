@@ -0,0 +1,92 @@
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { type CheckInGroupInput, type TransactionGroupDetails } from '../schema';
+import { loadGroupDetails } from '../bookings/groups';
+import { checkReturnedDamage, recordReturnedDamage } from '../bookings/damage';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+
+// Returns some or all of a group's items. Each returned item gets its own check-in record,
+// tagged with the group, and the receipt comes back with whatever is still outstanding.
+export async function checkInGroup(input: CheckInGroupInput, adminId: number, apiKeyId: number | null = null): Promise<TransactionGroupDetails | null> {
+  try {
+    return await db.transaction(async (tx) => {
+      const current = await loadGroupDetails(tx, input.group_id);
+      if (!current) {
+        return null; // Group doesn't exist
+      }
+
+      const returning = input.equipment_ids ?? current.outstanding.map(item => item.id);
+      const notOutstanding = returning.filter(id => !current.outstanding.some(item => item.id === id));
+      if (notOutstanding.length > 0) {
+        throw new Error(`Equipment is not outstanding in group #${input.group_id}: ${notOutstanding.join(', ')}`);
+      }
+      checkReturnedDamage(input.damage, returning);
+      if (returning.length === 0) {
+        return current; // Everything is already back
+      }
+
+      // Lock in id order like checkOutGroup, then re-read the open check-outs under the lock
+      await tx.select({ id: equipmentTable.id })
+        .from(equipmentTable)
+        .where(inArray(equipmentTable.id, returning))
+        .orderBy(asc(equipmentTable.id))
+        .for('update')
+        .execute();
+
+      const openCheckOuts = await tx.select()
+        .from(equipmentTransactionsTable)
+        .where(
+          and(
+            eq(equipmentTransactionsTable.group_id, input.group_id),
+            eq(equipmentTransactionsTable.transaction_type, 'check_out'),
+            inArray(equipmentTransactionsTable.equipment_id, returning),
+            isNull(equipmentTransactionsTable.actual_return_date)
+          )
+        )
+        .execute();
+
+      if (openCheckOuts.length !== returning.length) {
+        throw new Error(`Some items of group #${input.group_id} were checked in at the same time. Please try again.`);
+      }
+
+      const now = new Date();
+
+      await tx.update(equipmentTable)
+        .set({
+          status: 'available',
+          updated_at: now
+        })
+        .where(inArray(equipmentTable.id, returning))
+        .execute();
+
+      await tx.update(equipmentTransactionsTable)
+        .set({ actual_return_date: now })
+        .where(inArray(equipmentTransactionsTable.id, openCheckOuts.map(checkOut => checkOut.id)))
+        .execute();
+
+      await recordReturnedDamage(tx, input.damage, openCheckOuts);
+
+      await tx.insert(equipmentTransactionsTable)
+        .values(returning.map(equipmentId => ({
+          equipment_id: equipmentId,
+          admin_id: adminId,
+          api_key_id: apiKeyId,
+          transaction_type: 'check_in' as const,
+          user_name: 'System', // Check-ins are done by admins, not users
+          user_contact: null,
+          notes: input.notes || null,
+          transaction_date: now,
+          expected_return_date: null,
+          actual_return_date: now,
+          group_id: input.group_id,
+          event_id: current.group.event_id
+        })))
+        .execute();
+
+      return loadGroupDetails(tx, input.group_id);
+    });
+  } catch (error) {
+    console.error('Group check-in failed:', error);
+    throw error;
+  }
+}
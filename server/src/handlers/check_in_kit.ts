@@ -0,0 +1,101 @@
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { type CheckInKitInput, type KitDetails } from '../schema';
+import { isOutstanding, loadKitDetails, lockKit } from '../bookings/kits';
+import { checkReturnedDamage, recordReturnedDamage } from '../bookings/damage';
+import { and, desc, eq, inArray, isNull, or } from 'drizzle-orm';
+
+// Returns the members of a kit that came back, whether the kit was checked out or booked.
+// Members left out of equipment_ids stay out, and the kit comes back listing them as outstanding.
+export async function checkInKit(input: CheckInKitInput, adminId: number, apiKeyId: number | null = null): Promise<KitDetails | null> {
+  try {
+    return await db.transaction(async (tx) => {
+      const locked = await lockKit(tx, input.kit_id);
+      if (!locked) {
+        return null; // Kit doesn't exist
+      }
+
+      const { kit, members } = locked;
+      const outstanding = members.filter(isOutstanding);
+      if (outstanding.length === 0) {
+        throw new Error(`Kit "${kit.name}" is not checked out or booked, cannot check in`);
+      }
+
+      const returning = input.equipment_ids ?? outstanding.map(member => member.id);
+      const notOutstanding = returning.filter(id => !outstanding.some(member => member.id === id));
+      if (notOutstanding.length > 0) {
+        throw new Error(`Equipment is not out with kit "${kit.name}": ${notOutstanding.join(', ')}`);
+      }
+      checkReturnedDamage(input.damage, returning);
+
+      // The open check-outs and immediate holds of the returning members, newest first, as in
+      // checkInEquipment. Dated reservations stay open.
+      const openTransactions = await tx.select()
+        .from(equipmentTransactionsTable)
+        .where(
+          and(
+            inArray(equipmentTransactionsTable.equipment_id, returning),
+            isNull(equipmentTransactionsTable.actual_return_date),
+            or(
+              eq(equipmentTransactionsTable.transaction_type, 'check_out'),
+              and(
+                eq(equipmentTransactionsTable.transaction_type, 'booking'),
+                isNull(equipmentTransactionsTable.reserved_from)
+              )
+            )
+          )
+        )
+        .orderBy(desc(equipmentTransactionsTable.created_at))
+        .execute();
+
+      const now = new Date();
+      const closing = returning.map(equipmentId => {
+        const member = outstanding.find(item => item.id === equipmentId)!;
+        const type = member.status === 'checked_out' ? 'check_out' : 'booking';
+        return openTransactions.find(transaction =>
+          transaction.equipment_id === equipmentId && transaction.transaction_type === type
+        );
+      });
+
+      await tx.update(equipmentTable)
+        .set({
+          status: 'available',
+          updated_at: now
+        })
+        .where(inArray(equipmentTable.id, returning))
+        .execute();
+
+      const closed = closing.flatMap(transaction => transaction ? [transaction] : []);
+      if (closed.length > 0) {
+        await tx.update(equipmentTransactionsTable)
+          .set({ actual_return_date: now })
+          .where(inArray(equipmentTransactionsTable.id, closed.map(transaction => transaction.id)))
+          .execute();
+      }
+
+      await recordReturnedDamage(tx, input.damage, closed);
+
+      await tx.insert(equipmentTransactionsTable)
+        .values(returning.map((equipmentId, index) => ({
+          equipment_id: equipmentId,
+          admin_id: adminId,
+          api_key_id: apiKeyId,
+          transaction_type: 'check_in' as const,
+          user_name: 'System', // Check-ins are done by admins, not users
+          user_contact: null,
+          notes: input.notes || null,
+          transaction_date: now,
+          expected_return_date: null,
+          actual_return_date: now,
+          group_id: closing[index]?.group_id ?? null,
+          event_id: closing[index]?.event_id ?? null
+        })))
+        .execute();
+
+      return loadKitDetails(tx, kit.id);
+    });
+  } catch (error) {
+    console.error('Kit check-in failed:', error);
+    throw error;
+  }
+}
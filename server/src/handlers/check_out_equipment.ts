@@ -1,61 +1,107 @@
 import { db } from '../db';
-import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { equipmentTable, equipmentTransactionsTable, adminsTable, OPEN_CHECK_OUT_INDEX } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
 import { type CheckOutEquipmentInput, type EquipmentTransaction } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { checkAccessories } from '../bookings/accessories';
+import { findReservationConflicts, reservationConflictError } from '../bookings/conflicts';
+import { resolveBorrower } from '../bookings/borrowers';
+import { resolveEvent } from '../bookings/events';
+import { checkBorrowerRules, recordOverrides } from '../bookings/borrower_rules';
+import { asc, eq, inArray } from 'drizzle-orm';
 
-export const checkOutEquipment = async (input: CheckOutEquipmentInput): Promise<EquipmentTransaction> => {
+export const checkOutEquipment = async (input: CheckOutEquipmentInput, adminId: number, apiKeyId: number | null = null): Promise<EquipmentTransaction> => {
   try {
     // 1. Verify admin exists
     const admin = await db.select()
       .from(adminsTable)
-      .where(eq(adminsTable.id, input.admin_id))
+      .where(eq(adminsTable.id, adminId))
       .execute();
 
     if (admin.length === 0) {
-      throw new Error(`Admin with id ${input.admin_id} not found`);
+      throw new Error(`Admin with id ${adminId} not found`);
     }
 
-    // 2. Verify equipment exists and is available
-    const equipment = await db.select()
-      .from(equipmentTable)
-      .where(eq(equipmentTable.id, input.equipment_id))
-      .execute();
+    // The status check, status change and history record commit together or not at all
+    return await db.transaction(async (tx) => {
+      // 2. Lock the equipment row, and those of any accessories going with it in id order, so
+      // concurrent check-outs of the same items queue up here
+      const accessoryIds = [...new Set(input.accessory_ids ?? [])];
+      const itemIds = [input.equipment_id, ...accessoryIds];
+      const locked = await tx.select()
+        .from(equipmentTable)
+        .where(inArray(equipmentTable.id, itemIds))
+        .orderBy(asc(equipmentTable.id))
+        .for('update')
+        .execute();
 
-    if (equipment.length === 0) {
-      throw new Error(`Equipment with id ${input.equipment_id} not found`);
-    }
+      const equipment = locked.filter(item => item.id === input.equipment_id);
+      if (equipment.length === 0) {
+        throw new Error(`Equipment with id ${input.equipment_id} not found`);
+      }
 
-    if (equipment[0].status !== 'available') {
-      throw new Error(`Equipment is not available (current status: ${equipment[0].status})`);
-    }
+      if (equipment[0].status !== 'available') {
+        throw new Error(`Equipment is not available (current status: ${equipment[0].status})`);
+      }
 
-    // 3. Update equipment status to 'checked_out'
-    await db.update(equipmentTable)
-      .set({ 
-        status: 'checked_out',
-        updated_at: new Date()
-      })
-      .where(eq(equipmentTable.id, input.equipment_id))
-      .execute();
+      checkAccessories(equipment[0], accessoryIds, locked, ['available']);
 
-    // 4. Create a transaction record with type 'check_out'
-    const result = await db.insert(equipmentTransactionsTable)
-      .values({
-        equipment_id: input.equipment_id,
-        admin_id: input.admin_id,
-        transaction_type: 'check_out',
-        user_name: input.user_name,
-        user_contact: input.user_contact || null,
-        notes: input.notes || null,
-        expected_return_date: input.expected_return_date || null,
-        actual_return_date: null
-      })
-      .returning()
-      .execute();
+      // The items leave now and must be back before any reservation already on the books
+      const now = new Date();
+      const conflicts = [];
+      for (const itemId of itemIds) {
+        conflicts.push(...await findReservationConflicts(tx, itemId, now, input.expected_return_date ?? null));
+      }
+      if (conflicts.length > 0) {
+        throw reservationConflictError(conflicts);
+      }
 
-    return result[0];
+      // 3. Find the borrower and check they may take the items
+      const borrower = await resolveBorrower(tx, input);
+      const eventId = await resolveEvent(tx, input.event_id);
+      const broken = await checkBorrowerRules(tx, borrower.borrower_id, itemIds, input.override_reason);
+
+      // 4. Update equipment status to 'checked_out'
+      await tx.update(equipmentTable)
+        .set({ 
+          status: 'checked_out',
+          updated_at: now
+        })
+        .where(inArray(equipmentTable.id, itemIds))
+        .execute();
+
+      // 5. Create a transaction record with type 'check_out' for the item and each accessory
+      const result = await tx.insert(equipmentTransactionsTable)
+        .values(itemIds.map(equipmentId => ({
+          equipment_id: equipmentId,
+          admin_id: adminId,
+          api_key_id: apiKeyId,
+          transaction_type: 'check_out' as const,
+          ...borrower,
+          event_id: eventId,
+          notes: input.notes || null,
+          expected_return_date: input.expected_return_date || null,
+          actual_return_date: null
+        })))
+        .returning()
+        .execute();
+
+      const checkOut = result.find(transaction => transaction.equipment_id === input.equipment_id)!;
+      await recordOverrides(tx, broken, {
+        borrower_id: borrower.borrower_id,
+        transaction_id: checkOut.id,
+        justification: input.override_reason!,
+        admin_id: adminId,
+        api_key_id: apiKeyId
+      });
+
+      return checkOut;
+    });
   } catch (error) {
+    // The item already has an open check-out, e.g. one left by a manual status change
+    if (isUniqueViolation(error, OPEN_CHECK_OUT_INDEX)) {
+      throw new Error('Equipment already has an open check-out');
+    }
     console.error('Equipment check-out failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
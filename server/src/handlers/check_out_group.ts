@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { adminsTable, OPEN_CHECK_OUT_INDEX } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
+import { type CheckOutGroupInput, type TransactionGroupDetails } from '../schema';
+import { checkOutItems } from '../bookings/groups';
+import { eq } from 'drizzle-orm';
+
+// Checks a whole cart out to one borrower. Either every item leaves under the new group's
+// receipt number or, if any item cannot be checked out, none of them do.
+export async function checkOutGroup(input: CheckOutGroupInput, adminId: number, apiKeyId: number | null = null): Promise<TransactionGroupDetails> {
+  try {
+    // Verify admin exists
+    const admin = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admin.length === 0) {
+      throw new Error(`Admin with id ${adminId} not found`);
+    }
+
+    return await db.transaction(tx => checkOutItems(tx, input, adminId, apiKeyId));
+  } catch (error) {
+    if (isUniqueViolation(error, OPEN_CHECK_OUT_INDEX)) {
+      throw new Error('Some equipment already has an open check-out');
+    }
+    console.error('Group check-out failed:', error);
+    throw error;
+  }
+}
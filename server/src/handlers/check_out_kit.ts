@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { adminsTable, OPEN_CHECK_OUT_INDEX } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
+import { type CheckOutKitInput, type TransactionGroupDetails } from '../schema';
+import { checkOutItems } from '../bookings/groups';
+import { lockKit } from '../bookings/kits';
+import { eq } from 'drizzle-orm';
+
+// Checks out every member of a kit under one group tagged with the kit, so the kit's receipt
+// is also its return list. A kit with any member unavailable does not leave at all.
+export async function checkOutKit(input: CheckOutKitInput, adminId: number, apiKeyId: number | null = null): Promise<TransactionGroupDetails> {
+  try {
+    // Verify admin exists
+    const admin = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admin.length === 0) {
+      throw new Error(`Admin with id ${adminId} not found`);
+    }
+
+    return await db.transaction(async (tx) => {
+      const locked = await lockKit(tx, input.kit_id);
+      if (!locked) {
+        throw new Error(`Kit with id ${input.kit_id} not found`);
+      }
+      if (locked.members.length === 0) {
+        throw new Error(`Kit "${locked.kit.name}" has no members`);
+      }
+
+      const { kit_id, ...details } = input;
+      return checkOutItems(tx, { ...details, equipment_ids: locked.members.map(member => member.id) }, adminId, apiKeyId, kit_id);
+    });
+  } catch (error) {
+    if (isUniqueViolation(error, OPEN_CHECK_OUT_INDEX)) {
+      throw new Error('Some equipment already has an open check-out');
+    }
+    console.error('Kit check-out failed:', error);
+    throw error;
+  }
+}
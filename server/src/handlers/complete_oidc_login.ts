@@ -0,0 +1,150 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { adminsTable, oidcLoginStatesTable } from '../db/schema';
+import { type Admin, type CompleteOidcLoginInput, type LoginResult } from '../schema';
+import {
+  discoverProvider,
+  exchangeAuthorizationCode,
+  getOidcConfig,
+  verifyIdToken,
+  type IdTokenClaims,
+  type OidcConfig
+} from '../auth/oidc';
+import { hashPassword } from '../auth/credentials';
+import { hashSessionToken } from '../auth/session';
+import { recordLoginEvent, completeLogin } from '../auth/login';
+import { createLoginChallenge } from '../auth/two_factor';
+import { and, eq, gt, sql } from 'drizzle-orm';
+
+// Derives a free username for a provisioned admin from the identity's preferred username or email
+const allocateUsername = async (claims: IdTokenClaims): Promise<string> => {
+  const source = claims.preferred_username || claims.email?.split('@')[0] || 'sso-user';
+  const base = source.toLowerCase().replace(/[^a-z0-9._-]/g, '').slice(0, 40).padEnd(3, '0');
+
+  for (let suffix = 1; ; suffix++) {
+    const candidate = suffix === 1 ? base : `${base}-${suffix}`;
+    const taken = await db.select({ id: adminsTable.id })
+      .from(adminsTable)
+      .where(eq(adminsTable.username, candidate))
+      .execute();
+    if (taken.length === 0) {
+      return candidate;
+    }
+  }
+};
+
+// Finds the admin for an identity: by linked subject first, then by verified email, which
+// links the subject for next time. Unmatched identities are provisioned when enabled.
+const findOrProvisionAdmin = async (claims: IdTokenClaims, config: OidcConfig): Promise<Admin | null> => {
+  const linked = await db.select()
+    .from(adminsTable)
+    .where(eq(adminsTable.oidc_subject, claims.sub))
+    .execute();
+  if (linked.length > 0) {
+    return linked[0];
+  }
+
+  // Only an address the provider vouches for may claim an account; without email_verified it is not trusted
+  const email = claims.email && claims.email_verified === true ? claims.email : null;
+  if (email) {
+    const matched = await db.select()
+      .from(adminsTable)
+      .where(sql`lower(${adminsTable.email}) = ${email.toLowerCase()}`)
+      .execute();
+
+    if (matched.length > 0) {
+      if (matched[0].oidc_subject !== null) {
+        throw new Error('This admin account is linked to a different single sign-on identity');
+      }
+      const updated = await db.update(adminsTable)
+        .set({ oidc_subject: claims.sub, updated_at: new Date() })
+        .where(eq(adminsTable.id, matched[0].id))
+        .returning()
+        .execute();
+      return updated[0];
+    }
+  }
+
+  if (!config.jitProvisioning) {
+    return null;
+  }
+  if (!email) {
+    throw new Error('The identity provider did not return a verified email address');
+  }
+
+  // Provisioned admins sign in through the provider; the random password is never revealed
+  const created = await db.insert(adminsTable)
+    .values({
+      username: await allocateUsername(claims),
+      email,
+      password_hash: await hashPassword(randomBytes(32).toString('base64url')),
+      role: config.defaultRole,
+      oidc_subject: claims.sub,
+    })
+    .returning()
+    .execute();
+
+  return created[0];
+};
+
+// Finishes a sign-in when the identity provider redirects back with an authorization code
+export const completeOidcLogin = async (input: CompleteOidcLoginInput, ipAddress: string | null = null): Promise<LoginResult> => {
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      throw new Error('Single sign-on is not configured');
+    }
+
+    // Each state is single use, so a replayed redirect cannot sign in again
+    const states = await db.delete(oidcLoginStatesTable)
+      .where(
+        and(
+          eq(oidcLoginStatesTable.state_hash, hashSessionToken(input.state)),
+          gt(oidcLoginStatesTable.expires_at, new Date())
+        )
+      )
+      .returning()
+      .execute();
+
+    if (states.length === 0) {
+      throw new Error('The sign-in request has expired. Please start again.');
+    }
+
+    // A redirect carrying someone else's code and state must not sign this browser in
+    if (states[0].browser_key_hash !== hashSessionToken(input.browser_key)) {
+      throw new Error('This sign-in was started in another browser. Please start again.');
+    }
+
+    const metadata = await discoverProvider(config.issuer);
+    const idToken = await exchangeAuthorizationCode(config, metadata, input.code, states[0].code_verifier);
+    const claims = await verifyIdToken(config, metadata, idToken, states[0].nonce);
+
+    const admin = await findOrProvisionAdmin(claims, config);
+
+    if (!admin) {
+      await recordLoginEvent({
+        admin_id: null,
+        username: claims.email ?? claims.sub,
+        ip_address: ipAddress,
+        outcome: 'invalid_credentials'
+      });
+      throw new Error('No admin account is linked to this identity');
+    }
+
+    if (admin.disabled_at !== null) {
+      await recordLoginEvent({ admin_id: admin.id, username: admin.username, ip_address: ipAddress, outcome: 'account_disabled' });
+      throw new Error('This admin account is disabled');
+    }
+
+    // Enrolled admins still owe a TOTP or recovery code, exactly as after a password login
+    if (admin.totp_enabled_at !== null) {
+      const challenge = await createLoginChallenge(admin.id);
+      return { status: 'two_factor_required', ...challenge };
+    }
+
+    return completeLogin(admin, ipAddress);
+  } catch (error) {
+    console.error('OIDC login failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type ConfirmTwoFactorEnrolmentInput, type RecoveryCodes } from '../schema';
+import { verifyTotpCode } from '../auth/totp';
+import { issueRecoveryCodes } from '../auth/recovery_codes';
+import { eq } from 'drizzle-orm';
+
+// Activates 2FA once the admin proves their app produces valid codes, and hands out recovery codes
+export const confirmTwoFactorEnrolment = async (
+  adminId: number,
+  input: ConfirmTwoFactorEnrolmentInput
+): Promise<RecoveryCodes> => {
+  try {
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admins.length === 0) {
+      throw new Error(`Admin with id ${adminId} not found`);
+    }
+
+    const admin = admins[0];
+
+    if (admin.totp_enabled_at !== null) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    if (!admin.totp_secret) {
+      throw new Error('Start two-factor enrolment before confirming it');
+    }
+
+    const step = verifyTotpCode(admin.totp_secret, input.code, null);
+    if (step === null) {
+      throw new Error('Invalid authentication code');
+    }
+
+    await db.update(adminsTable)
+      .set({
+        totp_enabled_at: new Date(),
+        totp_last_used_step: step,
+        updated_at: new Date()
+      })
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    const recovery_codes = await issueRecoveryCodes(adminId);
+
+    return { recovery_codes };
+  } catch (error) {
+    console.error('Two-factor enrolment confirmation failed:', error);
+    throw error;
+  }
+};
@@ -1,24 +1,25 @@
 import { db } from '../db';
 import { adminsTable } from '../db/schema';
-import { type CreateAdminInput, type Admin } from '../schema';
+import { type CreateAdminInput, type PublicAdmin } from '../schema';
+import { hashPassword } from '../auth/credentials';
+import { toPublicAdmin } from '../auth/redact';
 
-export const createAdmin = async (input: CreateAdminInput): Promise<Admin> => {
+export const createAdmin = async (input: CreateAdminInput): Promise<PublicAdmin> => {
   try {
-    // Hash the password using Bun's built-in password hashing
-    const password_hash = await Bun.password.hash(input.password);
+    const password_hash = await hashPassword(input.password);
 
     // Insert admin record
     const result = await db.insert(adminsTable)
       .values({
         username: input.username,
         email: input.email,
-        password_hash: password_hash
+        password_hash: password_hash,
+        role: input.role
       })
       .returning()
       .execute();
 
-    const admin = result[0];
-    return admin;
+    return toPublicAdmin(result[0]);
   } catch (error) {
     console.error('Admin creation failed:', error);
     throw error;
@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { adminsTable, apiKeysTable } from '../db/schema';
+import { type CreateApiKeyInput, type CreatedApiKey } from '../schema';
+import { apiKeyColumns, generateApiKey, hashApiKey } from '../auth/api_keys';
+import { hasPermission } from '../auth/permissions';
+import { eq } from 'drizzle-orm';
+
+// Issues a key for the admin. The key is returned here once and only its hash is kept.
+export const createApiKey = async (adminId: number, input: CreateApiKeyInput): Promise<CreatedApiKey> => {
+  try {
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admins.length === 0) {
+      throw new Error(`Admin with id ${adminId} not found`);
+    }
+
+    const admin = admins[0];
+    const notGranted = (input.scopes ?? []).filter(scope => !hasPermission(admin.role, scope));
+    if (notGranted.length > 0) {
+      throw new Error(`Your role does not grant: ${notGranted.join(', ')}`);
+    }
+
+    if (input.expires_at && input.expires_at <= new Date()) {
+      throw new Error('Expiry date must be in the future');
+    }
+
+    const { key, prefix } = generateApiKey();
+
+    const result = await db.insert(apiKeysTable)
+      .values({
+        admin_id: adminId,
+        name: input.name,
+        prefix,
+        key_hash: hashApiKey(key),
+        scopes: input.scopes ? [...new Set(input.scopes)] : null,
+        expires_at: input.expires_at,
+      })
+      .returning(apiKeyColumns)
+      .execute();
+
+    return { api_key: result[0], key };
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { borrowersTable, BORROWER_EMAIL_INDEX } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
+import { type Borrower, type CreateBorrowerInput } from '../schema';
+import { requireDepartment } from '../bookings/departments';
+
+export const createBorrower = async (input: CreateBorrowerInput): Promise<Borrower> => {
+  try {
+    if (input.department_id) {
+      await requireDepartment(db, input.department_id);
+    }
+
+    const result = await db.insert(borrowersTable)
+      .values({
+        name: input.name,
+        organisation: input.organisation || null,
+        email: input.email || null,
+        phone: input.phone || null,
+        notes: input.notes || null,
+        department_id: input.department_id || null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    if (isUniqueViolation(error, BORROWER_EMAIL_INDEX)) {
+      throw new Error('A borrower with this email already exists');
+    }
+    console.error('Borrower creation failed:', error);
+    throw error;
+  }
+};
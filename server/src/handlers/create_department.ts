@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { departmentsTable, DEPARTMENT_NAME_INDEX } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
+import { type CreateDepartmentInput, type Department } from '../schema';
+
+export const createDepartment = async (input: CreateDepartmentInput): Promise<Department> => {
+  try {
+    const result = await db.insert(departmentsTable)
+      .values({
+        name: input.name,
+        cost_centre: input.cost_centre || null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    if (isUniqueViolation(error, DEPARTMENT_NAME_INDEX)) {
+      throw new Error('A department with this name already exists');
+    }
+    console.error('Department creation failed:', error);
+    throw error;
+  }
+};
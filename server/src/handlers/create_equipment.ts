@@ -1,9 +1,14 @@
 import { db } from '../db';
 import { equipmentTable } from '../db/schema';
 import { type CreateEquipmentInput, type Equipment } from '../schema';
+import { checkParent } from '../bookings/accessories';
 
 export const createEquipment = async (input: CreateEquipmentInput): Promise<Equipment> => {
   try {
+    if (input.parent_id) {
+      await checkParent(db, input.parent_id, null);
+    }
+
     // Insert equipment record
     const result = await db.insert(equipmentTable)
       .values({
@@ -13,7 +18,12 @@ export const createEquipment = async (input: CreateEquipmentInput): Promise<Equi
         category: input.category,
         brand: input.brand || null,
         model: input.model || null,
-        status: input.status || 'available'
+        status: input.status || 'available',
+        parent_id: input.parent_id || null,
+        replacement_value: input.replacement_value ?? null,
+        storage_location: input.storage_location || null,
+        case_label: input.case_label || null,
+        weight_grams: input.weight_grams ?? null
       })
       .returning()
       .execute();
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { eventsTable } from '../db/schema';
+import { type CreateEventInput, type Event } from '../schema';
+
+export const createEvent = async (input: CreateEventInput): Promise<Event> => {
+  try {
+    const result = await db.insert(eventsTable)
+      .values({
+        name: input.name,
+        venue: input.venue || null,
+        load_in_at: input.load_in_at || null,
+        starts_at: input.starts_at,
+        ends_at: input.ends_at,
+        crew_lead: input.crew_lead || null,
+        notes: input.notes || null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Event creation failed:', error);
+    throw error;
+  }
+};
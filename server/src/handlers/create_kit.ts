@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { kitsTable, kitMembersTable, KIT_MEMBERSHIP_CONSTRAINT } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
+import { type CreateKitInput, type KitDetails } from '../schema';
+import { checkKitMembers, loadKitDetails } from '../bookings/kits';
+
+export const createKit = async (input: CreateKitInput): Promise<KitDetails> => {
+  try {
+    return await db.transaction(async (tx) => {
+      await checkKitMembers(tx, input.equipment_ids, null);
+
+      const result = await tx.insert(kitsTable)
+        .values({
+          name: input.name,
+          serial_number: input.serial_number || null,
+          description: input.description || null
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(kitMembersTable)
+        .values(input.equipment_ids.map(equipmentId => ({
+          kit_id: result[0].id,
+          equipment_id: equipmentId
+        })))
+        .execute();
+
+      return (await loadKitDetails(tx, result[0].id))!;
+    });
+  } catch (error) {
+    if (isUniqueViolation(error, KIT_MEMBERSHIP_CONSTRAINT)) {
+      throw new Error('Some equipment already belongs to another kit');
+    }
+    console.error('Kit creation failed:', error);
+    throw error;
+  }
+};
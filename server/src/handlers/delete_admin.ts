@@ -0,0 +1,99 @@
+import { db } from '../db';
+import {
+  adminsTable,
+  adminSessionsTable,
+  adminRecoveryCodesTable,
+  apiKeysTable,
+  loginChallengesTable,
+  equipmentTransactionsTable,
+  transactionGroupsTable,
+  loanExtensionsTable,
+  borrowerRuleOverridesTable,
+  loginEventsTable
+} from '../db/schema';
+import { ensureAnotherActiveOwner } from '../auth/owners';
+import { eq, sql } from 'drizzle-orm';
+
+// Records that name the admin who made them; an admin with any of these must be kept for the history
+const HISTORY = [
+  { table: equipmentTransactionsTable, admin: equipmentTransactionsTable.admin_id },
+  { table: equipmentTransactionsTable, admin: equipmentTransactionsTable.cancelled_by },
+  { table: equipmentTransactionsTable, admin: equipmentTransactionsTable.picked_by },
+  { table: transactionGroupsTable, admin: transactionGroupsTable.admin_id },
+  { table: loanExtensionsTable, admin: loanExtensionsTable.admin_id },
+  { table: borrowerRuleOverridesTable, admin: borrowerRuleOverridesTable.admin_id },
+];
+
+export async function deleteAdmin(id: number, actingAdminId: number): Promise<boolean> {
+  try {
+    if (id === actingAdminId) {
+      throw new Error('You cannot delete your own account');
+    }
+
+    // Either the admin and everything tied to them goes, or nothing does
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(adminsTable)
+        .where(eq(adminsTable.id, id))
+        .execute();
+
+      if (existing.length === 0) {
+        return false; // Admin doesn't exist
+      }
+
+      if (existing[0].role === 'owner' && existing[0].disabled_at === null) {
+        await ensureAnotherActiveOwner(tx, id);
+      }
+
+      await tx.select({ id: adminsTable.id })
+        .from(adminsTable)
+        .where(eq(adminsTable.id, id))
+        .for('update')
+        .execute();
+
+      for (const { table, admin } of HISTORY) {
+        const recorded = await tx.select({ found: sql`1` })
+          .from(table)
+          .where(eq(admin, id))
+          .limit(1)
+          .execute();
+
+        if (recorded.length > 0) {
+          throw new Error('Cannot delete an admin who has recorded transactions. Disable the account instead.');
+        }
+      }
+
+      await tx.delete(adminSessionsTable)
+        .where(eq(adminSessionsTable.admin_id, id))
+        .execute();
+
+      await tx.delete(loginChallengesTable)
+        .where(eq(loginChallengesTable.admin_id, id))
+        .execute();
+
+      await tx.delete(adminRecoveryCodesTable)
+        .where(eq(adminRecoveryCodesTable.admin_id, id))
+        .execute();
+
+      // No transactions were recorded, so none can reference these keys
+      await tx.delete(apiKeysTable)
+        .where(eq(apiKeysTable.admin_id, id))
+        .execute();
+
+      // Keep the login audit trail; the events still carry the submitted username
+      await tx.update(loginEventsTable)
+        .set({ admin_id: null })
+        .where(eq(loginEventsTable.admin_id, id))
+        .execute();
+
+      await tx.delete(adminsTable)
+        .where(eq(adminsTable.id, id))
+        .execute();
+
+      return true;
+    });
+  } catch (error) {
+    console.error('Admin deletion failed:', error);
+    throw error;
+  }
+}
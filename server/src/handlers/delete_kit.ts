@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { kitsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Deleting a kit only dissolves the bundle: its members, their transactions and the receipts
+// of past kit check-outs all stay, and members already out are checked in one by one.
+export async function deleteKit(id: number): Promise<boolean> {
+  try {
+    const result = await db.delete(kitsTable)
+      .where(eq(kitsTable.id, id))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Kit deletion failed:', error);
+    throw error;
+  }
+}
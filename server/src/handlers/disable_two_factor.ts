@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type DisableTwoFactorInput } from '../schema';
+import { verifyPassword } from '../auth/credentials';
+import { clearTwoFactor, isTwoFactorRequired } from '../auth/two_factor';
+import { eq } from 'drizzle-orm';
+
+export const disableTwoFactor = async (adminId: number, input: DisableTwoFactorInput): Promise<boolean> => {
+  try {
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admins.length === 0) {
+      throw new Error(`Admin with id ${adminId} not found`);
+    }
+
+    if (admins[0].totp_enabled_at === null) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    if (await isTwoFactorRequired()) {
+      throw new Error('Two-factor authentication is required for all accounts');
+    }
+
+    const verification = await verifyPassword(input.password, admins[0].password_hash);
+    if (!verification.valid) {
+      throw new Error('Password is incorrect');
+    }
+
+    await clearTwoFactor(adminId);
+
+    return true;
+  } catch (error) {
+    console.error('Disabling two-factor authentication failed:', error);
+    throw error;
+  }
+};
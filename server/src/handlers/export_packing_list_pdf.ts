@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { type GetPackingListQuery, type PackingListPdf } from '../schema';
+import { loadPackingList, renderPackingListPdf } from '../documents/packing_lists';
+
+// A pull sheet or return checklist as a PDF; null if the event or group is missing
+export async function exportPackingListPdf(query: GetPackingListQuery): Promise<PackingListPdf | null> {
+  try {
+    const list = await loadPackingList(db, query);
+    if (!list) {
+      return null;
+    }
+
+    return { filename: `${list.basename}.pdf`, pdf: renderPackingListPdf(list).toString('base64') };
+  } catch (error) {
+    console.error('Packing list PDF export failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,119 @@
+import { db } from '../db';
+import { adminsTable, equipmentTable, equipmentTransactionsTable, loanExtensionsTable, transactionGroupsTable } from '../db/schema';
+import { type EquipmentTransaction, type ExtendLoanInput } from '../schema';
+import { findReservationConflicts, reservationConflictError } from '../bookings/conflicts';
+import { and, eq, isNull, max } from 'drizzle-orm';
+
+// Moves the expected return of an open check-out or booking, keeping its transaction_date and
+// recording who approved the change and why. Only the time the loan newly claims is checked
+// against other reservations, so an extension is refused when someone else has the item next.
+export async function extendLoan(input: ExtendLoanInput, adminId: number, apiKeyId: number | null = null): Promise<EquipmentTransaction | null> {
+  try {
+    // Verify admin exists
+    const admin = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admin.length === 0) {
+      throw new Error(`Admin with id ${adminId} not found`);
+    }
+
+    return await db.transaction(async (tx) => {
+      // Lock the equipment row before the transaction, in the same order as the other handlers
+      const target = await tx.select({ equipment_id: equipmentTransactionsTable.equipment_id })
+        .from(equipmentTransactionsTable)
+        .where(eq(equipmentTransactionsTable.id, input.transaction_id))
+        .execute();
+
+      if (target.length === 0) {
+        return null; // Transaction doesn't exist
+      }
+
+      await tx.select()
+        .from(equipmentTable)
+        .where(eq(equipmentTable.id, target[0].equipment_id))
+        .for('update')
+        .execute();
+
+      const loans = await tx.select()
+        .from(equipmentTransactionsTable)
+        .where(eq(equipmentTransactionsTable.id, input.transaction_id))
+        .for('update')
+        .execute();
+
+      const loan = loans[0];
+      if (loan.transaction_type === 'check_in' || loan.actual_return_date !== null) {
+        throw new Error(`Transaction #${loan.id} is not an open check-out or booking`);
+      }
+
+      const now = new Date();
+      if (input.expected_return_date <= now) {
+        throw new Error('The new return date must be in the future');
+      }
+      const start = loan.reserved_from ?? loan.transaction_date;
+      if (input.expected_return_date <= start) {
+        throw new Error('The new return date must be after the loan starts');
+      }
+
+      const claimedFrom = new Date(Math.max(now.getTime(), (loan.expected_return_date ?? start).getTime()));
+      if (input.expected_return_date > claimedFrom) {
+        const conflicts = await findReservationConflicts(tx, loan.equipment_id, claimedFrom, input.expected_return_date, loan.id);
+        if (conflicts.length > 0) {
+          throw reservationConflictError(conflicts);
+        }
+      }
+
+      await tx.insert(loanExtensionsTable)
+        .values({
+          transaction_id: loan.id,
+          admin_id: adminId,
+          api_key_id: apiKeyId,
+          previous_return_date: loan.expected_return_date,
+          new_return_date: input.expected_return_date,
+          reason: input.reason,
+        })
+        .execute();
+
+      // The new due date is in the future, so the loan is no longer overdue
+      const result = await tx.update(equipmentTransactionsTable)
+        .set({
+          expected_return_date: input.expected_return_date,
+          overdue_at: null,
+        })
+        .where(eq(equipmentTransactionsTable.id, loan.id))
+        .returning()
+        .execute();
+
+      // A cart is due back when its last open item is, so the group follows its items
+      if (loan.group_id !== null) {
+        await tx.select({ id: transactionGroupsTable.id })
+          .from(transactionGroupsTable)
+          .where(eq(transactionGroupsTable.id, loan.group_id))
+          .for('update')
+          .execute();
+
+        const latest = await tx.select({ expected_return_date: max(equipmentTransactionsTable.expected_return_date) })
+          .from(equipmentTransactionsTable)
+          .where(
+            and(
+              eq(equipmentTransactionsTable.group_id, loan.group_id),
+              eq(equipmentTransactionsTable.transaction_type, 'check_out'),
+              isNull(equipmentTransactionsTable.actual_return_date)
+            )
+          )
+          .execute();
+
+        await tx.update(transactionGroupsTable)
+          .set({ expected_return_date: latest[0].expected_return_date })
+          .where(eq(transactionGroupsTable.id, loan.group_id))
+          .execute();
+      }
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Loan extension failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { adminsTable, loginThrottlesTable } from '../db/schema';
+import { type AdminLockout } from '../schema';
+import { eq, and, gt, isNotNull } from 'drizzle-orm';
+
+// Admin accounts whose username is currently refusing login attempts
+export async function getAdminLockouts(): Promise<AdminLockout[]> {
+  try {
+    const results = await db.select({
+      admin_id: adminsTable.id,
+      username: adminsTable.username,
+      failed_count: loginThrottlesTable.failed_count,
+      blocked_until: loginThrottlesTable.blocked_until,
+    })
+      .from(loginThrottlesTable)
+      .innerJoin(adminsTable, eq(loginThrottlesTable.key, adminsTable.username))
+      .where(
+        and(
+          eq(loginThrottlesTable.scope, 'username'),
+          isNotNull(loginThrottlesTable.blocked_until),
+          gt(loginThrottlesTable.blocked_until, new Date())
+        )
+      )
+      .execute();
+
+    return results.map(result => ({
+      ...result,
+      blocked_until: result.blocked_until!, // Guaranteed by the where clause
+    }));
+  } catch (error) {
+    console.error('Failed to get admin lockouts:', error);
+    throw error;
+  }
+}
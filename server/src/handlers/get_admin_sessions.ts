@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { adminsTable, adminSessionsTable } from '../db/schema';
+import { type AdminSession } from '../schema';
+import { and, desc, eq, gt, type SQL } from 'drizzle-orm';
+
+// Lists unexpired sessions, optionally for a single admin
+export const getAdminSessions = async (adminId?: number): Promise<AdminSession[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [gt(adminSessionsTable.expires_at, new Date())];
+
+    if (adminId !== undefined) {
+      conditions.push(eq(adminSessionsTable.admin_id, adminId));
+    }
+
+    const results = await db.select({
+      id: adminSessionsTable.id,
+      admin_id: adminSessionsTable.admin_id,
+      username: adminsTable.username,
+      created_at: adminSessionsTable.created_at,
+      expires_at: adminSessionsTable.expires_at,
+    })
+      .from(adminSessionsTable)
+      .innerJoin(adminsTable, eq(adminSessionsTable.admin_id, adminsTable.id))
+      .where(and(...conditions))
+      .orderBy(desc(adminSessionsTable.created_at))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch admin sessions:', error);
+    throw error;
+  }
+};
@@ -1,19 +1,20 @@
 import { db } from '../db';
 import { adminsTable } from '../db/schema';
-import { type Admin } from '../schema';
+import { type PublicAdmin } from '../schema';
+import { getTableColumns } from 'drizzle-orm';
 
-export const getAdmins = async (): Promise<Admin[]> => {
+export const getAdmins = async (): Promise<PublicAdmin[]> => {
   try {
-    // Fetch all admin users from the database
-    const results = await db.select()
+    // Select every column except credentials so they never leave the database layer
+    const { password_hash, totp_secret, totp_last_used_step, ...publicColumns } = getTableColumns(adminsTable);
+
+    const results = await db.select(publicColumns)
       .from(adminsTable)
       .execute();
 
-    // Return the results - password_hash is included as per schema requirement
-    // In production, you might want to exclude password_hash for security
     return results;
   } catch (error) {
     console.error('Failed to fetch admins:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
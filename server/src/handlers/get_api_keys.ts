@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { apiKeysTable } from '../db/schema';
+import { type ApiKey } from '../schema';
+import { apiKeyColumns } from '../auth/api_keys';
+import { eq, desc } from 'drizzle-orm';
+
+// Lists the admin's own keys, or every admin's keys when adminId is null
+export const getApiKeys = async (adminId: number | null): Promise<ApiKey[]> => {
+  try {
+    const baseQuery = db.select(apiKeyColumns).from(apiKeysTable);
+
+    const results = adminId !== null
+      ? await baseQuery
+          .where(eq(apiKeysTable.admin_id, adminId))
+          .orderBy(desc(apiKeysTable.created_at))
+          .execute()
+      : await baseQuery
+          .orderBy(desc(apiKeysTable.created_at))
+          .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to fetch API keys:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,82 @@
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { type AvailabilityQuery, type AvailableEquipment, type Commitment } from '../schema';
+import { commitmentOf, overlapsWindow } from '../bookings/commitments';
+import { and, asc, eq, ilike, inArray, isNull, ne, or, type SQL } from 'drizzle-orm';
+
+// Units that are free for the whole window: not in maintenance, not out on a loan that runs into
+// the window, and not reserved during it. Each comes with the first commitment after the window.
+export async function getAvailableEquipment(query: AvailabilityQuery): Promise<AvailableEquipment[]> {
+  try {
+    const conditions: SQL<unknown>[] = [ne(equipmentTable.status, 'maintenance')];
+
+    if (query.category) {
+      conditions.push(eq(equipmentTable.category, query.category));
+    }
+
+    if (query.search) {
+      const searchTerm = `%${query.search}%`;
+      conditions.push(
+        or(
+          ilike(equipmentTable.name, searchTerm),
+          ilike(equipmentTable.serial_number, searchTerm),
+          ilike(equipmentTable.description, searchTerm)
+        )!
+      );
+    }
+
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(and(...conditions))
+      .orderBy(asc(equipmentTable.name), asc(equipmentTable.serial_number))
+      .execute();
+
+    if (equipment.length === 0) {
+      return [];
+    }
+
+    const openTransactions = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(
+        and(
+          inArray(equipmentTransactionsTable.equipment_id, equipment.map(item => item.id)),
+          inArray(equipmentTransactionsTable.transaction_type, ['check_out', 'booking']),
+          isNull(equipmentTransactionsTable.actual_return_date)
+        )
+      )
+      .execute();
+
+    const now = new Date();
+    const commitmentsByEquipment = new Map<number, Commitment[]>();
+    for (const transaction of openTransactions) {
+      const commitments = commitmentsByEquipment.get(transaction.equipment_id) ?? [];
+      commitments.push(commitmentOf(transaction, now));
+      commitmentsByEquipment.set(transaction.equipment_id, commitments);
+    }
+
+    const results: AvailableEquipment[] = [];
+    for (const item of equipment) {
+      const commitments = (commitmentsByEquipment.get(item.id) ?? [])
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+      if (commitments.some(commitment => overlapsWindow(commitment, query.start_date, query.end_date))) {
+        continue;
+      }
+
+      // A unit marked out without an open record of who has it cannot be promised to anyone
+      if (item.status !== 'available' && !commitments.some(commitment => commitment.start <= now)) {
+        continue;
+      }
+
+      results.push({
+        equipment: item,
+        next_commitment: commitments.find(commitment => commitment.start >= query.end_date) ?? null,
+      });
+    }
+
+    return results;
+  } catch (error) {
+    console.error('Availability search failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { borrowerRuleOverridesTable, borrowersTable, departmentsTable, equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { type BorrowerProfile } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+
+export async function getBorrowerProfile(borrowerId: number): Promise<BorrowerProfile | null> {
+  try {
+    const borrowers = await db.select({ borrower: borrowersTable, department: departmentsTable })
+      .from(borrowersTable)
+      .leftJoin(departmentsTable, eq(borrowersTable.department_id, departmentsTable.id))
+      .where(eq(borrowersTable.id, borrowerId))
+      .execute();
+
+    if (borrowers.length === 0) {
+      return null;
+    }
+
+    const rows = await db.select()
+      .from(equipmentTransactionsTable)
+      .innerJoin(equipmentTable, eq(equipmentTransactionsTable.equipment_id, equipmentTable.id))
+      .where(eq(equipmentTransactionsTable.borrower_id, borrowerId))
+      .orderBy(desc(equipmentTransactionsTable.transaction_date), desc(equipmentTransactionsTable.id))
+      .execute();
+
+    const overrides = await db.select()
+      .from(borrowerRuleOverridesTable)
+      .where(eq(borrowerRuleOverridesTable.borrower_id, borrowerId))
+      .orderBy(desc(borrowerRuleOverridesTable.created_at), desc(borrowerRuleOverridesTable.id))
+      .execute();
+
+    const history = rows.map(({ equipment_transactions: transaction, equipment }) => ({ transaction, equipment }));
+
+    return {
+      ...borrowers[0],
+      // A picked-up booking is closed and its check-out listed instead
+      holding: history.filter(({ transaction }) =>
+        transaction.transaction_type !== 'check_in' &&
+        transaction.actual_return_date === null &&
+        transaction.cancelled_at === null
+      ),
+      history,
+      overrides,
+    };
+  } catch (error) {
+    console.error('Failed to get borrower profile:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { borrowersTable } from '../db/schema';
+import { type Borrower, type GetBorrowersQuery } from '../schema';
+import { asc, ilike, or } from 'drizzle-orm';
+
+export async function getBorrowers(query?: GetBorrowersQuery): Promise<Borrower[]> {
+  try {
+    const search = query?.search?.trim();
+    const searchTerm = `%${search}%`;
+
+    return await db.select()
+      .from(borrowersTable)
+      .where(search
+        ? or(
+            ilike(borrowersTable.name, searchTerm),
+            ilike(borrowersTable.organisation, searchTerm),
+            ilike(borrowersTable.email, searchTerm),
+            ilike(borrowersTable.phone, searchTerm)
+          )
+        : undefined)
+      .orderBy(asc(borrowersTable.name), asc(borrowersTable.id))
+      .limit(query?.limit ?? 20)
+      .execute();
+  } catch (error) {
+    console.error('Failed to get borrowers:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type CurrentAdmin } from '../schema';
+import { getRolePermissions } from '../auth/permissions';
+import { toPublicAdmin } from '../auth/redact';
+import { isTwoFactorSetupRequired } from '../auth/two_factor';
+import { eq } from 'drizzle-orm';
+
+export const getCurrentAdmin = async (adminId: number): Promise<CurrentAdmin | null> => {
+  try {
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admins.length === 0) {
+      return null;
+    }
+
+    const admin = admins[0];
+
+    return {
+      admin: toPublicAdmin(admin),
+      permissions: getRolePermissions(admin.role),
+      two_factor_setup_required: await isTwoFactorSetupRequired(admin),
+    };
+  } catch (error) {
+    console.error('Failed to fetch current admin:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,83 @@
+import { db } from '../db';
+import { departmentsTable, equipmentTransactionsTable } from '../db/schema';
+import { type DepartmentUsage, type GetDepartmentUsageQuery } from '../schema';
+import { and, eq, gte, isNull, lte, or, type SQL } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days of [from, to) that fall within the report period
+const daysWithin = (from: Date, to: Date, query: GetDepartmentUsageQuery): number => {
+  const start = Math.max(from.getTime(), query.start_date.getTime());
+  const end = Math.min(to.getTime(), query.end_date.getTime());
+  return Math.max(0, end - start) / DAY_MS;
+};
+
+const round = (days: number): number => Math.round(days * 100) / 100;
+
+// Charges each department for its check-outs over the period: the days items were out, the days
+// they were overdue and the damage found when they came back. Loans still open count up to now.
+// Bookings are not charged, since the items never left.
+export async function getDepartmentUsage(query: GetDepartmentUsageQuery): Promise<DepartmentUsage[]> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      eq(equipmentTransactionsTable.transaction_type, 'check_out'),
+      lte(equipmentTransactionsTable.transaction_date, query.end_date),
+      or(
+        isNull(equipmentTransactionsTable.actual_return_date),
+        gte(equipmentTransactionsTable.actual_return_date, query.start_date)
+      )!,
+    ];
+
+    if (query.department_id !== undefined) {
+      conditions.push(eq(equipmentTransactionsTable.department_id, query.department_id));
+    }
+
+    const checkOuts = await db.select({
+      check_out: equipmentTransactionsTable,
+      department: departmentsTable,
+    })
+      .from(equipmentTransactionsTable)
+      .leftJoin(departmentsTable, eq(equipmentTransactionsTable.department_id, departmentsTable.id))
+      .where(and(...conditions))
+      .execute();
+
+    const now = new Date();
+    const usage = new Map<number | null, DepartmentUsage>();
+
+    for (const { check_out, department } of checkOuts) {
+      let row = usage.get(check_out.department_id);
+      if (!row) {
+        row = {
+          department_id: check_out.department_id,
+          department_name: department?.name ?? null,
+          cost_centre: department?.cost_centre ?? null,
+          check_outs: 0,
+          item_days: 0,
+          overdue_days: 0,
+          damage_cost: 0,
+        };
+        usage.set(check_out.department_id, row);
+      }
+
+      const returned = check_out.actual_return_date ?? now;
+      row.check_outs += 1;
+      row.item_days += daysWithin(check_out.transaction_date, returned, query);
+      if (check_out.expected_return_date) {
+        row.overdue_days += daysWithin(check_out.expected_return_date, returned, query);
+      }
+      if (check_out.damage_cost && check_out.actual_return_date && check_out.actual_return_date >= query.start_date
+        && check_out.actual_return_date <= query.end_date) {
+        row.damage_cost += check_out.damage_cost;
+      }
+    }
+
+    // Departments by name, with the loans nobody is charged for last
+    return [...usage.values()]
+      .map(row => ({ ...row, item_days: round(row.item_days), overdue_days: round(row.overdue_days) }))
+      .sort((a, b) => a.department_name === null ? 1 : b.department_name === null ? -1
+        : a.department_name.localeCompare(b.department_name));
+  } catch (error) {
+    console.error('Failed to get department usage:', error);
+    throw error;
+  }
+}
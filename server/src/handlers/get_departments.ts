@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { departmentsTable } from '../db/schema';
+import { type Department } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export async function getDepartments(): Promise<Department[]> {
+  try {
+    return await db.select()
+      .from(departmentsTable)
+      .orderBy(asc(departmentsTable.name), asc(departmentsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get departments:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,9 @@
 import { db } from '../db';
 import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
 import { type EquipmentWithTransactions } from '../schema';
-import { eq, desc } from 'drizzle-orm';
+import { loadAccessories } from '../bookings/accessories';
+import { loadExtensions } from '../bookings/extensions';
+import { and, eq, desc, inArray, isNull } from 'drizzle-orm';
 
 export async function getEquipmentWithTransactions(equipmentId: number): Promise<EquipmentWithTransactions | null> {
   try {
@@ -29,8 +31,23 @@ export async function getEquipmentWithTransactions(equipmentId: number): Promise
         user_contact: equipmentTransactionsTable.user_contact,
         notes: equipmentTransactionsTable.notes,
         transaction_date: equipmentTransactionsTable.transaction_date,
+        reserved_from: equipmentTransactionsTable.reserved_from,
         expected_return_date: equipmentTransactionsTable.expected_return_date,
         actual_return_date: equipmentTransactionsTable.actual_return_date,
+        booking_id: equipmentTransactionsTable.booking_id,
+        cancelled_at: equipmentTransactionsTable.cancelled_at,
+        cancelled_by: equipmentTransactionsTable.cancelled_by,
+        cancelled_by_api_key_id: equipmentTransactionsTable.cancelled_by_api_key_id,
+        group_id: equipmentTransactionsTable.group_id,
+        borrower_id: equipmentTransactionsTable.borrower_id,
+        department_id: equipmentTransactionsTable.department_id,
+        event_id: equipmentTransactionsTable.event_id,
+        picked_at: equipmentTransactionsTable.picked_at,
+        picked_by: equipmentTransactionsTable.picked_by,
+        picked_by_api_key_id: equipmentTransactionsTable.picked_by_api_key_id,
+        api_key_id: equipmentTransactionsTable.api_key_id,
+        overdue_at: equipmentTransactionsTable.overdue_at,
+        damage_cost: equipmentTransactionsTable.damage_cost,
         created_at: equipmentTransactionsTable.created_at,
       })
       .from(equipmentTransactionsTable)
@@ -52,9 +69,9 @@ export async function getEquipmentWithTransactions(equipmentId: number): Promise
         current_user = mostRecentCheckOut.user_name;
       }
     } else if (transactionResults.length > 0 && equipment.status === 'booked') {
-      // Find the most recent booking that hasn't been fulfilled or returned
+      // Find the most recent immediate booking that hasn't been fulfilled or returned
       const mostRecentBooking = transactionResults.find(
-        tx => tx.transaction_type === 'booking' && tx.actual_return_date === null
+        tx => tx.transaction_type === 'booking' && tx.actual_return_date === null && tx.reserved_from === null
       );
       
       if (mostRecentBooking) {
@@ -62,10 +79,35 @@ export async function getEquipmentWithTransactions(equipmentId: number): Promise
       }
     }
 
+    // Accessories travel with the item, so any whose check-out was open when the item last came
+    // back are missing. Ones on the shelf, or out on a loan of their own since, are not.
+    const accessories = await loadAccessories(db, equipmentId);
+    const lastReturn = transactionResults.find(tx => tx.transaction_type === 'check_out')?.actual_return_date ?? null;
+
+    const openAccessoryCheckOuts = lastReturn === null || accessories.length === 0
+      ? []
+      : await db.select({
+          equipment_id: equipmentTransactionsTable.equipment_id,
+          transaction_date: equipmentTransactionsTable.transaction_date,
+        })
+        .from(equipmentTransactionsTable)
+        .where(and(
+          inArray(equipmentTransactionsTable.equipment_id, accessories.map(accessory => accessory.id)),
+          eq(equipmentTransactionsTable.transaction_type, 'check_out'),
+          isNull(equipmentTransactionsTable.actual_return_date)
+        ))
+        .execute();
+    const outstanding_accessories = accessories.filter(accessory => openAccessoryCheckOuts.some(
+      checkOut => checkOut.equipment_id === accessory.id && checkOut.transaction_date <= lastReturn!
+    ));
+
     return {
       equipment,
       transactions: transactionResults,
       current_user,
+      accessories,
+      outstanding_accessories,
+      extensions: await loadExtensions(db, transactionResults.map(transaction => transaction.id)),
     };
   } catch (error) {
     console.error('Failed to get equipment with transactions:', error);
@@ -0,0 +1,12 @@
+import { db } from '../db';
+import { type EventDetails } from '../schema';
+import { loadEventDetails } from '../bookings/events';
+
+export async function getEvent(id: number): Promise<EventDetails | null> {
+  try {
+    return await loadEventDetails(db, id);
+  } catch (error) {
+    console.error('Failed to get event:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { eventsTable } from '../db/schema';
+import { type Event, type GetEventsQuery } from '../schema';
+import { and, desc, gte, ilike, or, type SQL } from 'drizzle-orm';
+
+export async function getEvents(query?: GetEventsQuery): Promise<Event[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    const search = query?.search?.trim();
+    if (search) {
+      const searchTerm = `%${search}%`;
+      conditions.push(or(
+        ilike(eventsTable.name, searchTerm),
+        ilike(eventsTable.venue, searchTerm),
+        ilike(eventsTable.crew_lead, searchTerm)
+      )!);
+    }
+
+    if (query?.upcoming) {
+      conditions.push(gte(eventsTable.ends_at, new Date()));
+    }
+
+    // Newest shows first
+    return await db.select()
+      .from(eventsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(eventsTable.starts_at), desc(eventsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get events:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { kitsTable } from '../db/schema';
+import { type GetKitsQuery, type KitDetails } from '../schema';
+import { loadKitsDetails } from '../bookings/kits';
+import { asc, ilike, or } from 'drizzle-orm';
+
+export async function getKits(query?: GetKitsQuery): Promise<KitDetails[]> {
+  try {
+    const searchTerm = query?.search ? `%${query.search}%` : null;
+
+    // Search across name, serial_number, and description fields like getEquipment
+    const kits = await db.select()
+      .from(kitsTable)
+      .where(searchTerm
+        ? or(
+            ilike(kitsTable.name, searchTerm),
+            ilike(kitsTable.serial_number, searchTerm),
+            ilike(kitsTable.description, searchTerm)
+          )
+        : undefined)
+      .orderBy(asc(kitsTable.name))
+      .execute();
+
+    return loadKitsDetails(db, kits);
+  } catch (error) {
+    console.error('Kits fetch failed:', error);
+    throw error;
+  }
+}
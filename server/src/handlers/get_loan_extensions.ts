@@ -0,0 +1,12 @@
+import { db } from '../db';
+import { type GetLoanExtensionsQuery, type LoanExtension } from '../schema';
+import { loadExtensions } from '../bookings/extensions';
+
+export async function getLoanExtensions(query: GetLoanExtensionsQuery): Promise<LoanExtension[]> {
+  try {
+    return await loadExtensions(db, query.transaction_ids);
+  } catch (error) {
+    console.error('Failed to get loan extensions:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { loginEventsTable } from '../db/schema';
+import { type LoginEvent, type GetLoginEventsQuery } from '../schema';
+import { eq, and, gte, lte, desc, type SQL } from 'drizzle-orm';
+
+export async function getLoginEvents(query: GetLoginEventsQuery): Promise<LoginEvent[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (query.admin_id !== undefined) {
+      conditions.push(eq(loginEventsTable.admin_id, query.admin_id));
+    }
+
+    if (query.username) {
+      conditions.push(eq(loginEventsTable.username, query.username));
+    }
+
+    if (query.outcome) {
+      conditions.push(eq(loginEventsTable.outcome, query.outcome));
+    }
+
+    if (query.start_date) {
+      conditions.push(gte(loginEventsTable.created_at, query.start_date));
+    }
+
+    if (query.end_date) {
+      conditions.push(lte(loginEventsTable.created_at, query.end_date));
+    }
+
+    // Most recent attempts first
+    const results = await db.select()
+      .from(loginEventsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(loginEventsTable.created_at), desc(loginEventsTable.id))
+      .limit(query.limit)
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Failed to get login events:', error);
+    throw error;
+  }
+}
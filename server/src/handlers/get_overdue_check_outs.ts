@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, transactionRemindersTable } from '../db/schema';
+import { type OverdueCheckOut } from '../schema';
+import { and, asc, eq, inArray, isNull, lt } from 'drizzle-orm';
+
+// Open check-outs past their expected return date, most overdue first. This looks at the
+// dates directly rather than at overdue_at, so the list is current between overdue checks.
+export async function getOverdueCheckOuts(): Promise<OverdueCheckOut[]> {
+  try {
+    const rows = await db.select()
+      .from(equipmentTransactionsTable)
+      .innerJoin(equipmentTable, eq(equipmentTransactionsTable.equipment_id, equipmentTable.id))
+      .where(and(
+        eq(equipmentTransactionsTable.transaction_type, 'check_out'),
+        isNull(equipmentTransactionsTable.actual_return_date),
+        lt(equipmentTransactionsTable.expected_return_date, new Date())
+      ))
+      .orderBy(asc(equipmentTransactionsTable.expected_return_date), asc(equipmentTransactionsTable.id))
+      .execute();
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const reminders = await db.select()
+      .from(transactionRemindersTable)
+      .where(inArray(transactionRemindersTable.transaction_id, rows.map(row => row.equipment_transactions.id)))
+      .orderBy(asc(transactionRemindersTable.sent_at), asc(transactionRemindersTable.id))
+      .execute();
+
+    return rows.map(({ equipment_transactions: checkOut, equipment }) => ({
+      check_out: checkOut,
+      equipment,
+      reminders: reminders.filter(reminder => reminder.transaction_id === checkOut.id),
+    }));
+  } catch (error) {
+    console.error('Failed to get overdue check-outs:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { equipmentTransactionsTable } from '../db/schema';
+import { type EquipmentTransaction, type GetReservationsQuery } from '../schema';
+import { reservationStart } from '../bookings/conflicts';
+import { and, asc, eq, isNull, type SQL } from 'drizzle-orm';
+
+// Open bookings, soonest first: immediate holds and dated reservations not yet picked up or cancelled
+export async function getReservations(query?: GetReservationsQuery): Promise<EquipmentTransaction[]> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      eq(equipmentTransactionsTable.transaction_type, 'booking'),
+      isNull(equipmentTransactionsTable.actual_return_date),
+    ];
+
+    if (query?.equipment_id !== undefined) {
+      conditions.push(eq(equipmentTransactionsTable.equipment_id, query.equipment_id));
+    }
+
+    return await db.select()
+      .from(equipmentTransactionsTable)
+      .where(and(...conditions))
+      .orderBy(asc(reservationStart), asc(equipmentTransactionsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get reservations:', error);
+    throw error;
+  }
+}
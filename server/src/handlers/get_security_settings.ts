@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { securitySettingsTable } from '../db/schema';
+import { type SecuritySettings } from '../schema';
+import { SECURITY_SETTINGS_ID } from '../auth/two_factor';
+import { eq } from 'drizzle-orm';
+
+export const getSecuritySettings = async (): Promise<SecuritySettings> => {
+  try {
+    // Create the settings row with its defaults the first time it is read
+    await db.insert(securitySettingsTable)
+      .values({ id: SECURITY_SETTINGS_ID })
+      .onConflictDoNothing()
+      .execute();
+
+    const settings = await db.select()
+      .from(securitySettingsTable)
+      .where(eq(securitySettingsTable.id, SECURITY_SETTINGS_ID))
+      .execute();
+
+    return {
+      require_two_factor: settings[0].require_two_factor,
+      updated_at: settings[0].updated_at
+    };
+  } catch (error) {
+    console.error('Failed to get security settings:', error);
+    throw error;
+  }
+};
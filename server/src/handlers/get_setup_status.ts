@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type SetupStatus } from '../schema';
+
+export const getSetupStatus = async (): Promise<SetupStatus> => {
+  try {
+    const admins = await db.select({ id: adminsTable.id })
+      .from(adminsTable)
+      .limit(1)
+      .execute();
+
+    return { setup_required: admins.length === 0 };
+  } catch (error) {
+    console.error('Failed to get setup status:', error);
+    throw error;
+  }
+};
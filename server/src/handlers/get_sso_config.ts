@@ -0,0 +1,16 @@
+import { type SsoConfig } from '../schema';
+import { getOidcConfig } from '../auth/oidc';
+
+export const getSsoConfig = async (): Promise<SsoConfig> => {
+  try {
+    const config = getOidcConfig();
+
+    return {
+      enabled: config !== null,
+      provider_name: config?.providerName ?? null,
+    };
+  } catch (error) {
+    console.error('Failed to read SSO configuration:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,12 @@
+import { db } from '../db';
+import { type TransactionGroupDetails } from '../schema';
+import { loadGroupDetails } from '../bookings/groups';
+
+export async function getTransactionGroup(id: number): Promise<TransactionGroupDetails | null> {
+  try {
+    return await loadGroupDetails(db, id);
+  } catch (error) {
+    console.error('Failed to get transaction group:', error);
+    throw error;
+  }
+}
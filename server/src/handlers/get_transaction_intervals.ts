@@ -0,0 +1,76 @@
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { type TransactionInterval, type TransactionIntervalsQuery } from '../schema';
+import { reservationStart } from '../bookings/conflicts';
+import { and, asc, eq, gt, isNull, lt, or, type SQL } from 'drizzle-orm';
+
+// Check-outs and non-cancelled bookings that overlap the window, for calendar and timeline views.
+// Open check-outs run until they are returned; bookings are drawn over their reserved period.
+export async function getTransactionIntervals(query: TransactionIntervalsQuery): Promise<TransactionInterval[]> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      isNull(equipmentTransactionsTable.cancelled_at),
+      lt(reservationStart, query.end_date),
+      or(
+        and(
+          eq(equipmentTransactionsTable.transaction_type, 'check_out'),
+          or(
+            isNull(equipmentTransactionsTable.actual_return_date),
+            gt(equipmentTransactionsTable.actual_return_date, query.start_date)
+          )
+        ),
+        and(
+          eq(equipmentTransactionsTable.transaction_type, 'booking'),
+          or(
+            isNull(equipmentTransactionsTable.expected_return_date),
+            gt(equipmentTransactionsTable.expected_return_date, query.start_date)
+          )
+        )
+      )!,
+    ];
+
+    if (query.equipment_id !== undefined) {
+      conditions.push(eq(equipmentTransactionsTable.equipment_id, query.equipment_id));
+    }
+
+    if (query.category) {
+      conditions.push(eq(equipmentTable.category, query.category));
+    }
+
+    const results = await db.select({
+      transaction: equipmentTransactionsTable,
+      equipment_name: equipmentTable.name,
+      serial_number: equipmentTable.serial_number,
+    })
+      .from(equipmentTransactionsTable)
+      .innerJoin(equipmentTable, eq(equipmentTransactionsTable.equipment_id, equipmentTable.id))
+      .where(and(...conditions))
+      .orderBy(asc(equipmentTable.name), asc(equipmentTable.id), asc(reservationStart))
+      .execute();
+
+    const now = new Date();
+    return results.map(({ transaction, equipment_name, serial_number }) => {
+      // A check-out is overdue from its expected return date until it comes back
+      const returnedOrNow = transaction.actual_return_date ?? now;
+      const overdue = transaction.transaction_type === 'check_out'
+        && transaction.expected_return_date !== null
+        && returnedOrNow > transaction.expected_return_date;
+
+      return {
+        transaction_id: transaction.id,
+        equipment_id: transaction.equipment_id,
+        equipment_name,
+        serial_number,
+        transaction_type: transaction.transaction_type,
+        user_name: transaction.user_name,
+        start: transaction.reserved_from ?? transaction.transaction_date,
+        expected_end: transaction.expected_return_date,
+        actual_end: transaction.actual_return_date,
+        overdue_until: overdue ? returnedOrNow : null,
+      };
+    });
+  } catch (error) {
+    console.error('Failed to get transaction intervals:', error);
+    throw error;
+  }
+}
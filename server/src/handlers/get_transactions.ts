@@ -16,6 +16,26 @@ export async function getTransactions(query?: GetTransactionsQuery): Promise<Equ
       conditions.push(eq(equipmentTransactionsTable.admin_id, query.admin_id));
     }
 
+    if (query?.api_key_id !== undefined) {
+      conditions.push(eq(equipmentTransactionsTable.api_key_id, query.api_key_id));
+    }
+
+    if (query?.group_id !== undefined) {
+      conditions.push(eq(equipmentTransactionsTable.group_id, query.group_id));
+    }
+
+    if (query?.borrower_id !== undefined) {
+      conditions.push(eq(equipmentTransactionsTable.borrower_id, query.borrower_id));
+    }
+
+    if (query?.department_id !== undefined) {
+      conditions.push(eq(equipmentTransactionsTable.department_id, query.department_id));
+    }
+
+    if (query?.event_id !== undefined) {
+      conditions.push(eq(equipmentTransactionsTable.event_id, query.event_id));
+    }
+
     if (query?.transaction_type) {
       conditions.push(eq(equipmentTransactionsTable.transaction_type, query.transaction_type));
     }
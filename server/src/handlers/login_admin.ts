@@ -1,9 +1,13 @@
 import { db } from '../db';
 import { adminsTable } from '../db/schema';
-import { type LoginAdminInput, type Admin } from '../schema';
+import { type LoginAdminInput, type LoginResult } from '../schema';
+import { hashPassword, verifyPassword } from '../auth/credentials';
+import { recordLoginFailure } from '../auth/throttle';
+import { recordLoginEvent, ensureLoginNotThrottled, completeLogin } from '../auth/login';
+import { createLoginChallenge } from '../auth/two_factor';
 import { eq } from 'drizzle-orm';
 
-export const loginAdmin = async (input: LoginAdminInput): Promise<Admin | null> => {
+export const loginAdmin = async (input: LoginAdminInput, ipAddress: string | null = null): Promise<LoginResult | null> => {
   try {
     // Find admin by username
     const admins = await db.select()
@@ -11,41 +15,51 @@ export const loginAdmin = async (input: LoginAdminInput): Promise<Admin | null>
       .where(eq(adminsTable.username, input.username))
       .execute();
 
-    if (admins.length === 0) {
+    const found = admins.length > 0 ? admins[0] : null;
+    const attempt = { admin_id: found?.id ?? null, username: input.username, ip_address: ipAddress };
+
+    await ensureLoginNotThrottled(attempt);
+
+    if (!found) {
+      await recordLoginFailure(input.username, ipAddress);
+      await recordLoginEvent({ ...attempt, outcome: 'invalid_credentials' });
       return null; // Admin not found
     }
 
-    const admin = admins[0];
+    let admin = found;
 
-    // For this implementation, we'll use a simple hash comparison
-    // In a real application, you would use bcrypt or another secure hashing library
-    const hashedInput = await hashPassword(input.password);
-    
-    if (hashedInput !== admin.password_hash) {
+    if (admin.disabled_at !== null) {
+      await recordLoginFailure(input.username, ipAddress);
+      await recordLoginEvent({ ...attempt, outcome: 'account_disabled' });
+      return null; // Disabled accounts cannot log in
+    }
+
+    const verification = await verifyPassword(input.password, admin.password_hash);
+    if (!verification.valid) {
+      await recordLoginFailure(input.username, ipAddress);
+      await recordLoginEvent({ ...attempt, outcome: 'invalid_credentials' });
       return null; // Invalid password
     }
 
-    // Return admin record (password_hash is included in the Admin type)
-    return {
-      id: admin.id,
-      username: admin.username,
-      email: admin.email,
-      password_hash: admin.password_hash,
-      created_at: admin.created_at,
-      updated_at: admin.updated_at
-    };
+    // Upgrade legacy SHA-256 hashes now that we have the plaintext
+    if (verification.needsRehash) {
+      const updated = await db.update(adminsTable)
+        .set({ password_hash: await hashPassword(input.password) })
+        .where(eq(adminsTable.id, admin.id))
+        .returning()
+        .execute();
+      admin = updated[0];
+    }
+
+    // Enrolled admins still owe a TOTP or recovery code before a session is issued
+    if (admin.totp_enabled_at !== null) {
+      const challenge = await createLoginChallenge(admin.id);
+      return { status: 'two_factor_required', ...challenge };
+    }
+
+    return completeLogin(admin, ipAddress);
   } catch (error) {
     console.error('Admin login failed:', error);
     throw error;
   }
 };
-
-// Simple password hashing function using Web Crypto API
-// This is for demonstration purposes - use bcrypt in production
-async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
\ No newline at end of file
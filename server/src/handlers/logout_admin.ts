@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { adminSessionsTable } from '../db/schema';
+import { hashSessionToken } from '../auth/session';
+import { eq } from 'drizzle-orm';
+
+export const logoutAdmin = async (token: string): Promise<boolean> => {
+  try {
+    // Revoke the session so the token can no longer be used
+    const result = await db.delete(adminSessionsTable)
+      .where(eq(adminSessionsTable.token_hash, hashSessionToken(token)))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Admin logout failed:', error);
+    throw error;
+  }
+};
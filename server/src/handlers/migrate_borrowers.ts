@@ -0,0 +1,76 @@
+import { db } from '../db';
+import { borrowersTable, equipmentTransactionsTable, transactionGroupsTable } from '../db/schema';
+import { type MigrateBorrowersResult } from '../schema';
+import { findOrCreateBorrower } from '../bookings/borrowers';
+import { and, asc, count, inArray, isNull, ne } from 'drizzle-orm';
+
+// Links the check-outs, bookings and groups recorded before the borrower directory existed to
+// directory entries, matching their free-text name and contact the way new check-outs are.
+// Running it again only picks up rows that are still unlinked.
+export const migrateBorrowers = async (): Promise<MigrateBorrowersResult> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const countBorrowers = async () => (await tx.select({ count: count() }).from(borrowersTable).execute())[0].count;
+      const before = await countBorrowers();
+
+      // Rows with the same details go to the same borrower, so each pair is looked up once
+      const resolved = new Map<string, number>();
+      const borrowerFor = async (name: string, contact: string | null): Promise<number> => {
+        const key = JSON.stringify([name, contact]);
+        let borrowerId = resolved.get(key);
+        if (borrowerId === undefined) {
+          borrowerId = (await findOrCreateBorrower(tx, name, contact)).id;
+          resolved.set(key, borrowerId);
+        }
+        return borrowerId;
+      };
+
+      const link = async (rows: { id: number; user_name: string; user_contact: string | null }[]) => {
+        const byBorrower = new Map<number, number[]>();
+        for (const row of rows) {
+          const borrowerId = await borrowerFor(row.user_name, row.user_contact);
+          byBorrower.set(borrowerId, [...(byBorrower.get(borrowerId) ?? []), row.id]);
+        }
+        return byBorrower;
+      };
+
+      const transactions = await tx.select()
+        .from(equipmentTransactionsTable)
+        .where(and(
+          isNull(equipmentTransactionsTable.borrower_id),
+          ne(equipmentTransactionsTable.transaction_type, 'check_in')
+        ))
+        .orderBy(asc(equipmentTransactionsTable.id))
+        .execute();
+
+      for (const [borrowerId, ids] of await link(transactions)) {
+        await tx.update(equipmentTransactionsTable)
+          .set({ borrower_id: borrowerId })
+          .where(inArray(equipmentTransactionsTable.id, ids))
+          .execute();
+      }
+
+      const groups = await tx.select()
+        .from(transactionGroupsTable)
+        .where(isNull(transactionGroupsTable.borrower_id))
+        .orderBy(asc(transactionGroupsTable.id))
+        .execute();
+
+      for (const [borrowerId, ids] of await link(groups)) {
+        await tx.update(transactionGroupsTable)
+          .set({ borrower_id: borrowerId })
+          .where(inArray(transactionGroupsTable.id, ids))
+          .execute();
+      }
+
+      return {
+        borrowers_created: (await countBorrowers()) - before,
+        transactions_linked: transactions.length,
+        groups_linked: groups.length,
+      };
+    });
+  } catch (error) {
+    console.error('Borrower migration failed:', error);
+    throw error;
+  }
+};
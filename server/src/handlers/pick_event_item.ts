@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { equipmentTransactionsTable } from '../db/schema';
+import { type EquipmentTransaction, type PickEventItemInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Marks an item reserved for an event as pulled from storage, or puts it back on the shelf.
+// Only open bookings can be picked; once the item leaves, its check-out says where it is.
+export async function pickEventItem(input: PickEventItemInput, adminId: number, apiKeyId: number | null = null): Promise<EquipmentTransaction | null> {
+  try {
+    return await db.transaction(async (tx) => {
+      const bookings = await tx.select()
+        .from(equipmentTransactionsTable)
+        .where(eq(equipmentTransactionsTable.id, input.transaction_id))
+        .for('update')
+        .execute();
+
+      if (bookings.length === 0) {
+        return null;
+      }
+
+      const booking = bookings[0];
+      if (booking.event_id === null) {
+        throw new Error('Only items allocated to an event can be picked');
+      }
+      if (booking.transaction_type !== 'booking' || booking.actual_return_date !== null || booking.cancelled_at !== null) {
+        throw new Error('Only reserved items can be picked');
+      }
+
+      const result = await tx.update(equipmentTransactionsTable)
+        .set(input.picked
+          ? { picked_at: new Date(), picked_by: adminId, picked_by_api_key_id: apiKeyId }
+          : { picked_at: null, picked_by: null, picked_by_api_key_id: null })
+        .where(eq(equipmentTransactionsTable.id, booking.id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Picking event item failed:', error);
+    throw error;
+  }
+}
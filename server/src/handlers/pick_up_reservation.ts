@@ -0,0 +1,125 @@
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable, OPEN_CHECK_OUT_INDEX } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
+import { type EquipmentTransaction, type PickUpReservationInput } from '../schema';
+import { findReservationConflicts, reservationConflictError } from '../bookings/conflicts';
+import { findOrCreateBorrower } from '../bookings/borrowers';
+import { checkBorrowerRules, recordOverrides } from '../bookings/borrower_rules';
+import { eq } from 'drizzle-orm';
+
+// Hands a booked item to the borrower: the booking is closed and a check-out linked to it is
+// recorded for the same person, with the booking's contact, notes and return date as defaults.
+export async function pickUpReservation(input: PickUpReservationInput, adminId: number, apiKeyId: number | null = null): Promise<EquipmentTransaction> {
+  try {
+    // Verify admin exists
+    const admin = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admin.length === 0) {
+      throw new Error(`Admin with id ${adminId} not found`);
+    }
+
+    return await db.transaction(async (tx) => {
+      // Lock the equipment row before the booking, in the same order as the other handlers
+      const target = await tx.select({ equipment_id: equipmentTransactionsTable.equipment_id })
+        .from(equipmentTransactionsTable)
+        .where(eq(equipmentTransactionsTable.id, input.booking_id))
+        .execute();
+
+      if (target.length === 0) {
+        throw new Error(`Reservation with id ${input.booking_id} not found`);
+      }
+
+      const equipment = await tx.select()
+        .from(equipmentTable)
+        .where(eq(equipmentTable.id, target[0].equipment_id))
+        .for('update')
+        .execute();
+
+      const bookings = await tx.select()
+        .from(equipmentTransactionsTable)
+        .where(eq(equipmentTransactionsTable.id, input.booking_id))
+        .for('update')
+        .execute();
+
+      const booking = bookings[0];
+      if (!booking || booking.transaction_type !== 'booking') {
+        throw new Error(`Reservation with id ${input.booking_id} not found`);
+      }
+      if (booking.actual_return_date !== null) {
+        throw new Error(`Reservation #${booking.id} has already been ${booking.cancelled_at ? 'cancelled' : 'picked up or released'}`);
+      }
+
+      // A booked item is held by its immediate booking, which only that booking may pick up
+      const status = equipment[0].status;
+      const heldByThisBooking = status === 'booked' && booking.reserved_from === null;
+      if (status !== 'available' && !heldByThisBooking) {
+        throw new Error(`Equipment is not available for pickup (current status: ${status})`);
+      }
+
+      // Bookings made before the borrower directory are matched to it now
+      const borrowerId = booking.borrower_id ?? (await findOrCreateBorrower(tx, booking.user_name, booking.user_contact)).id;
+
+      // The borrower may have been suspended or reached a limit since the booking was made
+      const broken = await checkBorrowerRules(tx, borrowerId, [booking.equipment_id], input.override_reason, booking.id);
+
+      // Picking up early or keeping the item longer must not run into another reservation
+      const now = new Date();
+      const expectedReturnDate = input.expected_return_date !== undefined ? input.expected_return_date : booking.expected_return_date;
+      const conflicts = await findReservationConflicts(tx, booking.equipment_id, now, expectedReturnDate, booking.id);
+      if (conflicts.length > 0) {
+        throw reservationConflictError(conflicts);
+      }
+
+      await tx.update(equipmentTable)
+        .set({
+          status: 'checked_out',
+          updated_at: now
+        })
+        .where(eq(equipmentTable.id, booking.equipment_id))
+        .execute();
+
+      await tx.update(equipmentTransactionsTable)
+        .set({ actual_return_date: now })
+        .where(eq(equipmentTransactionsTable.id, booking.id))
+        .execute();
+
+      const result = await tx.insert(equipmentTransactionsTable)
+        .values({
+          equipment_id: booking.equipment_id,
+          admin_id: adminId,
+          api_key_id: apiKeyId,
+          transaction_type: 'check_out',
+          user_name: booking.user_name,
+          borrower_id: borrowerId,
+          department_id: booking.department_id,
+          event_id: booking.event_id,
+          user_contact: input.user_contact !== undefined ? input.user_contact : booking.user_contact,
+          notes: input.notes !== undefined ? input.notes : booking.notes,
+          expected_return_date: expectedReturnDate,
+          actual_return_date: null,
+          booking_id: booking.id
+        })
+        .returning()
+        .execute();
+
+      await recordOverrides(tx, broken, {
+        borrower_id: borrowerId,
+        transaction_id: result[0].id,
+        justification: input.override_reason!,
+        admin_id: adminId,
+        api_key_id: apiKeyId
+      });
+
+      return result[0];
+    });
+  } catch (error) {
+    if (isUniqueViolation(error, OPEN_CHECK_OUT_INDEX)) {
+      throw new Error('Equipment already has an open check-out');
+    }
+    console.error('Reservation pickup failed:', error);
+    throw error;
+  }
+}
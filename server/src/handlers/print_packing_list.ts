@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { type GetPackingListQuery, type PackingListHtml } from '../schema';
+import { loadPackingList, renderPackingListHtml } from '../documents/packing_lists';
+
+// A pull sheet or return checklist as a printable HTML page; null if the event or group is missing
+export async function printPackingList(query: GetPackingListQuery): Promise<PackingListHtml | null> {
+  try {
+    const list = await loadPackingList(db, query);
+    if (!list) {
+      return null;
+    }
+
+    return { filename: `${list.basename}.html`, html: renderPackingListHtml(list) };
+  } catch (error) {
+    console.error('Packing list printing failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { adminSessionsTable, loginChallengesTable, loginEventsTable, oidcLoginStatesTable } from '../db/schema';
+import { type PruneResult } from '../schema';
+import { pruneStaleThrottles } from '../auth/throttle';
+import { lt } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deletes expired sessions, challenges, SSO states and stale throttle counters. The login
+// audit log is only trimmed when a retention period is given.
+export const pruneExpiredRecords = async (loginEventRetentionDays?: number): Promise<PruneResult> => {
+  try {
+    const now = new Date();
+
+    const sessions = await db.delete(adminSessionsTable)
+      .where(lt(adminSessionsTable.expires_at, now))
+      .returning({ id: adminSessionsTable.id })
+      .execute();
+
+    const challenges = await db.delete(loginChallengesTable)
+      .where(lt(loginChallengesTable.expires_at, now))
+      .returning({ id: loginChallengesTable.id })
+      .execute();
+
+    const oidcStates = await db.delete(oidcLoginStatesTable)
+      .where(lt(oidcLoginStatesTable.expires_at, now))
+      .returning({ id: oidcLoginStatesTable.id })
+      .execute();
+
+    const loginEvents = loginEventRetentionDays !== undefined
+      ? await db.delete(loginEventsTable)
+          .where(lt(loginEventsTable.created_at, new Date(now.getTime() - loginEventRetentionDays * DAY_MS)))
+          .returning({ id: loginEventsTable.id })
+          .execute()
+      : [];
+
+    return {
+      admin_sessions: sessions.length,
+      login_challenges: challenges.length,
+      oidc_login_states: oidcStates.length,
+      login_throttles: await pruneStaleThrottles(now),
+      login_events: loginEvents.length,
+    };
+  } catch (error) {
+    console.error('Pruning expired records failed:', error);
+    throw error;
+  }
+};
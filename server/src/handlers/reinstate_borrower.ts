@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { borrowersTable } from '../db/schema';
+import { type Borrower } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const reinstateBorrower = async (borrowerId: number): Promise<Borrower | null> => {
+  try {
+    const result = await db.update(borrowersTable)
+      .set({
+        suspended_at: null,
+        suspension_reason: null,
+        suspended_until: null,
+        updated_at: new Date()
+      })
+      .where(eq(borrowersTable.id, borrowerId))
+      .returning()
+      .execute();
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Borrower reinstatement failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { type EquipmentTransaction, type ReserveEquipmentInput } from '../schema';
+import { findReservationConflicts, reservationConflictError } from '../bookings/conflicts';
+import { resolveBorrower } from '../bookings/borrowers';
+import { resolveEvent } from '../bookings/events';
+import { checkBorrowerRules, recordOverrides } from '../bookings/borrower_rules';
+import { eq } from 'drizzle-orm';
+
+// Books an item for a future window. Unlike bookEquipment the item keeps its current status,
+// so it can still be checked out until the reservation is picked up.
+export async function reserveEquipment(input: ReserveEquipmentInput, adminId: number, apiKeyId: number | null = null): Promise<EquipmentTransaction> {
+  try {
+    // Verify admin exists
+    const admin = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    if (admin.length === 0) {
+      throw new Error(`Admin with id ${adminId} not found`);
+    }
+
+    return await db.transaction(async (tx) => {
+      // Lock the equipment row so overlapping reservations of the same item are checked one at a time
+      const equipment = await tx.select()
+        .from(equipmentTable)
+        .where(eq(equipmentTable.id, input.equipment_id))
+        .for('update')
+        .execute();
+
+      if (equipment.length === 0) {
+        throw new Error(`Equipment with id ${input.equipment_id} not found`);
+      }
+
+      const conflicts = await findReservationConflicts(tx, input.equipment_id, input.start_date, input.end_date);
+      if (conflicts.length > 0) {
+        throw reservationConflictError(conflicts);
+      }
+
+      const borrower = await resolveBorrower(tx, input);
+      const eventId = await resolveEvent(tx, input.event_id);
+      const broken = await checkBorrowerRules(tx, borrower.borrower_id, [input.equipment_id], input.override_reason);
+      const result = await tx.insert(equipmentTransactionsTable)
+        .values({
+          equipment_id: input.equipment_id,
+          admin_id: adminId,
+          api_key_id: apiKeyId,
+          transaction_type: 'booking',
+          ...borrower,
+          event_id: eventId,
+          notes: input.notes || null,
+          reserved_from: input.start_date,
+          expected_return_date: input.end_date,
+          actual_return_date: null
+        })
+        .returning()
+        .execute();
+
+      await recordOverrides(tx, broken, {
+        borrower_id: borrower.borrower_id,
+        transaction_id: result[0].id,
+        justification: input.override_reason!,
+        admin_id: adminId,
+        api_key_id: apiKeyId
+      });
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Equipment reservation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type ResetAdminPasswordInput, type PublicAdmin } from '../schema';
+import { hashPassword } from '../auth/credentials';
+import { revokeAdminSessions } from '../auth/session';
+import { toPublicAdmin } from '../auth/redact';
+import { eq } from 'drizzle-orm';
+
+export const resetAdminPassword = async (input: ResetAdminPasswordInput): Promise<PublicAdmin | null> => {
+  try {
+    const result = await db.update(adminsTable)
+      .set({
+        password_hash: await hashPassword(input.new_password),
+        updated_at: new Date()
+      })
+      .where(eq(adminsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    // Existing sessions were opened with the old password
+    await revokeAdminSessions(input.id);
+
+    return toPublicAdmin(result[0]);
+  } catch (error) {
+    console.error('Admin password reset failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type PublicAdmin } from '../schema';
+import { clearTwoFactor } from '../auth/two_factor';
+import { revokeAdminSessions } from '../auth/session';
+import { toPublicAdmin } from '../auth/redact';
+import { eq } from 'drizzle-orm';
+
+// Lets an owner recover an admin who lost their authenticator and recovery codes
+export const resetAdminTwoFactor = async (id: number, actingAdminId: number): Promise<PublicAdmin | null> => {
+  try {
+    if (id === actingAdminId) {
+      throw new Error('Use your own security settings to turn off two-factor authentication');
+    }
+
+    const existing = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      return null; // Admin doesn't exist
+    }
+
+    await clearTwoFactor(id);
+
+    // Existing sessions were established with the old second factor
+    await revokeAdminSessions(id);
+
+    const result = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, id))
+      .execute();
+
+    return toPublicAdmin(result[0]);
+  } catch (error) {
+    console.error('Two-factor reset failed:', error);
+    throw error;
+  }
+};
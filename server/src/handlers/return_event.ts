@@ -0,0 +1,107 @@
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, eventsTable } from '../db/schema';
+import { type EventDetails, type ReturnEventInput } from '../schema';
+import { loadEventDetails } from '../bookings/events';
+import { checkReturnedDamage, recordReturnedDamage } from '../bookings/damage';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+
+// Returns everything an event still has out in one go, or the listed items. Each returned item
+// gets its own check-in record tagged with the event, and whatever stays out is missing.
+export async function returnEvent(input: ReturnEventInput, adminId: number, apiKeyId: number | null = null): Promise<EventDetails | null> {
+  try {
+    return await db.transaction(async (tx) => {
+      // Lock the event first, so two returns of the same event run one after the other
+      const events = await tx.select({ id: eventsTable.id })
+        .from(eventsTable)
+        .where(eq(eventsTable.id, input.event_id))
+        .for('update')
+        .execute();
+
+      if (events.length === 0) {
+        return null;
+      }
+
+      const current = (await loadEventDetails(tx, input.event_id))!;
+      const outstanding = current.items
+        .filter(item => item.status === 'out' || item.status === 'missing')
+        .map(item => item.equipment.id);
+
+      const returning = [...new Set(input.equipment_ids ?? outstanding)];
+      const notOutstanding = returning.filter(id => !outstanding.includes(id));
+      if (notOutstanding.length > 0) {
+        throw new Error(`Equipment is not out for event #${input.event_id}: ${notOutstanding.join(', ')}`);
+      }
+      checkReturnedDamage(input.damage, returning);
+
+      const now = new Date();
+
+      if (returning.length > 0) {
+        // Lock in id order like the other multi-item check-ins, then re-read the open check-outs
+        await tx.select({ id: equipmentTable.id })
+          .from(equipmentTable)
+          .where(inArray(equipmentTable.id, returning))
+          .orderBy(asc(equipmentTable.id))
+          .for('update')
+          .execute();
+
+        const openCheckOuts = await tx.select()
+          .from(equipmentTransactionsTable)
+          .where(
+            and(
+              eq(equipmentTransactionsTable.event_id, input.event_id),
+              eq(equipmentTransactionsTable.transaction_type, 'check_out'),
+              inArray(equipmentTransactionsTable.equipment_id, returning),
+              isNull(equipmentTransactionsTable.actual_return_date)
+            )
+          )
+          .execute();
+
+        if (openCheckOuts.length !== returning.length) {
+          throw new Error(`Some items of event #${input.event_id} were checked in at the same time. Please try again.`);
+        }
+
+        await tx.update(equipmentTable)
+          .set({
+            status: 'available',
+            updated_at: now
+          })
+          .where(inArray(equipmentTable.id, returning))
+          .execute();
+
+        await tx.update(equipmentTransactionsTable)
+          .set({ actual_return_date: now })
+          .where(inArray(equipmentTransactionsTable.id, openCheckOuts.map(checkOut => checkOut.id)))
+          .execute();
+
+        await recordReturnedDamage(tx, input.damage, openCheckOuts);
+
+        await tx.insert(equipmentTransactionsTable)
+          .values(openCheckOuts.map(checkOut => ({
+            equipment_id: checkOut.equipment_id,
+            admin_id: adminId,
+            api_key_id: apiKeyId,
+            transaction_type: 'check_in' as const,
+            user_name: 'System', // Check-ins are done by admins, not users
+            user_contact: null,
+            notes: input.notes || null,
+            transaction_date: now,
+            expected_return_date: null,
+            actual_return_date: now,
+            group_id: checkOut.group_id,
+            event_id: input.event_id
+          })))
+          .execute();
+      }
+
+      await tx.update(eventsTable)
+        .set({ returned_at: now, updated_at: now })
+        .where(eq(eventsTable.id, input.event_id))
+        .execute();
+
+      return loadEventDetails(tx, input.event_id);
+    });
+  } catch (error) {
+    console.error('Event return failed:', error);
+    throw error;
+  }
+}
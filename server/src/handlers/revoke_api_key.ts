@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { apiKeysTable } from '../db/schema';
+import { type Admin, type ApiKey } from '../schema';
+import { apiKeyColumns } from '../auth/api_keys';
+import { hasPermission } from '../auth/permissions';
+import { eq } from 'drizzle-orm';
+
+// Admins revoke their own keys; admins:manage may revoke anyone's. Revoked keys are kept
+// so the transactions recorded with them still name the key.
+export const revokeApiKey = async (id: number, actingAdmin: Admin): Promise<ApiKey | null> => {
+  try {
+    const existing = await db.select(apiKeyColumns)
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      return null; // Key doesn't exist
+    }
+
+    const apiKey = existing[0];
+    if (apiKey.admin_id !== actingAdmin.id && !hasPermission(actingAdmin.role, 'admins:manage')) {
+      throw new Error('You can only revoke your own API keys');
+    }
+
+    if (apiKey.revoked_at) {
+      return apiKey;
+    }
+
+    const result = await db.update(apiKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(eq(apiKeysTable.id, id))
+      .returning(apiKeyColumns)
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('API key revocation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,102 @@
+import { db } from '../db';
+import { borrowersTable, equipmentTable, equipmentTransactionsTable, transactionRemindersTable } from '../db/schema';
+import { type OverdueCheckResult } from '../schema';
+import { getSmtpConfig, sendMail, type SmtpConfig } from '../notifications/smtp';
+import { composeReminder, currentReminder } from '../notifications/reminders';
+import { contactEmail } from '../bookings/borrowers';
+import { and, eq, isNotNull, isNull, lt } from 'drizzle-orm';
+
+const openCheckOut = and(
+  eq(equipmentTransactionsTable.transaction_type, 'check_out'),
+  isNull(equipmentTransactionsTable.actual_return_date),
+  isNotNull(equipmentTransactionsTable.expected_return_date)
+);
+
+// Marks open check-outs that are past their expected return as overdue, and emails each
+// borrower the reminder their check-out has reached. Without SMTP configured only the
+// marking happens. Safe to run often and from several processes: every reminder is claimed
+// in transaction_reminders before it is sent, so it goes out at most once. Reminders that
+// cannot go out for want of an address are claimed too, so each is skipped only once.
+export const runOverdueCheck = async (
+  now: Date = new Date(),
+  smtp: SmtpConfig | null = getSmtpConfig()
+): Promise<OverdueCheckResult> => {
+  try {
+    const marked = await db.update(equipmentTransactionsTable)
+      .set({ overdue_at: now })
+      .where(and(
+        openCheckOut,
+        lt(equipmentTransactionsTable.expected_return_date, now),
+        isNull(equipmentTransactionsTable.overdue_at)
+      ))
+      .returning({ id: equipmentTransactionsTable.id })
+      .execute();
+
+    const result: OverdueCheckResult = {
+      marked_overdue: marked.length,
+      reminders_sent: 0,
+      reminders_failed: 0,
+      reminders_skipped: 0,
+    };
+    if (!smtp) {
+      return result;
+    }
+
+    const checkOuts = await db.select()
+      .from(equipmentTransactionsTable)
+      .innerJoin(equipmentTable, eq(equipmentTransactionsTable.equipment_id, equipmentTable.id))
+      .leftJoin(borrowersTable, eq(equipmentTransactionsTable.borrower_id, borrowersTable.id))
+      .where(openCheckOut)
+      .orderBy(equipmentTransactionsTable.expected_return_date)
+      .execute();
+
+    for (const { equipment_transactions: checkOut, equipment, borrowers: borrower } of checkOuts) {
+      const reminder = currentReminder(checkOut.expected_return_date!, now);
+      if (!reminder) {
+        continue;
+      }
+
+      // The address given for this loan wins over the one in the directory
+      const recipient = contactEmail(checkOut.user_contact) ?? borrower?.email ?? null;
+
+      const message = composeReminder(reminder, checkOut, equipment, recipient ?? '');
+      const claimed = await db.insert(transactionRemindersTable)
+        .values({
+          transaction_id: checkOut.id,
+          stage: reminder.stage,
+          overdue_days: reminder.overdue_days,
+          due_date: checkOut.expected_return_date!,
+          recipient,
+          subject: message.subject,
+          sent_at: now,
+        })
+        .onConflictDoNothing()
+        .returning({ id: transactionRemindersTable.id })
+        .execute();
+      if (claimed.length === 0) {
+        continue; // Already sent or skipped
+      }
+      if (!recipient) {
+        result.reminders_skipped++;
+        continue;
+      }
+
+      try {
+        await sendMail(smtp, message);
+        result.reminders_sent++;
+      } catch (error) {
+        // Release the claim so the next run tries again
+        console.error(`Reminder for transaction ${checkOut.id} failed:`, error);
+        await db.delete(transactionRemindersTable)
+          .where(eq(transactionRemindersTable.id, claimed[0].id))
+          .execute();
+        result.reminders_failed++;
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Overdue check failed:', error);
+    throw error;
+  }
+};
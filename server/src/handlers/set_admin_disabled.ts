@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type SetAdminDisabledInput, type PublicAdmin } from '../schema';
+import { ensureAnotherActiveOwner } from '../auth/owners';
+import { revokeAdminSessions } from '../auth/session';
+import { toPublicAdmin } from '../auth/redact';
+import { eq } from 'drizzle-orm';
+
+export const setAdminDisabled = async (input: SetAdminDisabledInput, actingAdminId: number): Promise<PublicAdmin | null> => {
+  try {
+    if (input.disabled && input.id === actingAdminId) {
+      throw new Error('You cannot disable your own account');
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(adminsTable)
+        .where(eq(adminsTable.id, input.id))
+        .execute();
+
+      if (existing.length === 0) {
+        return null;
+      }
+
+      const admin = existing[0];
+
+      if (input.disabled && admin.role === 'owner' && admin.disabled_at === null) {
+        await ensureAnotherActiveOwner(tx, admin.id);
+      }
+
+      // Keep the original timestamp when disabling an already disabled account
+      const disabled_at = input.disabled ? (admin.disabled_at ?? new Date()) : null;
+
+      const result = await tx.update(adminsTable)
+        .set({ disabled_at, updated_at: new Date() })
+        .where(eq(adminsTable.id, input.id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    if (updated === null) {
+      return null;
+    }
+
+    // Log the account out everywhere
+    if (input.disabled) {
+      await revokeAdminSessions(input.id);
+    }
+
+    return toPublicAdmin(updated);
+  } catch (error) {
+    console.error('Admin disable toggle failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { borrowersTable } from '../db/schema';
+import { type Borrower, type SetBorrowerLimitsInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// New limits apply to the next check-out or booking; what the borrower already holds stays out
+export const setBorrowerLimits = async (input: SetBorrowerLimitsInput): Promise<Borrower | null> => {
+  try {
+    const result = await db.update(borrowersTable)
+      .set({
+        max_items: input.max_items,
+        max_value: input.max_value,
+        updated_at: new Date()
+      })
+      .where(eq(borrowersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Setting borrower limits failed:', error);
+    throw error;
+  }
+};
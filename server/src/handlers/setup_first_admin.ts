@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type AuthenticatedLogin, type SetupFirstAdminInput } from '../schema';
+import { hashPassword } from '../auth/credentials';
+import { completeLogin } from '../auth/login';
+import { sql } from 'drizzle-orm';
+
+// Creates the first owner on a fresh database and signs them in. Once any admin exists,
+// accounts are created by owners through createAdmin or from the server CLI.
+export const setupFirstAdmin = async (input: SetupFirstAdminInput, ipAddress: string | null = null): Promise<AuthenticatedLogin> => {
+  try {
+    const password_hash = await hashPassword(input.password);
+
+    const admin = await db.transaction(async (tx) => {
+      // Two concurrent setups must not both find the table empty
+      await tx.execute(sql`lock table ${adminsTable} in share row exclusive mode`);
+
+      const existing = await tx.select({ id: adminsTable.id })
+        .from(adminsTable)
+        .limit(1)
+        .execute();
+
+      if (existing.length > 0) {
+        throw new Error('Setup has already been completed');
+      }
+
+      const result = await tx.insert(adminsTable)
+        .values({
+          username: input.username,
+          email: input.email,
+          password_hash,
+          role: 'owner'
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    return completeLogin(admin, ipAddress);
+  } catch (error) {
+    console.error('First-run setup failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { borrowersTable } from '../db/schema';
+import { type Borrower, type SuspendBorrowerInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Suspending again replaces the reason and end date of a running suspension
+export const suspendBorrower = async (input: SuspendBorrowerInput): Promise<Borrower | null> => {
+  try {
+    const now = new Date();
+    if (input.until && input.until <= now) {
+      throw new Error('The suspension must end in the future');
+    }
+
+    const result = await db.update(borrowersTable)
+      .set({
+        suspended_at: now,
+        suspension_reason: input.reason,
+        suspended_until: input.until ?? null,
+        updated_at: now
+      })
+      .where(eq(borrowersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return result[0] ?? null;
+  } catch (error) {
+    console.error('Borrower suspension failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { clearUsernameThrottle } from '../auth/throttle';
+import { eq } from 'drizzle-orm';
+
+// Lifts a login lockout on the admin's username and resets its failure count
+export async function unlockAdmin(id: number): Promise<boolean> {
+  try {
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, id))
+      .execute();
+
+    if (admins.length === 0) {
+      return false; // Admin doesn't exist
+    }
+
+    await clearUsernameThrottle(admins[0].username);
+
+    return true;
+  } catch (error) {
+    console.error('Admin unlock failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+import { db } from '../db';
+import { adminsTable, type NewAdmin } from '../db/schema';
+import { type UpdateAdminInput, type PublicAdmin } from '../schema';
+import { ensureAnotherActiveOwner } from '../auth/owners';
+import { toPublicAdmin } from '../auth/redact';
+import { eq } from 'drizzle-orm';
+
+export const updateAdmin = async (input: UpdateAdminInput): Promise<PublicAdmin | null> => {
+  try {
+    const { id, ...updateData } = input;
+
+    return await db.transaction(async (tx) => {
+      // First check if admin exists
+      const existing = await tx.select()
+        .from(adminsTable)
+        .where(eq(adminsTable.id, id))
+        .execute();
+
+      if (existing.length === 0) {
+        return null;
+      }
+
+      const admin = existing[0];
+
+      // Demoting the only active owner would leave nobody able to manage admins
+      if (updateData.role !== undefined && updateData.role !== 'owner' &&
+          admin.role === 'owner' && admin.disabled_at === null) {
+        await ensureAnotherActiveOwner(tx, id);
+      }
+
+      // Build update object with only provided fields
+      const updateValues: Partial<NewAdmin> = {};
+
+      if (updateData.username !== undefined) {
+        updateValues.username = updateData.username;
+      }
+      if (updateData.email !== undefined) {
+        updateValues.email = updateData.email;
+      }
+      if (updateData.role !== undefined) {
+        updateValues.role = updateData.role;
+      }
+
+      // If no fields to update, return the existing record
+      if (Object.keys(updateValues).length === 0) {
+        return toPublicAdmin(admin);
+      }
+
+      const result = await tx.update(adminsTable)
+        .set({ ...updateValues, updated_at: new Date() })
+        .where(eq(adminsTable.id, id))
+        .returning()
+        .execute();
+
+      return toPublicAdmin(result[0]);
+    });
+  } catch (error) {
+    console.error('Admin update failed:', error);
+    throw error;
+  }
+};
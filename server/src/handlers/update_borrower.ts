@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { borrowersTable, BORROWER_EMAIL_INDEX } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
+import { type Borrower, type UpdateBorrowerInput } from '../schema';
+import { requireDepartment } from '../bookings/departments';
+import { eq } from 'drizzle-orm';
+
+// Updates the directory entry only; transactions keep the name and contact they were made with
+export const updateBorrower = async (input: UpdateBorrowerInput): Promise<Borrower | null> => {
+  try {
+    const { id, ...updateData } = input;
+
+    const existing = await db.select()
+      .from(borrowersTable)
+      .where(eq(borrowersTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      return null;
+    }
+
+    const updateValues: Partial<typeof borrowersTable.$inferInsert> = {};
+
+    if (updateData.name !== undefined) {
+      updateValues.name = updateData.name;
+    }
+    if (updateData.organisation !== undefined) {
+      updateValues.organisation = updateData.organisation || null;
+    }
+    if (updateData.email !== undefined) {
+      updateValues.email = updateData.email || null;
+    }
+    if (updateData.phone !== undefined) {
+      updateValues.phone = updateData.phone || null;
+    }
+    if (updateData.notes !== undefined) {
+      updateValues.notes = updateData.notes || null;
+    }
+    if (updateData.department_id !== undefined) {
+      if (updateData.department_id !== null) {
+        await requireDepartment(db, updateData.department_id);
+      }
+      updateValues.department_id = updateData.department_id;
+    }
+
+    if (Object.keys(updateValues).length === 0) {
+      return existing[0];
+    }
+
+    const result = await db.update(borrowersTable)
+      .set({ ...updateValues, updated_at: new Date() })
+      .where(eq(borrowersTable.id, id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    if (isUniqueViolation(error, BORROWER_EMAIL_INDEX)) {
+      throw new Error('A borrower with this email already exists');
+    }
+    console.error('Borrower update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { departmentsTable, DEPARTMENT_NAME_INDEX } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
+import { type Department, type UpdateDepartmentInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Renaming a department or changing its cost centre also changes how its past loans are reported
+export const updateDepartment = async (input: UpdateDepartmentInput): Promise<Department | null> => {
+  try {
+    const { id, ...updateData } = input;
+
+    const existing = await db.select()
+      .from(departmentsTable)
+      .where(eq(departmentsTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      return null;
+    }
+
+    const updateValues: Partial<typeof departmentsTable.$inferInsert> = {};
+
+    if (updateData.name !== undefined) {
+      updateValues.name = updateData.name;
+    }
+    if (updateData.cost_centre !== undefined) {
+      updateValues.cost_centre = updateData.cost_centre || null;
+    }
+
+    if (Object.keys(updateValues).length === 0) {
+      return existing[0];
+    }
+
+    const result = await db.update(departmentsTable)
+      .set({ ...updateValues, updated_at: new Date() })
+      .where(eq(departmentsTable.id, id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    if (isUniqueViolation(error, DEPARTMENT_NAME_INDEX)) {
+      throw new Error('A department with this name already exists');
+    }
+    console.error('Department update failed:', error);
+    throw error;
+  }
+};
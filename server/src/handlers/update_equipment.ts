@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { equipmentTable } from '../db/schema';
 import { type UpdateEquipmentInput, type Equipment } from '../schema';
+import { checkParent } from '../bookings/accessories';
 import { eq } from 'drizzle-orm';
 
 export const updateEquipment = async (input: UpdateEquipmentInput): Promise<Equipment | null> => {
@@ -41,6 +42,24 @@ export const updateEquipment = async (input: UpdateEquipmentInput): Promise<Equi
     if (updateData.status !== undefined) {
       updateValues.status = updateData.status;
     }
+    if (updateData.parent_id !== undefined) {
+      if (updateData.parent_id !== null) {
+        await checkParent(db, updateData.parent_id, id);
+      }
+      updateValues.parent_id = updateData.parent_id;
+    }
+    if (updateData.replacement_value !== undefined) {
+      updateValues.replacement_value = updateData.replacement_value;
+    }
+    if (updateData.storage_location !== undefined) {
+      updateValues.storage_location = updateData.storage_location;
+    }
+    if (updateData.case_label !== undefined) {
+      updateValues.case_label = updateData.case_label;
+    }
+    if (updateData.weight_grams !== undefined) {
+      updateValues.weight_grams = updateData.weight_grams;
+    }
 
     // Always update the updated_at timestamp
     updateValues.updated_at = new Date();
@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { eventsTable } from '../db/schema';
+import { type Event, type UpdateEventInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Moving an event leaves its bookings where they are; they are extended or rebooked one by one
+export const updateEvent = async (input: UpdateEventInput): Promise<Event | null> => {
+  try {
+    const { id, ...updateData } = input;
+
+    const existing = await db.select()
+      .from(eventsTable)
+      .where(eq(eventsTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      return null;
+    }
+
+    const startsAt = updateData.starts_at ?? existing[0].starts_at;
+    const endsAt = updateData.ends_at ?? existing[0].ends_at;
+    if (endsAt < startsAt) {
+      throw new Error('An event cannot end before it starts');
+    }
+
+    const updateValues: Partial<typeof eventsTable.$inferInsert> = {};
+
+    if (updateData.name !== undefined) {
+      updateValues.name = updateData.name;
+    }
+    if (updateData.venue !== undefined) {
+      updateValues.venue = updateData.venue || null;
+    }
+    if (updateData.load_in_at !== undefined) {
+      updateValues.load_in_at = updateData.load_in_at;
+    }
+    if (updateData.starts_at !== undefined) {
+      updateValues.starts_at = updateData.starts_at;
+    }
+    if (updateData.ends_at !== undefined) {
+      updateValues.ends_at = updateData.ends_at;
+    }
+    if (updateData.crew_lead !== undefined) {
+      updateValues.crew_lead = updateData.crew_lead || null;
+    }
+    if (updateData.notes !== undefined) {
+      updateValues.notes = updateData.notes || null;
+    }
+
+    if (Object.keys(updateValues).length === 0) {
+      return existing[0];
+    }
+
+    const result = await db.update(eventsTable)
+      .set({ ...updateValues, updated_at: new Date() })
+      .where(eq(eventsTable.id, id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Event update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { kitsTable, kitMembersTable, KIT_MEMBERSHIP_CONSTRAINT } from '../db/schema';
+import { isUniqueViolation } from '../db/errors';
+import { type UpdateKitInput, type KitDetails } from '../schema';
+import { checkKitMembers, loadKitDetails } from '../bookings/kits';
+import { eq } from 'drizzle-orm';
+
+export const updateKit = async (input: UpdateKitInput): Promise<KitDetails | null> => {
+  try {
+    const { id, equipment_ids, ...updateData } = input;
+
+    return await db.transaction(async (tx) => {
+      // Lock the kit so a cascading check-out never sees a half-replaced member list
+      const existing = await tx.select()
+        .from(kitsTable)
+        .where(eq(kitsTable.id, id))
+        .for('update')
+        .execute();
+
+      if (existing.length === 0) {
+        return null;
+      }
+
+      await tx.update(kitsTable)
+        .set({
+          ...updateData,
+          updated_at: new Date()
+        })
+        .where(eq(kitsTable.id, id))
+        .execute();
+
+      if (equipment_ids !== undefined) {
+        await checkKitMembers(tx, equipment_ids, id);
+
+        await tx.delete(kitMembersTable)
+          .where(eq(kitMembersTable.kit_id, id))
+          .execute();
+
+        await tx.insert(kitMembersTable)
+          .values(equipment_ids.map(equipmentId => ({
+            kit_id: id,
+            equipment_id: equipmentId
+          })))
+          .execute();
+      }
+
+      return loadKitDetails(tx, id);
+    });
+  } catch (error) {
+    if (isUniqueViolation(error, KIT_MEMBERSHIP_CONSTRAINT)) {
+      throw new Error('Some equipment already belongs to another kit');
+    }
+    console.error('Kit update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { adminsTable, securitySettingsTable } from '../db/schema';
+import { type SecuritySettings, type UpdateSecuritySettingsInput } from '../schema';
+import { SECURITY_SETTINGS_ID } from '../auth/two_factor';
+import { eq } from 'drizzle-orm';
+
+export const updateSecuritySettings = async (
+  input: UpdateSecuritySettingsInput,
+  actingAdminId: number
+): Promise<SecuritySettings> => {
+  try {
+    if (input.require_two_factor) {
+      const actingAdmin = await db.select()
+        .from(adminsTable)
+        .where(eq(adminsTable.id, actingAdminId))
+        .execute();
+
+      // Otherwise the owner would be cut off from everything but enrolment by their own change
+      if (actingAdmin.length === 0 || actingAdmin[0].totp_enabled_at === null) {
+        throw new Error('Enable two-factor authentication on your own account before requiring it for everyone');
+      }
+    }
+
+    const result = await db.insert(securitySettingsTable)
+      .values({ id: SECURITY_SETTINGS_ID, require_two_factor: input.require_two_factor })
+      .onConflictDoUpdate({
+        target: securitySettingsTable.id,
+        set: { require_two_factor: input.require_two_factor, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return {
+      require_two_factor: result[0].require_two_factor,
+      updated_at: result[0].updated_at
+    };
+  } catch (error) {
+    console.error('Security settings update failed:', error);
+    throw error;
+  }
+};
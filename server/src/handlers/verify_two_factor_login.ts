@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { adminsTable, loginChallengesTable } from '../db/schema';
+import { type VerifyTwoFactorLoginInput, type AuthenticatedLogin } from '../schema';
+import { hashSessionToken } from '../auth/session';
+import { recordLoginFailure } from '../auth/throttle';
+import { recordLoginEvent, ensureLoginNotThrottled, completeLogin } from '../auth/login';
+import { recordChallengeFailure, verifySecondFactor } from '../auth/two_factor';
+import { eq, and, gt } from 'drizzle-orm';
+
+export const verifyTwoFactorLogin = async (
+  input: VerifyTwoFactorLoginInput,
+  ipAddress: string | null = null
+): Promise<AuthenticatedLogin | null> => {
+  try {
+    const challenges = await db.select()
+      .from(loginChallengesTable)
+      .innerJoin(adminsTable, eq(loginChallengesTable.admin_id, adminsTable.id))
+      .where(
+        and(
+          eq(loginChallengesTable.token_hash, hashSessionToken(input.challenge_token)),
+          gt(loginChallengesTable.expires_at, new Date())
+        )
+      )
+      .execute();
+
+    if (challenges.length === 0) {
+      return null; // Unknown or expired challenge - the admin must start over
+    }
+
+    const { login_challenges: challenge, admins: admin } = challenges[0];
+    const attempt = { admin_id: admin.id, username: admin.username, ip_address: ipAddress };
+
+    await ensureLoginNotThrottled(attempt);
+
+    // The account may have been disabled or reset since the password was checked
+    if (admin.disabled_at !== null || admin.totp_enabled_at === null) {
+      await db.delete(loginChallengesTable)
+        .where(eq(loginChallengesTable.id, challenge.id))
+        .execute();
+      return null;
+    }
+
+    if (!await verifySecondFactor(admin, input.code)) {
+      await recordChallengeFailure(challenge);
+      await recordLoginFailure(admin.username, ipAddress);
+      await recordLoginEvent({ ...attempt, outcome: 'invalid_two_factor' });
+      return null;
+    }
+
+    // Each challenge completes at most one login
+    await db.delete(loginChallengesTable)
+      .where(eq(loginChallengesTable.id, challenge.id))
+      .execute();
+
+    return completeLogin(admin, ipAddress);
+  } catch (error) {
+    console.error('Two-factor login failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,154 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+
+// A minimal OpenID Connect provider for tests and local development. Its authorize endpoint
+// signs in whichever identity was last passed to signInAs and redirects straight back.
+//
+//   bun src/helpers/mock_oidc_provider.ts
+//
+// then start the server with OIDC_ISSUER=http://localhost:9400, OIDC_CLIENT_ID=warehouse and
+// OIDC_REDIRECT_URI pointing at the client app.
+
+export interface MockIdentity {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+  name?: string;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  identity: MockIdentity;
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  signInAs: (identity: MockIdentity) => void;
+  // Overrides claims of the next ID token, e.g. to test expired or foreign tokens
+  tamperNextToken: (claims: Record<string, unknown>) => void;
+  stop: () => void;
+}
+
+export const startMockOidcProvider = (options: { port?: number; clientId?: string; clientSecret?: string } = {}): MockOidcProvider => {
+  const clientId = options.clientId ?? 'warehouse';
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomBytes(8).toString('hex');
+  const codes = new Map<string, PendingCode>();
+
+  let identity: MockIdentity = { sub: 'mock-user', email: 'mock.user@example.com', email_verified: true };
+  let tamper: Record<string, unknown> = {};
+
+  const signIdToken = (claims: Record<string, unknown>): string => {
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+    return `${header}.${payload}.${signature}`;
+  };
+
+  const tokenError = (error: string) => Response.json({ error }, { status: 400 });
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    fetch: async (req): Promise<Response> => {
+      const url = new URL(req.url);
+
+      if (url.pathname === '/.well-known/openid-configuration') {
+        return Response.json({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+          response_types_supported: ['code'],
+          code_challenge_methods_supported: ['S256'],
+        });
+      }
+
+      if (url.pathname === '/jwks') {
+        return Response.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] });
+      }
+
+      if (url.pathname === '/authorize') {
+        const params = url.searchParams;
+        const redirectUri = params.get('redirect_uri');
+        if (params.get('client_id') !== clientId || !redirectUri || params.get('code_challenge_method') !== 'S256') {
+          return new Response('Invalid authorization request', { status: 400 });
+        }
+
+        const code = randomBytes(16).toString('hex');
+        codes.set(code, {
+          clientId,
+          redirectUri,
+          codeChallenge: params.get('code_challenge') ?? '',
+          nonce: params.get('nonce') ?? '',
+          identity,
+        });
+
+        const location = new URL(redirectUri);
+        location.searchParams.set('code', code);
+        location.searchParams.set('state', params.get('state') ?? '');
+        return Response.redirect(location.toString(), 302);
+      }
+
+      if (url.pathname === '/token' && req.method === 'POST') {
+        const body = new URLSearchParams(await req.text());
+        const pending = codes.get(body.get('code') ?? '');
+        codes.delete(body.get('code') ?? '');
+
+        if (body.get('grant_type') !== 'authorization_code' || !pending) {
+          return tokenError('invalid_grant');
+        }
+        if (options.clientSecret) {
+          const expected = `Basic ${Buffer.from(`${clientId}:${options.clientSecret}`).toString('base64')}`;
+          if (req.headers.get('authorization') !== expected) {
+            return tokenError('invalid_client');
+          }
+        }
+        if (body.get('redirect_uri') !== pending.redirectUri) {
+          return tokenError('invalid_grant');
+        }
+        const verifier = body.get('code_verifier') ?? '';
+        if (createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge) {
+          return tokenError('invalid_grant');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const idToken = signIdToken({
+          iss: issuer,
+          aud: pending.clientId,
+          iat: now,
+          exp: now + 300,
+          nonce: pending.nonce,
+          ...pending.identity,
+          ...tamper,
+        });
+        tamper = {};
+
+        return Response.json({ access_token: randomBytes(16).toString('hex'), token_type: 'Bearer', id_token: idToken });
+      }
+
+      return new Response('Not found', { status: 404 });
+    },
+  });
+
+  const issuer: string = `http://localhost:${server.port}`;
+
+  return {
+    issuer,
+    signInAs: (next) => { identity = next; },
+    tamperNextToken: (claims) => { tamper = claims; },
+    stop: () => server.stop(true),
+  };
+};
+
+if (import.meta.main) {
+  const provider = startMockOidcProvider({ port: Number(process.env['MOCK_OIDC_PORT']) || 9400 });
+  provider.signInAs({
+    sub: process.env['MOCK_OIDC_SUB'] || 'mock-user',
+    email: process.env['MOCK_OIDC_EMAIL'] || 'mock.user@example.com',
+    email_verified: true,
+  });
+  console.log(`Mock OIDC provider listening at ${provider.issuer}`);
+}
@@ -0,0 +1,144 @@
+// A mail sink that speaks just enough SMTP to accept messages and keep them in memory, so
+// tests (and local development, via SMTP_HOST=localhost SMTP_PORT=1025) can see what the
+// server would have sent without delivering anything.
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string; // Decoded body
+  raw: string; // Headers and body exactly as sent
+}
+
+export interface MockSmtpServer {
+  port: number;
+  messages: ReceivedMail[];
+  rejectRecipients: (reject: boolean) => void; // Answer RCPT TO with a permanent failure
+  stop: () => void;
+}
+
+interface SessionState {
+  buffer: string;
+  inData: boolean;
+  from: string;
+  to: string[];
+  data: string[];
+}
+
+const decodeHeader = (value: string): string =>
+  value.replace(/=\?UTF-8\?B\?([^?]*)\?=/gi, (_, encoded: string) => Buffer.from(encoded, 'base64').toString('utf8'));
+
+const parseMessage = (session: SessionState): ReceivedMail => {
+  const raw = session.data.join('\r\n');
+  const split = raw.indexOf('\r\n\r\n');
+  const headers = split === -1 ? raw : raw.slice(0, split);
+  const body = split === -1 ? '' : raw.slice(split + 4);
+  const subject = headers.match(/^Subject: (.*)$/m)?.[1] ?? '';
+  const base64 = /^Content-Transfer-Encoding: base64$/mi.test(headers);
+
+  return {
+    from: session.from,
+    to: session.to,
+    subject: decodeHeader(subject.trim()),
+    text: base64 ? Buffer.from(body.replace(/\s/g, ''), 'base64').toString('utf8') : body,
+    raw,
+  };
+};
+
+export const startMockSmtpServer = (options: { port?: number } = {}): MockSmtpServer => {
+  const messages: ReceivedMail[] = [];
+  let rejecting = false;
+
+  const reply = (session: SessionState, line: string): string => {
+    if (session.inData) {
+      if (line !== '.') {
+        session.data.push(line.startsWith('.') ? line.slice(1) : line);
+        return '';
+      }
+      messages.push(parseMessage(session));
+      Object.assign(session, { inData: false, from: '', to: [], data: [] });
+      return '250 Message accepted\r\n';
+    }
+
+    const verb = line.split(' ')[0].toUpperCase();
+    switch (verb) {
+      case 'EHLO':
+        return '250-mock-smtp\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n';
+      case 'HELO':
+      case 'NOOP':
+        return '250 OK\r\n';
+      case 'AUTH':
+        return '235 Authentication succeeded\r\n';
+      case 'MAIL':
+        session.from = line.match(/<([^>]*)>/)?.[1] ?? '';
+        return '250 OK\r\n';
+      case 'RCPT':
+        if (rejecting) {
+          return '550 Mailbox unavailable\r\n';
+        }
+        session.to.push(line.match(/<([^>]*)>/)?.[1] ?? '');
+        return '250 OK\r\n';
+      case 'DATA':
+        session.inData = true;
+        return '354 End data with <CR><LF>.<CR><LF>\r\n';
+      case 'RSET':
+        Object.assign(session, { from: '', to: [], data: [] });
+        return '250 OK\r\n';
+      case 'QUIT':
+        return '221 Bye\r\n';
+      default:
+        return '502 Command not implemented\r\n';
+    }
+  };
+
+  const server = Bun.listen<SessionState>({
+    hostname: '127.0.0.1',
+    port: options.port ?? 0,
+    socket: {
+      open(socket) {
+        socket.data = { buffer: '', inData: false, from: '', to: [], data: [] };
+        socket.write('220 mock-smtp ready\r\n');
+      },
+      data(socket, chunk) {
+        const session = socket.data;
+        session.buffer += chunk.toString('utf8');
+
+        let end: number;
+        while ((end = session.buffer.indexOf('\r\n')) !== -1) {
+          const line = session.buffer.slice(0, end);
+          session.buffer = session.buffer.slice(end + 2);
+          const answer = reply(session, line);
+          if (answer) {
+            socket.write(answer);
+          }
+          if (answer.startsWith('221')) {
+            socket.end();
+            return;
+          }
+        }
+      },
+    },
+  });
+
+  return {
+    port: server.port,
+    messages,
+    rejectRecipients: (reject) => { rejecting = reject; },
+    stop: () => server.stop(true),
+  };
+};
+
+if (import.meta.main) {
+  const sink = startMockSmtpServer({ port: Number(process.env['MOCK_SMTP_PORT']) || 1025 });
+  console.log(`Mock SMTP server listening on port ${sink.port}`);
+  const print = setInterval(() => {
+    for (const mail of sink.messages.splice(0)) {
+      console.log(`\nTo: ${mail.to.join(', ')}\nSubject: ${mail.subject}\n\n${mail.text}`);
+    }
+  }, 500);
+  process.on('SIGINT', () => {
+    clearInterval(print);
+    sink.stop();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,68 @@
+import { type Equipment, type EquipmentTransaction, type ReminderStage } from '../schema';
+import { type MailMessage } from './smtp';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long before the due date the first reminder goes out
+const DUE_SOON_HOURS = Number(process.env['REMINDER_DUE_SOON_HOURS']) || 24;
+
+// Days past the due date at which overdue reminders go out, spaced further apart each time.
+// REMINDER_OVERDUE_DAYS takes a comma-separated list, e.g. "1,3,7,14".
+const parseDays = (value: string | undefined): number[] | null => {
+  const days = (value ?? '').split(',').map(Number).filter(day => Number.isInteger(day) && day > 0);
+  return days.length > 0 ? [...new Set(days)].sort((a, b) => a - b) : null;
+};
+
+const OVERDUE_DAYS = parseDays(process.env['REMINDER_OVERDUE_DAYS']) ?? [1, 3, 7, 14, 28];
+
+export interface ScheduledReminder {
+  stage: ReminderStage;
+  overdue_days: number;
+  at: Date;
+}
+
+export const reminderSchedule = (due: Date): ScheduledReminder[] => [
+  { stage: 'due_soon', overdue_days: 0, at: new Date(due.getTime() - DUE_SOON_HOURS * HOUR_MS) },
+  { stage: 'due', overdue_days: 0, at: due },
+  ...OVERDUE_DAYS.map((days): ScheduledReminder => ({
+    stage: 'overdue',
+    overdue_days: days,
+    at: new Date(due.getTime() + days * DAY_MS),
+  })),
+];
+
+// The latest reminder a check-out has reached. Earlier ones that were missed, e.g. while the
+// server was down or because the check-out was made close to its due date, are not sent late.
+export const currentReminder = (due: Date, now: Date): ScheduledReminder | null =>
+  reminderSchedule(due).filter(reminder => reminder.at <= now).at(-1) ?? null;
+
+export const composeReminder = (
+  reminder: ScheduledReminder,
+  checkOut: EquipmentTransaction,
+  equipment: Equipment,
+  to: string
+): MailMessage => {
+  const item = `${equipment.name} (${equipment.serial_number})`;
+  const due = checkOut.expected_return_date?.toUTCString() ?? 'unknown';
+
+  const subject = {
+    due_soon: `Reminder: ${item} is due back soon`,
+    due: `${item} is due back today`,
+    overdue: `Overdue: ${item} was due back ${reminder.overdue_days} ${reminder.overdue_days === 1 ? 'day' : 'days'} ago`,
+  }[reminder.stage];
+
+  const text = [
+    `Hello ${checkOut.user_name},`,
+    '',
+    {
+      due_soon: `This is a reminder that ${item} you checked out is due back at ${due}.`,
+      due: `${item} you checked out is due back now (${due}). Please return it to the warehouse.`,
+      overdue: `${item} you checked out was due back at ${due} and has not been returned yet. Please return it as soon as possible, or contact the warehouse to arrange an extension.`,
+    }[reminder.stage],
+    '',
+    'Sound Equipment Warehouse',
+  ].join('\n');
+
+  return { to, subject, text };
+};
@@ -0,0 +1,31 @@
+import { runOverdueCheck } from '../handlers/run_overdue_check';
+
+// How often the server looks for overdue check-outs and due reminders
+const INTERVAL_MINUTES = Number(process.env['OVERDUE_CHECK_MINUTES']) || 15;
+
+// Runs the overdue check at startup and then on an interval. A run that is still going when
+// the next one is due (e.g. a slow mail server) is not overlapped; that tick is skipped.
+export const startOverdueChecks = (): (() => void) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await runOverdueCheck();
+      if (result.marked_overdue + result.reminders_sent + result.reminders_failed > 0) {
+        console.log('Overdue check:', result);
+      }
+    } catch {
+      // Already logged by the handler; the next tick tries again
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, INTERVAL_MINUTES * 60 * 1000);
+  return () => clearInterval(timer);
+};
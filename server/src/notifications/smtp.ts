@@ -0,0 +1,192 @@
+import { connect as connectTcp, type Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import { randomBytes } from 'crypto';
+import { hostname } from 'os';
+
+// Email is off unless SMTP_HOST is set. The defaults suit a local test mail sink such as
+// Mailpit or MailHog on port 1025; SMTP_SECURE=true switches to implicit TLS, usually on 465.
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte; otherwise STARTTLS is used when the server offers it
+  user: string | null; // AUTH PLAIN credentials, sent only when a user is set
+  password: string | null;
+  from: string; // Envelope sender and From header, e.g. "Warehouse <warehouse@example.com>"
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Give up on a server that stops answering, so a stuck connection cannot hold up the job
+const TIMEOUT_MS = 30 * 1000;
+
+export const getSmtpConfig = (): SmtpConfig | null => {
+  const host = process.env['SMTP_HOST'];
+  if (!host) {
+    return null;
+  }
+
+  const secure = process.env['SMTP_SECURE'] === 'true';
+  return {
+    host,
+    port: Number(process.env['SMTP_PORT']) || (secure ? 465 : 1025),
+    secure,
+    user: process.env['SMTP_USER'] || null,
+    password: process.env['SMTP_PASSWORD'] || null,
+    from: process.env['SMTP_FROM'] || 'warehouse@localhost',
+  };
+};
+
+// The bare address of "Name <address>" or of a plain address
+const addressOf = (mailbox: string): string => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+// Header values outside printable ASCII are sent as RFC 2047 encoded words, which also keeps
+// line breaks in user-entered text from starting new headers
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+const formatMessage = (from: string, message: MailMessage): string => {
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ];
+  // Base64 lines never start with a dot, so the body needs no dot-stuffing
+  const body = Buffer.from(message.text).toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+};
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+// Collects the server's CRLF-terminated replies; multi-line replies continue with "250-..."
+const readReplies = (socket: Socket) => {
+  let buffer = '';
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('latin1');
+    notify();
+  };
+  const onError = (error: Error) => {
+    failure ??= error;
+    notify();
+  };
+  const onClose = () => onError(new Error('SMTP server closed the connection'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+
+  const nextLine = async (): Promise<string> => {
+    for (;;) {
+      const end = buffer.indexOf('\r\n');
+      if (end !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        return line;
+      }
+      if (failure) {
+        throw failure;
+      }
+      await new Promise<void>(resolve => { wake = resolve; });
+    }
+  };
+
+  return {
+    next: async (): Promise<Reply> => {
+      const lines: string[] = [];
+      for (;;) {
+        const line = await nextLine();
+        lines.push(line.slice(4));
+        if (line[3] !== '-') {
+          return { code: Number(line.slice(0, 3)), lines };
+        }
+      }
+    },
+    // Hands the socket over, e.g. to be wrapped in TLS after STARTTLS
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+      socket.setTimeout(0);
+    },
+  };
+};
+
+const openSocket = (config: SmtpConfig): Promise<Socket> => new Promise((resolve, reject) => {
+  const socket: Socket = config.secure
+    ? connectTls({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+    : connectTcp({ host: config.host, port: config.port }, () => resolve(socket));
+  socket.once('error', reject);
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+});
+
+const startTls = (socket: Socket, host: string): Promise<Socket> => new Promise((resolve, reject) => {
+  const secure = connectTls({ socket, servername: host }, () => resolve(secure));
+  secure.once('error', reject);
+});
+
+// Delivers one plain-text message. Throws when the server refuses any step, so callers
+// can tell a reminder that went out from one that did not.
+export const sendMail = async (config: SmtpConfig, message: MailMessage): Promise<void> => {
+  let socket = await openSocket(config);
+  let replies = readReplies(socket);
+
+  // Replies are checked by class only, so e.g. 251 "will forward" passes for 250
+  const command = async (line: string | null, expected: number, step: string): Promise<string[]> => {
+    if (line !== null) {
+      socket.write(`${line}\r\n`);
+    }
+    const reply = await replies.next();
+    if (Math.floor(reply.code / 100) !== Math.floor(expected / 100)) {
+      throw new Error(`SMTP ${step} rejected: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply.lines;
+  };
+
+  try {
+    await command(null, 220, 'greeting');
+    const extensions = await command(`EHLO ${hostname()}`, 250, 'EHLO');
+
+    if (!config.secure && extensions.some(extension => /^STARTTLS\b/i.test(extension))) {
+      await command('STARTTLS', 220, 'STARTTLS');
+      replies.detach();
+      socket = await startTls(socket, config.host);
+      replies = readReplies(socket);
+      await command(`EHLO ${hostname()}`, 250, 'EHLO');
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ''}`).toString('base64');
+      await command(`AUTH PLAIN ${credentials}`, 235, 'AUTH');
+    }
+
+    await command(`MAIL FROM:<${addressOf(config.from)}>`, 250, 'MAIL FROM');
+    await command(`RCPT TO:<${message.to}>`, 250, 'RCPT TO');
+    await command('DATA', 354, 'DATA');
+    socket.write(formatMessage(config.from, message));
+    await command('.', 250, 'message');
+    // The message is accepted at this point, so a failed goodbye is not a failed delivery
+    await command('QUIT', 221, 'QUIT').catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+};
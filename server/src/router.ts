@@ -0,0 +1,565 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import superjson from 'superjson';
+import { z } from 'zod';
+import { type Context } from './context';
+import { hasPermission } from './auth/permissions';
+import { isTwoFactorSetupRequired } from './auth/two_factor';
+import { apiKeyAllows } from './auth/api_keys';
+
+// Import schemas
+import { 
+  createAdminInputSchema,
+  setupFirstAdminInputSchema,
+  updateAdminInputSchema,
+  setAdminDisabledInputSchema,
+  changePasswordInputSchema,
+  resetAdminPasswordInputSchema,
+  loginAdminInputSchema,
+  verifyTwoFactorLoginInputSchema,
+  completeOidcLoginInputSchema,
+  confirmTwoFactorEnrolmentInputSchema,
+  disableTwoFactorInputSchema,
+  updateSecuritySettingsInputSchema,
+  getLoginEventsQuerySchema,
+  createApiKeyInputSchema,
+  createEquipmentInputSchema,
+  updateEquipmentInputSchema,
+  getEquipmentQuerySchema,
+  checkOutEquipmentInputSchema,
+  checkInEquipmentInputSchema,
+  bookEquipmentInputSchema,
+  reserveEquipmentInputSchema,
+  pickUpReservationInputSchema,
+  getReservationsQuerySchema,
+  extendLoanInputSchema,
+  getLoanExtensionsQuerySchema,
+  createBorrowerInputSchema,
+  updateBorrowerInputSchema,
+  getBorrowersQuerySchema,
+  availabilityQuerySchema,
+  transactionIntervalsQuerySchema,
+  checkOutGroupInputSchema,
+  checkInGroupInputSchema,
+  createKitInputSchema,
+  updateKitInputSchema,
+  getKitsQuerySchema,
+  checkOutKitInputSchema,
+  bookKitInputSchema,
+  checkInKitInputSchema,
+  getTransactionsQuerySchema,
+  equipmentStatusSchema,
+  suspendBorrowerInputSchema,
+  setBorrowerLimitsInputSchema,
+  createDepartmentInputSchema,
+  updateDepartmentInputSchema,
+  getDepartmentUsageQuerySchema,
+  createEventInputSchema,
+  updateEventInputSchema,
+  getEventsQuerySchema,
+  pickEventItemInputSchema,
+  returnEventInputSchema,
+  getPackingListQuerySchema,
+  type Admin,
+  type ApiKey,
+  type Permission
+} from './schema';
+
+// Import handlers
+import { createAdmin } from './handlers/create_admin';
+import { getSetupStatus } from './handlers/get_setup_status';
+import { setupFirstAdmin } from './handlers/setup_first_admin';
+import { loginAdmin } from './handlers/login_admin';
+import { logoutAdmin } from './handlers/logout_admin';
+import { getCurrentAdmin } from './handlers/get_current_admin';
+import { getAdmins } from './handlers/get_admins';
+import { updateAdmin } from './handlers/update_admin';
+import { setAdminDisabled } from './handlers/set_admin_disabled';
+import { deleteAdmin } from './handlers/delete_admin';
+import { changePassword } from './handlers/change_password';
+import { resetAdminPassword } from './handlers/reset_admin_password';
+import { getLoginEvents } from './handlers/get_login_events';
+import { getAdminLockouts } from './handlers/get_admin_lockouts';
+import { unlockAdmin } from './handlers/unlock_admin';
+import { verifyTwoFactorLogin } from './handlers/verify_two_factor_login';
+import { getSsoConfig } from './handlers/get_sso_config';
+import { beginOidcLogin } from './handlers/begin_oidc_login';
+import { completeOidcLogin } from './handlers/complete_oidc_login';
+import { beginTwoFactorEnrolment } from './handlers/begin_two_factor_enrolment';
+import { confirmTwoFactorEnrolment } from './handlers/confirm_two_factor_enrolment';
+import { disableTwoFactor } from './handlers/disable_two_factor';
+import { resetAdminTwoFactor } from './handlers/reset_admin_two_factor';
+import { getSecuritySettings } from './handlers/get_security_settings';
+import { updateSecuritySettings } from './handlers/update_security_settings';
+import { createApiKey } from './handlers/create_api_key';
+import { getApiKeys } from './handlers/get_api_keys';
+import { revokeApiKey } from './handlers/revoke_api_key';
+import { createEquipment } from './handlers/create_equipment';
+import { getEquipment } from './handlers/get_equipment';
+import { getEquipmentById } from './handlers/get_equipment_by_id';
+import { getEquipmentBySerial } from './handlers/get_equipment_by_serial';
+import { updateEquipment } from './handlers/update_equipment';
+import { deleteEquipment } from './handlers/delete_equipment';
+import { checkOutEquipment } from './handlers/check_out_equipment';
+import { checkInEquipment } from './handlers/check_in_equipment';
+import { bookEquipment } from './handlers/book_equipment';
+import { reserveEquipment } from './handlers/reserve_equipment';
+import { pickUpReservation } from './handlers/pick_up_reservation';
+import { cancelReservation } from './handlers/cancel_reservation';
+import { getReservations } from './handlers/get_reservations';
+import { extendLoan } from './handlers/extend_loan';
+import { getLoanExtensions } from './handlers/get_loan_extensions';
+import { createBorrower } from './handlers/create_borrower';
+import { updateBorrower } from './handlers/update_borrower';
+import { getBorrowers } from './handlers/get_borrowers';
+import { getBorrowerProfile } from './handlers/get_borrower_profile';
+import { suspendBorrower } from './handlers/suspend_borrower';
+import { reinstateBorrower } from './handlers/reinstate_borrower';
+import { setBorrowerLimits } from './handlers/set_borrower_limits';
+import { createDepartment } from './handlers/create_department';
+import { updateDepartment } from './handlers/update_department';
+import { getDepartments } from './handlers/get_departments';
+import { getDepartmentUsage } from './handlers/get_department_usage';
+import { exportDepartmentUsage } from './handlers/export_department_usage';
+import { createEvent } from './handlers/create_event';
+import { updateEvent } from './handlers/update_event';
+import { getEvents } from './handlers/get_events';
+import { getEvent } from './handlers/get_event';
+import { pickEventItem } from './handlers/pick_event_item';
+import { returnEvent } from './handlers/return_event';
+import { printPackingList } from './handlers/print_packing_list';
+import { exportPackingListPdf } from './handlers/export_packing_list_pdf';
+import { getAvailableEquipment } from './handlers/get_available_equipment';
+import { getTransactionIntervals } from './handlers/get_transaction_intervals';
+import { getOverdueCheckOuts } from './handlers/get_overdue_check_outs';
+import { checkOutGroup } from './handlers/check_out_group';
+import { checkInGroup } from './handlers/check_in_group';
+import { getTransactionGroup } from './handlers/get_transaction_group';
+import { createKit } from './handlers/create_kit';
+import { getKits } from './handlers/get_kits';
+import { updateKit } from './handlers/update_kit';
+import { deleteKit } from './handlers/delete_kit';
+import { checkOutKit } from './handlers/check_out_kit';
+import { bookKit } from './handlers/book_kit';
+import { checkInKit } from './handlers/check_in_kit';
+import { getTransactions } from './handlers/get_transactions';
+import { getEquipmentWithTransactions } from './handlers/get_equipment_with_transactions';
+import { getEquipmentCategories } from './handlers/get_equipment_categories';
+import { updateEquipmentStatus } from './handlers/update_equipment_status';
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+const publicProcedure = t.procedure;
+
+// Requires a valid session; narrows ctx.admin to the authenticated admin. Account and
+// credential routes use this so an API key can never manage itself or its admin.
+const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.admin || !ctx.sessionToken) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { admin: ctx.admin, sessionToken: ctx.sessionToken, apiKey: null } });
+});
+
+// Accepts either a session or an API key
+const authenticatedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.admin || (!ctx.sessionToken && !ctx.apiKey)) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { admin: ctx.admin, apiKey: ctx.apiKey } });
+});
+
+// Requires the authenticated admin's role, and the API key's scopes when one is used, to
+// grant the given permission
+const requirePermission = (ctx: { admin: Admin; apiKey: ApiKey | null }, permission: Permission) => {
+  const allowed = ctx.apiKey
+    ? apiKeyAllows(ctx.admin, ctx.apiKey, permission)
+    : hasPermission(ctx.admin.role, permission);
+  if (!allowed) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Missing permission: ${permission}` });
+  }
+};
+
+// Letting a loan through despite a borrower's suspension or loan limit takes more than the
+// permission to record it
+const requireOverridePermission = (ctx: { admin: Admin; apiKey: ApiKey | null }, input: { override_reason?: string }) => {
+  if (input.override_reason !== undefined) {
+    requirePermission(ctx, 'borrowers:restrict');
+  }
+};
+
+// Checks the given permission as above. While 2FA is mandatory and not yet set up, the admin
+// is limited to the protectedProcedure routes.
+const authorizedProcedure = (permission: Permission) => authenticatedProcedure.use(async ({ ctx, next }) => {
+  requirePermission(ctx, permission);
+  if (await isTwoFactorSetupRequired(ctx.admin)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication must be set up before continuing' });
+  }
+  return next();
+});
+
+const router = t.router;
+
+export const appRouter = router({
+  // Health check
+  healthcheck: publicProcedure.query(() => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  }),
+
+  // First-run setup, only usable while no admin exists
+  getSetupStatus: publicProcedure
+    .query(() => getSetupStatus()),
+
+  setupFirstAdmin: publicProcedure
+    .input(setupFirstAdminInputSchema)
+    .mutation(({ input, ctx }) => setupFirstAdmin(input, ctx.ipAddress)),
+
+  // Admin management routes
+  createAdmin: authorizedProcedure('admins:manage')
+    .input(createAdminInputSchema)
+    .mutation(({ input }) => createAdmin(input)),
+
+  loginAdmin: publicProcedure
+    .input(loginAdminInputSchema)
+    .mutation(({ input, ctx }) => loginAdmin(input, ctx.ipAddress)),
+
+  // Second login step for admins with two-factor authentication
+  verifyTwoFactorLogin: publicProcedure
+    .input(verifyTwoFactorLoginInputSchema)
+    .mutation(({ input, ctx }) => verifyTwoFactorLogin(input, ctx.ipAddress)),
+
+  // OpenID Connect single sign-on, offered next to password login when configured
+  getSsoConfig: publicProcedure
+    .query(() => getSsoConfig()),
+
+  beginOidcLogin: publicProcedure
+    .mutation(() => beginOidcLogin()),
+
+  completeOidcLogin: publicProcedure
+    .input(completeOidcLoginInputSchema)
+    .mutation(({ input, ctx }) => completeOidcLogin(input, ctx.ipAddress)),
+
+  logoutAdmin: protectedProcedure
+    .mutation(({ ctx }) => logoutAdmin(ctx.sessionToken)),
+
+  me: protectedProcedure
+    .query(({ ctx }) => getCurrentAdmin(ctx.admin.id)),
+
+  getAdmins: authorizedProcedure('admins:read')
+    .query(() => getAdmins()),
+
+  updateAdmin: authorizedProcedure('admins:manage')
+    .input(updateAdminInputSchema)
+    .mutation(({ input }) => updateAdmin(input)),
+
+  setAdminDisabled: authorizedProcedure('admins:manage')
+    .input(setAdminDisabledInputSchema)
+    .mutation(({ input, ctx }) => setAdminDisabled(input, ctx.admin.id)),
+
+  deleteAdmin: authorizedProcedure('admins:manage')
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input, ctx }) => deleteAdmin(input.id, ctx.admin.id)),
+
+  resetAdminPassword: authorizedProcedure('admins:manage')
+    .input(resetAdminPasswordInputSchema)
+    .mutation(({ input }) => resetAdminPassword(input)),
+
+  // Login audit log and lockouts
+  getLoginEvents: authorizedProcedure('admins:manage')
+    .input(getLoginEventsQuerySchema)
+    .query(({ input }) => getLoginEvents(input)),
+
+  getAdminLockouts: authorizedProcedure('admins:manage')
+    .query(() => getAdminLockouts()),
+
+  unlockAdmin: authorizedProcedure('admins:manage')
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => unlockAdmin(input.id)),
+
+  // Any signed-in admin may change their own password
+  changePassword: protectedProcedure
+    .input(changePasswordInputSchema)
+    .mutation(({ input, ctx }) => changePassword(ctx.admin.id, input, ctx.sessionToken)),
+
+  // Two-factor enrolment for the signed-in admin
+  beginTwoFactorEnrolment: protectedProcedure
+    .mutation(({ ctx }) => beginTwoFactorEnrolment(ctx.admin.id)),
+
+  confirmTwoFactorEnrolment: protectedProcedure
+    .input(confirmTwoFactorEnrolmentInputSchema)
+    .mutation(({ input, ctx }) => confirmTwoFactorEnrolment(ctx.admin.id, input)),
+
+  disableTwoFactor: protectedProcedure
+    .input(disableTwoFactorInputSchema)
+    .mutation(({ input, ctx }) => disableTwoFactor(ctx.admin.id, input)),
+
+  resetAdminTwoFactor: authorizedProcedure('admins:manage')
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input, ctx }) => resetAdminTwoFactor(input.id, ctx.admin.id)),
+
+  getSecuritySettings: authorizedProcedure('admins:manage')
+    .query(() => getSecuritySettings()),
+
+  updateSecuritySettings: authorizedProcedure('admins:manage')
+    .input(updateSecuritySettingsInputSchema)
+    .mutation(({ input, ctx }) => updateSecuritySettings(input, ctx.admin.id)),
+
+  // API keys - managed from a signed-in session only, never with another key
+  createApiKey: protectedProcedure
+    .input(createApiKeyInputSchema)
+    .mutation(({ input, ctx }) => createApiKey(ctx.admin.id, input)),
+
+  getApiKeys: protectedProcedure
+    .query(({ ctx }) => getApiKeys(ctx.admin.id)),
+
+  getAllApiKeys: authorizedProcedure('admins:manage')
+    .query(() => getApiKeys(null)),
+
+  revokeApiKey: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input, ctx }) => revokeApiKey(input.id, ctx.admin)),
+
+  // Equipment management routes
+  createEquipment: authorizedProcedure('catalog:write')
+    .input(createEquipmentInputSchema)
+    .mutation(({ input }) => createEquipment(input)),
+
+  getEquipment: authorizedProcedure('catalog:read')
+    .input(getEquipmentQuerySchema.optional())
+    .query(({ input }) => getEquipment(input)),
+
+  getEquipmentById: authorizedProcedure('catalog:read')
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getEquipmentById(input.id)),
+
+  getEquipmentBySerial: authorizedProcedure('catalog:read')
+    .input(z.object({ serialNumber: z.string() }))
+    .query(({ input }) => getEquipmentBySerial(input.serialNumber)),
+
+  updateEquipment: authorizedProcedure('catalog:write')
+    .input(updateEquipmentInputSchema)
+    .mutation(({ input }) => updateEquipment(input)),
+
+  deleteEquipment: authorizedProcedure('catalog:delete')
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteEquipment(input.id)),
+
+  // Kit management routes
+  createKit: authorizedProcedure('catalog:write')
+    .input(createKitInputSchema)
+    .mutation(({ input }) => createKit(input)),
+
+  getKits: authorizedProcedure('catalog:read')
+    .input(getKitsQuerySchema.optional())
+    .query(({ input }) => getKits(input)),
+
+  updateKit: authorizedProcedure('catalog:write')
+    .input(updateKitInputSchema)
+    .mutation(({ input }) => updateKit(input)),
+
+  deleteKit: authorizedProcedure('catalog:delete')
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => deleteKit(input.id)),
+
+  // Equipment transaction routes
+  checkOutEquipment: authorizedProcedure('transactions:write')
+    .input(checkOutEquipmentInputSchema)
+    .mutation(({ input, ctx }) => {
+      requireOverridePermission(ctx, input);
+      return checkOutEquipment(input, ctx.admin.id, ctx.apiKey?.id ?? null);
+    }),
+
+  checkInEquipment: authorizedProcedure('transactions:write')
+    .input(checkInEquipmentInputSchema)
+    .mutation(({ input, ctx }) => checkInEquipment(input, ctx.admin.id, ctx.apiKey?.id ?? null)),
+
+  bookEquipment: authorizedProcedure('transactions:write')
+    .input(bookEquipmentInputSchema)
+    .mutation(({ input, ctx }) => {
+      requireOverridePermission(ctx, input);
+      return bookEquipment(input, ctx.admin.id, ctx.apiKey?.id ?? null);
+    }),
+
+  reserveEquipment: authorizedProcedure('transactions:write')
+    .input(reserveEquipmentInputSchema)
+    .mutation(({ input, ctx }) => {
+      requireOverridePermission(ctx, input);
+      return reserveEquipment(input, ctx.admin.id, ctx.apiKey?.id ?? null);
+    }),
+
+  checkOutGroup: authorizedProcedure('transactions:write')
+    .input(checkOutGroupInputSchema)
+    .mutation(({ input, ctx }) => {
+      requireOverridePermission(ctx, input);
+      return checkOutGroup(input, ctx.admin.id, ctx.apiKey?.id ?? null);
+    }),
+
+  checkInGroup: authorizedProcedure('transactions:write')
+    .input(checkInGroupInputSchema)
+    .mutation(({ input, ctx }) => checkInGroup(input, ctx.admin.id, ctx.apiKey?.id ?? null)),
+
+  checkOutKit: authorizedProcedure('transactions:write')
+    .input(checkOutKitInputSchema)
+    .mutation(({ input, ctx }) => {
+      requireOverridePermission(ctx, input);
+      return checkOutKit(input, ctx.admin.id, ctx.apiKey?.id ?? null);
+    }),
+
+  bookKit: authorizedProcedure('transactions:write')
+    .input(bookKitInputSchema)
+    .mutation(({ input, ctx }) => {
+      requireOverridePermission(ctx, input);
+      return bookKit(input, ctx.admin.id, ctx.apiKey?.id ?? null);
+    }),
+
+  checkInKit: authorizedProcedure('transactions:write')
+    .input(checkInKitInputSchema)
+    .mutation(({ input, ctx }) => checkInKit(input, ctx.admin.id, ctx.apiKey?.id ?? null)),
+
+  pickUpReservation: authorizedProcedure('transactions:write')
+    .input(pickUpReservationInputSchema)
+    .mutation(({ input, ctx }) => {
+      requireOverridePermission(ctx, input);
+      return pickUpReservation(input, ctx.admin.id, ctx.apiKey?.id ?? null);
+    }),
+
+  cancelReservation: authorizedProcedure('transactions:write')
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input, ctx }) => cancelReservation(input.id, ctx.admin.id, ctx.apiKey?.id ?? null)),
+
+  extendLoan: authorizedProcedure('transactions:write')
+    .input(extendLoanInputSchema)
+    .mutation(({ input, ctx }) => extendLoan(input, ctx.admin.id, ctx.apiKey?.id ?? null)),
+
+  // Borrower directory routes; borrowers are part of the transaction records
+  createBorrower: authorizedProcedure('transactions:write')
+    .input(createBorrowerInputSchema)
+    .mutation(({ input }) => createBorrower(input)),
+
+  updateBorrower: authorizedProcedure('transactions:write')
+    .input(updateBorrowerInputSchema)
+    .mutation(({ input }) => updateBorrower(input)),
+
+  suspendBorrower: authorizedProcedure('borrowers:restrict')
+    .input(suspendBorrowerInputSchema)
+    .mutation(({ input }) => suspendBorrower(input)),
+
+  reinstateBorrower: authorizedProcedure('borrowers:restrict')
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => reinstateBorrower(input.id)),
+
+  setBorrowerLimits: authorizedProcedure('borrowers:restrict')
+    .input(setBorrowerLimitsInputSchema)
+    .mutation(({ input }) => setBorrowerLimits(input)),
+
+  getBorrowers: authorizedProcedure('transactions:read')
+    .input(getBorrowersQuerySchema.optional())
+    .query(({ input }) => getBorrowers(input)),
+
+  getBorrowerProfile: authorizedProcedure('transactions:read')
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getBorrowerProfile(input.id)),
+
+  // Department routes; loans are tagged with a department like they are with a borrower
+  createDepartment: authorizedProcedure('transactions:write')
+    .input(createDepartmentInputSchema)
+    .mutation(({ input }) => createDepartment(input)),
+
+  updateDepartment: authorizedProcedure('transactions:write')
+    .input(updateDepartmentInputSchema)
+    .mutation(({ input }) => updateDepartment(input)),
+
+  getDepartments: authorizedProcedure('transactions:read')
+    .query(() => getDepartments()),
+
+  // Event routes; events group the bookings and check-outs of a gig
+  createEvent: authorizedProcedure('transactions:write')
+    .input(createEventInputSchema)
+    .mutation(({ input }) => createEvent(input)),
+
+  updateEvent: authorizedProcedure('transactions:write')
+    .input(updateEventInputSchema)
+    .mutation(({ input }) => updateEvent(input)),
+
+  pickEventItem: authorizedProcedure('transactions:write')
+    .input(pickEventItemInputSchema)
+    .mutation(({ input, ctx }) => pickEventItem(input, ctx.admin.id, ctx.apiKey?.id ?? null)),
+
+  returnEvent: authorizedProcedure('transactions:write')
+    .input(returnEventInputSchema)
+    .mutation(({ input, ctx }) => returnEvent(input, ctx.admin.id, ctx.apiKey?.id ?? null)),
+
+  getEvents: authorizedProcedure('transactions:read')
+    .input(getEventsQuerySchema.optional())
+    .query(({ input }) => getEvents(input)),
+
+  getEvent: authorizedProcedure('transactions:read')
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getEvent(input.id)),
+
+  // Pull sheets and return checklists of an event or a multi-item check-out
+  printPackingList: authorizedProcedure('transactions:read')
+    .input(getPackingListQuerySchema)
+    .query(({ input }) => printPackingList(input)),
+
+  exportPackingListPdf: authorizedProcedure('transactions:read')
+    .input(getPackingListQuerySchema)
+    .query(({ input }) => exportPackingListPdf(input)),
+
+  // Transaction and reporting routes
+  getDepartmentUsage: authorizedProcedure('transactions:read')
+    .input(getDepartmentUsageQuerySchema)
+    .query(({ input }) => getDepartmentUsage(input)),
+
+  exportDepartmentUsage: authorizedProcedure('transactions:read')
+    .input(getDepartmentUsageQuerySchema)
+    .query(({ input }) => exportDepartmentUsage(input)),
+
+  getTransactions: authorizedProcedure('transactions:read')
+    .input(getTransactionsQuerySchema.optional())
+    .query(({ input }) => getTransactions(input)),
+
+  getReservations: authorizedProcedure('transactions:read')
+    .input(getReservationsQuerySchema.optional())
+    .query(({ input }) => getReservations(input)),
+
+  // Availability names the borrowers of upcoming commitments, so it needs transaction access
+  getAvailableEquipment: authorizedProcedure('transactions:read')
+    .input(availabilityQuerySchema)
+    .query(({ input }) => getAvailableEquipment(input)),
+
+  getTransactionGroup: authorizedProcedure('transactions:read')
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getTransactionGroup(input.id)),
+
+  getTransactionIntervals: authorizedProcedure('transactions:read')
+    .input(transactionIntervalsQuerySchema)
+    .query(({ input }) => getTransactionIntervals(input)),
+
+  getLoanExtensions: authorizedProcedure('transactions:read')
+    .input(getLoanExtensionsQuerySchema)
+    .query(({ input }) => getLoanExtensions(input)),
+
+  getOverdueCheckOuts: authorizedProcedure('transactions:read')
+    .query(() => getOverdueCheckOuts()),
+
+  getEquipmentWithTransactions: authorizedProcedure('transactions:read')
+    .input(z.object({ equipmentId: z.number() }))
+    .query(({ input }) => getEquipmentWithTransactions(input.equipmentId)),
+
+  // Utility routes
+  getEquipmentCategories: authorizedProcedure('catalog:read')
+    .query(() => getEquipmentCategories()),
+
+  updateEquipmentStatus: authorizedProcedure('equipment:set_status')
+    .input(z.object({ 
+      equipmentId: z.number(), 
+      status: equipmentStatusSchema 
+    }))
+    .mutation(({ input }) => updateEquipmentStatus(input.equipmentId, input.status)),
+});
+
+export type AppRouter = typeof appRouter;
+
+// Server-side caller used by tests to exercise procedures with a given context
+export const createCaller = t.createCallerFactory(appRouter);
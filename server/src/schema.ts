@@ -1,26 +1,113 @@
 import { z } from 'zod';
 
+// Admin role enum
+export const adminRoleSchema = z.enum(['owner', 'manager', 'clerk', 'viewer']);
+
+export type AdminRole = z.infer<typeof adminRoleSchema>;
+
+// Permissions checked per procedure, granted to roles in auth/permissions.ts
+export const permissionSchema = z.enum([
+  'catalog:read',
+  'catalog:write',
+  'catalog:delete',
+  'equipment:set_status',
+  'transactions:read',
+  'transactions:write',
+  'borrowers:restrict',
+  'admins:read',
+  'admins:manage',
+]);
+
+export type Permission = z.infer<typeof permissionSchema>;
+
 // Admin user schema
 export const adminSchema = z.object({
   id: z.number(),
   username: z.string(),
   email: z.string().email(),
   password_hash: z.string(),
+  role: adminRoleSchema,
+  disabled_at: z.coerce.date().nullable(), // Set when the account has been disabled
+  totp_secret: z.string().nullable(), // Base32 TOTP secret, present once enrolment has started
+  totp_enabled_at: z.coerce.date().nullable(), // Set when two-factor authentication is active
+  totp_last_used_step: z.number().int().nullable(),
+  oidc_subject: z.string().nullable(), // Identity provider subject once linked for single sign-on
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
 });
 
 export type Admin = z.infer<typeof adminSchema>;
 
+// Admin shape used for every outbound payload - credentials never leave the server
+export const publicAdminSchema = adminSchema.omit({ password_hash: true, totp_secret: true, totp_last_used_step: true });
+
+export type PublicAdmin = z.infer<typeof publicAdminSchema>;
+
+// The signed-in admin and what their role allows
+export const currentAdminSchema = z.object({
+  admin: publicAdminSchema,
+  permissions: z.array(permissionSchema),
+  two_factor_setup_required: z.boolean(), // 2FA is mandatory but this admin has not enrolled yet
+});
+
+export type CurrentAdmin = z.infer<typeof currentAdminSchema>;
+
 // Input schema for creating admin users
 export const createAdminInputSchema = z.object({
   username: z.string().min(3).max(50),
   email: z.string().email(),
   password: z.string().min(6), // Raw password for hashing
+  role: adminRoleSchema.default('clerk'),
 });
 
 export type CreateAdminInput = z.infer<typeof createAdminInputSchema>;
 
+// First-run setup is offered while no admin exists at all
+export const setupStatusSchema = z.object({
+  setup_required: z.boolean(),
+});
+
+export type SetupStatus = z.infer<typeof setupStatusSchema>;
+
+// Input schema for creating the first admin, who is always an owner
+export const setupFirstAdminInputSchema = createAdminInputSchema.omit({ role: true });
+
+export type SetupFirstAdminInput = z.infer<typeof setupFirstAdminInputSchema>;
+
+// Input schema for updating admin users
+export const updateAdminInputSchema = z.object({
+  id: z.number(),
+  username: z.string().min(3).max(50).optional(),
+  email: z.string().email().optional(),
+  role: adminRoleSchema.optional(),
+});
+
+export type UpdateAdminInput = z.infer<typeof updateAdminInputSchema>;
+
+// Input schema for disabling or re-enabling admin users
+export const setAdminDisabledInputSchema = z.object({
+  id: z.number(),
+  disabled: z.boolean(),
+});
+
+export type SetAdminDisabledInput = z.infer<typeof setAdminDisabledInputSchema>;
+
+// Input schema for an admin changing their own password
+export const changePasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: z.string().min(6),
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+// Input schema for an owner resetting another admin's password
+export const resetAdminPasswordInputSchema = z.object({
+  id: z.number(),
+  new_password: z.string().min(6),
+});
+
+export type ResetAdminPasswordInput = z.infer<typeof resetAdminPasswordInputSchema>;
+
 // Input schema for admin login
 export const loginAdminInputSchema = z.object({
   username: z.string(),
@@ -29,6 +116,199 @@ export const loginAdminInputSchema = z.object({
 
 export type LoginAdminInput = z.infer<typeof loginAdminInputSchema>;
 
+// Successful login result - the token is only ever returned here, the server stores a hash
+export const authenticatedLoginSchema = currentAdminSchema.extend({
+  status: z.literal('authenticated'),
+  token: z.string(),
+  expires_at: z.coerce.date(),
+});
+
+export type AuthenticatedLogin = z.infer<typeof authenticatedLoginSchema>;
+
+// Password accepted, but the admin must still provide a TOTP or recovery code
+export const twoFactorChallengeSchema = z.object({
+  status: z.literal('two_factor_required'),
+  challenge_token: z.string(),
+  expires_at: z.coerce.date(),
+});
+
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+
+export const loginResultSchema = z.discriminatedUnion('status', [
+  authenticatedLoginSchema,
+  twoFactorChallengeSchema,
+]);
+
+export type LoginResult = z.infer<typeof loginResultSchema>;
+
+// Whether the login page should offer single sign-on
+export const ssoConfigSchema = z.object({
+  enabled: z.boolean(),
+  provider_name: z.string().nullable(),
+});
+
+export type SsoConfig = z.infer<typeof ssoConfigSchema>;
+
+// Where to send the browser to sign in at the identity provider
+export const oidcAuthorizationSchema = z.object({
+  authorization_url: z.string(),
+  browser_key: z.string(), // Kept by the browser until the provider redirects back, and sent with the code
+});
+
+export type OidcAuthorization = z.infer<typeof oidcAuthorizationSchema>;
+
+// Input schema for the identity provider's redirect back to the app
+export const completeOidcLoginInputSchema = z.object({
+  code: z.string().min(1),
+  state: z.string().min(1),
+  browser_key: z.string().min(1), // From the browser that started the sign-in, so a redirect cannot be replayed in another
+});
+
+export type CompleteOidcLoginInput = z.infer<typeof completeOidcLoginInputSchema>;
+
+// Input schema for the second login step
+export const verifyTwoFactorLoginInputSchema = z.object({
+  challenge_token: z.string(),
+  code: z.string().min(1), // Six-digit TOTP code or a recovery code
+});
+
+export type VerifyTwoFactorLoginInput = z.infer<typeof verifyTwoFactorLoginInputSchema>;
+
+// Returned when enrolment starts; the URI is rendered as a QR code for the authenticator app
+export const twoFactorEnrolmentSchema = z.object({
+  secret: z.string(),
+  provisioning_uri: z.string(),
+});
+
+export type TwoFactorEnrolment = z.infer<typeof twoFactorEnrolmentSchema>;
+
+// Input schema for confirming enrolment with a first code from the app
+export const confirmTwoFactorEnrolmentInputSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+export type ConfirmTwoFactorEnrolmentInput = z.infer<typeof confirmTwoFactorEnrolmentInputSchema>;
+
+// Input schema for an admin turning off their own two-factor authentication
+export const disableTwoFactorInputSchema = z.object({
+  password: z.string(),
+});
+
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorInputSchema>;
+
+// Recovery codes are shown once, when generated
+export const recoveryCodesSchema = z.object({
+  recovery_codes: z.array(z.string()),
+});
+
+export type RecoveryCodes = z.infer<typeof recoveryCodesSchema>;
+
+// System-wide security policy
+export const securitySettingsSchema = z.object({
+  require_two_factor: z.boolean(),
+  updated_at: z.coerce.date(),
+});
+
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
+
+export const updateSecuritySettingsInputSchema = z.object({
+  require_two_factor: z.boolean(),
+});
+
+export type UpdateSecuritySettingsInput = z.infer<typeof updateSecuritySettingsInputSchema>;
+
+// An open admin session, as listed by the server CLI
+export const adminSessionSchema = z.object({
+  id: z.number(),
+  admin_id: z.number(),
+  username: z.string(),
+  created_at: z.coerce.date(),
+  expires_at: z.coerce.date(),
+});
+
+export type AdminSession = z.infer<typeof adminSessionSchema>;
+
+// Rows removed by a maintenance run, per table
+export const pruneResultSchema = z.object({
+  admin_sessions: z.number().int(),
+  login_challenges: z.number().int(),
+  oidc_login_states: z.number().int(),
+  login_throttles: z.number().int(),
+  login_events: z.number().int(),
+});
+
+export type PruneResult = z.infer<typeof pruneResultSchema>;
+
+// Login outcome enum
+export const loginOutcomeSchema = z.enum(['success', 'invalid_credentials', 'invalid_two_factor', 'account_disabled', 'throttled']);
+
+export type LoginOutcome = z.infer<typeof loginOutcomeSchema>;
+
+// Login audit event schema
+export const loginEventSchema = z.object({
+  id: z.number(),
+  admin_id: z.number().nullable(), // Null when the submitted username matched no account
+  username: z.string(),
+  ip_address: z.string().nullable(),
+  outcome: loginOutcomeSchema,
+  created_at: z.coerce.date(),
+});
+
+export type LoginEvent = z.infer<typeof loginEventSchema>;
+
+// Query parameters for the login audit log
+export const getLoginEventsQuerySchema = z.object({
+  admin_id: z.number().optional(),
+  username: z.string().optional(),
+  outcome: loginOutcomeSchema.optional(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(500).default(100),
+});
+
+export type GetLoginEventsQuery = z.infer<typeof getLoginEventsQuerySchema>;
+
+// An account currently locked out after repeated failed logins
+export const adminLockoutSchema = z.object({
+  admin_id: z.number(),
+  username: z.string(),
+  failed_count: z.number().int(),
+  blocked_until: z.coerce.date(),
+});
+
+export type AdminLockout = z.infer<typeof adminLockoutSchema>;
+
+// API key schema - the key itself is only returned once, by createApiKey
+export const apiKeySchema = z.object({
+  id: z.number(),
+  admin_id: z.number(),
+  name: z.string(),
+  prefix: z.string(), // Leading characters of the key, enough to recognise it
+  scopes: z.array(permissionSchema).nullable(), // Null means every permission of the admin's role
+  expires_at: z.coerce.date().nullable(),
+  last_used_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+// Input schema for creating an API key
+export const createApiKeyInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(permissionSchema).min(1).nullable().default(null), // Must be a subset of the creator's permissions
+  expires_at: z.coerce.date().nullable().default(null),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
+
+export const createdApiKeySchema = z.object({
+  api_key: apiKeySchema,
+  key: z.string(),
+});
+
+export type CreatedApiKey = z.infer<typeof createdApiKeySchema>;
+
 // Equipment status enum
 export const equipmentStatusSchema = z.enum(['available', 'checked_out', 'booked', 'maintenance']);
 
@@ -44,6 +324,11 @@ export const equipmentSchema = z.object({
   brand: z.string().nullable(),
   model: z.string().nullable(),
   status: equipmentStatusSchema,
+  parent_id: z.number().nullable(), // Item this accessory travels with
+  replacement_value: z.number().int().nullable(), // Counts towards borrowers' value limits
+  storage_location: z.string().nullable(),
+  case_label: z.string().nullable(), // Items with the same label are packed in the same case
+  weight_grams: z.number().int().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
 });
@@ -59,6 +344,11 @@ export const createEquipmentInputSchema = z.object({
   brand: z.string().nullable().optional(),
   model: z.string().nullable().optional(),
   status: equipmentStatusSchema.default('available'),
+  parent_id: z.number().nullable().optional(),
+  replacement_value: z.number().int().nonnegative().nullable().optional(),
+  storage_location: z.string().nullable().optional(),
+  case_label: z.string().nullable().optional(),
+  weight_grams: z.number().int().nonnegative().nullable().optional(),
 });
 
 export type CreateEquipmentInput = z.infer<typeof createEquipmentInputSchema>;
@@ -73,6 +363,11 @@ export const updateEquipmentInputSchema = z.object({
   brand: z.string().nullable().optional(),
   model: z.string().nullable().optional(),
   status: equipmentStatusSchema.optional(),
+  parent_id: z.number().nullable().optional(),
+  replacement_value: z.number().int().nonnegative().nullable().optional(),
+  storage_location: z.string().nullable().optional(),
+  case_label: z.string().nullable().optional(),
+  weight_grams: z.number().int().nonnegative().nullable().optional(),
 });
 
 export type UpdateEquipmentInput = z.infer<typeof updateEquipmentInputSchema>;
@@ -92,8 +387,23 @@ export const equipmentTransactionSchema = z.object({
   user_contact: z.string().nullable(), // Contact info for the person
   notes: z.string().nullable(),
   transaction_date: z.coerce.date(),
+  reserved_from: z.coerce.date().nullable(), // Start of a dated reservation
   expected_return_date: z.coerce.date().nullable(), // For bookings and check-outs
-  actual_return_date: z.coerce.date().nullable(), // When actually returned
+  actual_return_date: z.coerce.date().nullable(), // When actually returned, or when a booking's hold ended
+  booking_id: z.number().nullable(), // Booking that a check-out picked up
+  cancelled_at: z.coerce.date().nullable(), // When a booking was cancelled
+  cancelled_by: z.number().nullable(), // Admin who cancelled the booking
+  cancelled_by_api_key_id: z.number().nullable(), // API key used to cancel the booking, if any
+  group_id: z.number().nullable(), // Cart check-out the transaction belongs to
+  borrower_id: z.number().nullable(), // Borrower directory entry; null for check-ins
+  department_id: z.number().nullable(), // Department charged for the loan
+  event_id: z.number().nullable(), // Event the item is allocated to
+  picked_at: z.coerce.date().nullable(), // When a reserved item was pulled from storage for its event
+  picked_by: z.number().nullable(), // Admin who picked the item
+  picked_by_api_key_id: z.number().nullable(), // API key used to pick the item, if any
+  api_key_id: z.number().nullable(), // API key used to record the transaction, if any
+  overdue_at: z.coerce.date().nullable(), // When the overdue check found the check-out past due
+  damage_cost: z.number().int().nullable(), // Repair cost found when a check-out came back
   created_at: z.coerce.date(),
 });
 
@@ -115,20 +425,37 @@ export type CreateTransactionInput = z.infer<typeof createTransactionInputSchema
 // Input schema for checking in equipment
 export const checkInEquipmentInputSchema = z.object({
   equipment_id: z.number(),
-  admin_id: z.number(),
+  accessory_ids: z.array(z.number()).optional(), // Accessories that came back with the item
   notes: z.string().nullable().optional(),
+  damage_cost: z.number().int().positive().nullable().optional(), // Charged to the department of the check-out
 });
 
 export type CheckInEquipmentInput = z.infer<typeof checkInEquipmentInputSchema>;
 
+// Repair cost found on one item of a multi-item return, charged like damage_cost above
+export const returnedDamageSchema = z.object({
+  equipment_id: z.number(),
+  damage_cost: z.number().int().positive(),
+});
+
+export type ReturnedDamage = z.infer<typeof returnedDamageSchema>;
+
+// The damaged items of a group, kit or event return; each must be one of the items coming back
+const returnedDamageListSchema = z.array(returnedDamageSchema)
+  .refine(damage => new Set(damage.map(entry => entry.equipment_id)).size === damage.length, { message: 'Each item can only be charged once' });
+
 // Input schema for checking out equipment
 export const checkOutEquipmentInputSchema = z.object({
   equipment_id: z.number(),
-  admin_id: z.number(),
   user_name: z.string().min(1),
   user_contact: z.string().nullable().optional(),
+  borrower_id: z.number().optional(), // Directory entry; without it the borrower is found or created from user_name and user_contact
+  department_id: z.number().optional(), // Defaults to the borrower's department
+  event_id: z.number().optional(), // Event the item is allocated to
+  override_reason: z.string().trim().min(1).optional(), // Lets a suspended or over-limit borrower through; needs borrowers:restrict
   expected_return_date: z.coerce.date().nullable().optional(),
   notes: z.string().nullable().optional(),
+  accessory_ids: z.array(z.number()).optional(), // Accessories to check out along with the item
 });
 
 export type CheckOutEquipmentInput = z.infer<typeof checkOutEquipmentInputSchema>;
@@ -136,20 +463,590 @@ export type CheckOutEquipmentInput = z.infer<typeof checkOutEquipmentInputSchema
 // Input schema for booking equipment
 export const bookEquipmentInputSchema = z.object({
   equipment_id: z.number(),
-  admin_id: z.number(),
   user_name: z.string().min(1),
   user_contact: z.string().nullable().optional(),
+  borrower_id: z.number().optional(),
+  department_id: z.number().optional(),
+  event_id: z.number().optional(),
+  override_reason: z.string().trim().min(1).optional(),
   expected_return_date: z.coerce.date(),
   notes: z.string().nullable().optional(),
 });
 
 export type BookEquipmentInput = z.infer<typeof bookEquipmentInputSchema>;
 
+// Input schema for reserving equipment for a future window without changing its status
+export const reserveEquipmentInputSchema = z.object({
+  equipment_id: z.number(),
+  user_name: z.string().min(1),
+  user_contact: z.string().nullable().optional(),
+  borrower_id: z.number().optional(),
+  department_id: z.number().optional(),
+  event_id: z.number().optional(),
+  override_reason: z.string().trim().min(1).optional(),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  notes: z.string().nullable().optional(),
+}).refine(input => input.end_date > input.start_date, {
+  message: 'Reservation must end after it starts',
+  path: ['end_date'],
+});
+
+export type ReserveEquipmentInput = z.infer<typeof reserveEquipmentInputSchema>;
+
+// Input schema for picking up a booking. Omitted fields are taken from the booking.
+export const pickUpReservationInputSchema = z.object({
+  booking_id: z.number(),
+  user_contact: z.string().nullable().optional(),
+  expected_return_date: z.coerce.date().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  override_reason: z.string().trim().min(1).optional(),
+});
+
+export type PickUpReservationInput = z.infer<typeof pickUpReservationInputSchema>;
+
+// Query for the open bookings of an item, or of every item
+export const getReservationsQuerySchema = z.object({
+  equipment_id: z.number().optional(),
+});
+
+export type GetReservationsQuery = z.infer<typeof getReservationsQuerySchema>;
+
+// The time an open check-out or booking claims an item for
+export const commitmentSchema = z.object({
+  transaction_id: z.number(),
+  transaction_type: transactionTypeSchema,
+  user_name: z.string(),
+  start: z.coerce.date(),
+  end: z.coerce.date().nullable(), // Null when open-ended, e.g. a check-out with no or a past return date
+});
+
+export type Commitment = z.infer<typeof commitmentSchema>;
+
+// Query for units that are free for a whole window
+export const availabilityQuerySchema = z.object({
+  category: z.string().optional(),
+  search: z.string().optional(), // Search by name, serial number, or description
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+}).refine(query => query.end_date > query.start_date, {
+  message: 'The window must end after it starts',
+  path: ['end_date'],
+});
+
+export type AvailabilityQuery = z.infer<typeof availabilityQuerySchema>;
+
+export const availableEquipmentSchema = z.object({
+  equipment: equipmentSchema,
+  next_commitment: commitmentSchema.nullable(), // First commitment starting after the window
+});
+
+export type AvailableEquipment = z.infer<typeof availableEquipmentSchema>;
+
+// Query for the check-outs and reservations that touch a calendar window
+export const transactionIntervalsQuerySchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  equipment_id: z.number().optional(),
+  category: z.string().optional(),
+}).refine(query => query.end_date > query.start_date, {
+  message: 'The window must end after it starts',
+  path: ['end_date'],
+});
+
+export type TransactionIntervalsQuery = z.infer<typeof transactionIntervalsQuerySchema>;
+
+export const transactionIntervalSchema = z.object({
+  transaction_id: z.number(),
+  equipment_id: z.number(),
+  equipment_name: z.string(),
+  serial_number: z.string(),
+  transaction_type: transactionTypeSchema, // check_out or booking
+  user_name: z.string(),
+  start: z.coerce.date(), // Check-out date, or the start of the reservation
+  expected_end: z.coerce.date().nullable(),
+  actual_end: z.coerce.date().nullable(), // When a check-out was returned or a booking's hold ended
+  overdue_until: z.coerce.date().nullable(), // End of the overdue period that follows expected_end, if any
+});
+
+export type TransactionInterval = z.infer<typeof transactionIntervalSchema>;
+
+// A department or cost centre that equipment use is charged back to
+export const departmentSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  cost_centre: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+});
+
+export type Department = z.infer<typeof departmentSchema>;
+
+// Input schema for adding a department
+export const createDepartmentInputSchema = z.object({
+  name: z.string().trim().min(1),
+  cost_centre: z.string().trim().nullable().optional(),
+});
+
+export type CreateDepartmentInput = z.infer<typeof createDepartmentInputSchema>;
+
+// Input schema for updating a department
+export const updateDepartmentInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  cost_centre: z.string().trim().nullable().optional(),
+});
+
+export type UpdateDepartmentInput = z.infer<typeof updateDepartmentInputSchema>;
+
+// A person or organisation equipment is lent to
+export const borrowerSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  organisation: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  notes: z.string().nullable(),
+  suspended_at: z.coerce.date().nullable(),
+  suspension_reason: z.string().nullable(),
+  suspended_until: z.coerce.date().nullable(), // Null while suspended means until lifted
+  max_items: z.number().int().nullable(),
+  max_value: z.number().int().nullable(),
+  department_id: z.number().nullable(), // Default department of their loans
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+});
+
+export type Borrower = z.infer<typeof borrowerSchema>;
+
+// Input schema for adding a borrower to the directory
+export const createBorrowerInputSchema = z.object({
+  name: z.string().trim().min(1),
+  organisation: z.string().nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  phone: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  department_id: z.number().nullable().optional(),
+});
+
+export type CreateBorrowerInput = z.infer<typeof createBorrowerInputSchema>;
+
+// Input schema for updating a borrower
+export const updateBorrowerInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  organisation: z.string().nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  phone: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  department_id: z.number().nullable().optional(),
+});
+
+export type UpdateBorrowerInput = z.infer<typeof updateBorrowerInputSchema>;
+
+// Query for the borrower directory, e.g. to autocomplete a check-out form
+export const getBorrowersQuerySchema = z.object({
+  search: z.string().optional(), // Search by name, organisation, email or phone
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+export type GetBorrowersQuery = z.infer<typeof getBorrowersQuerySchema>;
+
+// A transaction of a borrower together with the item it concerns
+export const borrowerTransactionSchema = z.object({
+  transaction: equipmentTransactionSchema,
+  equipment: equipmentSchema,
+});
+
+export type BorrowerTransaction = z.infer<typeof borrowerTransactionSchema>;
+
+// Borrower rule enum
+export const borrowerRuleSchema = z.enum(['suspended', 'item_limit', 'value_limit']);
+
+export type BorrowerRule = z.infer<typeof borrowerRuleSchema>;
+
+// A check-out or booking let through despite a borrower rule
+export const borrowerRuleOverrideSchema = z.object({
+  id: z.number(),
+  borrower_id: z.number(),
+  transaction_id: z.number(),
+  rule: borrowerRuleSchema,
+  detail: z.string(),
+  justification: z.string(),
+  admin_id: z.number(),
+  api_key_id: z.number().nullable(),
+  created_at: z.coerce.date(),
+});
+
+export type BorrowerRuleOverride = z.infer<typeof borrowerRuleOverrideSchema>;
+
+// A borrower's profile: what they currently hold or have booked, and everything they ever borrowed
+export const borrowerProfileSchema = z.object({
+  borrower: borrowerSchema,
+  department: departmentSchema.nullable(),
+  holding: z.array(borrowerTransactionSchema), // Open check-outs and bookings
+  history: z.array(borrowerTransactionSchema), // Newest first
+  overrides: z.array(borrowerRuleOverrideSchema), // Newest first
+});
+
+export type BorrowerProfile = z.infer<typeof borrowerProfileSchema>;
+
+// Rows changed by folding the free-text borrowers of older transactions into the directory
+export const migrateBorrowersResultSchema = z.object({
+  borrowers_created: z.number().int(),
+  transactions_linked: z.number().int(),
+  groups_linked: z.number().int(),
+});
+
+export type MigrateBorrowersResult = z.infer<typeof migrateBorrowersResultSchema>;
+
+// Input schema for suspending a borrower
+export const suspendBorrowerInputSchema = z.object({
+  id: z.number(),
+  reason: z.string().trim().min(1, 'A reason is required'),
+  until: z.coerce.date().nullable().optional(), // Without it the suspension lasts until lifted
+});
+
+export type SuspendBorrowerInput = z.infer<typeof suspendBorrowerInputSchema>;
+
+// Input schema for a borrower's loan limits; null removes a limit
+export const setBorrowerLimitsInputSchema = z.object({
+  id: z.number(),
+  max_items: z.number().int().positive().nullable(),
+  max_value: z.number().int().positive().nullable(),
+});
+
+export type SetBorrowerLimitsInput = z.infer<typeof setBorrowerLimitsInputSchema>;
+
+// A gig or project that reservations and check-outs are allocated to
+export const eventSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  venue: z.string().nullable(),
+  load_in_at: z.coerce.date().nullable(),
+  starts_at: z.coerce.date(),
+  ends_at: z.coerce.date(),
+  crew_lead: z.string().nullable(),
+  notes: z.string().nullable(),
+  returned_at: z.coerce.date().nullable(), // Set by returning everything; items still out after it are missing
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+});
+
+export type Event = z.infer<typeof eventSchema>;
+
+// Input schema for creating an event
+export const createEventInputSchema = z.object({
+  name: z.string().trim().min(1),
+  venue: z.string().nullable().optional(),
+  load_in_at: z.coerce.date().nullable().optional(),
+  starts_at: z.coerce.date(),
+  ends_at: z.coerce.date(),
+  crew_lead: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+}).refine(input => input.ends_at >= input.starts_at, {
+  message: 'An event cannot end before it starts',
+  path: ['ends_at'],
+});
+
+export type CreateEventInput = z.infer<typeof createEventInputSchema>;
+
+// Input schema for updating an event; the dates are checked against the stored ones
+export const updateEventInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  venue: z.string().nullable().optional(),
+  load_in_at: z.coerce.date().nullable().optional(),
+  starts_at: z.coerce.date().optional(),
+  ends_at: z.coerce.date().optional(),
+  crew_lead: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export type UpdateEventInput = z.infer<typeof updateEventInputSchema>;
+
+// Query for the event list
+export const getEventsQuerySchema = z.object({
+  search: z.string().optional(), // Search by name, venue or crew lead
+  upcoming: z.boolean().optional(), // Only events that have not ended yet
+});
+
+export type GetEventsQuery = z.infer<typeof getEventsQuerySchema>;
+
+// Where an item allocated to an event stands
+export const eventItemStatusSchema = z.enum(['reserved', 'picked', 'out', 'returned', 'missing']);
+
+export type EventItemStatus = z.infer<typeof eventItemStatusSchema>;
+
+// An item allocated to an event, through the booking or check-out that allocated it
+export const eventItemSchema = z.object({
+  transaction: equipmentTransactionSchema,
+  equipment: equipmentSchema,
+  status: eventItemStatusSchema,
+});
+
+export type EventItem = z.infer<typeof eventItemSchema>;
+
+// An event with every item allocated to it
+export const eventDetailsSchema = z.object({
+  event: eventSchema,
+  items: z.array(eventItemSchema), // By equipment name and serial number
+});
+
+export type EventDetails = z.infer<typeof eventDetailsSchema>;
+
+// Input schema for marking a reserved item as pulled from storage, or putting it back
+export const pickEventItemInputSchema = z.object({
+  transaction_id: z.number(),
+  picked: z.boolean(),
+});
+
+export type PickEventItemInput = z.infer<typeof pickEventItemInputSchema>;
+
+// Input schema for returning an event's items; equipment_ids lists what came back, and leaving
+// it out returns everything still out. Whatever stays out is missing from then on.
+export const returnEventInputSchema = z.object({
+  event_id: z.number(),
+  equipment_ids: z.array(z.number()).optional(),
+  notes: z.string().nullable().optional(),
+  damage: returnedDamageListSchema.optional(),
+});
+
+export type ReturnEventInput = z.infer<typeof returnEventInputSchema>;
+
+// A cart check-out: one borrower taking several items under a single receipt number
+export const transactionGroupSchema = z.object({
+  id: z.number(),
+  admin_id: z.number(),
+  api_key_id: z.number().nullable(),
+  user_name: z.string(),
+  user_contact: z.string().nullable(),
+  borrower_id: z.number().nullable(),
+  department_id: z.number().nullable(),
+  event_id: z.number().nullable(),
+  notes: z.string().nullable(),
+  expected_return_date: z.coerce.date().nullable(),
+  kit_id: z.number().nullable(), // Set when the group is a kit check-out
+  created_at: z.coerce.date(),
+});
+
+export type TransactionGroup = z.infer<typeof transactionGroupSchema>;
+
+// Input schema for checking out a cart of items at once
+export const checkOutGroupInputSchema = z.object({
+  equipment_ids: z.array(z.number()).min(1)
+    .refine(ids => new Set(ids).size === ids.length, { message: 'Each item can only be in the cart once' }),
+  user_name: z.string().min(1),
+  user_contact: z.string().nullable().optional(),
+  borrower_id: z.number().optional(),
+  department_id: z.number().optional(),
+  event_id: z.number().optional(),
+  override_reason: z.string().trim().min(1).optional(),
+  expected_return_date: z.coerce.date().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export type CheckOutGroupInput = z.infer<typeof checkOutGroupInputSchema>;
+
+// Input schema for returning a group; leaving out equipment_ids returns everything still outstanding
+export const checkInGroupInputSchema = z.object({
+  group_id: z.number(),
+  equipment_ids: z.array(z.number()).min(1)
+    .refine(ids => new Set(ids).size === ids.length, { message: 'Each item can only be returned once' })
+    .optional(),
+  notes: z.string().nullable().optional(),
+  damage: returnedDamageListSchema.optional(),
+});
+
+export type CheckInGroupInput = z.infer<typeof checkInGroupInputSchema>;
+
+export const transactionGroupItemSchema = z.object({
+  equipment: equipmentSchema,
+  check_out: equipmentTransactionSchema,
+});
+
+export type TransactionGroupItem = z.infer<typeof transactionGroupItemSchema>;
+
+// The receipt of a group: every item it took out and the ones not yet returned
+export const transactionGroupDetailsSchema = z.object({
+  group: transactionGroupSchema,
+  items: z.array(transactionGroupItemSchema),
+  outstanding: z.array(equipmentSchema),
+});
+
+export type TransactionGroupDetails = z.infer<typeof transactionGroupDetailsSchema>;
+
+// A fixed bundle of equipment, e.g. "Vocal Kit 3", that moves as one unit
+export const kitSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  serial_number: z.string().nullable(),
+  description: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+});
+
+export type Kit = z.infer<typeof kitSchema>;
+
+const kitMemberIdsSchema = z.array(z.number()).min(1)
+  .refine(ids => new Set(ids).size === ids.length, { message: 'Each item can only be in the kit once' });
+
+// Input schema for creating a kit
+export const createKitInputSchema = z.object({
+  name: z.string().min(1),
+  serial_number: z.string().min(1).nullable().optional(),
+  description: z.string().nullable().optional(),
+  equipment_ids: kitMemberIdsSchema,
+});
+
+export type CreateKitInput = z.infer<typeof createKitInputSchema>;
+
+// Input schema for updating a kit; equipment_ids replaces the whole member list
+export const updateKitInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  serial_number: z.string().min(1).nullable().optional(),
+  description: z.string().nullable().optional(),
+  equipment_ids: kitMemberIdsSchema.optional(),
+});
+
+export type UpdateKitInput = z.infer<typeof updateKitInputSchema>;
+
+// A kit with its members. Its status is the most restrictive status among them, and
+// outstanding lists the members that are checked out or booked.
+export const kitDetailsSchema = z.object({
+  kit: kitSchema,
+  members: z.array(equipmentSchema),
+  status: equipmentStatusSchema,
+  outstanding: z.array(equipmentSchema),
+});
+
+export type KitDetails = z.infer<typeof kitDetailsSchema>;
+
+export const getKitsQuerySchema = z.object({
+  search: z.string().optional(), // Search by kit name, serial number, or description
+});
+
+export type GetKitsQuery = z.infer<typeof getKitsQuerySchema>;
+
+// Input schema for checking out every member of a kit
+export const checkOutKitInputSchema = z.object({
+  kit_id: z.number(),
+  user_name: z.string().min(1),
+  user_contact: z.string().nullable().optional(),
+  borrower_id: z.number().optional(),
+  department_id: z.number().optional(),
+  event_id: z.number().optional(),
+  override_reason: z.string().trim().min(1).optional(),
+  expected_return_date: z.coerce.date().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export type CheckOutKitInput = z.infer<typeof checkOutKitInputSchema>;
+
+// Input schema for booking every member of a kit
+export const bookKitInputSchema = z.object({
+  kit_id: z.number(),
+  user_name: z.string().min(1),
+  user_contact: z.string().nullable().optional(),
+  borrower_id: z.number().optional(),
+  department_id: z.number().optional(),
+  event_id: z.number().optional(),
+  override_reason: z.string().trim().min(1).optional(),
+  expected_return_date: z.coerce.date(),
+  notes: z.string().nullable().optional(),
+});
+
+export type BookKitInput = z.infer<typeof bookKitInputSchema>;
+
+// Input schema for returning a kit; equipment_ids lists the members that came back,
+// and leaving it out returns every outstanding member
+export const checkInKitInputSchema = z.object({
+  kit_id: z.number(),
+  equipment_ids: z.array(z.number()).min(1)
+    .refine(ids => new Set(ids).size === ids.length, { message: 'Each item can only be returned once' })
+    .optional(),
+  notes: z.string().nullable().optional(),
+  damage: returnedDamageListSchema.optional(),
+});
+
+export type CheckInKitInput = z.infer<typeof checkInKitInputSchema>;
+
+// Reminder stage enum: ahead of the due date, on it, and after it
+export const reminderStageSchema = z.enum(['due_soon', 'due', 'overdue']);
+export type ReminderStage = z.infer<typeof reminderStageSchema>;
+
+// A reminder email sent to the borrower of a check-out, or skipped for want of an address
+export const transactionReminderSchema = z.object({
+  id: z.number(),
+  transaction_id: z.number(),
+  stage: reminderStageSchema,
+  overdue_days: z.number().int(), // Days past the due date for overdue reminders, 0 otherwise
+  due_date: z.coerce.date(), // Expected return the reminder was about
+  recipient: z.string().nullable(), // Null when the reminder was skipped
+  subject: z.string(),
+  sent_at: z.coerce.date(),
+});
+
+export type TransactionReminder = z.infer<typeof transactionReminderSchema>;
+
+// An open check-out past its expected return date, with the reminders sent so far
+export const overdueCheckOutSchema = z.object({
+  check_out: equipmentTransactionSchema,
+  equipment: equipmentSchema,
+  reminders: z.array(transactionReminderSchema),
+});
+
+export type OverdueCheckOut = z.infer<typeof overdueCheckOutSchema>;
+
+// What one run of the overdue check did
+export const overdueCheckResultSchema = z.object({
+  marked_overdue: z.number().int(),
+  reminders_sent: z.number().int(),
+  reminders_failed: z.number().int(),
+  reminders_skipped: z.number().int(), // Reached a reminder in this run, but no email address is known for the borrower
+});
+
+export type OverdueCheckResult = z.infer<typeof overdueCheckResultSchema>;
+
+// A change to the expected return of an open check-out or booking, and who approved it
+export const loanExtensionSchema = z.object({
+  id: z.number(),
+  transaction_id: z.number(),
+  admin_id: z.number(),
+  api_key_id: z.number().nullable(),
+  previous_return_date: z.coerce.date().nullable(),
+  new_return_date: z.coerce.date(),
+  reason: z.string(),
+  created_at: z.coerce.date(),
+});
+
+export type LoanExtension = z.infer<typeof loanExtensionSchema>;
+
+// Input schema for moving the expected return of an open check-out or booking
+export const extendLoanInputSchema = z.object({
+  transaction_id: z.number(),
+  expected_return_date: z.coerce.date(),
+  reason: z.string().trim().min(1, 'A reason is required'),
+});
+
+export type ExtendLoanInput = z.infer<typeof extendLoanInputSchema>;
+
+// Query for the extension history of some transactions
+export const getLoanExtensionsQuerySchema = z.object({
+  transaction_ids: z.array(z.number()).min(1),
+});
+
+export type GetLoanExtensionsQuery = z.infer<typeof getLoanExtensionsQuerySchema>;
+
 // Equipment with transaction details (for detailed views)
 export const equipmentWithTransactionsSchema = z.object({
   equipment: equipmentSchema,
   transactions: z.array(equipmentTransactionSchema),
   current_user: z.string().nullable(), // Current user who has the equipment
+  accessories: z.array(equipmentSchema),
+  outstanding_accessories: z.array(equipmentSchema), // Accessories whose check-out stayed open when the item came back
+  extensions: z.array(loanExtensionSchema), // Extensions of the item's transactions, oldest first
 });
 
 export type EquipmentWithTransactions = z.infer<typeof equipmentWithTransactionsSchema>;
@@ -166,9 +1063,89 @@ export type GetEquipmentQuery = z.infer<typeof getEquipmentQuerySchema>;
 export const getTransactionsQuerySchema = z.object({
   equipment_id: z.number().optional(),
   admin_id: z.number().optional(),
+  api_key_id: z.number().optional(),
+  group_id: z.number().optional(),
+  borrower_id: z.number().optional(),
+  department_id: z.number().optional(),
+  event_id: z.number().optional(),
   transaction_type: transactionTypeSchema.optional(),
   start_date: z.coerce.date().optional(),
   end_date: z.coerce.date().optional(),
 });
 
-export type GetTransactionsQuery = z.infer<typeof getTransactionsQuerySchema>;
\ No newline at end of file
+export type GetTransactionsQuery = z.infer<typeof getTransactionsQuerySchema>;
+
+// Query for the charge-back report: the transactions filter's date range, which the report requires
+export const getDepartmentUsageQuerySchema = getTransactionsQuerySchema
+  .pick({ department_id: true, start_date: true, end_date: true })
+  .required({ start_date: true, end_date: true })
+  .refine(query => query.end_date > query.start_date, {
+    message: 'The report period must end after it starts',
+    path: ['end_date'],
+  });
+
+export type GetDepartmentUsageQuery = z.infer<typeof getDepartmentUsageQuerySchema>;
+
+// What one department's check-outs cost over a report period. Check-outs without a department
+// are reported together under a null department.
+export const departmentUsageSchema = z.object({
+  department_id: z.number().nullable(),
+  department_name: z.string().nullable(),
+  cost_centre: z.string().nullable(),
+  check_outs: z.number().int(), // Check-outs that were out at some point in the period
+  item_days: z.number(), // Days items were out within the period, to two decimals
+  overdue_days: z.number(), // Days within the period that items were out past their expected return
+  damage_cost: z.number().int(), // Repair costs of items returned within the period
+});
+
+export type DepartmentUsage = z.infer<typeof departmentUsageSchema>;
+
+// The charge-back report as a CSV file
+export const departmentUsageExportSchema = z.object({
+  filename: z.string(),
+  csv: z.string(),
+});
+
+export type DepartmentUsageExport = z.infer<typeof departmentUsageExportSchema>;
+
+// Which sheet to print: the pull sheet for loading out, or the return checklist for after the show
+export const packingListSheetSchema = z.enum(['pull', 'return']);
+
+export type PackingListSheet = z.infer<typeof packingListSheetSchema>;
+
+const isTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Query for a printable sheet of an event or of a multi-item check-out
+export const getPackingListQuerySchema = z.object({
+  sheet: packingListSheetSchema,
+  event_id: z.number().optional(),
+  group_id: z.number().optional(),
+  time_zone: z.string().refine(isTimeZone, 'Unknown time zone').default('UTC'), // Dates are printed in this IANA zone
+}).refine(query => (query.event_id === undefined) !== (query.group_id === undefined), {
+  message: 'Pick either an event or a check-out group',
+});
+
+export type GetPackingListQuery = z.infer<typeof getPackingListQuerySchema>;
+
+// A printable sheet as an HTML page, styled for printing
+export const packingListHtmlSchema = z.object({
+  filename: z.string(),
+  html: z.string(),
+});
+
+export type PackingListHtml = z.infer<typeof packingListHtmlSchema>;
+
+// A printable sheet as a PDF file
+export const packingListPdfSchema = z.object({
+  filename: z.string(),
+  pdf: z.string(), // Base64, as tRPC responses are JSON
+});
+
+export type PackingListPdf = z.infer<typeof packingListPdfSchema>;
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, apiKeysTable } from '../db/schema';
+import { type Admin } from '../schema';
+import { apiKeyAllows, isApiKeyToken, resolveApiKey } from '../auth/api_keys';
+import { createApiKey } from '../handlers/create_api_key';
+import { eq } from 'drizzle-orm';
+
+describe('API keys', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let clerk: Admin;
+
+  beforeEach(async () => {
+    const admins = await db.insert(adminsTable)
+      .values({ username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' })
+      .returning()
+      .execute();
+    clerk = admins[0];
+  });
+
+  it('should tell keys apart from session tokens', async () => {
+    const { key } = await createApiKey(clerk.id, { name: 'Scanner', scopes: null, expires_at: null });
+
+    expect(isApiKeyToken(key)).toBe(true);
+    expect(isApiKeyToken('c2Vzc2lvbi10b2tlbg')).toBe(false);
+  });
+
+  it('should record when a key was last used', async () => {
+    const { key, api_key } = await createApiKey(clerk.id, { name: 'Scanner', scopes: null, expires_at: null });
+    expect(api_key.last_used_at).toBeNull();
+
+    await resolveApiKey(key);
+
+    const [stored] = await db.select()
+      .from(apiKeysTable)
+      .where(eq(apiKeysTable.id, api_key.id))
+      .execute();
+    expect(stored.last_used_at).toBeInstanceOf(Date);
+  });
+
+  it('should not resolve unknown, expired or disabled-admin keys', async () => {
+    expect(await resolveApiKey('swk_unknown')).toBeNull();
+
+    const { key, api_key } = await createApiKey(clerk.id, { name: 'Scanner', scopes: null, expires_at: null });
+    await db.update(apiKeysTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(apiKeysTable.id, api_key.id))
+      .execute();
+    expect(await resolveApiKey(key)).toBeNull();
+
+    const other = await createApiKey(clerk.id, { name: 'Other', scopes: null, expires_at: null });
+    await db.update(adminsTable)
+      .set({ disabled_at: new Date() })
+      .where(eq(adminsTable.id, clerk.id))
+      .execute();
+    expect(await resolveApiKey(other.key)).toBeNull();
+  });
+
+  it('should limit a key to its scopes and its admin\'s role', async () => {
+    const scoped = await createApiKey(clerk.id, { name: 'Read only', scopes: ['catalog:read'], expires_at: null });
+    const unscoped = await createApiKey(clerk.id, { name: 'Full', scopes: null, expires_at: null });
+
+    expect(apiKeyAllows(clerk, scoped.api_key, 'catalog:read')).toBe(true);
+    expect(apiKeyAllows(clerk, scoped.api_key, 'transactions:write')).toBe(false);
+    expect(apiKeyAllows(clerk, unscoped.api_key, 'transactions:write')).toBe(true);
+    expect(apiKeyAllows(clerk, unscoped.api_key, 'catalog:write')).toBe(false);
+
+    // A role change after creation narrows existing keys too
+    const viewer = { ...clerk, role: 'viewer' as const };
+    expect(apiKeyAllows(viewer, unscoped.api_key, 'transactions:write')).toBe(false);
+  });
+});
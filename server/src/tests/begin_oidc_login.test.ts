@@ -0,0 +1,74 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { oidcLoginStatesTable } from '../db/schema';
+import { beginOidcLogin } from '../handlers/begin_oidc_login';
+import { createCodeChallenge } from '../auth/oidc';
+import { hashSessionToken } from '../auth/session';
+import { startMockOidcProvider, type MockOidcProvider } from '../helpers/mock_oidc_provider';
+
+describe('beginOidcLogin', () => {
+  let provider: MockOidcProvider;
+
+  beforeAll(() => {
+    provider = startMockOidcProvider();
+  });
+  afterAll(() => provider.stop());
+
+  beforeEach(createDB);
+  beforeEach(() => {
+    process.env['OIDC_ISSUER'] = provider.issuer;
+    process.env['OIDC_CLIENT_ID'] = 'warehouse';
+    process.env['OIDC_REDIRECT_URI'] = 'http://localhost:5173/';
+  });
+  afterEach(resetDB);
+  afterEach(() => {
+    delete process.env['OIDC_ISSUER'];
+    delete process.env['OIDC_CLIENT_ID'];
+    delete process.env['OIDC_REDIRECT_URI'];
+  });
+
+  it('should build an authorization URL with PKCE', async () => {
+    const result = await beginOidcLogin();
+
+    const url = new URL(result.authorization_url);
+    expect(`${url.origin}${url.pathname}`).toEqual(`${provider.issuer}/authorize`);
+    expect(url.searchParams.get('response_type')).toEqual('code');
+    expect(url.searchParams.get('client_id')).toEqual('warehouse');
+    expect(url.searchParams.get('redirect_uri')).toEqual('http://localhost:5173/');
+    expect(url.searchParams.get('scope')).toEqual('openid email profile');
+    expect(url.searchParams.get('code_challenge_method')).toEqual('S256');
+
+    const states = await db.select()
+      .from(oidcLoginStatesTable)
+      .execute();
+
+    expect(states).toHaveLength(1);
+    expect(states[0].state_hash).toEqual(hashSessionToken(url.searchParams.get('state')!));
+    expect(states[0].nonce).toEqual(url.searchParams.get('nonce')!);
+    expect(createCodeChallenge(states[0].code_verifier)).toEqual(url.searchParams.get('code_challenge')!);
+    expect(states[0].browser_key_hash).toEqual(hashSessionToken(result.browser_key));
+    expect(states[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should clear expired login states', async () => {
+    await db.insert(oidcLoginStatesTable)
+      .values({ state_hash: 'old', nonce: 'n', code_verifier: 'v', browser_key_hash: 'k', expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    await beginOidcLogin();
+
+    const states = await db.select()
+      .from(oidcLoginStatesTable)
+      .execute();
+
+    expect(states).toHaveLength(1);
+    expect(states[0].state_hash).not.toEqual('old');
+  });
+
+  it('should fail when SSO is not configured', async () => {
+    delete process.env['OIDC_ISSUER'];
+
+    await expect(beginOidcLogin()).rejects.toThrow(/not configured/i);
+  });
+});
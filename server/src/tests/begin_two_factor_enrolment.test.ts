@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, securitySettingsTable } from '../db/schema';
+import { beginTwoFactorEnrolment } from '../handlers/begin_two_factor_enrolment';
+import { eq } from 'drizzle-orm';
+
+describe('beginTwoFactorEnrolment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let managerId: number;
+  let clerkId: number;
+
+  beforeEach(async () => {
+    const admins = await db.insert(adminsTable)
+      .values([
+        { username: 'owner', email: 'owner@test.com', password_hash: 'hash', role: 'owner' },
+        { username: 'manager', email: 'manager@test.com', password_hash: 'hash', role: 'manager' },
+        { username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' }
+      ])
+      .returning()
+      .execute();
+    ownerId = admins[0].id;
+    managerId = admins[1].id;
+    clerkId = admins[2].id;
+  });
+
+  it('should store a pending secret and return its provisioning URI', async () => {
+    const result = await beginTwoFactorEnrolment(ownerId);
+
+    expect(result).not.toBeNull();
+    expect(result!.secret).toMatch(/^[A-Z2-7]+$/);
+    expect(result!.provisioning_uri).toStartWith('otpauth://totp/');
+    expect(result!.provisioning_uri).toContain(`secret=${result!.secret}`);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, ownerId))
+      .execute();
+
+    expect(admins[0].totp_secret).toBe(result!.secret);
+    expect(admins[0].totp_enabled_at).toBeNull(); // Not active until confirmed
+  });
+
+  it('should let managers enrol', async () => {
+    const result = await beginTwoFactorEnrolment(managerId);
+
+    expect(result).not.toBeNull();
+  });
+
+  it('should refuse roles without destructive permissions unless 2FA is required', async () => {
+    await expect(beginTwoFactorEnrolment(clerkId)).rejects.toThrow(/not available for your role/i);
+
+    await db.insert(securitySettingsTable)
+      .values({ id: 1, require_two_factor: true })
+      .execute();
+
+    const result = await beginTwoFactorEnrolment(clerkId);
+    expect(result).not.toBeNull();
+  });
+
+  it('should refuse when two-factor authentication is already enabled', async () => {
+    await db.update(adminsTable)
+      .set({ totp_secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', totp_enabled_at: new Date() })
+      .where(eq(adminsTable.id, ownerId))
+      .execute();
+
+    await expect(beginTwoFactorEnrolment(ownerId)).rejects.toThrow(/already enabled/i);
+  });
+
+  it('should return null for non-existent admin', async () => {
+    const result = await beginTwoFactorEnrolment(99999);
+
+    expect(result).toBeNull();
+  });
+});
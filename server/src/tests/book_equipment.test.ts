@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { equipmentTable, equipmentTransactionsTable, adminsTable, borrowersTable, borrowerRuleOverridesTable, OPEN_BOOKING_INDEX } from '../db/schema';
 import { type BookEquipmentInput } from '../schema';
 import { bookEquipment } from '../handlers/book_equipment';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
 import { eq } from 'drizzle-orm';
 
 describe('bookEquipment', () => {
@@ -43,7 +44,6 @@ describe('bookEquipment', () => {
 
   const testInput: BookEquipmentInput = {
     equipment_id: 1, // Will be overridden in tests
-    admin_id: 1, // Will be overridden in tests
     user_name: 'John Doe',
     user_contact: 'john@example.com',
     expected_return_date: new Date('2024-12-31'),
@@ -53,11 +53,10 @@ describe('bookEquipment', () => {
   it('should book available equipment successfully', async () => {
     const input = {
       ...testInput,
-      equipment_id: testEquipmentId,
-      admin_id: testAdminId
+      equipment_id: testEquipmentId
     };
 
-    const result = await bookEquipment(input);
+    const result = await bookEquipment(input, testAdminId);
 
     // Verify transaction record
     expect(result.equipment_id).toEqual(testEquipmentId);
@@ -76,11 +75,10 @@ describe('bookEquipment', () => {
   it('should update equipment status to booked', async () => {
     const input = {
       ...testInput,
-      equipment_id: testEquipmentId,
-      admin_id: testAdminId
+      equipment_id: testEquipmentId
     };
 
-    await bookEquipment(input);
+    await bookEquipment(input, testAdminId);
 
     // Verify equipment status was updated
     const equipment = await db.select()
@@ -95,11 +93,10 @@ describe('bookEquipment', () => {
   it('should save transaction to database', async () => {
     const input = {
       ...testInput,
-      equipment_id: testEquipmentId,
-      admin_id: testAdminId
+      equipment_id: testEquipmentId
     };
 
-    const result = await bookEquipment(input);
+    const result = await bookEquipment(input, testAdminId);
 
     // Query transaction from database
     const transactions = await db.select()
@@ -121,14 +118,13 @@ describe('bookEquipment', () => {
   it('should handle null optional fields correctly', async () => {
     const input = {
       equipment_id: testEquipmentId,
-      admin_id: testAdminId,
       user_name: 'Jane Smith',
       user_contact: null,
       expected_return_date: new Date('2024-12-25'),
       notes: null
     };
 
-    const result = await bookEquipment(input);
+    const result = await bookEquipment(input, testAdminId);
 
     expect(result.user_contact).toBeNull();
     expect(result.notes).toBeNull();
@@ -139,21 +135,20 @@ describe('bookEquipment', () => {
   it('should throw error when equipment does not exist', async () => {
     const input = {
       ...testInput,
-      equipment_id: 99999, // Non-existent equipment
-      admin_id: testAdminId
+      equipment_id: 99999 // Non-existent equipment
     };
 
-    await expect(bookEquipment(input)).rejects.toThrow(/Equipment with id 99999 not found/i);
+    await expect(bookEquipment(input, testAdminId)).rejects.toThrow(/Equipment with id 99999 not found/i);
   });
 
   it('should throw error when admin does not exist', async () => {
     const input = {
       ...testInput,
-      equipment_id: testEquipmentId,
-      admin_id: 99999 // Non-existent admin
+      equipment_id: testEquipmentId
     };
 
-    await expect(bookEquipment(input)).rejects.toThrow(/Admin with id 99999 not found/i);
+    // Non-existent acting admin
+    await expect(bookEquipment(input, 99999)).rejects.toThrow(/Admin with id 99999 not found/i);
   });
 
   it('should throw error when equipment is not available', async () => {
@@ -165,11 +160,10 @@ describe('bookEquipment', () => {
 
     const input = {
       ...testInput,
-      equipment_id: testEquipmentId,
-      admin_id: testAdminId
+      equipment_id: testEquipmentId
     };
 
-    await expect(bookEquipment(input)).rejects.toThrow(/Equipment is not available for booking. Current status: checked_out/i);
+    await expect(bookEquipment(input, testAdminId)).rejects.toThrow(/Equipment is not available for booking. Current status: checked_out/i);
   });
 
   it('should throw error when equipment is in maintenance', async () => {
@@ -181,11 +175,10 @@ describe('bookEquipment', () => {
 
     const input = {
       ...testInput,
-      equipment_id: testEquipmentId,
-      admin_id: testAdminId
+      equipment_id: testEquipmentId
     };
 
-    await expect(bookEquipment(input)).rejects.toThrow(/Equipment is not available for booking. Current status: maintenance/i);
+    await expect(bookEquipment(input, testAdminId)).rejects.toThrow(/Equipment is not available for booking. Current status: maintenance/i);
   });
 
   it('should throw error when equipment is already booked', async () => {
@@ -193,21 +186,84 @@ describe('bookEquipment', () => {
     const firstBooking = {
       ...testInput,
       equipment_id: testEquipmentId,
-      admin_id: testAdminId,
       user_name: 'First User'
     };
 
-    await bookEquipment(firstBooking);
+    await bookEquipment(firstBooking, testAdminId);
 
     // Try to book the same equipment again
     const secondBooking = {
       ...testInput,
       equipment_id: testEquipmentId,
-      admin_id: testAdminId,
       user_name: 'Second User'
     };
 
-    await expect(bookEquipment(secondBooking)).rejects.toThrow(/Equipment is not available for booking. Current status: booked/i);
+    await expect(bookEquipment(secondBooking, testAdminId)).rejects.toThrow(/Equipment is not available for booking. Current status: booked/i);
+  });
+
+  it('should allow at most one open immediate booking per item at the database level', async () => {
+    const booking = {
+      equipment_id: testEquipmentId,
+      admin_id: testAdminId,
+      transaction_type: 'booking' as const,
+      user_name: 'Walk-in'
+    };
+    await db.insert(equipmentTransactionsTable).values(booking).execute();
+
+    // Cancelled bookings and dated reservations do not hold the item
+    await db.insert(equipmentTransactionsTable)
+      .values([
+        { ...booking, cancelled_at: new Date() },
+        { ...booking, reserved_from: new Date('2030-07-10T08:00:00Z') }
+      ])
+      .execute();
+
+    const second = db.insert(equipmentTransactionsTable).values(booking).execute();
+    await expect(second).rejects.toMatchObject({ code: '23505', constraint: OPEN_BOOKING_INDEX });
+  });
+
+  it('should reject a hold that overlaps an upcoming reservation', async () => {
+    const soon = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    await db.insert(equipmentTransactionsTable)
+      .values({
+        equipment_id: testEquipmentId,
+        admin_id: testAdminId,
+        transaction_type: 'booking',
+        user_name: 'Reserved Crew',
+        reserved_from: soon,
+        expected_return_date: new Date(soon.getTime() + 24 * 60 * 60 * 1000)
+      })
+      .execute();
+
+    const input = {
+      ...testInput,
+      equipment_id: testEquipmentId,
+      expected_return_date: new Date(soon.getTime() + 60 * 60 * 1000)
+    };
+
+    await expect(bookEquipment(input, testAdminId)).rejects.toThrow(/already reserved for this period: #\d+ for Reserved Crew/);
+
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, testEquipmentId))
+      .execute();
+    expect(equipment[0].status).toEqual('available');
+  });
+
+  it('should let only one of concurrent bookings and check-outs succeed', async () => {
+    const results = await Promise.allSettled([
+      bookEquipment({ ...testInput, equipment_id: testEquipmentId, user_name: 'First' }, testAdminId),
+      bookEquipment({ ...testInput, equipment_id: testEquipmentId, user_name: 'Second' }, testAdminId),
+      checkOutEquipment({ equipment_id: testEquipmentId, user_name: 'Third' }, testAdminId)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const transactions = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.equipment_id, testEquipmentId))
+      .execute();
+    expect(transactions).toHaveLength(1);
   });
 
   it('should handle different equipment statuses correctly', async () => {
@@ -222,13 +278,47 @@ describe('bookEquipment', () => {
 
       const input = {
         ...testInput,
-        equipment_id: testEquipmentId,
-        admin_id: testAdminId
+        equipment_id: testEquipmentId
       };
 
-      await expect(bookEquipment(input)).rejects.toThrow(
+      await expect(bookEquipment(input, testAdminId)).rejects.toThrow(
         new RegExp(`Equipment is not available for booking. Current status: ${status}`, 'i')
       );
     }
   });
-});
\ No newline at end of file
+
+  it('should refuse a booking over the borrower\'s value limit unless overridden', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'John Doe', max_value: 2000 })
+      .returning()
+      .execute();
+    await db.update(equipmentTable)
+      .set({ replacement_value: 3500 })
+      .where(eq(equipmentTable.id, testEquipmentId))
+      .execute();
+    const input = { ...testInput, equipment_id: testEquipmentId, borrower_id: borrower.id };
+
+    await expect(bookEquipment(input, testAdminId))
+      .rejects.toThrow('Loan refused: John Doe may hold equipment worth at most 2000 at once; they hold 0 and this adds 3500');
+
+    const result = await bookEquipment({ ...input, override_reason: 'Insured by the client' }, testAdminId);
+
+    const overrides = await db.select().from(borrowerRuleOverridesTable).execute();
+    expect(overrides).toHaveLength(1);
+    expect(overrides[0].rule).toEqual('value_limit');
+    expect(overrides[0].transaction_id).toEqual(result.id);
+  });
+
+  it('should refuse a suspended borrower', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'John Doe', suspended_at: new Date(), suspension_reason: 'Unpaid repair' })
+      .returning()
+      .execute();
+
+    await expect(bookEquipment({ ...testInput, equipment_id: testEquipmentId, borrower_id: borrower.id }, testAdminId))
+      .rejects.toThrow('Loan refused: John Doe is suspended: Unpaid repair');
+
+    const equipment = await db.select().from(equipmentTable).where(eq(equipmentTable.id, testEquipmentId)).execute();
+    expect(equipment[0].status).toEqual('available');
+  });
+});
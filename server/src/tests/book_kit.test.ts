@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { createKit } from '../handlers/create_kit';
+import { bookKit } from '../handlers/book_kit';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { eq, inArray } from 'drizzle-orm';
+
+describe('bookKit', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let equipmentIds: number[];
+  let kitId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'IEM Receiver', serial_number: 'IEM001', category: 'Wireless' },
+        { name: 'IEM Transmitter', serial_number: 'IEM002', category: 'Wireless' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+
+    const kit = await createKit({ name: 'IEM Pack B', equipment_ids: equipmentIds });
+    kitId = kit.kit.id;
+  });
+
+  const expectedReturn = () => new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+
+  it('should put a hold on every member', async () => {
+    const result = await bookKit({ kit_id: kitId, user_name: 'Drummer', expected_return_date: expectedReturn() }, adminId);
+
+    expect(result.status).toEqual('booked');
+    expect(result.outstanding).toHaveLength(2);
+
+    const bookings = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(inArray(equipmentTransactionsTable.equipment_id, equipmentIds))
+      .execute();
+    expect(bookings).toHaveLength(2);
+    bookings.forEach(booking => {
+      expect(booking.transaction_type).toEqual('booking');
+      expect(booking.user_name).toEqual('Drummer');
+      expect(booking.reserved_from).toBeNull();
+    });
+  });
+
+  it('should book nothing when a member is unavailable', async () => {
+    await db.update(equipmentTable)
+      .set({ status: 'maintenance' })
+      .where(eq(equipmentTable.id, equipmentIds[0]))
+      .execute();
+
+    await expect(bookKit({ kit_id: kitId, user_name: 'Drummer', expected_return_date: expectedReturn() }, adminId))
+      .rejects.toThrow('Some equipment is not available: IEM001 (maintenance)');
+
+    expect(await db.select().from(equipmentTransactionsTable).execute()).toHaveLength(0);
+  });
+
+  it('should book nothing when a member is already reserved for the period', async () => {
+    await reserveEquipment({
+      equipment_id: equipmentIds[1],
+      user_name: 'Keys Player',
+      start_date: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      end_date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)
+    }, adminId);
+
+    await expect(bookKit({ kit_id: kitId, user_name: 'Drummer', expected_return_date: expectedReturn() }, adminId))
+      .rejects.toThrow(/Equipment is already reserved for this period/);
+
+    const equipment = await db.select().from(equipmentTable).execute();
+    equipment.forEach(item => expect(item.status).toEqual('available'));
+  });
+
+  it('should throw error for non-existent kit', async () => {
+    await expect(bookKit({ kit_id: 99999, user_name: 'Drummer', expected_return_date: expectedReturn() }, adminId))
+      .rejects.toThrow(/Kit with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { cancelReservation } from '../handlers/cancel_reservation';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { bookEquipment } from '../handlers/book_equipment';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
+import { pickUpReservation } from '../handlers/pick_up_reservation';
+import { createApiKey } from '../handlers/create_api_key';
+import { eq } from 'drizzle-orm';
+
+describe('cancelReservation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let equipmentId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({
+        username: 'testadmin',
+        email: 'admin@test.com',
+        password_hash: 'hashedpassword'
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [equipment] = await db.insert(equipmentTable)
+      .values({
+        name: 'Mixing Console',
+        serial_number: 'MIX001',
+        category: 'Mixers',
+        status: 'available'
+      })
+      .returning()
+      .execute();
+    equipmentId = equipment.id;
+  });
+
+  const reserve = (userName = 'Festival Crew') => reserveEquipment({
+    equipment_id: equipmentId,
+    user_name: userName,
+    start_date: new Date('2030-07-10T08:00:00Z'),
+    end_date: new Date('2030-07-14T18:00:00Z')
+  }, adminId);
+
+  const getEquipmentStatus = async () => {
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, equipmentId))
+      .execute();
+    return equipment[0].status;
+  };
+
+  it('should release a dated reservation without recording a check-in', async () => {
+    const booking = await reserve();
+
+    const result = await cancelReservation(booking.id, adminId);
+
+    expect(result).not.toBeNull();
+    expect(result!.cancelled_at).toBeInstanceOf(Date);
+    expect(result!.actual_return_date).toBeInstanceOf(Date);
+
+    const transactions = await db.select()
+      .from(equipmentTransactionsTable)
+      .execute();
+    expect(transactions).toHaveLength(1);
+    expect(await getEquipmentStatus()).toEqual('available');
+  });
+
+  it('should free the window for a new reservation', async () => {
+    const booking = await reserve();
+    await cancelReservation(booking.id, adminId);
+
+    const replacement = await reserve('Replacement Crew');
+    expect(replacement.user_name).toEqual('Replacement Crew');
+  });
+
+  it('should record which admin cancelled the reservation', async () => {
+    const booking = await reserve();
+    const [manager] = await db.insert(adminsTable)
+      .values({ username: 'manager', email: 'manager@test.com', password_hash: 'hashedpassword', role: 'manager' })
+      .returning()
+      .execute();
+
+    const result = await cancelReservation(booking.id, manager.id);
+
+    expect(result!.admin_id).toEqual(adminId);
+    expect(result!.cancelled_by).toEqual(manager.id);
+
+    // Cancelling again keeps the original record
+    const again = await cancelReservation(booking.id, adminId);
+    expect(again!.cancelled_by).toEqual(manager.id);
+  });
+
+  it('should record the API key used for the cancellation', async () => {
+    const booking = await reserve();
+    const { api_key } = await createApiKey(adminId, { name: 'Scanner', scopes: null, expires_at: null });
+
+    const result = await cancelReservation(booking.id, adminId, api_key.id);
+
+    expect(result!.cancelled_by).toEqual(adminId);
+    expect(result!.cancelled_by_api_key_id).toEqual(api_key.id);
+  });
+
+  it('should make an item held by an immediate booking available again', async () => {
+    const booking = await bookEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Walk-in',
+      expected_return_date: new Date(Date.now() + 24 * 60 * 60 * 1000)
+    }, adminId);
+
+    await cancelReservation(booking.id, adminId);
+
+    expect(await getEquipmentStatus()).toEqual('available');
+  });
+
+  it('should leave a checked-out item alone when cancelling its future reservation', async () => {
+    const booking = await reserve();
+    await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Touring Band', expected_return_date: new Date('2030-07-01T00:00:00Z') }, adminId);
+
+    await cancelReservation(booking.id, adminId);
+
+    expect(await getEquipmentStatus()).toEqual('checked_out');
+  });
+
+  it('should return an already cancelled reservation unchanged', async () => {
+    const booking = await reserve();
+    const first = await cancelReservation(booking.id, adminId);
+    const second = await cancelReservation(booking.id, adminId);
+
+    expect(second!.cancelled_at).toEqual(first!.cancelled_at);
+  });
+
+  it('should refuse to cancel a reservation that was picked up', async () => {
+    const booking = await reserve();
+    await pickUpReservation({ booking_id: booking.id }, adminId);
+
+    await expect(cancelReservation(booking.id, adminId))
+      .rejects.toThrow(`Reservation #${booking.id} has already been picked up or released`);
+    expect(await getEquipmentStatus()).toEqual('checked_out');
+  });
+
+  it('should return null for non-existent or non-booking transactions', async () => {
+    const checkOut = await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Someone' }, adminId);
+
+    expect(await cancelReservation(99999, adminId)).toBeNull();
+    expect(await cancelReservation(checkOut.id, adminId)).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type ChangePasswordInput } from '../schema';
+import { changePassword } from '../handlers/change_password';
+import { createSession, resolveSession } from '../auth/session';
+import { verifyPassword } from '../auth/credentials';
+import { eq } from 'drizzle-orm';
+
+const testInput: ChangePasswordInput = {
+  current_password: 'oldpassword',
+  new_password: 'newpassword123'
+};
+
+describe('changePassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+
+  beforeEach(async () => {
+    const adminResult = await db.insert(adminsTable)
+      .values({
+        username: 'testadmin',
+        email: 'admin@test.com',
+        password_hash: await Bun.password.hash('oldpassword')
+      })
+      .returning()
+      .execute();
+    adminId = adminResult[0].id;
+  });
+
+  it('should change the password', async () => {
+    const { token } = await createSession(adminId);
+
+    const result = await changePassword(adminId, testInput, token);
+
+    expect(result).toBe(true);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    expect((await verifyPassword('newpassword123', admins[0].password_hash)).valid).toBe(true);
+    expect((await verifyPassword('oldpassword', admins[0].password_hash)).valid).toBe(false);
+  });
+
+  it('should keep the current session and revoke the others', async () => {
+    const current = await createSession(adminId);
+    const other = await createSession(adminId);
+
+    await changePassword(adminId, testInput, current.token);
+
+    expect(await resolveSession(current.token)).not.toBeNull();
+    expect(await resolveSession(other.token)).toBeNull();
+  });
+
+  it('should reject an incorrect current password', async () => {
+    const { token } = await createSession(adminId);
+
+    await expect(changePassword(adminId, { ...testInput, current_password: 'wrong' }, token))
+      .rejects.toThrow(/current password is incorrect/i);
+  });
+
+  it('should throw error when admin does not exist', async () => {
+    await expect(changePassword(99999, testInput, 'token')).rejects.toThrow(/Admin with id 99999 not found/i);
+  });
+});
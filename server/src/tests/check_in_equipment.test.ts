@@ -54,7 +54,6 @@ const setupTestData = async () => {
 
 const testInput: CheckInEquipmentInput = {
   equipment_id: 1, // Will be updated with actual ID
-  admin_id: 1, // Will be updated with actual ID
   notes: 'Equipment returned in good condition',
 };
 
@@ -68,10 +67,9 @@ describe('checkInEquipment', () => {
     const input = {
       ...testInput,
       equipment_id: equipment.id,
-      admin_id: admin.id,
     };
 
-    const result = await checkInEquipment(input);
+    const result = await checkInEquipment(input, admin.id);
 
     // Verify check-in transaction fields
     expect(result.equipment_id).toEqual(equipment.id);
@@ -93,10 +91,9 @@ describe('checkInEquipment', () => {
     const input = {
       ...testInput,
       equipment_id: equipment.id,
-      admin_id: admin.id,
     };
 
-    await checkInEquipment(input);
+    await checkInEquipment(input, admin.id);
 
     // Verify equipment status was updated
     const updatedEquipment = await db.select()
@@ -114,10 +111,9 @@ describe('checkInEquipment', () => {
     const input = {
       ...testInput,
       equipment_id: equipment.id,
-      admin_id: admin.id,
     };
 
-    await checkInEquipment(input);
+    await checkInEquipment(input, admin.id);
 
     // Verify the original check-out transaction was updated
     const updatedTransaction = await db.select()
@@ -141,10 +137,9 @@ describe('checkInEquipment', () => {
     const input = {
       ...testInput,
       equipment_id: equipment.id,
-      admin_id: admin.id,
     };
 
-    const result = await checkInEquipment(input);
+    const result = await checkInEquipment(input, admin.id);
 
     expect(result.transaction_type).toEqual('check_in');
     
@@ -162,11 +157,10 @@ describe('checkInEquipment', () => {
     
     const input = {
       equipment_id: equipment.id,
-      admin_id: admin.id,
       notes: null,
     };
 
-    const result = await checkInEquipment(input);
+    const result = await checkInEquipment(input, admin.id);
 
     expect(result.notes).toBeNull();
   });
@@ -177,10 +171,9 @@ describe('checkInEquipment', () => {
     const input = {
       ...testInput,
       equipment_id: 99999, // Non-existent equipment ID
-      admin_id: admin.id,
     };
 
-    expect(checkInEquipment(input)).rejects.toThrow(/equipment.*not found/i);
+    expect(checkInEquipment(input, admin.id)).rejects.toThrow(/equipment.*not found/i);
   });
 
   it('should throw error when equipment is already available', async () => {
@@ -195,10 +188,9 @@ describe('checkInEquipment', () => {
     const input = {
       ...testInput,
       equipment_id: equipment.id,
-      admin_id: admin.id,
     };
 
-    expect(checkInEquipment(input)).rejects.toThrow(/currently available.*cannot check in/i);
+    expect(checkInEquipment(input, admin.id)).rejects.toThrow(/currently available.*cannot check in/i);
   });
 
   it('should throw error when equipment is in maintenance', async () => {
@@ -213,10 +205,9 @@ describe('checkInEquipment', () => {
     const input = {
       ...testInput,
       equipment_id: equipment.id,
-      admin_id: admin.id,
     };
 
-    expect(checkInEquipment(input)).rejects.toThrow(/currently maintenance.*cannot check in/i);
+    expect(checkInEquipment(input, admin.id)).rejects.toThrow(/currently maintenance.*cannot check in/i);
   });
 
   it('should save check-in transaction to database', async () => {
@@ -225,10 +216,9 @@ describe('checkInEquipment', () => {
     const input = {
       ...testInput,
       equipment_id: equipment.id,
-      admin_id: admin.id,
     };
 
-    const result = await checkInEquipment(input);
+    const result = await checkInEquipment(input, admin.id);
 
     // Verify transaction was saved to database
     const savedTransaction = await db.select()
@@ -243,6 +233,54 @@ describe('checkInEquipment', () => {
     expect(savedTransaction[0].user_name).toEqual('System');
   });
 
+  it('should let only one of two concurrent check-ins succeed', async () => {
+    const { admin, equipment } = await setupTestData();
+
+    const input = {
+      ...testInput,
+      equipment_id: equipment.id,
+    };
+
+    const results = await Promise.allSettled([
+      checkInEquipment(input, admin.id),
+      checkInEquipment(input, admin.id)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason.message).toMatch(/currently available, cannot check in/i);
+
+    const checkIns = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.transaction_type, 'check_in'))
+      .execute();
+    expect(checkIns).toHaveLength(1);
+  });
+
+  it('should keep the item checked out when recording the check-in fails', async () => {
+    const { admin, equipment, checkOutTransaction } = await setupTestData();
+
+    const input = {
+      ...testInput,
+      equipment_id: equipment.id,
+    };
+
+    // A missing API key violates a foreign key on the final insert
+    await expect(checkInEquipment(input, admin.id, 99999)).rejects.toThrow();
+
+    const updatedEquipment = await db.select()
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, equipment.id))
+      .execute();
+    expect(updatedEquipment[0].status).toEqual('checked_out');
+
+    const openCheckOut = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.id, checkOutTransaction.id))
+      .execute();
+    expect(openCheckOut[0].actual_return_date).toBeNull();
+  });
+
   it('should handle multiple transactions correctly', async () => {
     const { admin, equipment, checkOutTransaction } = await setupTestData();
     
@@ -277,10 +315,9 @@ describe('checkInEquipment', () => {
     const input = {
       ...testInput,
       equipment_id: equipment.id,
-      admin_id: admin.id,
     };
 
-    await checkInEquipment(input);
+    await checkInEquipment(input, admin.id);
 
     // Verify only the most recent transaction was updated
     const updatedSecondTransaction = await db.select()
@@ -291,4 +328,77 @@ describe('checkInEquipment', () => {
     expect(updatedSecondTransaction[0].actual_return_date).toBeInstanceOf(Date);
     expect(updatedSecondTransaction[0].actual_return_date).not.toBeNull();
   });
-});
\ No newline at end of file
+
+  it('should check in the accessories that came back and leave the rest checked out', async () => {
+    const { admin, equipment } = await setupTestData();
+    const accessories = await db.insert(equipmentTable)
+      .values([
+        { name: 'Antenna', serial_number: 'ANT001', category: 'Wireless', parent_id: equipment.id, status: 'checked_out' },
+        { name: 'PSU', serial_number: 'PSU001', category: 'Wireless', parent_id: equipment.id, status: 'checked_out' }
+      ])
+      .returning()
+      .execute();
+    await db.insert(equipmentTransactionsTable)
+      .values(accessories.map(accessory => ({
+        equipment_id: accessory.id,
+        admin_id: admin.id,
+        transaction_type: 'check_out' as const,
+        user_name: 'John Doe'
+      })))
+      .execute();
+
+    const result = await checkInEquipment({ equipment_id: equipment.id, accessory_ids: [accessories[0].id] }, admin.id);
+    expect(result.equipment_id).toEqual(equipment.id);
+
+    const items = await db.select().from(equipmentTable).execute();
+    expect(items.find(item => item.id === equipment.id)!.status).toEqual('available');
+    expect(items.find(item => item.id === accessories[0].id)!.status).toEqual('available');
+    expect(items.find(item => item.id === accessories[1].id)!.status).toEqual('checked_out');
+
+    const openCheckOuts = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(
+        and(
+          eq(equipmentTransactionsTable.transaction_type, 'check_out'),
+          isNull(equipmentTransactionsTable.actual_return_date)
+        )
+      )
+      .execute();
+    expect(openCheckOuts.map(checkOut => checkOut.equipment_id)).toEqual([accessories[1].id]);
+  });
+
+  it('should reject an accessory that is not checked out', async () => {
+    const { admin, equipment } = await setupTestData();
+    const [accessory] = await db.insert(equipmentTable)
+      .values({ name: 'Antenna', serial_number: 'ANT001', category: 'Wireless', parent_id: equipment.id })
+      .returning()
+      .execute();
+
+    await expect(checkInEquipment({ equipment_id: equipment.id, accessory_ids: [accessory.id] }, admin.id))
+      .rejects.toThrow('Accessory ANT001 is available');
+
+    const items = await db.select().from(equipmentTable).where(eq(equipmentTable.id, equipment.id)).execute();
+    expect(items[0].status).toEqual('checked_out');
+  });
+
+  it('should record damage on the check-out that came back', async () => {
+    const { admin, equipment, checkOutTransaction } = await setupTestData();
+
+    const checkIn = await checkInEquipment({ equipment_id: equipment.id, damage_cost: 120, notes: 'Cracked screen' }, admin.id);
+    expect(checkIn.damage_cost).toBeNull();
+
+    const checkOuts = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.id, checkOutTransaction.id))
+      .execute();
+    expect(checkOuts[0].damage_cost).toEqual(120);
+  });
+
+  it('should refuse damage on a booked item', async () => {
+    const { admin, equipment } = await setupTestData();
+    await db.update(equipmentTable).set({ status: 'booked' }).where(eq(equipmentTable.id, equipment.id)).execute();
+
+    await expect(checkInEquipment({ equipment_id: equipment.id, damage_cost: 50 }, admin.id))
+      .rejects.toThrow('Damage can only be recorded when checked-out equipment comes back');
+  });
+});
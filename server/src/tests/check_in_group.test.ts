@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { checkInGroupInputSchema } from '../schema';
+import { checkOutGroup } from '../handlers/check_out_group';
+import { checkInGroup } from '../handlers/check_in_group';
+import { checkInEquipment } from '../handlers/check_in_equipment';
+import { getTransactionGroup } from '../handlers/get_transaction_group';
+import { eq } from 'drizzle-orm';
+
+describe('checkInGroup', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let micId: number;
+  let diId: number;
+  let standId: number;
+  let groupId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [mic, di, stand] = await db.insert(equipmentTable)
+      .values([
+        { name: 'Vocal Mic', serial_number: 'MIC001', category: 'Microphones' },
+        { name: 'DI Box', serial_number: 'DI001', category: 'DI Boxes' },
+        { name: 'Mic Stand', serial_number: 'STD001', category: 'Stands' }
+      ])
+      .returning()
+      .execute();
+    micId = mic.id;
+    diId = di.id;
+    standId = stand.id;
+
+    const group = await checkOutGroup({ equipment_ids: [micId, diId, standId], user_name: 'Friday Gig' }, adminId);
+    groupId = group.group.id;
+  });
+
+  const getStatus = async (id: number) => {
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, id))
+      .execute();
+    return equipment[0].status;
+  };
+
+  it('should return part of a group and list what is still outstanding', async () => {
+    const result = await checkInGroup({ group_id: groupId, equipment_ids: [micId], notes: 'First batch' }, adminId);
+
+    expect(result!.outstanding.map(item => item.serial_number)).toEqual(['DI001', 'STD001']);
+    expect(result!.items.find(item => item.equipment.id === micId)!.check_out.actual_return_date).toBeInstanceOf(Date);
+    expect(await getStatus(micId)).toEqual('available');
+    expect(await getStatus(diId)).toEqual('checked_out');
+
+    const checkIns = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.transaction_type, 'check_in'))
+      .execute();
+    expect(checkIns).toHaveLength(1);
+    expect(checkIns[0].group_id).toEqual(groupId);
+    expect(checkIns[0].notes).toEqual('First batch');
+  });
+
+  it('should return everything outstanding when no items are named', async () => {
+    await checkInGroup({ group_id: groupId, equipment_ids: [micId] }, adminId);
+
+    const result = await checkInGroup({ group_id: groupId }, adminId);
+
+    expect(result!.outstanding).toHaveLength(0);
+    expect(await getStatus(diId)).toEqual('available');
+    expect(await getStatus(standId)).toEqual('available');
+
+    const checkIns = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.transaction_type, 'check_in'))
+      .execute();
+    expect(checkIns).toHaveLength(3);
+  });
+
+  it('should count single-item check-ins as returns of the group', async () => {
+    await checkInEquipment({ equipment_id: diId }, adminId);
+
+    const group = await getTransactionGroup(groupId);
+    expect(group!.outstanding.map(item => item.serial_number)).toEqual(['STD001', 'MIC001']);
+
+    const checkIn = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.transaction_type, 'check_in'))
+      .execute();
+    expect(checkIn[0].group_id).toEqual(groupId);
+  });
+
+  it('should reject items that are not outstanding in the group', async () => {
+    await checkInGroup({ group_id: groupId, equipment_ids: [micId] }, adminId);
+
+    await expect(checkInGroup({ group_id: groupId, equipment_ids: [micId, diId] }, adminId))
+      .rejects.toThrow(`Equipment is not outstanding in group #${groupId}: ${micId}`);
+
+    // Nothing from the rejected request was returned
+    expect(await getStatus(diId)).toEqual('checked_out');
+  });
+
+  it('should charge damage to the check-outs of the items it was found on', async () => {
+    const result = await checkInGroup({
+      group_id: groupId,
+      equipment_ids: [micId, diId],
+      damage: [{ equipment_id: diId, damage_cost: 40 }]
+    }, adminId);
+
+    const damageOf = (id: number) => result!.items.find(item => item.equipment.id === id)!.check_out.damage_cost;
+    expect(damageOf(diId)).toEqual(40);
+    expect(damageOf(micId)).toBeNull();
+  });
+
+  it('should reject damage on an item that is not coming back', async () => {
+    await expect(checkInGroup({
+      group_id: groupId,
+      equipment_ids: [micId],
+      damage: [{ equipment_id: diId, damage_cost: 40 }]
+    }, adminId)).rejects.toThrow(`Damage recorded for equipment that is not being returned: ${diId}`);
+
+    expect(await getStatus(micId)).toEqual('checked_out');
+  });
+
+  it('should reject an item named twice', () => {
+    const result = checkInGroupInputSchema.safeParse({ group_id: groupId, equipment_ids: [micId, micId] });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toEqual('Each item can only be returned once');
+  });
+
+  it('should return the receipt unchanged once everything is back', async () => {
+    await checkInGroup({ group_id: groupId }, adminId);
+    const result = await checkInGroup({ group_id: groupId }, adminId);
+
+    expect(result!.outstanding).toHaveLength(0);
+    const checkIns = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.transaction_type, 'check_in'))
+      .execute();
+    expect(checkIns).toHaveLength(3);
+  });
+
+  it('should return null for a non-existent group', async () => {
+    expect(await checkInGroup({ group_id: 99999 }, adminId)).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { checkInKitInputSchema } from '../schema';
+import { createKit } from '../handlers/create_kit';
+import { checkOutKit } from '../handlers/check_out_kit';
+import { bookKit } from '../handlers/book_kit';
+import { checkInKit } from '../handlers/check_in_kit';
+import { asc, eq } from 'drizzle-orm';
+
+describe('checkInKit', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let equipmentIds: number[];
+  let kitId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'SM58', serial_number: 'MIC001', category: 'Microphones' },
+        { name: 'XLR 10m', serial_number: 'XLR001', category: 'Cables' },
+        { name: 'Mic Stand', serial_number: 'STD001', category: 'Stands' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+
+    const kit = await createKit({ name: 'Vocal Kit 3', equipment_ids: equipmentIds });
+    kitId = kit.kit.id;
+  });
+
+  const checkIns = () => db.select()
+    .from(equipmentTransactionsTable)
+    .where(eq(equipmentTransactionsTable.transaction_type, 'check_in'))
+    .execute();
+
+  it('should return every member of a checked out kit', async () => {
+    const receipt = await checkOutKit({ kit_id: kitId, user_name: 'Friday Gig' }, adminId);
+
+    const result = await checkInKit({ kit_id: kitId, notes: 'All good' }, adminId);
+
+    expect(result!.status).toEqual('available');
+    expect(result!.outstanding).toHaveLength(0);
+
+    const records = await checkIns();
+    expect(records).toHaveLength(3);
+    records.forEach(record => {
+      expect(record.group_id).toEqual(receipt.group.id);
+      expect(record.notes).toEqual('All good');
+    });
+
+    const checkOuts = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.transaction_type, 'check_out'))
+      .execute();
+    checkOuts.forEach(checkOut => expect(checkOut.actual_return_date).toBeInstanceOf(Date));
+  });
+
+  it('should leave missing members outstanding', async () => {
+    await checkOutKit({ kit_id: kitId, user_name: 'Friday Gig' }, adminId);
+
+    const result = await checkInKit({ kit_id: kitId, equipment_ids: [equipmentIds[0], equipmentIds[2]] }, adminId);
+
+    expect(result!.status).toEqual('checked_out');
+    expect(result!.outstanding.map(member => member.serial_number)).toEqual(['XLR001']);
+    expect(await checkIns()).toHaveLength(2);
+
+    const final = await checkInKit({ kit_id: kitId }, adminId);
+    expect(final!.status).toEqual('available');
+    expect(await checkIns()).toHaveLength(3);
+  });
+
+  it('should release the holds of a booked kit', async () => {
+    await bookKit({ kit_id: kitId, user_name: 'Friday Gig', expected_return_date: new Date(Date.now() + 24 * 60 * 60 * 1000) }, adminId);
+
+    const result = await checkInKit({ kit_id: kitId }, adminId);
+
+    expect(result!.status).toEqual('available');
+    const bookings = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.transaction_type, 'booking'))
+      .execute();
+    expect(bookings).toHaveLength(3);
+    bookings.forEach(booking => expect(booking.actual_return_date).toBeInstanceOf(Date));
+  });
+
+  it('should charge damage to the check-out of a damaged member', async () => {
+    await checkOutKit({ kit_id: kitId, user_name: 'Friday Gig' }, adminId);
+
+    await checkInKit({ kit_id: kitId, damage: [{ equipment_id: equipmentIds[1], damage_cost: 15 }] }, adminId);
+
+    const checkOuts = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.transaction_type, 'check_out'))
+      .orderBy(asc(equipmentTransactionsTable.equipment_id))
+      .execute();
+    expect(checkOuts.map(checkOut => [checkOut.equipment_id, checkOut.damage_cost])).toEqual([
+      [equipmentIds[0], null],
+      [equipmentIds[1], 15],
+      [equipmentIds[2], null],
+    ]);
+  });
+
+  it('should refuse damage on the members of a booked kit', async () => {
+    await bookKit({ kit_id: kitId, user_name: 'Friday Gig', expected_return_date: new Date(Date.now() + 24 * 60 * 60 * 1000) }, adminId);
+
+    await expect(checkInKit({ kit_id: kitId, damage: [{ equipment_id: equipmentIds[0], damage_cost: 15 }] }, adminId))
+      .rejects.toThrow(`Damage can only be recorded when checked-out equipment comes back: ${equipmentIds[0]}`);
+    expect(await checkIns()).toHaveLength(0);
+  });
+
+  it('should reject members that are not out', async () => {
+    await checkOutKit({ kit_id: kitId, user_name: 'Friday Gig' }, adminId);
+    await checkInKit({ kit_id: kitId, equipment_ids: [equipmentIds[0]] }, adminId);
+
+    await expect(checkInKit({ kit_id: kitId, equipment_ids: [equipmentIds[0]] }, adminId))
+      .rejects.toThrow(`Equipment is not out with kit "Vocal Kit 3": ${equipmentIds[0]}`);
+  });
+
+  it('should reject a member named twice', () => {
+    const result = checkInKitInputSchema.safeParse({ kit_id: kitId, equipment_ids: [equipmentIds[0], equipmentIds[0]] });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toEqual('Each item can only be returned once');
+  });
+
+  it('should reject a kit that is not out', async () => {
+    await expect(checkInKit({ kit_id: kitId }, adminId))
+      .rejects.toThrow('Kit "Vocal Kit 3" is not checked out or booked, cannot check in');
+  });
+
+  it('should return null for a non-existent kit', async () => {
+    expect(await checkInKit({ kit_id: 99999 }, adminId)).toBeNull();
+  });
+});
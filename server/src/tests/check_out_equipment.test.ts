@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { adminsTable, equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { adminsTable, borrowerRuleOverridesTable, borrowersTable, departmentsTable, equipmentTable, equipmentTransactionsTable, eventsTable } from '../db/schema';
 import { type CheckOutEquipmentInput } from '../schema';
 import { checkOutEquipment } from '../handlers/check_out_equipment';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { createApiKey } from '../handlers/create_api_key';
 import { eq } from 'drizzle-orm';
 
 // Test data
@@ -25,7 +27,6 @@ const testEquipment = {
 
 const testInput: CheckOutEquipmentInput = {
   equipment_id: 1, // Will be set after equipment creation
-  admin_id: 1, // Will be set after admin creation
   user_name: 'John Doe',
   user_contact: 'john.doe@email.com',
   expected_return_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
@@ -55,12 +56,11 @@ describe('checkOutEquipment', () => {
     equipmentId = equipmentResult[0].id;
 
     // Update test input with created IDs
-    testInput.admin_id = adminId;
     testInput.equipment_id = equipmentId;
   });
 
   it('should check out available equipment successfully', async () => {
-    const result = await checkOutEquipment(testInput);
+    const result = await checkOutEquipment(testInput, adminId);
 
     // Verify transaction record
     expect(result.equipment_id).toEqual(equipmentId);
@@ -77,7 +77,7 @@ describe('checkOutEquipment', () => {
   });
 
   it('should update equipment status to checked_out', async () => {
-    await checkOutEquipment(testInput);
+    await checkOutEquipment(testInput, adminId);
 
     // Verify equipment status was updated
     const equipment = await db.select()
@@ -91,7 +91,7 @@ describe('checkOutEquipment', () => {
   });
 
   it('should save transaction to database', async () => {
-    const result = await checkOutEquipment(testInput);
+    const result = await checkOutEquipment(testInput, adminId);
 
     // Verify transaction was saved
     const transactions = await db.select()
@@ -109,11 +109,10 @@ describe('checkOutEquipment', () => {
   it('should handle optional fields correctly', async () => {
     const minimalInput: CheckOutEquipmentInput = {
       equipment_id: equipmentId,
-      admin_id: adminId,
       user_name: 'Jane Smith'
     };
 
-    const result = await checkOutEquipment(minimalInput);
+    const result = await checkOutEquipment(minimalInput, adminId);
 
     expect(result.user_name).toEqual('Jane Smith');
     expect(result.user_contact).toBeNull();
@@ -127,16 +126,12 @@ describe('checkOutEquipment', () => {
       equipment_id: 99999 // Non-existent equipment
     };
 
-    expect(checkOutEquipment(invalidInput)).rejects.toThrow(/Equipment with id 99999 not found/i);
+    expect(checkOutEquipment(invalidInput, adminId)).rejects.toThrow(/Equipment with id 99999 not found/i);
   });
 
   it('should throw error when admin does not exist', async () => {
-    const invalidInput: CheckOutEquipmentInput = {
-      ...testInput,
-      admin_id: 99999 // Non-existent admin
-    };
-
-    expect(checkOutEquipment(invalidInput)).rejects.toThrow(/Admin with id 99999 not found/i);
+    // Non-existent acting admin
+    expect(checkOutEquipment(testInput, 99999)).rejects.toThrow(/Admin with id 99999 not found/i);
   });
 
   it('should throw error when equipment is not available', async () => {
@@ -146,7 +141,7 @@ describe('checkOutEquipment', () => {
       .where(eq(equipmentTable.id, equipmentId))
       .execute();
 
-    expect(checkOutEquipment(testInput)).rejects.toThrow(/Equipment is not available.*checked_out/i);
+    expect(checkOutEquipment(testInput, adminId)).rejects.toThrow(/Equipment is not available.*checked_out/i);
   });
 
   it('should throw error when equipment is in maintenance', async () => {
@@ -156,7 +151,7 @@ describe('checkOutEquipment', () => {
       .where(eq(equipmentTable.id, equipmentId))
       .execute();
 
-    expect(checkOutEquipment(testInput)).rejects.toThrow(/Equipment is not available.*maintenance/i);
+    expect(checkOutEquipment(testInput, adminId)).rejects.toThrow(/Equipment is not available.*maintenance/i);
   });
 
   it('should throw error when equipment is booked', async () => {
@@ -166,7 +161,110 @@ describe('checkOutEquipment', () => {
       .where(eq(equipmentTable.id, equipmentId))
       .execute();
 
-    expect(checkOutEquipment(testInput)).rejects.toThrow(/Equipment is not available.*booked/i);
+    expect(checkOutEquipment(testInput, adminId)).rejects.toThrow(/Equipment is not available.*booked/i);
+  });
+
+  it('should record the API key used for the check-out', async () => {
+    const { api_key } = await createApiKey(adminId, { name: 'Scanner', scopes: null, expires_at: null });
+
+    const result = await checkOutEquipment(testInput, adminId, api_key.id);
+
+    expect(result.api_key_id).toEqual(api_key.id);
+    expect(result.admin_id).toEqual(adminId);
+  });
+
+  it('should let only one of two concurrent check-outs succeed', async () => {
+    const results = await Promise.allSettled([
+      checkOutEquipment({ ...testInput, user_name: 'First' }, adminId),
+      checkOutEquipment({ ...testInput, user_name: 'Second' }, adminId)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason.message).toMatch(/Equipment is not available.*checked_out/i);
+
+    const transactions = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.equipment_id, equipmentId))
+      .execute();
+    expect(transactions).toHaveLength(1);
+  });
+
+  it('should leave the equipment available when recording the transaction fails', async () => {
+    // A missing API key violates a foreign key on the insert, after the status update
+    await expect(checkOutEquipment(testInput, adminId, 99999)).rejects.toThrow();
+
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, equipmentId))
+      .execute();
+    expect(equipment[0].status).toEqual('available');
+
+    const transactions = await db.select()
+      .from(equipmentTransactionsTable)
+      .execute();
+    expect(transactions).toHaveLength(0);
+  });
+
+  it('should refuse a check-out that runs into a reservation', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const reservation = await reserveEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Festival Crew',
+      start_date: new Date(Date.now() + 7 * day),
+      end_date: new Date(Date.now() + 9 * day)
+    }, adminId);
+
+    await expect(checkOutEquipment({ ...testInput, expected_return_date: new Date(Date.now() + 14 * day) }, adminId))
+      .rejects.toThrow(`already reserved for this period: #${reservation.id} for Festival Crew`);
+
+    // Without a return date the item might still be out when the reservation starts
+    await expect(checkOutEquipment({ ...testInput, expected_return_date: null }, adminId))
+      .rejects.toThrow(/already reserved for this period/);
+
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, equipmentId))
+      .execute();
+    expect(equipment[0].status).toEqual('available');
+
+    // Due back before the reservation starts
+    const result = await checkOutEquipment({ ...testInput, expected_return_date: new Date(Date.now() + 5 * day) }, adminId);
+    expect(result.transaction_type).toEqual('check_out');
+  });
+
+  it('should refuse a check-out when a reservation blocks one of its accessories', async () => {
+    const [accessory] = await db.insert(equipmentTable)
+      .values({ name: 'Camera Bag', serial_number: 'BAG001', category: 'Photography', parent_id: equipmentId })
+      .returning()
+      .execute();
+    await reserveEquipment({
+      equipment_id: accessory.id,
+      user_name: 'Festival Crew',
+      start_date: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      end_date: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)
+    }, adminId);
+
+    await expect(checkOutEquipment({ ...testInput, accessory_ids: [accessory.id] }, adminId))
+      .rejects.toThrow(/already reserved for this period: #\d+ for Festival Crew/);
+  });
+
+  it('should refuse a second open check-out of the same item', async () => {
+    await checkOutEquipment(testInput, adminId);
+
+    // Simulates a manual status change that made the item look available again
+    await db.update(equipmentTable)
+      .set({ status: 'available' })
+      .where(eq(equipmentTable.id, equipmentId))
+      .execute();
+
+    await expect(checkOutEquipment(testInput, adminId)).rejects.toThrow(/already reserved for this period: #\d+ checked out to/i);
+
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, equipmentId))
+      .execute();
+    expect(equipment[0].status).toEqual('available');
   });
 
   it('should handle future expected return date', async () => {
@@ -178,9 +276,226 @@ describe('checkOutEquipment', () => {
       expected_return_date: futureDate
     };
 
-    const result = await checkOutEquipment(inputWithFutureDate);
+    const result = await checkOutEquipment(inputWithFutureDate, adminId);
 
     expect(result.expected_return_date).toBeInstanceOf(Date);
     expect(result.expected_return_date?.getTime()).toEqual(futureDate.getTime());
   });
-});
\ No newline at end of file
+
+  it('should check out the chosen accessories along with the item', async () => {
+    const accessories = await db.insert(equipmentTable)
+      .values([
+        { name: 'Camera Battery', serial_number: 'BAT001', category: 'Photography', parent_id: equipmentId },
+        { name: 'Rain Cover', serial_number: 'RAIN001', category: 'Photography', parent_id: equipmentId }
+      ])
+      .returning()
+      .execute();
+
+    const result = await checkOutEquipment({ ...testInput, accessory_ids: [accessories[0].id] }, adminId);
+    expect(result.equipment_id).toEqual(equipmentId);
+
+    const checkOuts = await db.select()
+      .from(equipmentTransactionsTable)
+      .execute();
+    expect(checkOuts.map(checkOut => checkOut.equipment_id).sort()).toEqual([equipmentId, accessories[0].id].sort());
+    checkOuts.forEach(checkOut => expect(checkOut.user_name).toEqual('John Doe'));
+
+    const equipment = await db.select().from(equipmentTable).execute();
+    expect(equipment.find(item => item.id === accessories[0].id)!.status).toEqual('checked_out');
+    expect(equipment.find(item => item.id === accessories[1].id)!.status).toEqual('available');
+  });
+
+  it('should check out nothing when an accessory is unavailable or belongs elsewhere', async () => {
+    const [other] = await db.insert(equipmentTable)
+      .values({ name: 'Other Camera', serial_number: 'CAM999', category: 'Photography' })
+      .returning()
+      .execute();
+    const accessories = await db.insert(equipmentTable)
+      .values([
+        { name: 'Camera Battery', serial_number: 'BAT001', category: 'Photography', parent_id: equipmentId, status: 'maintenance' },
+        { name: 'Other Battery', serial_number: 'BAT002', category: 'Photography', parent_id: other.id }
+      ])
+      .returning()
+      .execute();
+
+    await expect(checkOutEquipment({ ...testInput, accessory_ids: [accessories[0].id] }, adminId))
+      .rejects.toThrow('Accessory BAT001 is maintenance');
+    await expect(checkOutEquipment({ ...testInput, accessory_ids: [accessories[1].id] }, adminId))
+      .rejects.toThrow(`Equipment with id ${accessories[1].id} is not an accessory of CAM123456`);
+
+    expect(await db.select().from(equipmentTransactionsTable).execute()).toHaveLength(0);
+    const camera = await db.select().from(equipmentTable).where(eq(equipmentTable.id, equipmentId)).execute();
+    expect(camera[0].status).toEqual('available');
+  });
+
+  it('should file the check-out under a new borrower found from its details', async () => {
+    const result = await checkOutEquipment(testInput, adminId);
+
+    const borrowers = await db.select().from(borrowersTable).execute();
+    expect(borrowers).toHaveLength(1);
+    expect(borrowers[0].name).toEqual('John Doe');
+    expect(borrowers[0].email).toEqual('john.doe@email.com');
+    expect(result.borrower_id).toEqual(borrowers[0].id);
+  });
+
+  it('should match an existing borrower by email or name', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Johnny Doe', email: 'JOHN.DOE@email.com' })
+      .returning()
+      .execute();
+    const [other] = await db.insert(equipmentTable)
+      .values({ name: 'Other Camera', serial_number: 'CAM999', category: 'Photography' })
+      .returning()
+      .execute();
+
+    const byEmail = await checkOutEquipment(testInput, adminId);
+    expect(byEmail.borrower_id).toEqual(borrower.id);
+    expect(byEmail.user_name).toEqual('John Doe'); // The transaction keeps what was entered
+
+    const byName = await checkOutEquipment({ ...testInput, equipment_id: other.id, user_name: '  johnny   doe ', user_contact: null }, adminId);
+    expect(byName.borrower_id).toEqual(borrower.id);
+    expect(await db.select().from(borrowersTable).execute()).toHaveLength(1);
+  });
+
+  it('should add one borrower when two check-outs for a new name run at the same time', async () => {
+    const [other] = await db.insert(equipmentTable)
+      .values({ name: 'Other Camera', serial_number: 'CAM999', category: 'Photography' })
+      .returning()
+      .execute();
+
+    const results = await Promise.all([
+      checkOutEquipment({ ...testInput, user_contact: null }, adminId),
+      checkOutEquipment({ ...testInput, equipment_id: other.id, user_contact: null }, adminId)
+    ]);
+
+    const borrowers = await db.select().from(borrowersTable).execute();
+    expect(borrowers).toHaveLength(1);
+    expect(results.map(result => result.borrower_id)).toEqual([borrowers[0].id, borrowers[0].id]);
+  });
+
+  it('should take the name and contact of a chosen borrower', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe', email: 'jane@example.com', phone: '555-0100' })
+      .returning()
+      .execute();
+
+    await expect(checkOutEquipment({ ...testInput, borrower_id: 9999 }, adminId))
+      .rejects.toThrow('Borrower with id 9999 not found');
+
+    const result = await checkOutEquipment({ ...testInput, borrower_id: borrower.id, user_contact: undefined }, adminId);
+    expect(result.borrower_id).toEqual(borrower.id);
+    expect(result.user_name).toEqual('Jane Roe');
+    expect(result.user_contact).toEqual('jane@example.com, 555-0100');
+  });
+
+  it("should charge the borrower's department unless another is picked", async () => {
+    const [sound, drama] = await db.insert(departmentsTable)
+      .values([{ name: 'Sound', cost_centre: 'CC-100' }, { name: 'Drama' }])
+      .returning()
+      .execute();
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe', department_id: sound.id })
+      .returning()
+      .execute();
+    const [lens] = await db.insert(equipmentTable)
+      .values({ name: 'Lens', serial_number: 'LENS001', category: 'Photography' })
+      .returning()
+      .execute();
+
+    const byDefault = await checkOutEquipment({ ...testInput, borrower_id: borrower.id }, adminId);
+    expect(byDefault.department_id).toEqual(sound.id);
+
+    await expect(checkOutEquipment({ ...testInput, equipment_id: lens.id, department_id: 9999 }, adminId))
+      .rejects.toThrow('Department with id 9999 not found');
+
+    const picked = await checkOutEquipment({ ...testInput, equipment_id: lens.id, borrower_id: borrower.id, department_id: drama.id }, adminId);
+    expect(picked.department_id).toEqual(drama.id);
+  });
+
+  it('should allocate the check-out to an event', async () => {
+    await expect(checkOutEquipment({ ...testInput, event_id: 9999 }, adminId))
+      .rejects.toThrow('Event with id 9999 not found');
+
+    const [event] = await db.insert(eventsTable)
+      .values({ name: 'Summer Festival', starts_at: new Date('2030-07-10T14:00:00Z'), ends_at: new Date('2030-07-12T23:00:00Z') })
+      .returning()
+      .execute();
+
+    const result = await checkOutEquipment({ ...testInput, event_id: event.id }, adminId);
+    expect(result.event_id).toEqual(event.id);
+  });
+
+  it('should refuse a suspended borrower until the suspension ends', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({
+        name: 'Jane Roe',
+        suspended_at: new Date(),
+        suspension_reason: 'Returned a mixer damaged',
+        suspended_until: new Date('2099-01-01T00:00:00Z')
+      })
+      .returning()
+      .execute();
+
+    await expect(checkOutEquipment({ ...testInput, borrower_id: borrower.id }, adminId))
+      .rejects.toThrow('Loan refused: Jane Roe is suspended until 2099-01-01T00:00:00.000Z: Returned a mixer damaged');
+    expect(await db.select().from(equipmentTransactionsTable).execute()).toHaveLength(0);
+
+    await db.update(borrowersTable)
+      .set({ suspended_until: new Date(Date.now() - 1000) })
+      .where(eq(borrowersTable.id, borrower.id))
+      .execute();
+
+    const result = await checkOutEquipment({ ...testInput, borrower_id: borrower.id }, adminId);
+    expect(result.borrower_id).toEqual(borrower.id);
+  });
+
+  it('should count the accessories and what the borrower holds against their limits', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe', max_items: 2, max_value: 1000 })
+      .returning()
+      .execute();
+    await db.update(equipmentTable).set({ replacement_value: 600 }).where(eq(equipmentTable.id, equipmentId)).execute();
+    const [battery] = await db.insert(equipmentTable)
+      .values({ name: 'Camera Battery', serial_number: 'BAT001', category: 'Photography', parent_id: equipmentId, replacement_value: 50 })
+      .returning()
+      .execute();
+    const [lens] = await db.insert(equipmentTable)
+      .values({ name: 'Lens', serial_number: 'LENS001', category: 'Photography', replacement_value: 500 })
+      .returning()
+      .execute();
+
+    await checkOutEquipment({ ...testInput, borrower_id: borrower.id, accessory_ids: [battery.id] }, adminId);
+
+    await expect(checkOutEquipment({ ...testInput, equipment_id: lens.id, borrower_id: borrower.id }, adminId))
+      .rejects.toThrow('Jane Roe may hold at most 2 items at once and already holds 2');
+
+    await db.update(borrowersTable).set({ max_items: null }).where(eq(borrowersTable.id, borrower.id)).execute();
+    await expect(checkOutEquipment({ ...testInput, equipment_id: lens.id, borrower_id: borrower.id }, adminId))
+      .rejects.toThrow('Jane Roe may hold equipment worth at most 1000 at once; they hold 650 and this adds 500');
+  });
+
+  it('should let an override through and log each broken rule', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe', suspended_at: new Date(), suspension_reason: 'Late returns', max_items: 0 })
+      .returning()
+      .execute();
+
+    const result = await checkOutEquipment({ ...testInput, borrower_id: borrower.id, override_reason: 'Needed for the graduation ceremony' }, adminId);
+
+    const overrides = await db.select().from(borrowerRuleOverridesTable).execute();
+    expect(overrides.map(override => override.rule).sort()).toEqual(['item_limit', 'suspended']);
+    overrides.forEach(override => {
+      expect(override.borrower_id).toEqual(borrower.id);
+      expect(override.transaction_id).toEqual(result.id);
+      expect(override.justification).toEqual('Needed for the graduation ceremony');
+      expect(override.admin_id).toEqual(adminId);
+    });
+    expect(overrides.find(override => override.rule === 'suspended')!.detail).toEqual('Jane Roe is suspended: Late returns');
+  });
+
+  it('should not log an override when no rule is broken', async () => {
+    await checkOutEquipment({ ...testInput, override_reason: 'Just in case' }, adminId);
+
+    expect(await db.select().from(borrowerRuleOverridesTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable, transactionGroupsTable } from '../db/schema';
+import { checkOutGroupInputSchema, type CheckOutGroupInput } from '../schema';
+import { checkOutGroup } from '../handlers/check_out_group';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { inArray } from 'drizzle-orm';
+
+describe('checkOutGroup', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let equipmentIds: number[];
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'Vocal Mic', serial_number: 'MIC001', category: 'Microphones' },
+        { name: 'DI Box', serial_number: 'DI001', category: 'DI Boxes' },
+        { name: 'Mic Stand', serial_number: 'STD001', category: 'Stands' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+  });
+
+  const cart = (overrides: Partial<CheckOutGroupInput> = {}): CheckOutGroupInput => ({
+    equipment_ids: equipmentIds,
+    user_name: 'Friday Gig',
+    user_contact: 'crew@example.com',
+    expected_return_date: new Date('2030-07-14T18:00:00Z'),
+    notes: 'Club night',
+    ...overrides
+  });
+
+  const statuses = async () => {
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(inArray(equipmentTable.id, equipmentIds))
+      .execute();
+    return equipment.map(item => item.status);
+  };
+
+  it('should check out every item under one group', async () => {
+    const result = await checkOutGroup(cart(), adminId);
+
+    expect(result.group.user_name).toEqual('Friday Gig');
+    expect(result.group.user_contact).toEqual('crew@example.com');
+    expect(result.group.admin_id).toEqual(adminId);
+    expect(result.items).toHaveLength(3);
+    expect(result.outstanding.map(item => item.serial_number)).toEqual(['DI001', 'STD001', 'MIC001']);
+
+    result.items.forEach(({ check_out }) => {
+      expect(check_out.transaction_type).toEqual('check_out');
+      expect(check_out.group_id).toEqual(result.group.id);
+      expect(check_out.user_name).toEqual('Friday Gig');
+      expect(check_out.expected_return_date).toEqual(new Date('2030-07-14T18:00:00Z'));
+    });
+
+    expect(await statuses()).toEqual(['checked_out', 'checked_out', 'checked_out']);
+  });
+
+  it('should check out nothing when one item is unavailable', async () => {
+    await db.update(equipmentTable)
+      .set({ status: 'maintenance' })
+      .where(inArray(equipmentTable.id, [equipmentIds[1]]))
+      .execute();
+
+    await expect(checkOutGroup(cart(), adminId))
+      .rejects.toThrow('Some equipment is not available: DI001 (maintenance)');
+
+    expect(await statuses()).toEqual(['available', 'maintenance', 'available']);
+    expect(await db.select().from(equipmentTransactionsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(transactionGroupsTable).execute()).toHaveLength(0);
+  });
+
+  it('should check out nothing when one item is reserved before the cart is due back', async () => {
+    const reservation = await reserveEquipment({
+      equipment_id: equipmentIds[2],
+      user_name: 'Festival Crew',
+      start_date: new Date('2030-07-10T08:00:00Z'),
+      end_date: new Date('2030-07-12T18:00:00Z')
+    }, adminId);
+
+    await expect(checkOutGroup(cart(), adminId))
+      .rejects.toThrow(`already reserved for this period: #${reservation.id} for Festival Crew`);
+
+    expect(await statuses()).toEqual(['available', 'available', 'available']);
+    expect(await db.select().from(transactionGroupsTable).execute()).toHaveLength(0);
+  });
+
+  it('should name missing equipment', async () => {
+    await expect(checkOutGroup(cart({ equipment_ids: [equipmentIds[0], 99999] }), adminId))
+      .rejects.toThrow('Equipment not found: 99999');
+
+    expect(await statuses()).toEqual(['available', 'available', 'available']);
+  });
+
+  it('should let only one of two overlapping carts succeed', async () => {
+    const results = await Promise.allSettled([
+      checkOutGroup(cart({ equipment_ids: [equipmentIds[0], equipmentIds[1]], user_name: 'First' }), adminId),
+      checkOutGroup(cart({ equipment_ids: [equipmentIds[2], equipmentIds[1]], user_name: 'Second' }), adminId)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const checkOuts = await db.select()
+      .from(equipmentTransactionsTable)
+      .execute();
+    expect(checkOuts).toHaveLength(2);
+    expect(new Set(checkOuts.map(checkOut => checkOut.group_id)).size).toEqual(1);
+  });
+
+  it('should reject an empty cart or a duplicated item', () => {
+    expect(checkOutGroupInputSchema.safeParse(cart({ equipment_ids: [] })).success).toBe(false);
+    expect(checkOutGroupInputSchema.safeParse(cart({ equipment_ids: [1, 1] })).success).toBe(false);
+  });
+
+  it('should throw error for non-existent admin', async () => {
+    await expect(checkOutGroup(cart(), 99999))
+      .rejects.toThrow(/Admin with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable, transactionGroupsTable } from '../db/schema';
+import { createKit } from '../handlers/create_kit';
+import { checkOutKit } from '../handlers/check_out_kit';
+import { eq, inArray } from 'drizzle-orm';
+
+describe('checkOutKit', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let equipmentIds: number[];
+  let kitId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'SM58', serial_number: 'MIC001', category: 'Microphones' },
+        { name: 'XLR 10m', serial_number: 'XLR001', category: 'Cables' },
+        { name: 'Mic Stand', serial_number: 'STD001', category: 'Stands' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+
+    const kit = await createKit({ name: 'Vocal Kit 3', equipment_ids: equipmentIds });
+    kitId = kit.kit.id;
+  });
+
+  const statuses = async () => {
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(inArray(equipmentTable.id, equipmentIds))
+      .execute();
+    return equipment.map(item => item.status);
+  };
+
+  it('should check out every member under one group tagged with the kit', async () => {
+    const result = await checkOutKit({
+      kit_id: kitId,
+      user_name: 'Friday Gig',
+      user_contact: 'crew@example.com',
+      expected_return_date: new Date('2030-07-14T18:00:00Z')
+    }, adminId);
+
+    expect(result.group.kit_id).toEqual(kitId);
+    expect(result.group.user_name).toEqual('Friday Gig');
+    expect(result.items).toHaveLength(3);
+    result.items.forEach(({ check_out }) => {
+      expect(check_out.group_id).toEqual(result.group.id);
+      expect(check_out.expected_return_date).toEqual(new Date('2030-07-14T18:00:00Z'));
+    });
+
+    expect(await statuses()).toEqual(['checked_out', 'checked_out', 'checked_out']);
+  });
+
+  it('should refuse when any member is unavailable', async () => {
+    await db.update(equipmentTable)
+      .set({ status: 'booked' })
+      .where(eq(equipmentTable.id, equipmentIds[1]))
+      .execute();
+
+    await expect(checkOutKit({ kit_id: kitId, user_name: 'Friday Gig' }, adminId))
+      .rejects.toThrow('Some equipment is not available: XLR001 (booked)');
+
+    expect(await statuses()).toEqual(['available', 'booked', 'available']);
+    expect(await db.select().from(equipmentTransactionsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(transactionGroupsTable).execute()).toHaveLength(0);
+  });
+
+  it('should let only one of two simultaneous check-outs succeed', async () => {
+    const results = await Promise.allSettled([
+      checkOutKit({ kit_id: kitId, user_name: 'First' }, adminId),
+      checkOutKit({ kit_id: kitId, user_name: 'Second' }, adminId)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await db.select().from(equipmentTransactionsTable).execute()).toHaveLength(3);
+  });
+
+  it('should throw error for non-existent kit', async () => {
+    await expect(checkOutKit({ kit_id: 99999, user_name: 'Friday Gig' }, adminId))
+      .rejects.toThrow(/Kit with id 99999 not found/i);
+  });
+
+  it('should throw error for non-existent admin', async () => {
+    await expect(checkOutKit({ kit_id: kitId, user_name: 'Friday Gig' }, 99999))
+      .rejects.toThrow(/Admin with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,251 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, loginEventsTable } from '../db/schema';
+import { type LoginResult } from '../schema';
+import { completeOidcLogin } from '../handlers/complete_oidc_login';
+import { beginOidcLogin } from '../handlers/begin_oidc_login';
+import { resolveSession } from '../auth/session';
+import { startMockOidcProvider, type MockOidcProvider } from '../helpers/mock_oidc_provider';
+import { eq } from 'drizzle-orm';
+
+// Follows the authorization URL to the mock provider and returns what it redirects back with,
+// along with the key the browser kept
+const authorizeAtProvider = async (): Promise<{ code: string; state: string; browser_key: string }> => {
+  const { authorization_url, browser_key } = await beginOidcLogin();
+  const response = await fetch(authorization_url, { redirect: 'manual' });
+  const location = new URL(response.headers.get('location')!);
+  return { code: location.searchParams.get('code')!, state: location.searchParams.get('state')!, browser_key };
+};
+
+const expectAuthenticated = (result: LoginResult) => {
+  if (result.status !== 'authenticated') {
+    throw new Error(`Expected an authenticated login, got ${result.status}`);
+  }
+  return result;
+};
+
+describe('completeOidcLogin', () => {
+  let provider: MockOidcProvider;
+
+  beforeAll(() => {
+    provider = startMockOidcProvider();
+  });
+  afterAll(() => provider.stop());
+
+  beforeEach(createDB);
+  beforeEach(() => {
+    process.env['OIDC_ISSUER'] = provider.issuer;
+    process.env['OIDC_CLIENT_ID'] = 'warehouse';
+    process.env['OIDC_REDIRECT_URI'] = 'http://localhost:5173/';
+  });
+  afterEach(resetDB);
+  afterEach(() => {
+    delete process.env['OIDC_ISSUER'];
+    delete process.env['OIDC_CLIENT_ID'];
+    delete process.env['OIDC_CLIENT_SECRET'];
+    delete process.env['OIDC_REDIRECT_URI'];
+    delete process.env['OIDC_JIT_PROVISIONING'];
+    delete process.env['OIDC_DEFAULT_ROLE'];
+  });
+
+  let clerkId: number;
+
+  beforeEach(async () => {
+    const admins = await db.insert(adminsTable)
+      .values({ username: 'clerk', email: 'Clerk@Example.com', password_hash: 'hash', role: 'clerk' })
+      .returning()
+      .execute();
+    clerkId = admins[0].id;
+  });
+
+  it('should sign in an admin matched by verified email and link the subject', async () => {
+    provider.signInAs({ sub: 'idp-123', email: 'clerk@example.com', email_verified: true });
+
+    const result = expectAuthenticated(await completeOidcLogin(await authorizeAtProvider(), '10.0.0.1'));
+
+    expect(result.admin.id).toEqual(clerkId);
+    expect(result.admin.oidc_subject).toEqual('idp-123');
+    expect(result.permissions).toContain('transactions:write');
+    expect((await resolveSession(result.token))!.id).toEqual(clerkId);
+
+    const events = await db.select()
+      .from(loginEventsTable)
+      .execute();
+    expect(events).toHaveLength(1);
+    expect(events[0].outcome).toEqual('success');
+    expect(events[0].ip_address).toEqual('10.0.0.1');
+  });
+
+  it('should match a linked admin by subject even when the email changes', async () => {
+    await db.update(adminsTable)
+      .set({ oidc_subject: 'idp-123' })
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+    provider.signInAs({ sub: 'idp-123', email: 'renamed@example.com', email_verified: true });
+
+    const result = expectAuthenticated(await completeOidcLogin(await authorizeAtProvider()));
+
+    expect(result.admin.id).toEqual(clerkId);
+  });
+
+  it('should not link an unverified email', async () => {
+    provider.signInAs({ sub: 'idp-123', email: 'clerk@example.com', email_verified: false });
+
+    await expect(completeOidcLogin(await authorizeAtProvider())).rejects.toThrow(/no admin account is linked/i);
+
+    const [clerk] = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+    expect(clerk.oidc_subject).toBeNull();
+  });
+
+  it('should not link an email the provider does not mark as verified', async () => {
+    provider.signInAs({ sub: 'idp-123', email: 'clerk@example.com' });
+
+    await expect(completeOidcLogin(await authorizeAtProvider())).rejects.toThrow(/no admin account is linked/i);
+
+    const [clerk] = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+    expect(clerk.oidc_subject).toBeNull();
+  });
+
+  it('should not provision an identity without a verified email', async () => {
+    process.env['OIDC_JIT_PROVISIONING'] = 'true';
+    provider.signInAs({ sub: 'idp-456', email: 'new.hire@example.com' });
+
+    await expect(completeOidcLogin(await authorizeAtProvider())).rejects.toThrow(/did not return a verified email address/);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.email, 'new.hire@example.com'))
+      .execute();
+    expect(admins).toHaveLength(0);
+  });
+
+  it('should not take over an admin linked to another identity', async () => {
+    await db.update(adminsTable)
+      .set({ oidc_subject: 'idp-original' })
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+    provider.signInAs({ sub: 'idp-other', email: 'clerk@example.com', email_verified: true });
+
+    await expect(completeOidcLogin(await authorizeAtProvider())).rejects.toThrow(/different single sign-on identity/i);
+  });
+
+  it('should reject unknown identities and log the attempt', async () => {
+    provider.signInAs({ sub: 'idp-999', email: 'stranger@example.com', email_verified: true });
+
+    await expect(completeOidcLogin(await authorizeAtProvider())).rejects.toThrow(/no admin account is linked/i);
+
+    const events = await db.select()
+      .from(loginEventsTable)
+      .execute();
+    expect(events).toHaveLength(1);
+    expect(events[0].admin_id).toBeNull();
+    expect(events[0].username).toEqual('stranger@example.com');
+    expect(events[0].outcome).toEqual('invalid_credentials');
+  });
+
+  it('should provision unknown identities with the default role when enabled', async () => {
+    process.env['OIDC_JIT_PROVISIONING'] = 'true';
+    process.env['OIDC_DEFAULT_ROLE'] = 'clerk';
+    provider.signInAs({ sub: 'idp-456', email: 'new.hire@example.com', email_verified: true, preferred_username: 'Clerk' });
+
+    const result = expectAuthenticated(await completeOidcLogin(await authorizeAtProvider()));
+
+    // "clerk" is taken, so the username gets a suffix
+    expect(result.admin.username).toEqual('clerk-2');
+    expect(result.admin.email).toEqual('new.hire@example.com');
+    expect(result.admin.role).toEqual('clerk');
+    expect(result.admin.oidc_subject).toEqual('idp-456');
+  });
+
+  it('should provision viewers by default', async () => {
+    process.env['OIDC_JIT_PROVISIONING'] = 'true';
+    provider.signInAs({ sub: 'idp-456', email: 'new.hire@example.com', email_verified: true });
+
+    const result = expectAuthenticated(await completeOidcLogin(await authorizeAtProvider()));
+
+    expect(result.admin.username).toEqual('new.hire');
+    expect(result.admin.role).toEqual('viewer');
+  });
+
+  it('should reject disabled admins', async () => {
+    await db.update(adminsTable)
+      .set({ disabled_at: new Date() })
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+    provider.signInAs({ sub: 'idp-123', email: 'clerk@example.com', email_verified: true });
+
+    await expect(completeOidcLogin(await authorizeAtProvider())).rejects.toThrow(/disabled/i);
+  });
+
+  it('should still ask enrolled admins for their second factor', async () => {
+    await db.update(adminsTable)
+      .set({ totp_secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', totp_enabled_at: new Date() })
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+    provider.signInAs({ sub: 'idp-123', email: 'clerk@example.com', email_verified: true });
+
+    const result = await completeOidcLogin(await authorizeAtProvider());
+
+    expect(result.status).toEqual('two_factor_required');
+  });
+
+  it('should not accept a state twice', async () => {
+    provider.signInAs({ sub: 'idp-123', email: 'clerk@example.com', email_verified: true });
+    const redirect = await authorizeAtProvider();
+
+    await completeOidcLogin(redirect);
+
+    await expect(completeOidcLogin(redirect)).rejects.toThrow(/expired/i);
+  });
+
+  it('should not finish a sign-in started in another browser', async () => {
+    provider.signInAs({ sub: 'idp-123', email: 'clerk@example.com', email_verified: true });
+    const attacker = await authorizeAtProvider();
+    const victim = await beginOidcLogin();
+
+    await expect(completeOidcLogin({ code: attacker.code, state: attacker.state, browser_key: victim.browser_key }))
+      .rejects.toThrow(/started in another browser/i);
+
+    const events = await db.select()
+      .from(loginEventsTable)
+      .execute();
+    expect(events).toHaveLength(0);
+  });
+
+  it('should reject ID tokens for another sign-in or client', async () => {
+    provider.signInAs({ sub: 'idp-123', email: 'clerk@example.com', email_verified: true });
+
+    provider.tamperNextToken({ nonce: 'someone-else' });
+    await expect(completeOidcLogin(await authorizeAtProvider())).rejects.toThrow(/does not belong to this sign-in/i);
+
+    provider.tamperNextToken({ aud: 'another-app' });
+    await expect(completeOidcLogin(await authorizeAtProvider())).rejects.toThrow(/different client/i);
+
+    provider.tamperNextToken({ exp: Math.floor(Date.now() / 1000) - 3600 });
+    await expect(completeOidcLogin(await authorizeAtProvider())).rejects.toThrow(/expired/i);
+  });
+
+  it('should authenticate as a confidential client when a secret is set', async () => {
+    const confidential = startMockOidcProvider({ clientSecret: 's3cret' });
+    try {
+      process.env['OIDC_ISSUER'] = confidential.issuer;
+      confidential.signInAs({ sub: 'idp-123', email: 'clerk@example.com', email_verified: true });
+
+      process.env['OIDC_CLIENT_SECRET'] = 'wrong';
+      await expect(completeOidcLogin(await authorizeAtProvider())).rejects.toThrow(/invalid_client/i);
+
+      process.env['OIDC_CLIENT_SECRET'] = 's3cret';
+      const result = expectAuthenticated(await completeOidcLogin(await authorizeAtProvider()));
+      expect(result.admin.id).toEqual(clerkId);
+    } finally {
+      confidential.stop();
+    }
+  });
+});
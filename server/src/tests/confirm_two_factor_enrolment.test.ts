@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, adminRecoveryCodesTable } from '../db/schema';
+import { confirmTwoFactorEnrolment } from '../handlers/confirm_two_factor_enrolment';
+import { beginTwoFactorEnrolment } from '../handlers/begin_two_factor_enrolment';
+import { generateTotpCode, getTotpStep } from '../auth/totp';
+import { eq } from 'drizzle-orm';
+
+describe('confirmTwoFactorEnrolment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'owner', email: 'owner@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  it('should enable 2FA and return ten recovery codes', async () => {
+    const enrolment = await beginTwoFactorEnrolment(adminId);
+    const code = generateTotpCode(enrolment!.secret, getTotpStep());
+
+    const result = await confirmTwoFactorEnrolment(adminId, { code });
+
+    expect(result.recovery_codes).toHaveLength(10);
+    expect(new Set(result.recovery_codes).size).toBe(10);
+    result.recovery_codes.forEach(recoveryCode => expect(recoveryCode).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    expect(admins[0].totp_enabled_at).toBeInstanceOf(Date);
+    expect(admins[0].totp_last_used_step).toBe(getTotpStep());
+
+    // Only hashes are stored
+    const stored = await db.select()
+      .from(adminRecoveryCodesTable)
+      .where(eq(adminRecoveryCodesTable.admin_id, adminId))
+      .execute();
+
+    expect(stored).toHaveLength(10);
+    expect(stored.map(row => row.code_hash)).not.toContain(result.recovery_codes[0]);
+  });
+
+  it('should reject a wrong code and leave 2FA disabled', async () => {
+    const enrolment = await beginTwoFactorEnrolment(adminId);
+    const wrong = generateTotpCode(enrolment!.secret, getTotpStep() + 5);
+
+    await expect(confirmTwoFactorEnrolment(adminId, { code: wrong })).rejects.toThrow(/invalid authentication code/i);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    expect(admins[0].totp_enabled_at).toBeNull();
+  });
+
+  it('should require enrolment to have been started', async () => {
+    await expect(confirmTwoFactorEnrolment(adminId, { code: '123456' })).rejects.toThrow(/start two-factor enrolment/i);
+  });
+
+  it('should refuse when already enabled', async () => {
+    const enrolment = await beginTwoFactorEnrolment(adminId);
+    await confirmTwoFactorEnrolment(adminId, { code: generateTotpCode(enrolment!.secret, getTotpStep()) });
+
+    await expect(confirmTwoFactorEnrolment(adminId, { code: generateTotpCode(enrolment!.secret, getTotpStep() + 1) }))
+      .rejects.toThrow(/already enabled/i);
+  });
+});
@@ -4,13 +4,24 @@ import { db } from '../db';
 import { adminsTable } from '../db/schema';
 import { type CreateAdminInput } from '../schema';
 import { createAdmin } from '../handlers/create_admin';
+import { verifyPassword } from '../auth/credentials';
 import { eq } from 'drizzle-orm';
 
 // Simple test input
 const testInput: CreateAdminInput = {
   username: 'testadmin',
   email: 'test@example.com',
-  password: 'testpassword123'
+  password: 'testpassword123',
+  role: 'clerk'
+};
+
+// The hash is never part of the handler output, so read it back from the table
+const getStoredHash = async (id: number): Promise<string> => {
+  const admins = await db.select()
+    .from(adminsTable)
+    .where(eq(adminsTable.id, id))
+    .execute();
+  return admins[0].password_hash;
 };
 
 describe('createAdmin', () => {
@@ -23,14 +34,26 @@ describe('createAdmin', () => {
     // Basic field validation
     expect(result.username).toEqual('testadmin');
     expect(result.email).toEqual('test@example.com');
-    expect(result.password_hash).toBeDefined();
-    expect(result.password_hash).not.toEqual('testpassword123'); // Should be hashed
-    expect(result.password_hash.length).toBeGreaterThan(20); // Bcrypt hashes are long
+    expect(result.role).toEqual('clerk');
+    expect('password_hash' in result).toBe(false);
     expect(result.id).toBeDefined();
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
   });
 
+  it('should store the requested role', async () => {
+    const result = await createAdmin({ ...testInput, role: 'manager' });
+
+    expect(result.role).toEqual('manager');
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, result.id))
+      .execute();
+
+    expect(admins[0].role).toEqual('manager');
+  });
+
   it('should save admin to database', async () => {
     const result = await createAdmin(testInput);
 
@@ -44,22 +67,37 @@ describe('createAdmin', () => {
     expect(admins[0].username).toEqual('testadmin');
     expect(admins[0].email).toEqual('test@example.com');
     expect(admins[0].password_hash).toBeDefined();
+    expect(admins[0].password_hash).not.toEqual('testpassword123'); // Should be hashed
+    expect(admins[0].password_hash.length).toBeGreaterThan(20); // Bcrypt hashes are long
     expect(admins[0].created_at).toBeInstanceOf(Date);
     expect(admins[0].updated_at).toBeInstanceOf(Date);
   });
 
   it('should hash the password correctly', async () => {
     const result = await createAdmin(testInput);
+    const passwordHash = await getStoredHash(result.id);
 
     // Password should be hashed and verifiable
-    const isValid = await Bun.password.verify('testpassword123', result.password_hash);
+    const isValid = await Bun.password.verify('testpassword123', passwordHash);
     expect(isValid).toBe(true);
 
     // Wrong password should not verify
-    const isInvalid = await Bun.password.verify('wrongpassword', result.password_hash);
+    const isInvalid = await Bun.password.verify('wrongpassword', passwordHash);
     expect(isInvalid).toBe(false);
   });
 
+  it('should store a hash that the login credential check accepts', async () => {
+    const result = await createAdmin(testInput);
+    const passwordHash = await getStoredHash(result.id);
+
+    const verification = await verifyPassword('testpassword123', passwordHash);
+    expect(verification.valid).toBe(true);
+    expect(verification.needsRehash).toBe(false);
+
+    const wrong = await verifyPassword('wrongpassword', passwordHash);
+    expect(wrong.valid).toBe(false);
+  });
+
   it('should enforce unique username constraint', async () => {
     // Create first admin
     await createAdmin(testInput);
@@ -68,7 +106,8 @@ describe('createAdmin', () => {
     const duplicateInput: CreateAdminInput = {
       username: 'testadmin', // Same username
       email: 'different@example.com',
-      password: 'anotherpassword'
+      password: 'anotherpassword',
+      role: 'clerk'
     };
 
     await expect(createAdmin(duplicateInput)).rejects.toThrow(/unique/i);
@@ -82,7 +121,8 @@ describe('createAdmin', () => {
     const duplicateInput: CreateAdminInput = {
       username: 'differentadmin',
       email: 'test@example.com', // Same email
-      password: 'anotherpassword'
+      password: 'anotherpassword',
+      role: 'clerk'
     };
 
     await expect(createAdmin(duplicateInput)).rejects.toThrow(/unique/i);
@@ -92,13 +132,15 @@ describe('createAdmin', () => {
     const shortPasswordInput: CreateAdminInput = {
       username: 'shortpass',
       email: 'short@example.com',
-      password: 'abc123' // Minimum length
+      password: 'abc123', // Minimum length
+      role: 'clerk'
     };
 
     const longPasswordInput: CreateAdminInput = {
       username: 'longpass',
       email: 'long@example.com',
-      password: 'this_is_a_very_long_password_with_special_chars!@#$%^&*()_+'
+      password: 'this_is_a_very_long_password_with_special_chars!@#$%^&*()_+',
+      role: 'clerk'
     };
 
     // Both should work
@@ -109,8 +151,8 @@ describe('createAdmin', () => {
     expect(longResult.username).toEqual('longpass');
 
     // Verify both passwords work
-    const shortValid = await Bun.password.verify('abc123', shortResult.password_hash);
-    const longValid = await Bun.password.verify('this_is_a_very_long_password_with_special_chars!@#$%^&*()_+', longResult.password_hash);
+    const shortValid = await Bun.password.verify('abc123', await getStoredHash(shortResult.id));
+    const longValid = await Bun.password.verify('this_is_a_very_long_password_with_special_chars!@#$%^&*()_+', await getStoredHash(longResult.id));
     
     expect(shortValid).toBe(true);
     expect(longValid).toBe(true);
@@ -120,7 +162,8 @@ describe('createAdmin', () => {
     const specialInput: CreateAdminInput = {
       username: 'test_admin-123',
       email: 'test+admin@sub-domain.example.co.uk',
-      password: 'specialpassword'
+      password: 'specialpassword',
+      role: 'clerk'
     };
 
     const result = await createAdmin(specialInput);
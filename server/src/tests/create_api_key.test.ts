@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, apiKeysTable } from '../db/schema';
+import { createApiKey } from '../handlers/create_api_key';
+import { hashApiKey, resolveApiKey } from '../auth/api_keys';
+
+describe('createApiKey', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let clerkId: number;
+
+  beforeEach(async () => {
+    const admins = await db.insert(adminsTable)
+      .values({ username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' })
+      .returning()
+      .execute();
+    clerkId = admins[0].id;
+  });
+
+  it('should return the key once and store only its hash', async () => {
+    const result = await createApiKey(clerkId, { name: 'Barcode station', scopes: null, expires_at: null });
+
+    expect(result.key).toStartWith('swk_');
+    expect(result.key.startsWith(result.api_key.prefix)).toBe(true);
+    expect(result.api_key.name).toEqual('Barcode station');
+    expect(result.api_key.admin_id).toEqual(clerkId);
+    expect(result.api_key.scopes).toBeNull();
+    expect('key_hash' in result.api_key).toBe(false);
+
+    const stored = await db.select()
+      .from(apiKeysTable)
+      .execute();
+
+    expect(stored).toHaveLength(1);
+    expect(stored[0].key_hash).toEqual(hashApiKey(result.key));
+    expect(JSON.stringify(stored[0])).not.toContain(result.key);
+  });
+
+  it('should issue a key that resolves to its admin', async () => {
+    const { key, api_key } = await createApiKey(clerkId, { name: 'Scanner', scopes: ['transactions:write'], expires_at: null });
+
+    const resolved = await resolveApiKey(key);
+
+    expect(resolved).not.toBeNull();
+    expect(resolved!.admin.id).toEqual(clerkId);
+    expect(resolved!.apiKey.id).toEqual(api_key.id);
+    expect(resolved!.apiKey.scopes).toEqual(['transactions:write']);
+  });
+
+  it('should reject scopes the role does not grant', async () => {
+    await expect(createApiKey(clerkId, { name: 'Scanner', scopes: ['catalog:delete'], expires_at: null }))
+      .rejects.toThrow(/does not grant: catalog:delete/i);
+  });
+
+  it('should reject an expiry in the past', async () => {
+    await expect(createApiKey(clerkId, { name: 'Scanner', scopes: null, expires_at: new Date(Date.now() - 1000) }))
+      .rejects.toThrow(/must be in the future/i);
+  });
+
+  it('should throw error when admin does not exist', async () => {
+    await expect(createApiKey(99999, { name: 'Scanner', scopes: null, expires_at: null }))
+      .rejects.toThrow(/Admin with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { borrowersTable, departmentsTable } from '../db/schema';
+import { createBorrowerInputSchema } from '../schema';
+import { createBorrower } from '../handlers/create_borrower';
+
+describe('createBorrower', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should add a borrower to the directory', async () => {
+    const result = await createBorrower({
+      name: 'Jane Roe',
+      organisation: 'Drama Society',
+      email: 'jane@example.com',
+      phone: '555-0100',
+      notes: 'Prefers pick-up on Fridays'
+    });
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('Jane Roe');
+    expect(result.organisation).toEqual('Drama Society');
+    expect(result.email).toEqual('jane@example.com');
+    expect(result.phone).toEqual('555-0100');
+    expect(result.notes).toEqual('Prefers pick-up on Fridays');
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const stored = await db.select().from(borrowersTable).execute();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].name).toEqual('Jane Roe');
+  });
+
+  it('should store missing details as null', async () => {
+    const result = await createBorrower({ name: 'Walk-in' });
+
+    expect(result.organisation).toBeNull();
+    expect(result.email).toBeNull();
+    expect(result.phone).toBeNull();
+    expect(result.notes).toBeNull();
+  });
+
+  it('should file the borrower under a department', async () => {
+    const [department] = await db.insert(departmentsTable).values({ name: 'Sound' }).returning().execute();
+
+    const result = await createBorrower({ name: 'Jane Roe', department_id: department.id });
+    expect(result.department_id).toEqual(department.id);
+
+    await expect(createBorrower({ name: 'John Doe', department_id: 9999 }))
+      .rejects.toThrow('Department with id 9999 not found');
+  });
+
+  it('should refuse a second borrower with the same email in any case', async () => {
+    await createBorrower({ name: 'Jane Roe', email: 'jane@example.com' });
+
+    await expect(createBorrower({ name: 'J. Roe', email: 'JANE@example.com' }))
+      .rejects.toThrow('A borrower with this email already exists');
+  });
+
+  it('should validate the input', () => {
+    expect(createBorrowerInputSchema.safeParse({ name: '  ' }).success).toBe(false);
+    expect(createBorrowerInputSchema.safeParse({ name: 'Jane', email: 'not an email' }).success).toBe(false);
+  });
+});
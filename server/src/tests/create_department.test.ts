@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { departmentsTable } from '../db/schema';
+import { createDepartmentInputSchema } from '../schema';
+import { createDepartment } from '../handlers/create_department';
+
+describe('createDepartment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should add a department with its cost centre', async () => {
+    const result = await createDepartment({ name: 'Sound', cost_centre: 'CC-100' });
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('Sound');
+    expect(result.cost_centre).toEqual('CC-100');
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const stored = await db.select().from(departmentsTable).execute();
+    expect(stored).toHaveLength(1);
+  });
+
+  it('should store a missing cost centre as null', async () => {
+    const result = await createDepartment({ name: 'Drama', cost_centre: '' });
+
+    expect(result.cost_centre).toBeNull();
+  });
+
+  it('should refuse a second department with the same name in any case', async () => {
+    await createDepartment({ name: 'Sound' });
+
+    await expect(createDepartment({ name: 'SOUND' }))
+      .rejects.toThrow('A department with this name already exists');
+  });
+
+  it('should validate the input', () => {
+    expect(createDepartmentInputSchema.safeParse({ name: '  ' }).success).toBe(false);
+  });
+});
@@ -14,7 +14,11 @@ const testInput: CreateEquipmentInput = {
   category: 'photography',
   brand: 'Canon',
   model: 'EOS R5',
-  status: 'available'
+  status: 'available',
+  replacement_value: 3900,
+  storage_location: 'Bay 4, shelf 2',
+  case_label: 'Camera Case 1',
+  weight_grams: 1850
 };
 
 // Minimal test input with only required fields
@@ -40,6 +44,10 @@ describe('createEquipment', () => {
     expect(result.brand).toEqual('Canon');
     expect(result.model).toEqual('EOS R5');
     expect(result.status).toEqual('available');
+    expect(result.replacement_value).toEqual(3900);
+    expect(result.storage_location).toEqual('Bay 4, shelf 2');
+    expect(result.case_label).toEqual('Camera Case 1');
+    expect(result.weight_grams).toEqual(1850);
     expect(result.id).toBeDefined();
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
@@ -166,4 +174,17 @@ describe('createEquipment', () => {
     expect(result.model).toBeNull();
     expect(result.name).toEqual('Null Fields Equipment');
   });
-});
\ No newline at end of file
+
+  it('should create an accessory of another item', async () => {
+    const parent = await createEquipment(testInput);
+
+    const result = await createEquipment({ ...minimalInput, parent_id: parent.id });
+
+    expect(result.parent_id).toEqual(parent.id);
+  });
+
+  it('should reject a parent that does not exist', async () => {
+    await expect(createEquipment({ ...minimalInput, parent_id: 99999 }))
+      .rejects.toThrow('Parent equipment with id 99999 not found');
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { eventsTable } from '../db/schema';
+import { createEventInputSchema } from '../schema';
+import { createEvent } from '../handlers/create_event';
+
+describe('createEvent', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an event with its gig details', async () => {
+    const result = await createEvent({
+      name: 'Summer Festival',
+      venue: 'Riverside Park',
+      load_in_at: new Date('2030-07-10T06:00:00Z'),
+      starts_at: new Date('2030-07-10T14:00:00Z'),
+      ends_at: new Date('2030-07-12T23:00:00Z'),
+      crew_lead: 'Sam Lee',
+      notes: 'Two stages'
+    });
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('Summer Festival');
+    expect(result.venue).toEqual('Riverside Park');
+    expect(result.load_in_at).toEqual(new Date('2030-07-10T06:00:00Z'));
+    expect(result.crew_lead).toEqual('Sam Lee');
+    expect(result.returned_at).toBeNull();
+
+    const stored = await db.select().from(eventsTable).execute();
+    expect(stored).toHaveLength(1);
+  });
+
+  it('should store missing details as null', async () => {
+    const result = await createEvent({
+      name: 'Quiz Night',
+      starts_at: new Date('2030-03-01T19:00:00Z'),
+      ends_at: new Date('2030-03-01T22:00:00Z')
+    });
+
+    expect(result.venue).toBeNull();
+    expect(result.load_in_at).toBeNull();
+    expect(result.crew_lead).toBeNull();
+    expect(result.notes).toBeNull();
+  });
+
+  it('should validate the input', () => {
+    const dates = { starts_at: new Date('2030-03-01T19:00:00Z'), ends_at: new Date('2030-03-01T22:00:00Z') };
+
+    expect(createEventInputSchema.safeParse({ name: ' ', ...dates }).success).toBe(false);
+    expect(createEventInputSchema.safeParse({ name: 'Gig', starts_at: dates.ends_at, ends_at: dates.starts_at }).success).toBe(false);
+    expect(createEventInputSchema.safeParse({ name: 'Gig', ...dates }).success).toBe(true);
+  });
+});
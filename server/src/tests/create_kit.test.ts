@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, kitsTable, kitMembersTable } from '../db/schema';
+import { createKitInputSchema, type CreateKitInput } from '../schema';
+import { createKit } from '../handlers/create_kit';
+
+describe('createKit', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let equipmentIds: number[];
+
+  beforeEach(async () => {
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'SM58', serial_number: 'MIC001', category: 'Microphones' },
+        { name: 'XLR 10m', serial_number: 'XLR001', category: 'Cables' },
+        { name: 'Mic Stand', serial_number: 'STD001', category: 'Stands' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+  });
+
+  const kitInput = (overrides: Partial<CreateKitInput> = {}): CreateKitInput => ({
+    name: 'Vocal Kit 3',
+    serial_number: 'KIT-VOC-3',
+    description: 'SM58, cable and stand',
+    equipment_ids: equipmentIds,
+    ...overrides
+  });
+
+  it('should create a kit with its members', async () => {
+    const result = await createKit(kitInput());
+
+    expect(result.kit.name).toEqual('Vocal Kit 3');
+    expect(result.kit.serial_number).toEqual('KIT-VOC-3');
+    expect(result.kit.description).toEqual('SM58, cable and stand');
+    expect(result.members.map(member => member.serial_number)).toEqual(['STD001', 'MIC001', 'XLR001']);
+    expect(result.status).toEqual('available');
+    expect(result.outstanding).toHaveLength(0);
+
+    const members = await db.select().from(kitMembersTable).execute();
+    expect(members).toHaveLength(3);
+    members.forEach(member => expect(member.kit_id).toEqual(result.kit.id));
+  });
+
+  it('should allow a kit without a serial number', async () => {
+    const result = await createKit(kitInput({ serial_number: undefined, description: undefined }));
+
+    expect(result.kit.serial_number).toBeNull();
+    expect(result.kit.description).toBeNull();
+  });
+
+  it('should reject equipment that already belongs to another kit', async () => {
+    await createKit(kitInput({ equipment_ids: [equipmentIds[0]] }));
+
+    await expect(createKit(kitInput({ name: 'Vocal Kit 4', serial_number: null })))
+      .rejects.toThrow('Some equipment already belongs to another kit: MIC001 (Vocal Kit 3)');
+
+    expect(await db.select().from(kitsTable).execute()).toHaveLength(1);
+  });
+
+  it('should name missing equipment', async () => {
+    await expect(createKit(kitInput({ equipment_ids: [equipmentIds[0], 99999] })))
+      .rejects.toThrow('Equipment not found: 99999');
+
+    expect(await db.select().from(kitsTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject an empty kit or a duplicated member', () => {
+    expect(createKitInputSchema.safeParse(kitInput({ equipment_ids: [] })).success).toBe(false);
+    expect(createKitInputSchema.safeParse(kitInput({ equipment_ids: [1, 1] })).success).toBe(false);
+  });
+});
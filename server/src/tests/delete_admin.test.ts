@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, adminSessionsTable, adminRecoveryCodesTable, apiKeysTable, equipmentTable, equipmentTransactionsTable, loanExtensionsTable, loginEventsTable, transactionGroupsTable } from '../db/schema';
+import { deleteAdmin } from '../handlers/delete_admin';
+import { createSession } from '../auth/session';
+import { createApiKey } from '../handlers/create_api_key';
+import { eq } from 'drizzle-orm';
+
+describe('deleteAdmin', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let clerkId: number;
+
+  beforeEach(async () => {
+    const adminResult = await db.insert(adminsTable)
+      .values([
+        { username: 'owner', email: 'owner@test.com', password_hash: 'hash', role: 'owner' },
+        { username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' }
+      ])
+      .returning()
+      .execute();
+    ownerId = adminResult[0].id;
+    clerkId = adminResult[1].id;
+  });
+
+  it('should delete an admin without transactions', async () => {
+    await createSession(clerkId);
+
+    const result = await deleteAdmin(clerkId, ownerId);
+
+    expect(result).toBe(true);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+
+    expect(admins).toHaveLength(0);
+
+    const sessions = await db.select()
+      .from(adminSessionsTable)
+      .where(eq(adminSessionsTable.admin_id, clerkId))
+      .execute();
+
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should return false for non-existent admin', async () => {
+    const result = await deleteAdmin(99999, ownerId);
+
+    expect(result).toBe(false);
+  });
+
+  it('should refuse to delete an admin with recorded transactions', async () => {
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'Mixer', serial_number: 'MIX001', category: 'Mixers' })
+      .returning()
+      .execute();
+
+    await db.insert(equipmentTransactionsTable)
+      .values({
+        equipment_id: equipment.id,
+        admin_id: clerkId,
+        transaction_type: 'check_out',
+        user_name: 'John Doe'
+      })
+      .execute();
+
+    await expect(deleteAdmin(clerkId, ownerId)).rejects.toThrow(/Disable the account instead/i);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+
+    expect(admins).toHaveLength(1);
+  });
+
+  it('should refuse to delete an admin who only approved an extension', async () => {
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'Mixer', serial_number: 'MIX001', category: 'Mixers' })
+      .returning()
+      .execute();
+    const [checkOut] = await db.insert(equipmentTransactionsTable)
+      .values({ equipment_id: equipment.id, admin_id: ownerId, transaction_type: 'check_out', user_name: 'John Doe' })
+      .returning()
+      .execute();
+
+    await db.insert(loanExtensionsTable)
+      .values({ transaction_id: checkOut.id, admin_id: clerkId, new_return_date: new Date('2030-01-01T00:00:00Z'), reason: 'Tour extended' })
+      .execute();
+
+    await expect(deleteAdmin(clerkId, ownerId)).rejects.toThrow(/Disable the account instead/i);
+  });
+
+  it('should refuse to delete an admin who opened a transaction group', async () => {
+    await db.insert(transactionGroupsTable)
+      .values({ admin_id: clerkId, user_name: 'John Doe' })
+      .execute();
+
+    await expect(deleteAdmin(clerkId, ownerId)).rejects.toThrow(/Disable the account instead/i);
+  });
+
+  it('should refuse to delete an admin who cancelled a reservation', async () => {
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'Mixer', serial_number: 'MIX001', category: 'Mixers' })
+      .returning()
+      .execute();
+
+    await db.insert(equipmentTransactionsTable)
+      .values({
+        equipment_id: equipment.id,
+        admin_id: ownerId,
+        transaction_type: 'booking',
+        user_name: 'John Doe',
+        cancelled_at: new Date(),
+        cancelled_by: clerkId,
+        actual_return_date: new Date()
+      })
+      .execute();
+
+    await expect(deleteAdmin(clerkId, ownerId)).rejects.toThrow(/Disable the account instead/i);
+  });
+
+  it('should refuse to delete the acting admin', async () => {
+    await expect(deleteAdmin(ownerId, ownerId)).rejects.toThrow(/your own account/i);
+  });
+
+  it('should refuse to delete the last active owner', async () => {
+    await expect(deleteAdmin(ownerId, clerkId)).rejects.toThrow(/last active owner/i);
+  });
+
+  it('should delete the API keys of a deleted admin', async () => {
+    await createApiKey(clerkId, { name: 'Scanner', scopes: null, expires_at: null });
+
+    const result = await deleteAdmin(clerkId, ownerId);
+
+    expect(result).toBe(true);
+
+    const keys = await db.select()
+      .from(apiKeysTable)
+      .execute();
+
+    expect(keys).toHaveLength(0);
+  });
+
+  it('should keep the login history of a deleted admin', async () => {
+    await db.insert(loginEventsTable)
+      .values({ admin_id: clerkId, username: 'clerk', ip_address: '10.0.0.1', outcome: 'success' })
+      .execute();
+
+    const result = await deleteAdmin(clerkId, ownerId);
+
+    expect(result).toBe(true);
+
+    const events = await db.select()
+      .from(loginEventsTable)
+      .execute();
+
+    expect(events).toHaveLength(1);
+    expect(events[0].admin_id).toBeNull();
+    expect(events[0].username).toBe('clerk');
+  });
+
+  it('should leave the admin untouched when the deletion fails', async () => {
+    await createSession(clerkId);
+    await db.insert(adminRecoveryCodesTable)
+      .values({ admin_id: clerkId, code_hash: 'hash' })
+      .execute();
+
+    // An extension the clerk approved on a loan someone else recorded keeps the clerk's row in use
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'Mixer', serial_number: 'MIX001', category: 'Mixers' })
+      .returning()
+      .execute();
+    const [checkOut] = await db.insert(equipmentTransactionsTable)
+      .values({ equipment_id: equipment.id, admin_id: ownerId, transaction_type: 'check_out', user_name: 'Jane Roe' })
+      .returning()
+      .execute();
+    await db.insert(loanExtensionsTable)
+      .values({ transaction_id: checkOut.id, admin_id: clerkId, new_return_date: new Date('2030-01-01T00:00:00Z'), reason: 'Tour extended' })
+      .execute();
+
+    await expect(deleteAdmin(clerkId, ownerId)).rejects.toThrow();
+
+    expect(await db.select().from(adminsTable).where(eq(adminsTable.id, clerkId)).execute()).toHaveLength(1);
+    expect(await db.select().from(adminSessionsTable).where(eq(adminSessionsTable.admin_id, clerkId)).execute()).toHaveLength(1);
+    expect(await db.select().from(adminRecoveryCodesTable).where(eq(adminRecoveryCodesTable.admin_id, clerkId)).execute()).toHaveLength(1);
+  });
+});
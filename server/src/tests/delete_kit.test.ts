@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, equipmentTable, kitsTable, kitMembersTable, transactionGroupsTable } from '../db/schema';
+import { createKit } from '../handlers/create_kit';
+import { checkOutKit } from '../handlers/check_out_kit';
+import { deleteKit } from '../handlers/delete_kit';
+import { deleteEquipment } from '../handlers/delete_equipment';
+
+describe('deleteKit', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let equipmentIds: number[];
+  let kitId: number;
+
+  beforeEach(async () => {
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'SM58', serial_number: 'MIC001', category: 'Microphones' },
+        { name: 'XLR 10m', serial_number: 'XLR001', category: 'Cables' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+
+    const kit = await createKit({ name: 'Vocal Kit 3', equipment_ids: equipmentIds });
+    kitId = kit.kit.id;
+  });
+
+  it('should delete the kit and leave its equipment', async () => {
+    expect(await deleteKit(kitId)).toBe(true);
+
+    expect(await db.select().from(kitsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(kitMembersTable).execute()).toHaveLength(0);
+    expect(await db.select().from(equipmentTable).execute()).toHaveLength(2);
+  });
+
+  it('should keep the receipts of past kit check-outs', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    await checkOutKit({ kit_id: kitId, user_name: 'Friday Gig' }, admin.id);
+
+    expect(await deleteKit(kitId)).toBe(true);
+
+    const groups = await db.select().from(transactionGroupsTable).execute();
+    expect(groups).toHaveLength(1);
+    expect(groups[0].kit_id).toBeNull();
+  });
+
+  it('should drop deleted equipment from the kit', async () => {
+    expect(await deleteEquipment(equipmentIds[0])).toBe(true);
+
+    const members = await db.select().from(kitMembersTable).execute();
+    expect(members.map(member => member.equipment_id)).toEqual([equipmentIds[1]]);
+  });
+
+  it('should return false for a non-existent kit', async () => {
+    expect(await deleteKit(99999)).toBe(false);
+  });
+});
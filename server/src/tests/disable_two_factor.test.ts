@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, adminRecoveryCodesTable, securitySettingsTable } from '../db/schema';
+import { disableTwoFactor } from '../handlers/disable_two_factor';
+import { issueRecoveryCodes } from '../auth/recovery_codes';
+import { eq } from 'drizzle-orm';
+
+describe('disableTwoFactor', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({
+        username: 'owner',
+        email: 'owner@test.com',
+        password_hash: await Bun.password.hash('ownerpass'),
+        totp_secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+        totp_enabled_at: new Date()
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+    await issueRecoveryCodes(adminId);
+  });
+
+  it('should turn 2FA off and discard the secret and recovery codes', async () => {
+    const result = await disableTwoFactor(adminId, { password: 'ownerpass' });
+
+    expect(result).toBe(true);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    expect(admins[0].totp_secret).toBeNull();
+    expect(admins[0].totp_enabled_at).toBeNull();
+
+    const codes = await db.select()
+      .from(adminRecoveryCodesTable)
+      .execute();
+    expect(codes).toHaveLength(0);
+  });
+
+  it('should require the current password', async () => {
+    await expect(disableTwoFactor(adminId, { password: 'wrong' })).rejects.toThrow(/password is incorrect/i);
+  });
+
+  it('should refuse while 2FA is required for every account', async () => {
+    await db.insert(securitySettingsTable)
+      .values({ id: 1, require_two_factor: true })
+      .execute();
+
+    await expect(disableTwoFactor(adminId, { password: 'ownerpass' })).rejects.toThrow(/required for all accounts/i);
+  });
+
+  it('should refuse when 2FA is not enabled', async () => {
+    await disableTwoFactor(adminId, { password: 'ownerpass' });
+
+    await expect(disableTwoFactor(adminId, { password: 'ownerpass' })).rejects.toThrow(/not enabled/i);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, departmentsTable, equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { exportDepartmentUsage } from '../handlers/export_department_usage';
+
+const period = {
+  start_date: new Date('2025-03-01T00:00:00Z'),
+  end_date: new Date('2025-04-01T00:00:00Z'),
+};
+
+describe('exportDepartmentUsage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'admin', email: 'admin@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'SM58', serial_number: 'MIC001', category: 'Microphones' })
+      .returning()
+      .execute();
+    const [department] = await db.insert(departmentsTable)
+      .values({ name: 'Sound, Light & "Video"', cost_centre: '=CC-100' })
+      .returning()
+      .execute();
+
+    await db.insert(equipmentTransactionsTable)
+      .values([
+        {
+          equipment_id: equipment.id,
+          admin_id: admin.id,
+          transaction_type: 'check_out',
+          user_name: 'Someone',
+          department_id: department.id,
+          transaction_date: new Date('2025-03-02T00:00:00Z'),
+          actual_return_date: new Date('2025-03-05T06:00:00Z'),
+          expected_return_date: new Date('2025-03-04T00:00:00Z'),
+          damage_cost: 45,
+        },
+        {
+          equipment_id: equipment.id,
+          admin_id: admin.id,
+          transaction_type: 'check_out',
+          user_name: 'Someone',
+          transaction_date: new Date('2025-03-10T00:00:00Z'),
+          actual_return_date: new Date('2025-03-11T00:00:00Z'),
+        },
+      ])
+      .execute();
+  });
+
+  it('should write one CSV row per department', async () => {
+    const result = await exportDepartmentUsage(period);
+
+    expect(result.filename).toEqual('department-usage-2025-03-01-to-2025-04-01.csv');
+    expect(result.csv.split('\r\n')).toEqual([
+      'Department,Cost Centre,Check-outs,Item Days,Overdue Days,Damage Costs',
+      '"Sound, Light & ""Video""",\'=CC-100,1,3.25,1.25,45',
+      'No department,,1,1,0,0',
+      '',
+    ]);
+  });
+
+  it('should write only the header for an empty period', async () => {
+    const result = await exportDepartmentUsage({
+      start_date: new Date('2020-01-01T00:00:00Z'),
+      end_date: new Date('2020-02-01T00:00:00Z'),
+    });
+
+    expect(result.csv).toEqual('Department,Cost Centre,Check-outs,Item Days,Overdue Days,Damage Costs\r\n');
+  });
+});
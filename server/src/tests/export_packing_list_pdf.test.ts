@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, equipmentTable, eventsTable } from '../db/schema';
+import { checkOutGroup } from '../handlers/check_out_group';
+import { exportPackingListPdf } from '../handlers/export_packing_list_pdf';
+import { getPackingListQuerySchema } from '../schema';
+
+describe('exportPackingListPdf', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let eventId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'admin', email: 'admin@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [event] = await db.insert(eventsTable)
+      .values({ name: 'Summer Festival', starts_at: new Date('2030-07-10T14:00:00Z'), ends_at: new Date('2030-07-12T23:00:00Z') })
+      .returning()
+      .execute();
+    eventId = event.id;
+  });
+
+  const decode = (pdf: string): string => Buffer.from(pdf, 'base64').toString('latin1');
+
+  it('should export the sheet as a PDF', async () => {
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'Console', serial_number: 'MIX001', category: 'Mixers', storage_location: 'Bay 2', weight_grams: 18500 })
+      .returning()
+      .execute();
+    await checkOutGroup({ equipment_ids: [equipment.id], user_name: 'Festival Crew', event_id: eventId }, adminId);
+
+    const result = await exportPackingListPdf({ sheet: 'return', event_id: eventId, time_zone: 'UTC' });
+    const pdf = decode(result!.pdf);
+
+    expect(result!.filename).toEqual(`return-checklist-event-${eventId}-summer-festival.pdf`);
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Title (Return Checklist: Summer Festival)');
+    expect(pdf).toContain('(MIX001) Tj');
+    expect(pdf).toContain('(18.5 kg) Tj');
+    expect(pdf).toContain('Page 1 of 1) Tj');
+  });
+
+  it('should flow long lists onto further pages', async () => {
+    const equipment = await db.insert(equipmentTable)
+      .values(Array.from({ length: 60 }, (_, index) => ({
+        name: `Cable ${index + 1}`,
+        serial_number: `CBL${(index + 1).toString().padStart(3, '0')}`,
+        category: 'Cables',
+      })))
+      .returning()
+      .execute();
+    await checkOutGroup({ equipment_ids: equipment.map(item => item.id), user_name: 'Festival Crew', event_id: eventId }, adminId);
+
+    const pdf = decode((await exportPackingListPdf({ sheet: 'pull', event_id: eventId, time_zone: 'UTC' }))!.pdf);
+
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('Page 2 of 2) Tj');
+    expect(pdf).toContain('(CBL060) Tj');
+    // The column headings are repeated on the second page
+    expect(pdf.match(/\(Serial\) Tj/g)).toHaveLength(2);
+  });
+
+  it('should return null for an event that does not exist', async () => {
+    expect(await exportPackingListPdf({ sheet: 'pull', event_id: 9999, time_zone: 'UTC' })).toBeNull();
+  });
+
+  it('should take either an event or a check-out group', () => {
+    expect(getPackingListQuerySchema.safeParse({ sheet: 'pull' }).success).toBe(false);
+    expect(getPackingListQuerySchema.safeParse({ sheet: 'pull', event_id: 1, group_id: 2 }).success).toBe(false);
+    expect(getPackingListQuerySchema.safeParse({ sheet: 'pull', event_id: 1, time_zone: 'Mars/Olympus' }).success).toBe(false);
+    expect(getPackingListQuerySchema.parse({ sheet: 'pull', group_id: 2 }).time_zone).toEqual('UTC');
+  });
+});
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable, loanExtensionsTable, transactionGroupsTable } from '../db/schema';
+import { extendLoanInputSchema } from '../schema';
+import { extendLoan } from '../handlers/extend_loan';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
+import { checkOutGroup } from '../handlers/check_out_group';
+import { checkInEquipment } from '../handlers/check_in_equipment';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { bookEquipment } from '../handlers/book_equipment';
+import { runOverdueCheck } from '../handlers/run_overdue_check';
+import { eq } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+describe('extendLoan', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let equipmentId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({
+        username: 'testadmin',
+        email: 'admin@test.com',
+        password_hash: 'hashedpassword'
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [equipment] = await db.insert(equipmentTable)
+      .values({
+        name: 'Mixing Console',
+        serial_number: 'MIX001',
+        category: 'Mixers',
+        status: 'available'
+      })
+      .returning()
+      .execute();
+    equipmentId = equipment.id;
+  });
+
+  it('should move the expected return of a check-out and record the extension', async () => {
+    const checkOut = await checkOutEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Jane Doe',
+      expected_return_date: daysFromNow(2)
+    }, adminId);
+
+    const result = await extendLoan({
+      transaction_id: checkOut.id,
+      expected_return_date: daysFromNow(5),
+      reason: 'Tour extended by three days'
+    }, adminId);
+
+    expect(result!.id).toEqual(checkOut.id);
+    expect(result!.expected_return_date!.getTime()).toBeGreaterThan(daysFromNow(4).getTime());
+    // The loan keeps its original start
+    expect(result!.transaction_date).toEqual(checkOut.transaction_date);
+
+    const extensions = await db.select()
+      .from(loanExtensionsTable)
+      .execute();
+    expect(extensions).toHaveLength(1);
+    expect(extensions[0].transaction_id).toEqual(checkOut.id);
+    expect(extensions[0].admin_id).toEqual(adminId);
+    expect(extensions[0].previous_return_date).toEqual(checkOut.expected_return_date);
+    expect(extensions[0].new_return_date).toEqual(result!.expected_return_date!);
+    expect(extensions[0].reason).toEqual('Tour extended by three days');
+
+    // No extra check-in or check-out was recorded
+    const transactions = await db.select()
+      .from(equipmentTransactionsTable)
+      .execute();
+    expect(transactions).toHaveLength(1);
+  });
+
+  it('should keep one record per extension', async () => {
+    const checkOut = await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Jane Doe', expected_return_date: daysFromNow(1) }, adminId);
+
+    await extendLoan({ transaction_id: checkOut.id, expected_return_date: daysFromNow(3), reason: 'First' }, adminId);
+    await extendLoan({ transaction_id: checkOut.id, expected_return_date: daysFromNow(6), reason: 'Second' }, adminId, null);
+
+    const extensions = await db.select()
+      .from(loanExtensionsTable)
+      .orderBy(loanExtensionsTable.id)
+      .execute();
+    expect(extensions.map(extension => extension.reason)).toEqual(['First', 'Second']);
+    expect(extensions[1].previous_return_date).toEqual(extensions[0].new_return_date);
+  });
+
+  it('should give a due date to a check-out that had none', async () => {
+    const checkOut = await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Jane Doe' }, adminId);
+
+    const result = await extendLoan({ transaction_id: checkOut.id, expected_return_date: daysFromNow(2), reason: 'Agreed a return date' }, adminId);
+
+    expect(result!.expected_return_date).not.toBeNull();
+    const [extension] = await db.select().from(loanExtensionsTable).execute();
+    expect(extension.previous_return_date).toBeNull();
+  });
+
+  it('should move the due date of a group to its latest open item', async () => {
+    const [stand] = await db.insert(equipmentTable)
+      .values({ name: 'Mic Stand', serial_number: 'STD001', category: 'Stands' })
+      .returning()
+      .execute();
+    const group = await checkOutGroup({ equipment_ids: [equipmentId, stand.id], user_name: 'Jane Doe', expected_return_date: daysFromNow(2) }, adminId);
+    const checkOutOf = (id: number) => group.items.find(item => item.equipment.id === id)!.check_out;
+    const groupDueDate = async () => {
+      const [row] = await db.select()
+        .from(transactionGroupsTable)
+        .where(eq(transactionGroupsTable.id, group.group.id))
+        .execute();
+      return row.expected_return_date;
+    };
+
+    const extended = await extendLoan({ transaction_id: checkOutOf(equipmentId).id, expected_return_date: daysFromNow(5), reason: 'Tour extended' }, adminId);
+    expect(await groupDueDate()).toEqual(extended!.expected_return_date);
+
+    // Once the later item is back, the group is due when the rest is
+    await checkInEquipment({ equipment_id: equipmentId }, adminId);
+    const rest = await extendLoan({ transaction_id: checkOutOf(stand.id).id, expected_return_date: daysFromNow(3), reason: 'Stand kept a day longer' }, adminId);
+    expect(await groupDueDate()).toEqual(rest!.expected_return_date);
+  });
+
+  it('should extend an immediate booking', async () => {
+    const booking = await bookEquipment({ equipment_id: equipmentId, user_name: 'Band', expected_return_date: daysFromNow(1) }, adminId);
+
+    const result = await extendLoan({ transaction_id: booking.id, expected_return_date: daysFromNow(4), reason: 'Gig moved' }, adminId);
+
+    expect(result!.transaction_type).toEqual('booking');
+    expect(result!.expected_return_date!.getTime()).toBeGreaterThan(daysFromNow(3).getTime());
+  });
+
+  it('should reject an extension that collides with a later reservation', async () => {
+    const checkOut = await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Jane Doe', expected_return_date: daysFromNow(2) }, adminId);
+    await reserveEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Next Band',
+      start_date: daysFromNow(3),
+      end_date: daysFromNow(4)
+    }, adminId);
+
+    await expect(extendLoan({ transaction_id: checkOut.id, expected_return_date: daysFromNow(5), reason: 'Longer tour' }, adminId))
+      .rejects.toThrow(/already reserved for this period.*Next Band/);
+
+    // Nothing changed
+    const [loan] = await db.select().from(equipmentTransactionsTable).where(eq(equipmentTransactionsTable.id, checkOut.id)).execute();
+    expect(loan.expected_return_date).toEqual(checkOut.expected_return_date);
+    expect(await db.select().from(loanExtensionsTable).execute()).toHaveLength(0);
+
+    // Up to the start of the reservation is fine
+    const result = await extendLoan({ transaction_id: checkOut.id, expected_return_date: daysFromNow(2.5), reason: 'One more night' }, adminId);
+    expect(result!.expected_return_date!.getTime()).toBeGreaterThan(daysFromNow(2.4).getTime());
+  });
+
+  it('should extend a reservation into free time but not over another one', async () => {
+    const first = await reserveEquipment({ equipment_id: equipmentId, user_name: 'First', start_date: daysFromNow(1), end_date: daysFromNow(2) }, adminId);
+    await reserveEquipment({ equipment_id: equipmentId, user_name: 'Second', start_date: daysFromNow(4), end_date: daysFromNow(5) }, adminId);
+
+    await extendLoan({ transaction_id: first.id, expected_return_date: daysFromNow(3), reason: 'Extra rehearsal' }, adminId);
+    await expect(extendLoan({ transaction_id: first.id, expected_return_date: daysFromNow(4.5), reason: 'Too long' }, adminId))
+      .rejects.toThrow(/Second/);
+  });
+
+  it('should clear the overdue mark and start a new reminder schedule', async () => {
+    const [checkOut] = await db.insert(equipmentTransactionsTable)
+      .values({
+        equipment_id: equipmentId,
+        admin_id: adminId,
+        transaction_type: 'check_out',
+        user_name: 'Jane Doe',
+        user_contact: 'jane@example.com',
+        transaction_date: daysFromNow(-5),
+        expected_return_date: daysFromNow(-1)
+      })
+      .returning()
+      .execute();
+    await runOverdueCheck(new Date(), null);
+
+    const result = await extendLoan({ transaction_id: checkOut.id, expected_return_date: daysFromNow(2), reason: 'Still in use' }, adminId);
+
+    expect(result!.overdue_at).toBeNull();
+  });
+
+  it('should reject returned loans and check-ins', async () => {
+    const checkOut = await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Jane Doe', expected_return_date: daysFromNow(1) }, adminId);
+    const checkIn = await checkInEquipment({ equipment_id: equipmentId }, adminId);
+
+    await expect(extendLoan({ transaction_id: checkOut.id, expected_return_date: daysFromNow(2), reason: 'Late' }, adminId))
+      .rejects.toThrow(/is not an open check-out or booking/);
+    await expect(extendLoan({ transaction_id: checkIn.id, expected_return_date: daysFromNow(2), reason: 'Late' }, adminId))
+      .rejects.toThrow(/is not an open check-out or booking/);
+  });
+
+  it('should reject a return date in the past', async () => {
+    const checkOut = await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Jane Doe', expected_return_date: daysFromNow(1) }, adminId);
+
+    await expect(extendLoan({ transaction_id: checkOut.id, expected_return_date: daysFromNow(-1), reason: 'Oops' }, adminId))
+      .rejects.toThrow(/must be in the future/);
+  });
+
+  it('should reject a return date before a reservation starts', async () => {
+    const reservation = await reserveEquipment({ equipment_id: equipmentId, user_name: 'Band', start_date: daysFromNow(3), end_date: daysFromNow(4) }, adminId);
+
+    await expect(extendLoan({ transaction_id: reservation.id, expected_return_date: daysFromNow(2), reason: 'Shorter' }, adminId))
+      .rejects.toThrow(/must be after the loan starts/);
+  });
+
+  it('should return null for a non-existent transaction', async () => {
+    expect(await extendLoan({ transaction_id: 99999, expected_return_date: daysFromNow(1), reason: 'Why' }, adminId)).toBeNull();
+  });
+
+  it('should throw for a non-existent admin', async () => {
+    const checkOut = await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Jane Doe' }, adminId);
+
+    await expect(extendLoan({ transaction_id: checkOut.id, expected_return_date: daysFromNow(1), reason: 'Why' }, 99999))
+      .rejects.toThrow(/Admin with id 99999 not found/);
+  });
+
+  it('should require a reason', () => {
+    expect(extendLoanInputSchema.safeParse({ transaction_id: 1, expected_return_date: daysFromNow(1), reason: '  ' }).success).toBe(false);
+  });
+});
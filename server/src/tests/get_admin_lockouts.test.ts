@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, loginThrottlesTable } from '../db/schema';
+import { getAdminLockouts } from '../handlers/get_admin_lockouts';
+import { recordLoginFailure } from '../auth/throttle';
+
+describe('getAdminLockouts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let clerkId: number;
+
+  beforeEach(async () => {
+    const admins = await db.insert(adminsTable)
+      .values([
+        { username: 'owner', email: 'owner@test.com', password_hash: 'hash' },
+        { username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' }
+      ])
+      .returning()
+      .execute();
+    clerkId = admins[1].id;
+  });
+
+  it('should list admins whose username is blocked', async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordLoginFailure('clerk', '10.0.0.1');
+    }
+
+    const result = await getAdminLockouts();
+
+    expect(result).toHaveLength(1);
+    expect(result[0].admin_id).toBe(clerkId);
+    expect(result[0].username).toBe('clerk');
+    expect(result[0].failed_count).toBe(5);
+    expect(result[0].blocked_until.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should ignore unknown usernames, address counters and expired blocks', async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordLoginFailure('ghost', '10.0.0.1');
+    }
+
+    await db.insert(loginThrottlesTable)
+      .values({
+        scope: 'username',
+        key: 'owner',
+        failed_count: 5,
+        last_failed_at: new Date(Date.now() - 20 * 60 * 1000),
+        blocked_until: new Date(Date.now() - 5 * 60 * 1000)
+      })
+      .execute();
+
+    const result = await getAdminLockouts();
+
+    expect(result).toHaveLength(0);
+  });
+});
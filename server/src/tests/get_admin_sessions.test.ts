@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, adminSessionsTable } from '../db/schema';
+import { getAdminSessions } from '../handlers/get_admin_sessions';
+import { createSession } from '../auth/session';
+
+describe('getAdminSessions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let clerkId: number;
+
+  beforeEach(async () => {
+    const admins = await db.insert(adminsTable)
+      .values([
+        { username: 'owner', email: 'owner@test.com', password_hash: 'hash', role: 'owner' },
+        { username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' }
+      ])
+      .returning()
+      .execute();
+    ownerId = admins[0].id;
+    clerkId = admins[1].id;
+
+    await createSession(ownerId);
+    await createSession(clerkId);
+    await db.insert(adminSessionsTable)
+      .values({ admin_id: clerkId, token_hash: 'expired', expires_at: new Date(Date.now() - 1000) })
+      .execute();
+  });
+
+  it('should list unexpired sessions with their admin', async () => {
+    const result = await getAdminSessions();
+
+    expect(result).toHaveLength(2);
+    expect(result.map(session => session.username).sort()).toEqual(['clerk', 'owner']);
+    expect('token_hash' in result[0]).toBe(false);
+  });
+
+  it('should filter by admin', async () => {
+    const result = await getAdminSessions(clerkId);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].admin_id).toEqual(clerkId);
+    expect(result[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { getApiKeys } from '../handlers/get_api_keys';
+import { createApiKey } from '../handlers/create_api_key';
+
+describe('getApiKeys', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let clerkId: number;
+
+  beforeEach(async () => {
+    const admins = await db.insert(adminsTable)
+      .values([
+        { username: 'owner', email: 'owner@test.com', password_hash: 'hash', role: 'owner' },
+        { username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' }
+      ])
+      .returning()
+      .execute();
+    ownerId = admins[0].id;
+    clerkId = admins[1].id;
+
+    await createApiKey(ownerId, { name: 'Inventory sync', scopes: null, expires_at: null });
+    await createApiKey(clerkId, { name: 'Scanner', scopes: null, expires_at: null });
+  });
+
+  it('should list only the admin\'s own keys', async () => {
+    const result = await getApiKeys(clerkId);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].name).toEqual('Scanner');
+    expect(result[0].admin_id).toEqual(clerkId);
+  });
+
+  it('should list every key when no admin is given', async () => {
+    const result = await getApiKeys(null);
+
+    expect(result).toHaveLength(2);
+  });
+
+  it('should never return key hashes', async () => {
+    const result = await getApiKeys(null);
+
+    result.forEach(apiKey => expect('key_hash' in apiKey).toBe(false));
+  });
+});
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { availabilityQuerySchema, type AvailabilityQuery } from '../schema';
+import { getAvailableEquipment } from '../handlers/get_available_equipment';
+
+describe('getAvailableEquipment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+
+  // Friday 14:00 to Sunday 23:00
+  const window: AvailabilityQuery = {
+    start_date: new Date('2030-07-12T14:00:00Z'),
+    end_date: new Date('2030-07-14T23:00:00Z')
+  };
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  const addEquipment = async (serial: string, overrides: Partial<typeof equipmentTable.$inferInsert> = {}) => {
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: `Handheld ${serial}`, serial_number: serial, category: 'Wireless', ...overrides })
+      .returning()
+      .execute();
+    return equipment;
+  };
+
+  const addTransaction = async (values: Omit<typeof equipmentTransactionsTable.$inferInsert, 'admin_id'>) => {
+    const [transaction] = await db.insert(equipmentTransactionsTable)
+      .values({ admin_id: adminId, ...values })
+      .returning()
+      .execute();
+    return transaction;
+  };
+
+  const serials = async (query: AvailabilityQuery = window) => {
+    const result = await getAvailableEquipment(query);
+    return result.map(entry => entry.equipment.serial_number);
+  };
+
+  it('should return free units with no next commitment', async () => {
+    await addEquipment('WL1');
+
+    const result = await getAvailableEquipment(window);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].equipment.serial_number).toEqual('WL1');
+    expect(result[0].next_commitment).toBeNull();
+  });
+
+  it('should leave out units in maintenance', async () => {
+    await addEquipment('WL1', { status: 'maintenance' });
+    await addEquipment('WL2');
+
+    expect(await serials()).toEqual(['WL2']);
+  });
+
+  it('should take check-outs and their expected return dates into account', async () => {
+    const backInTime = await addEquipment('WL1', { status: 'checked_out' });
+    const backTooLate = await addEquipment('WL2', { status: 'checked_out' });
+    const noReturnDate = await addEquipment('WL3', { status: 'checked_out' });
+    const overdue = await addEquipment('WL4', { status: 'checked_out' });
+
+    await addTransaction({
+      equipment_id: backInTime.id,
+      transaction_type: 'check_out',
+      user_name: 'Band A',
+      expected_return_date: new Date('2030-07-12T10:00:00Z')
+    });
+    await addTransaction({
+      equipment_id: backTooLate.id,
+      transaction_type: 'check_out',
+      user_name: 'Band B',
+      expected_return_date: new Date('2030-07-13T10:00:00Z')
+    });
+    await addTransaction({
+      equipment_id: noReturnDate.id,
+      transaction_type: 'check_out',
+      user_name: 'Band C'
+    });
+    await addTransaction({
+      equipment_id: overdue.id,
+      transaction_type: 'check_out',
+      user_name: 'Band D',
+      transaction_date: new Date('2020-01-01T00:00:00Z'),
+      expected_return_date: new Date('2020-01-02T00:00:00Z')
+    });
+
+    expect(await serials()).toEqual(['WL1']);
+  });
+
+  it('should leave out units reserved during the window', async () => {
+    const reserved = await addEquipment('WL1');
+    await addEquipment('WL2');
+
+    await addTransaction({
+      equipment_id: reserved.id,
+      transaction_type: 'booking',
+      user_name: 'Festival',
+      reserved_from: new Date('2030-07-14T20:00:00Z'),
+      expected_return_date: new Date('2030-07-15T10:00:00Z')
+    });
+
+    expect(await serials()).toEqual(['WL2']);
+  });
+
+  it('should report the first commitment after the window', async () => {
+    const unit = await addEquipment('WL1');
+
+    await addTransaction({
+      equipment_id: unit.id,
+      transaction_type: 'booking',
+      user_name: 'Much Later',
+      reserved_from: new Date('2030-08-01T09:00:00Z'),
+      expected_return_date: new Date('2030-08-02T09:00:00Z')
+    });
+    const monday = await addTransaction({
+      equipment_id: unit.id,
+      transaction_type: 'booking',
+      user_name: 'Monday Gig',
+      reserved_from: new Date('2030-07-14T23:00:00Z'),
+      expected_return_date: new Date('2030-07-15T23:00:00Z')
+    });
+    // Cancelled reservations no longer count
+    await addTransaction({
+      equipment_id: unit.id,
+      transaction_type: 'booking',
+      user_name: 'Cancelled',
+      reserved_from: new Date('2030-07-13T09:00:00Z'),
+      expected_return_date: new Date('2030-07-13T18:00:00Z'),
+      actual_return_date: new Date('2030-07-01T00:00:00Z'),
+      cancelled_at: new Date('2030-07-01T00:00:00Z')
+    });
+
+    const result = await getAvailableEquipment(window);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].next_commitment).toEqual({
+      transaction_id: monday.id,
+      transaction_type: 'booking',
+      user_name: 'Monday Gig',
+      start: new Date('2030-07-14T23:00:00Z'),
+      end: new Date('2030-07-15T23:00:00Z')
+    });
+  });
+
+  it('should leave out units marked out without an open record', async () => {
+    await addEquipment('WL1', { status: 'checked_out' });
+
+    expect(await serials()).toEqual([]);
+  });
+
+  it('should filter by category and search term', async () => {
+    await addEquipment('WL1', { name: 'Shure SM58 Handheld' });
+    await addEquipment('WL2', { name: 'Sennheiser Handheld' });
+    await addEquipment('SPK1', { name: 'Shure Monitor', category: 'Speakers' });
+
+    expect(await serials({ ...window, category: 'Wireless' })).toEqual(['WL2', 'WL1']);
+    expect(await serials({ ...window, search: 'shure' })).toEqual(['SPK1', 'WL1']);
+    expect(await serials({ ...window, category: 'Wireless', search: 'shure' })).toEqual(['WL1']);
+  });
+
+  it('should reject a window that ends before it starts', () => {
+    const parsed = availabilityQuerySchema.safeParse({
+      start_date: window.end_date,
+      end_date: window.start_date
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+});
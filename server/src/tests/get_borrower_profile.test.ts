@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, borrowersTable, departmentsTable, equipmentTable } from '../db/schema';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
+import { checkInEquipment } from '../handlers/check_in_equipment';
+import { bookEquipment } from '../handlers/book_equipment';
+import { getBorrowerProfile } from '../handlers/get_borrower_profile';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getBorrowerProfile', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let borrowerId: number;
+  let equipmentIds: number[];
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'admin', email: 'admin@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe', email: 'jane@example.com' })
+      .returning()
+      .execute();
+    borrowerId = borrower.id;
+
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'SM58', serial_number: 'MIC001', category: 'Microphones' },
+        { name: 'XLR 10m', serial_number: 'XLR001', category: 'Cables' },
+        { name: 'Mic Stand', serial_number: 'STD001', category: 'Stands' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+  });
+
+  it('should list what the borrower holds and everything they borrowed', async () => {
+    const returned = await checkOutEquipment({ equipment_id: equipmentIds[0], user_name: 'Jane Roe', borrower_id: borrowerId }, adminId);
+    await checkInEquipment({ equipment_id: equipmentIds[0] }, adminId);
+    const held = await checkOutEquipment({ equipment_id: equipmentIds[1], user_name: 'Jane Roe', borrower_id: borrowerId }, adminId);
+    const booked = await bookEquipment({
+      equipment_id: equipmentIds[2],
+      user_name: 'Jane Roe',
+      borrower_id: borrowerId,
+      expected_return_date: new Date(Date.now() + DAY_MS)
+    }, adminId);
+    // Someone else's check-out
+    await checkOutEquipment({ equipment_id: equipmentIds[0], user_name: 'John Doe' }, adminId);
+
+    const profile = await getBorrowerProfile(borrowerId);
+
+    expect(profile!.borrower.name).toEqual('Jane Roe');
+    expect(profile!.holding.map(({ transaction }) => transaction.id).sort()).toEqual([held.id, booked.id].sort());
+    expect(profile!.holding.find(({ transaction }) => transaction.id === held.id)!.equipment.serial_number).toEqual('XLR001');
+    expect(profile!.history.map(({ transaction }) => transaction.id)).toEqual([booked.id, held.id, returned.id]);
+    expect(profile!.overrides).toEqual([]);
+    expect(profile!.department).toBeNull();
+  });
+
+  it("should include the borrower's department", async () => {
+    const [department] = await db.insert(departmentsTable)
+      .values({ name: 'Sound', cost_centre: 'CC-100' })
+      .returning()
+      .execute();
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Sound Crew', department_id: department.id })
+      .returning()
+      .execute();
+
+    const profile = await getBorrowerProfile(borrower.id);
+
+    expect(profile!.borrower.name).toEqual('Sound Crew');
+    expect(profile!.department).toEqual(department);
+  });
+
+  it('should return null for a borrower that does not exist', async () => {
+    expect(await getBorrowerProfile(9999)).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { borrowersTable } from '../db/schema';
+import { getBorrowers } from '../handlers/get_borrowers';
+
+describe('getBorrowers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(borrowersTable)
+      .values([
+        { name: 'Mia Wong', organisation: 'Jazz Band', email: 'mia@example.com' },
+        { name: 'Jane Roe', organisation: 'Drama Society', phone: '555-0100' },
+        { name: 'Alex Smith', email: 'alex@drama.example.com' }
+      ])
+      .execute();
+  });
+
+  it('should list borrowers by name', async () => {
+    const result = await getBorrowers();
+    expect(result.map(borrower => borrower.name)).toEqual(['Alex Smith', 'Jane Roe', 'Mia Wong']);
+  });
+
+  it('should search name, organisation, email and phone', async () => {
+    expect((await getBorrowers({ search: 'drama' })).map(borrower => borrower.name)).toEqual(['Alex Smith', 'Jane Roe']);
+    expect((await getBorrowers({ search: 'WONG' })).map(borrower => borrower.name)).toEqual(['Mia Wong']);
+    expect((await getBorrowers({ search: '0100' })).map(borrower => borrower.name)).toEqual(['Jane Roe']);
+    expect(await getBorrowers({ search: 'nobody' })).toHaveLength(0);
+  });
+
+  it('should apply the limit', async () => {
+    expect(await getBorrowers({ limit: 2 })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { getCurrentAdmin } from '../handlers/get_current_admin';
+
+describe('getCurrentAdmin', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the admin and the permissions of their role', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({
+        username: 'clerk',
+        email: 'clerk@test.com',
+        password_hash: 'secret_hash',
+        role: 'clerk'
+      })
+      .returning()
+      .execute();
+
+    const result = await getCurrentAdmin(admin.id);
+
+    expect(result).not.toBeNull();
+    expect(result!.admin.id).toBe(admin.id);
+    expect(result!.admin.username).toBe('clerk');
+    expect(result!.admin.role).toBe('clerk');
+    expect(result!.permissions).toContain('transactions:write');
+    expect(result!.permissions).not.toContain('admins:manage');
+  });
+
+  it('should not include the password hash', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({
+        username: 'owner',
+        email: 'owner@test.com',
+        password_hash: 'secret_hash'
+      })
+      .returning()
+      .execute();
+
+    const result = await getCurrentAdmin(admin.id);
+
+    expect('password_hash' in result!.admin).toBe(false);
+    expect(JSON.stringify(result)).not.toContain('secret_hash');
+  });
+
+  it('should return null for non-existent admin', async () => {
+    const result = await getCurrentAdmin(99999);
+
+    expect(result).toBeNull();
+  });
+});
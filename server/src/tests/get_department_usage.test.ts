@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, departmentsTable, equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { getDepartmentUsageQuerySchema } from '../schema';
+import { getDepartmentUsage } from '../handlers/get_department_usage';
+
+const period = {
+  start_date: new Date('2025-03-01T00:00:00Z'),
+  end_date: new Date('2025-04-01T00:00:00Z'),
+};
+
+describe('getDepartmentUsage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let soundId: number;
+  let dramaId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'admin', email: 'admin@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'SM58', serial_number: 'MIC001', category: 'Microphones', status: 'checked_out' })
+      .returning()
+      .execute();
+    const [sound, drama] = await db.insert(departmentsTable)
+      .values([{ name: 'Sound', cost_centre: 'CC-100' }, { name: 'Drama' }])
+      .returning()
+      .execute();
+    soundId = sound.id;
+    dramaId = drama.id;
+
+    const loan = (departmentId: number | null, from: string, to: string | null, expected: string | null, damage: number | null = null) => ({
+      equipment_id: equipment.id,
+      admin_id: admin.id,
+      transaction_type: 'check_out' as const,
+      user_name: 'Someone',
+      department_id: departmentId,
+      transaction_date: new Date(from),
+      actual_return_date: to ? new Date(to) : null,
+      expected_return_date: expected ? new Date(expected) : null,
+      damage_cost: damage,
+    });
+
+    await db.insert(equipmentTransactionsTable)
+      .values([
+        // Started before the period, returned two days late and damaged
+        loan(sound.id, '2025-02-25T00:00:00Z', '2025-03-05T00:00:00Z', '2025-03-03T00:00:00Z', 120),
+        loan(sound.id, '2025-03-10T00:00:00Z', '2025-03-12T12:00:00Z', '2025-03-13T00:00:00Z'),
+        // Still out, and overdue since the last day of the period
+        loan(drama.id, '2025-03-30T00:00:00Z', null, '2025-03-31T00:00:00Z'),
+        // Damage found after the period belongs to the next one
+        loan(drama.id, '2025-03-31T00:00:00Z', '2025-04-02T00:00:00Z', null, 80),
+        loan(null, '2025-03-01T00:00:00Z', '2025-03-02T00:00:00Z', null),
+        // Entirely before the period
+        loan(sound.id, '2025-01-01T00:00:00Z', '2025-01-05T00:00:00Z', null, 500),
+        {
+          equipment_id: equipment.id,
+          admin_id: admin.id,
+          transaction_type: 'booking' as const,
+          user_name: 'Someone',
+          department_id: sound.id,
+          transaction_date: new Date('2025-03-15T00:00:00Z'),
+        },
+      ])
+      .execute();
+  });
+
+  it('should charge each department for its check-outs within the period', async () => {
+    const result = await getDepartmentUsage(period);
+
+    expect(result).toEqual([
+      {
+        department_id: dramaId,
+        department_name: 'Drama',
+        cost_centre: null,
+        check_outs: 2,
+        item_days: 3,
+        overdue_days: 1,
+        damage_cost: 0,
+      },
+      {
+        department_id: soundId,
+        department_name: 'Sound',
+        cost_centre: 'CC-100',
+        check_outs: 2,
+        item_days: 6.5,
+        overdue_days: 2,
+        damage_cost: 120,
+      },
+      {
+        department_id: null,
+        department_name: null,
+        cost_centre: null,
+        check_outs: 1,
+        item_days: 1,
+        overdue_days: 0,
+        damage_cost: 0,
+      },
+    ]);
+  });
+
+  it('should report a single department', async () => {
+    const result = await getDepartmentUsage({ ...period, department_id: soundId });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].department_name).toEqual('Sound');
+  });
+
+  it('should return nothing for a period without check-outs', async () => {
+    const result = await getDepartmentUsage({
+      start_date: new Date('2020-01-01T00:00:00Z'),
+      end_date: new Date('2020-02-01T00:00:00Z'),
+    });
+
+    expect(result).toEqual([]);
+  });
+
+  it('should require a period that ends after it starts', () => {
+    expect(getDepartmentUsageQuerySchema.safeParse({ start_date: period.start_date }).success).toBe(false);
+    expect(getDepartmentUsageQuerySchema.safeParse({ start_date: period.end_date, end_date: period.start_date }).success).toBe(false);
+    expect(getDepartmentUsageQuerySchema.safeParse(period).success).toBe(true);
+  });
+});
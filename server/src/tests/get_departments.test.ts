@@ -0,0 +1,25 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { departmentsTable } from '../db/schema';
+import { getDepartments } from '../handlers/get_departments';
+
+describe('getDepartments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty list without departments', async () => {
+    expect(await getDepartments()).toEqual([]);
+  });
+
+  it('should list departments by name', async () => {
+    await db.insert(departmentsTable)
+      .values([{ name: 'Sound' }, { name: 'Drama', cost_centre: 'CC-300' }, { name: 'Lighting' }])
+      .execute();
+
+    const result = await getDepartments();
+
+    expect(result.map(department => department.name)).toEqual(['Drama', 'Lighting', 'Sound']);
+    expect(result[0].cost_centre).toEqual('CC-300');
+  });
+});
@@ -3,6 +3,9 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { adminsTable, equipmentTable, equipmentTransactionsTable } from '../db/schema';
 import { getEquipmentWithTransactions } from '../handlers/get_equipment_with_transactions';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
+import { checkInEquipment } from '../handlers/check_in_equipment';
+import { extendLoan } from '../handlers/extend_loan';
 
 // Test data
 const testAdmin = {
@@ -268,6 +271,7 @@ describe('getEquipmentWithTransactions', () => {
         user_contact: 'userb@example.com',
         transaction_date: dates.checkOut,
         expected_return_date: new Date('2024-01-15'),
+        actual_return_date: dates.checkIn,
       },
       {
         equipment_id: equipment.id,
@@ -346,4 +350,102 @@ describe('getEquipmentWithTransactions', () => {
     expect(result!.transactions[0].notes).toBeNull();
     expect(result!.transactions[0].expected_return_date).toBeNull();
   });
-});
\ No newline at end of file
+
+  it('should return accessories and flag those still out once the item is back', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values(testAdmin)
+      .returning()
+      .execute();
+    const [equipment] = await db.insert(equipmentTable)
+      .values(testEquipment)
+      .returning()
+      .execute();
+    const [rainCover, battery] = await db.insert(equipmentTable)
+      .values([
+        { name: 'Rain Cover', serial_number: 'RAIN001', category: 'Photography', parent_id: equipment.id },
+        { name: 'Battery', serial_number: 'BAT001', category: 'Photography', parent_id: equipment.id },
+        { name: 'Strap', serial_number: 'STRAP001', category: 'Photography', parent_id: equipment.id }
+      ])
+      .returning()
+      .execute();
+
+    await checkOutEquipment({ equipment_id: equipment.id, accessory_ids: [rainCover.id, battery.id], user_name: 'Jane Doe' }, admin.id);
+    await checkInEquipment({ equipment_id: equipment.id, accessory_ids: [battery.id] }, admin.id);
+
+    const result = await getEquipmentWithTransactions(equipment.id);
+
+    expect(result!.accessories.map(accessory => accessory.serial_number)).toEqual(['BAT001', 'RAIN001', 'STRAP001']);
+    expect(result!.outstanding_accessories.map(accessory => accessory.serial_number)).toEqual(['RAIN001']);
+  });
+
+  it('should not flag accessories that are on the shelf or out on a loan of their own', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values(testAdmin)
+      .returning()
+      .execute();
+    const [equipment] = await db.insert(equipmentTable)
+      .values(testEquipment)
+      .returning()
+      .execute();
+    const [rainCover] = await db.insert(equipmentTable)
+      .values([
+        { name: 'Rain Cover', serial_number: 'RAIN001', category: 'Photography', parent_id: equipment.id },
+        { name: 'Battery', serial_number: 'BAT001', category: 'Photography', parent_id: equipment.id }
+      ])
+      .returning()
+      .execute();
+
+    await checkOutEquipment({ equipment_id: equipment.id, user_name: 'Jane Doe' }, admin.id);
+    await checkInEquipment({ equipment_id: equipment.id }, admin.id);
+    await checkOutEquipment({ equipment_id: rainCover.id, user_name: 'John Smith' }, admin.id);
+
+    const result = await getEquipmentWithTransactions(equipment.id);
+
+    expect(result!.accessories).toHaveLength(2);
+    expect(result!.outstanding_accessories).toHaveLength(0);
+  });
+
+  it('should not flag accessories that are out with their item', async () => {
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ ...testEquipment, status: 'checked_out' })
+      .returning()
+      .execute();
+    await db.insert(equipmentTable)
+      .values({ name: 'Rain Cover', serial_number: 'RAIN001', category: 'Photography', parent_id: equipment.id, status: 'checked_out' })
+      .execute();
+
+    const result = await getEquipmentWithTransactions(equipment.id);
+
+    expect(result!.accessories).toHaveLength(1);
+    expect(result!.outstanding_accessories).toHaveLength(0);
+  });
+
+  it('should return the extensions of the item\'s loans', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values(testAdmin)
+      .returning()
+      .execute();
+    const [equipment] = await db.insert(equipmentTable)
+      .values(testEquipment)
+      .returning()
+      .execute();
+
+    const checkOut = await checkOutEquipment({
+      equipment_id: equipment.id,
+      user_name: 'Jane Doe',
+      expected_return_date: new Date(Date.now() + 60 * 60 * 1000)
+    }, admin.id);
+    await extendLoan({
+      transaction_id: checkOut.id,
+      expected_return_date: new Date(Date.now() + 3 * 60 * 60 * 1000),
+      reason: 'Shoot overran'
+    }, admin.id);
+
+    const result = await getEquipmentWithTransactions(equipment.id);
+
+    expect(result!.extensions).toHaveLength(1);
+    expect(result!.extensions[0].transaction_id).toEqual(checkOut.id);
+    expect(result!.extensions[0].reason).toEqual('Shoot overran');
+    expect(result!.transactions[0].expected_return_date).toEqual(result!.extensions[0].new_return_date);
+  });
+});
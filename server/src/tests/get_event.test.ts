@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, equipmentTable, eventsTable } from '../db/schema';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { pickUpReservation } from '../handlers/pick_up_reservation';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
+import { checkInEquipment } from '../handlers/check_in_equipment';
+import { cancelReservation } from '../handlers/cancel_reservation';
+import { pickEventItem } from '../handlers/pick_event_item';
+import { getEvent } from '../handlers/get_event';
+
+describe('getEvent', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let eventId: number;
+  let otherEventId: number;
+  let equipmentIds: number[];
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'admin', email: 'admin@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [event, otherEvent] = await db.insert(eventsTable)
+      .values([
+        { name: 'Summer Festival', starts_at: new Date('2030-07-10T14:00:00Z'), ends_at: new Date('2030-07-12T23:00:00Z') },
+        { name: 'Jazz Night', starts_at: new Date('2030-08-01T19:00:00Z'), ends_at: new Date('2030-08-01T23:00:00Z') }
+      ])
+      .returning()
+      .execute();
+    eventId = event.id;
+    otherEventId = otherEvent.id;
+
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'Amp', serial_number: 'AMP001', category: 'Amplifiers' },
+        { name: 'Bass Cab', serial_number: 'CAB001', category: 'Speakers' },
+        { name: 'Console', serial_number: 'MIX001', category: 'Mixers' },
+        { name: 'DI Box', serial_number: 'DI001', category: 'Accessories' },
+        { name: 'Fog Machine', serial_number: 'FOG001', category: 'Effects' },
+        { name: 'Guitar Stand', serial_number: 'STD001', category: 'Stands' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+  });
+
+  const reserve = (equipmentId: number, event = eventId) => reserveEquipment({
+    equipment_id: equipmentId,
+    user_name: 'Festival Crew',
+    event_id: event,
+    start_date: new Date('2030-07-09T08:00:00Z'),
+    end_date: new Date('2030-07-13T18:00:00Z')
+  }, adminId);
+
+  it('should list every allocated item with where it stands', async () => {
+    await reserve(equipmentIds[0]);
+    const picked = await reserve(equipmentIds[1]);
+    await pickEventItem({ transaction_id: picked.id, picked: true }, adminId);
+    const pickedUp = await reserve(equipmentIds[2]);
+    const out = await pickUpReservation({ booking_id: pickedUp.id }, adminId);
+    await checkOutEquipment({ equipment_id: equipmentIds[3], user_name: 'Festival Crew', event_id: eventId }, adminId);
+    await checkInEquipment({ equipment_id: equipmentIds[3] }, adminId);
+    const cancelled = await reserve(equipmentIds[4]);
+    await cancelReservation(cancelled.id, adminId);
+    await reserve(equipmentIds[5], otherEventId);
+
+    const result = await getEvent(eventId);
+
+    expect(result!.event.name).toEqual('Summer Festival');
+    expect(result!.items.map(item => [item.equipment.serial_number, item.status])).toEqual([
+      ['AMP001', 'reserved'],
+      ['CAB001', 'picked'],
+      ['MIX001', 'out'],
+      ['DI001', 'returned'],
+    ]);
+    expect(result!.items[2].transaction.id).toEqual(out.id);
+  });
+
+  it('should refuse to allocate to an event that does not exist', async () => {
+    await expect(reserve(equipmentIds[0], 9999)).rejects.toThrow('Event with id 9999 not found');
+  });
+
+  it('should return null for an event that does not exist', async () => {
+    expect(await getEvent(9999)).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { eventsTable } from '../db/schema';
+import { getEvents } from '../handlers/get_events';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getEvents', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    const now = Date.now();
+    await db.insert(eventsTable)
+      .values([
+        { name: 'Spring Gala', venue: 'Town Hall', starts_at: new Date(now - 30 * DAY_MS), ends_at: new Date(now - 29 * DAY_MS) },
+        { name: 'Summer Festival', venue: 'Riverside Park', crew_lead: 'Sam Lee', starts_at: new Date(now + 10 * DAY_MS), ends_at: new Date(now + 12 * DAY_MS) },
+        { name: 'Jazz Night', venue: 'The Cellar', starts_at: new Date(now - DAY_MS), ends_at: new Date(now + DAY_MS) }
+      ])
+      .execute();
+  });
+
+  it('should list events with the latest start first', async () => {
+    const result = await getEvents();
+
+    expect(result.map(event => event.name)).toEqual(['Summer Festival', 'Jazz Night', 'Spring Gala']);
+  });
+
+  it('should search by name, venue and crew lead', async () => {
+    expect((await getEvents({ search: 'riverside' })).map(event => event.name)).toEqual(['Summer Festival']);
+    expect((await getEvents({ search: 'sam' })).map(event => event.name)).toEqual(['Summer Festival']);
+    expect((await getEvents({ search: 'night' })).map(event => event.name)).toEqual(['Jazz Night']);
+  });
+
+  it('should leave out events that have ended when asked for upcoming ones', async () => {
+    const result = await getEvents({ upcoming: true });
+
+    expect(result.map(event => event.name)).toEqual(['Summer Festival', 'Jazz Night']);
+  });
+});
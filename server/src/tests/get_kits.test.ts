@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable } from '../db/schema';
+import { createKit } from '../handlers/create_kit';
+import { getKits } from '../handlers/get_kits';
+import { eq } from 'drizzle-orm';
+
+describe('getKits', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let equipmentIds: number[];
+
+  beforeEach(async () => {
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'SM58', serial_number: 'MIC001', category: 'Microphones' },
+        { name: 'XLR 10m', serial_number: 'XLR001', category: 'Cables' },
+        { name: 'IEM Receiver', serial_number: 'IEM001', category: 'Wireless' },
+        { name: 'IEM Transmitter', serial_number: 'IEM002', category: 'Wireless' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+
+    await createKit({ name: 'Vocal Kit 3', serial_number: 'KIT-VOC-3', equipment_ids: [equipmentIds[0], equipmentIds[1]] });
+    await createKit({ name: 'IEM Pack B', description: 'In-ear monitors for the drummer', equipment_ids: [equipmentIds[2], equipmentIds[3]] });
+  });
+
+  it('should list every kit with its members, sorted by name', async () => {
+    const kits = await getKits();
+
+    expect(kits.map(kit => kit.kit.name)).toEqual(['IEM Pack B', 'Vocal Kit 3']);
+    expect(kits[0].members.map(member => member.serial_number)).toEqual(['IEM001', 'IEM002']);
+    expect(kits[1].members.map(member => member.serial_number)).toEqual(['MIC001', 'XLR001']);
+  });
+
+  it('should search by name, serial number and description', async () => {
+    expect((await getKits({ search: 'vocal' })).map(kit => kit.kit.name)).toEqual(['Vocal Kit 3']);
+    expect((await getKits({ search: 'KIT-VOC' })).map(kit => kit.kit.name)).toEqual(['Vocal Kit 3']);
+    expect((await getKits({ search: 'drummer' })).map(kit => kit.kit.name)).toEqual(['IEM Pack B']);
+    expect(await getKits({ search: 'nothing like this' })).toHaveLength(0);
+  });
+
+  it('should derive the kit status from its members', async () => {
+    await db.update(equipmentTable)
+      .set({ status: 'maintenance' })
+      .where(eq(equipmentTable.id, equipmentIds[0]))
+      .execute();
+    await db.update(equipmentTable)
+      .set({ status: 'checked_out' })
+      .where(eq(equipmentTable.id, equipmentIds[2]))
+      .execute();
+
+    const [iemPack, vocalKit] = await getKits();
+
+    expect(iemPack.status).toEqual('checked_out');
+    expect(iemPack.outstanding.map(member => member.serial_number)).toEqual(['IEM001']);
+    expect(vocalKit.status).toEqual('maintenance');
+    expect(vocalKit.outstanding).toHaveLength(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, adminsTable } from '../db/schema';
+import { getLoanExtensions } from '../handlers/get_loan_extensions';
+import { extendLoan } from '../handlers/extend_loan';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+describe('getLoanExtensions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the extensions of the given transactions, oldest first', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'Mixing Console', serial_number: 'MIX001', category: 'Mixers' },
+        { name: 'DI Box', serial_number: 'DI001', category: 'DI Boxes' }
+      ])
+      .returning()
+      .execute();
+
+    const first = await checkOutEquipment({ equipment_id: equipment[0].id, user_name: 'Jane Doe', expected_return_date: daysFromNow(1) }, admin.id);
+    const second = await checkOutEquipment({ equipment_id: equipment[1].id, user_name: 'John Doe', expected_return_date: daysFromNow(1) }, admin.id);
+    await extendLoan({ transaction_id: first.id, expected_return_date: daysFromNow(2), reason: 'One' }, admin.id);
+    await extendLoan({ transaction_id: second.id, expected_return_date: daysFromNow(2), reason: 'Other loan' }, admin.id);
+    await extendLoan({ transaction_id: first.id, expected_return_date: daysFromNow(3), reason: 'Two' }, admin.id);
+
+    const result = await getLoanExtensions({ transaction_ids: [first.id] });
+
+    expect(result.map(extension => extension.reason)).toEqual(['One', 'Two']);
+    expect(await getLoanExtensions({ transaction_ids: [first.id, second.id] })).toHaveLength(3);
+  });
+
+  it('should return an empty list for transactions never extended', async () => {
+    expect(await getLoanExtensions({ transaction_ids: [99999] })).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, loginEventsTable } from '../db/schema';
+import { getLoginEventsQuerySchema } from '../schema';
+import { getLoginEvents } from '../handlers/get_login_events';
+
+describe('getLoginEvents', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'owner', email: 'owner@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    await db.insert(loginEventsTable)
+      .values([
+        { admin_id: adminId, username: 'owner', ip_address: '10.0.0.1', outcome: 'invalid_credentials', created_at: new Date('2024-01-01T10:00:00Z') },
+        { admin_id: adminId, username: 'owner', ip_address: '10.0.0.1', outcome: 'success', created_at: new Date('2024-01-02T10:00:00Z') },
+        { admin_id: null, username: 'ghost', ip_address: '10.0.0.2', outcome: 'invalid_credentials', created_at: new Date('2024-01-03T10:00:00Z') },
+        { admin_id: null, username: 'ghost', ip_address: '10.0.0.2', outcome: 'throttled', created_at: new Date('2024-01-04T10:00:00Z') }
+      ])
+      .execute();
+  });
+
+  it('should return all events, most recent first', async () => {
+    const result = await getLoginEvents(getLoginEventsQuerySchema.parse({}));
+
+    expect(result).toHaveLength(4);
+    expect(result.map(e => e.outcome)).toEqual(['throttled', 'invalid_credentials', 'success', 'invalid_credentials']);
+    expect(result[0].ip_address).toBe('10.0.0.2');
+    expect(result[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should filter by admin, username and outcome', async () => {
+    const byAdmin = await getLoginEvents(getLoginEventsQuerySchema.parse({ admin_id: adminId }));
+    expect(byAdmin).toHaveLength(2);
+
+    const byUsername = await getLoginEvents(getLoginEventsQuerySchema.parse({ username: 'ghost' }));
+    expect(byUsername).toHaveLength(2);
+    expect(byUsername.every(e => e.admin_id === null)).toBe(true);
+
+    const failures = await getLoginEvents(getLoginEventsQuerySchema.parse({ outcome: 'invalid_credentials' }));
+    expect(failures).toHaveLength(2);
+  });
+
+  it('should filter by date range', async () => {
+    const result = await getLoginEvents(getLoginEventsQuerySchema.parse({
+      start_date: new Date('2024-01-02T00:00:00Z'),
+      end_date: new Date('2024-01-03T23:59:59Z')
+    }));
+
+    expect(result).toHaveLength(2);
+    expect(result.map(e => e.username)).toEqual(['ghost', 'owner']);
+  });
+
+  it('should apply the limit', async () => {
+    const result = await getLoginEvents(getLoginEventsQuerySchema.parse({ limit: 1 }));
+
+    expect(result).toHaveLength(1);
+    expect(result[0].outcome).toBe('throttled');
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, equipmentTable, equipmentTransactionsTable, transactionRemindersTable } from '../db/schema';
+import { getOverdueCheckOuts } from '../handlers/get_overdue_check_outs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+describe('getOverdueCheckOuts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list open check-outs past due, most overdue first, with their reminders', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'Mixing Console', serial_number: 'MIX001', category: 'Mixers', status: 'checked_out' },
+        { name: 'DI Box', serial_number: 'DI001', category: 'DI Boxes', status: 'checked_out' },
+        { name: 'Vocal Mic', serial_number: 'MIC001', category: 'Microphones', status: 'checked_out' },
+        { name: 'Spare Mic', serial_number: 'MIC002', category: 'Microphones' }
+      ])
+      .returning()
+      .execute();
+
+    const base = { admin_id: admin.id, transaction_type: 'check_out' as const, user_name: 'Jane Doe', user_contact: 'jane@example.com' };
+    const transactions = await db.insert(equipmentTransactionsTable)
+      .values([
+        { ...base, equipment_id: equipment[0].id, expected_return_date: daysFromNow(-1) },
+        { ...base, equipment_id: equipment[1].id, expected_return_date: daysFromNow(-5) },
+        { ...base, equipment_id: equipment[2].id, expected_return_date: daysFromNow(2) },
+        { ...base, equipment_id: equipment[3].id, expected_return_date: daysFromNow(-3), actual_return_date: new Date() }
+      ])
+      .returning()
+      .execute();
+    await db.insert(transactionRemindersTable)
+      .values([
+        { transaction_id: transactions[1].id, stage: 'due', due_date: daysFromNow(-5), recipient: 'jane@example.com', subject: 'Due', sent_at: daysFromNow(-5) },
+        { transaction_id: transactions[1].id, stage: 'overdue', overdue_days: 3, due_date: daysFromNow(-5), recipient: 'jane@example.com', subject: 'Overdue', sent_at: daysFromNow(-2) }
+      ])
+      .execute();
+
+    const result = await getOverdueCheckOuts();
+
+    expect(result.map(item => item.equipment.serial_number)).toEqual(['DI001', 'MIX001']);
+    expect(result[0].check_out.id).toEqual(transactions[1].id);
+    expect(result[0].reminders.map(reminder => [reminder.stage, reminder.overdue_days])).toEqual([['due', 0], ['overdue', 3]]);
+    expect(result[1].reminders).toEqual([]);
+  });
+
+  it('should return an empty list when nothing is overdue', async () => {
+    expect(await getOverdueCheckOuts()).toEqual([]);
+  });
+});
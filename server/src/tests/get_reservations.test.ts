@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { getReservations } from '../handlers/get_reservations';
+
+describe('getReservations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return open bookings soonest first', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+
+    const [mixer, speaker] = await db.insert(equipmentTable)
+      .values([
+        { name: 'Mixing Console', serial_number: 'MIX001', category: 'Mixers' },
+        { name: 'Speaker', serial_number: 'SPK001', category: 'Speakers' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(equipmentTransactionsTable)
+      .values([
+        {
+          equipment_id: mixer.id,
+          admin_id: admin.id,
+          transaction_type: 'booking',
+          user_name: 'Later',
+          reserved_from: new Date('2030-08-01T00:00:00Z'),
+          expected_return_date: new Date('2030-08-02T00:00:00Z')
+        },
+        {
+          equipment_id: speaker.id,
+          admin_id: admin.id,
+          transaction_type: 'booking',
+          user_name: 'Immediate',
+          transaction_date: new Date('2030-07-01T00:00:00Z'),
+          expected_return_date: new Date('2030-07-02T00:00:00Z')
+        },
+        {
+          equipment_id: mixer.id,
+          admin_id: admin.id,
+          transaction_type: 'booking',
+          user_name: 'Sooner',
+          reserved_from: new Date('2030-07-15T00:00:00Z'),
+          expected_return_date: new Date('2030-07-16T00:00:00Z')
+        },
+        {
+          equipment_id: mixer.id,
+          admin_id: admin.id,
+          transaction_type: 'booking',
+          user_name: 'Cancelled',
+          reserved_from: new Date('2030-07-10T00:00:00Z'),
+          expected_return_date: new Date('2030-07-11T00:00:00Z'),
+          actual_return_date: new Date('2030-06-01T00:00:00Z'),
+          cancelled_at: new Date('2030-06-01T00:00:00Z')
+        },
+        {
+          equipment_id: mixer.id,
+          admin_id: admin.id,
+          transaction_type: 'check_out',
+          user_name: 'Not A Booking'
+        }
+      ])
+      .execute();
+
+    const all = await getReservations();
+    expect(all.map(booking => booking.user_name)).toEqual(['Immediate', 'Sooner', 'Later']);
+
+    const forMixer = await getReservations({ equipment_id: mixer.id });
+    expect(forMixer.map(booking => booking.user_name)).toEqual(['Sooner', 'Later']);
+  });
+});
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { securitySettingsTable } from '../db/schema';
+import { getSecuritySettings } from '../handlers/get_security_settings';
+
+describe('getSecuritySettings', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the defaults when nothing has been saved', async () => {
+    const result = await getSecuritySettings();
+
+    expect(result.require_two_factor).toBe(false);
+    expect(result.updated_at).toBeInstanceOf(Date);
+
+    // Repeated reads keep a single settings row
+    await getSecuritySettings();
+    const rows = await db.select()
+      .from(securitySettingsTable)
+      .execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should return the saved settings', async () => {
+    await db.insert(securitySettingsTable)
+      .values({ id: 1, require_two_factor: true })
+      .execute();
+
+    const result = await getSecuritySettings();
+
+    expect(result.require_two_factor).toBe(true);
+  });
+});
@@ -0,0 +1,26 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { getSetupStatus } from '../handlers/get_setup_status';
+
+describe('getSetupStatus', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should require setup on an empty database', async () => {
+    const result = await getSetupStatus();
+
+    expect(result.setup_required).toBe(true);
+  });
+
+  it('should not require setup once an admin exists', async () => {
+    await db.insert(adminsTable)
+      .values({ username: 'owner', email: 'owner@test.com', password_hash: 'hash' })
+      .execute();
+
+    const result = await getSetupStatus();
+
+    expect(result.setup_required).toBe(false);
+  });
+});
@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { getSsoConfig } from '../handlers/get_sso_config';
+
+describe('getSsoConfig', () => {
+  afterEach(() => {
+    delete process.env['OIDC_ISSUER'];
+    delete process.env['OIDC_CLIENT_ID'];
+    delete process.env['OIDC_REDIRECT_URI'];
+    delete process.env['OIDC_PROVIDER_NAME'];
+  });
+
+  it('should report SSO as disabled when not configured', async () => {
+    const result = await getSsoConfig();
+
+    expect(result).toEqual({ enabled: false, provider_name: null });
+  });
+
+  it('should report the provider name when configured', async () => {
+    process.env['OIDC_ISSUER'] = 'https://idp.example.com';
+    process.env['OIDC_CLIENT_ID'] = 'warehouse';
+    process.env['OIDC_REDIRECT_URI'] = 'https://warehouse.example.com/';
+    process.env['OIDC_PROVIDER_NAME'] = 'Example SSO';
+
+    const result = await getSsoConfig();
+
+    expect(result).toEqual({ enabled: true, provider_name: 'Example SSO' });
+  });
+});
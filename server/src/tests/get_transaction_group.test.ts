@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, adminsTable } from '../db/schema';
+import { checkOutGroup } from '../handlers/check_out_group';
+import { getTransactionGroup } from '../handlers/get_transaction_group';
+import { getTransactions } from '../handlers/get_transactions';
+
+describe('getTransactionGroup', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the receipt of a group', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'Vocal Mic', serial_number: 'MIC001', category: 'Microphones' },
+        { name: 'DI Box', serial_number: 'DI001', category: 'DI Boxes' },
+        { name: 'Spare Mic', serial_number: 'MIC002', category: 'Microphones' }
+      ])
+      .returning()
+      .execute();
+
+    const created = await checkOutGroup({
+      equipment_ids: [equipment[0].id, equipment[1].id],
+      user_name: 'Friday Gig'
+    }, admin.id);
+
+    const result = await getTransactionGroup(created.group.id);
+
+    expect(result).toEqual(created);
+    expect(result!.items.map(item => item.equipment.serial_number)).toEqual(['DI001', 'MIC001']);
+
+    // The group's transactions can also be listed through getTransactions
+    const transactions = await getTransactions({ group_id: created.group.id });
+    expect(transactions).toHaveLength(2);
+  });
+
+  it('should return null for a non-existent group', async () => {
+    expect(await getTransactionGroup(99999)).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable } from '../db/schema';
+import { type TransactionIntervalsQuery } from '../schema';
+import { getTransactionIntervals } from '../handlers/get_transaction_intervals';
+
+describe('getTransactionIntervals', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let mixerId: number;
+  let speakerId: number;
+
+  const july: TransactionIntervalsQuery = {
+    start_date: new Date('2030-07-01T00:00:00Z'),
+    end_date: new Date('2030-08-01T00:00:00Z')
+  };
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [mixer, speaker] = await db.insert(equipmentTable)
+      .values([
+        { name: 'Mixing Console', serial_number: 'MIX001', category: 'Mixers' },
+        { name: 'Speaker', serial_number: 'SPK001', category: 'Speakers' }
+      ])
+      .returning()
+      .execute();
+    mixerId = mixer.id;
+    speakerId = speaker.id;
+  });
+
+  const addTransaction = async (values: Omit<typeof equipmentTransactionsTable.$inferInsert, 'admin_id'>) => {
+    const [transaction] = await db.insert(equipmentTransactionsTable)
+      .values({ admin_id: adminId, ...values })
+      .returning()
+      .execute();
+    return transaction;
+  };
+
+  it('should return check-outs and reservations that overlap the window', async () => {
+    const returned = await addTransaction({
+      equipment_id: mixerId,
+      transaction_type: 'check_out',
+      user_name: 'Returned',
+      transaction_date: new Date('2030-06-28T00:00:00Z'),
+      expected_return_date: new Date('2030-07-03T00:00:00Z'),
+      actual_return_date: new Date('2030-07-02T00:00:00Z')
+    });
+    const reservation = await addTransaction({
+      equipment_id: mixerId,
+      transaction_type: 'booking',
+      user_name: 'Festival',
+      reserved_from: new Date('2030-07-10T00:00:00Z'),
+      expected_return_date: new Date('2030-07-14T00:00:00Z')
+    });
+    // Outside the window, cancelled, or a check-in record
+    await addTransaction({
+      equipment_id: mixerId,
+      transaction_type: 'check_out',
+      user_name: 'June',
+      transaction_date: new Date('2030-06-01T00:00:00Z'),
+      actual_return_date: new Date('2030-06-05T00:00:00Z')
+    });
+    await addTransaction({
+      equipment_id: mixerId,
+      transaction_type: 'booking',
+      user_name: 'August',
+      reserved_from: new Date('2030-08-01T00:00:00Z'),
+      expected_return_date: new Date('2030-08-03T00:00:00Z')
+    });
+    await addTransaction({
+      equipment_id: mixerId,
+      transaction_type: 'booking',
+      user_name: 'Cancelled',
+      reserved_from: new Date('2030-07-20T00:00:00Z'),
+      expected_return_date: new Date('2030-07-21T00:00:00Z'),
+      actual_return_date: new Date('2030-07-01T00:00:00Z'),
+      cancelled_at: new Date('2030-07-01T00:00:00Z')
+    });
+    await addTransaction({
+      equipment_id: mixerId,
+      transaction_type: 'check_in',
+      user_name: 'System',
+      transaction_date: new Date('2030-07-02T00:00:00Z'),
+      actual_return_date: new Date('2030-07-02T00:00:00Z')
+    });
+
+    const result = await getTransactionIntervals(july);
+
+    expect(result.map(interval => interval.user_name)).toEqual(['Returned', 'Festival']);
+    expect(result[0]).toEqual({
+      transaction_id: returned.id,
+      equipment_id: mixerId,
+      equipment_name: 'Mixing Console',
+      serial_number: 'MIX001',
+      transaction_type: 'check_out',
+      user_name: 'Returned',
+      start: new Date('2030-06-28T00:00:00Z'),
+      expected_end: new Date('2030-07-03T00:00:00Z'),
+      actual_end: new Date('2030-07-02T00:00:00Z'),
+      overdue_until: null
+    });
+    expect(result[1].transaction_id).toEqual(reservation.id);
+    expect(result[1].start).toEqual(new Date('2030-07-10T00:00:00Z'));
+  });
+
+  it('should mark the overdue period of late and unreturned check-outs', async () => {
+    await addTransaction({
+      equipment_id: mixerId,
+      transaction_type: 'check_out',
+      user_name: 'Late Return',
+      transaction_date: new Date('2030-07-01T00:00:00Z'),
+      expected_return_date: new Date('2030-07-05T00:00:00Z'),
+      actual_return_date: new Date('2030-07-08T00:00:00Z')
+    });
+    // Still out long after it was due back
+    await addTransaction({
+      equipment_id: speakerId,
+      transaction_type: 'check_out',
+      user_name: 'Never Returned',
+      transaction_date: new Date('2020-01-01T00:00:00Z'),
+      expected_return_date: new Date('2020-01-05T00:00:00Z')
+    });
+
+    const before = new Date();
+    const result = await getTransactionIntervals({
+      start_date: new Date('2020-01-01T00:00:00Z'),
+      end_date: new Date('2031-01-01T00:00:00Z')
+    });
+
+    const late = result.find(interval => interval.user_name === 'Late Return')!;
+    expect(late.overdue_until).toEqual(new Date('2030-07-08T00:00:00Z'));
+
+    const open = result.find(interval => interval.user_name === 'Never Returned')!;
+    expect(open.actual_end).toBeNull();
+    expect(open.overdue_until!.getTime()).toBeGreaterThanOrEqual(before.getTime());
+  });
+
+  it('should keep open check-outs in every later window', async () => {
+    await addTransaction({
+      equipment_id: mixerId,
+      transaction_type: 'check_out',
+      user_name: 'Long Loan',
+      transaction_date: new Date('2030-01-01T00:00:00Z')
+    });
+
+    const result = await getTransactionIntervals(july);
+    expect(result.map(interval => interval.user_name)).toEqual(['Long Loan']);
+  });
+
+  it('should filter by equipment and category', async () => {
+    await addTransaction({
+      equipment_id: mixerId,
+      transaction_type: 'booking',
+      user_name: 'Mixer Booking',
+      reserved_from: new Date('2030-07-10T00:00:00Z'),
+      expected_return_date: new Date('2030-07-12T00:00:00Z')
+    });
+    await addTransaction({
+      equipment_id: speakerId,
+      transaction_type: 'booking',
+      user_name: 'Speaker Booking',
+      reserved_from: new Date('2030-07-10T00:00:00Z'),
+      expected_return_date: new Date('2030-07-12T00:00:00Z')
+    });
+
+    const byEquipment = await getTransactionIntervals({ ...july, equipment_id: speakerId });
+    expect(byEquipment.map(interval => interval.user_name)).toEqual(['Speaker Booking']);
+
+    const byCategory = await getTransactionIntervals({ ...july, category: 'Mixers' });
+    expect(byCategory.map(interval => interval.user_name)).toEqual(['Mixer Booking']);
+  });
+});
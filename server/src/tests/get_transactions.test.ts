@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { adminsTable, equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { adminsTable, borrowersTable, departmentsTable, equipmentTable, equipmentTransactionsTable, eventsTable } from '../db/schema';
 import { type GetTransactionsQuery } from '../schema';
 import { getTransactions } from '../handlers/get_transactions';
 
@@ -201,6 +201,126 @@ describe('getTransactions', () => {
     expect(result[0].user_name).toEqual('User for Admin1');
   });
 
+  it('should filter transactions by borrower_id', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values(testAdmin)
+      .returning()
+      .execute();
+
+    const [equipment] = await db.insert(equipmentTable)
+      .values(testEquipment)
+      .returning()
+      .execute();
+
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe' })
+      .returning()
+      .execute();
+
+    await db.insert(equipmentTransactionsTable)
+      .values([
+        {
+          equipment_id: equipment.id,
+          admin_id: admin.id,
+          transaction_type: 'booking' as const,
+          user_name: 'J. Roe',
+          borrower_id: borrower.id
+        },
+        {
+          equipment_id: equipment.id,
+          admin_id: admin.id,
+          transaction_type: 'check_in' as const,
+          user_name: 'Someone Else'
+        }
+      ])
+      .execute();
+
+    const result = await getTransactions({ borrower_id: borrower.id });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].user_name).toEqual('J. Roe');
+  });
+
+  it('should filter transactions by department_id', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values(testAdmin)
+      .returning()
+      .execute();
+
+    const [equipment] = await db.insert(equipmentTable)
+      .values(testEquipment)
+      .returning()
+      .execute();
+
+    const [department] = await db.insert(departmentsTable)
+      .values({ name: 'Sound' })
+      .returning()
+      .execute();
+
+    await db.insert(equipmentTransactionsTable)
+      .values([
+        {
+          equipment_id: equipment.id,
+          admin_id: admin.id,
+          transaction_type: 'booking' as const,
+          user_name: 'Sound Crew',
+          department_id: department.id
+        },
+        {
+          equipment_id: equipment.id,
+          admin_id: admin.id,
+          transaction_type: 'check_in' as const,
+          user_name: 'Someone Else'
+        }
+      ])
+      .execute();
+
+    const result = await getTransactions({ department_id: department.id });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].user_name).toEqual('Sound Crew');
+  });
+
+  it('should filter transactions by event_id', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values(testAdmin)
+      .returning()
+      .execute();
+
+    const [equipment] = await db.insert(equipmentTable)
+      .values(testEquipment)
+      .returning()
+      .execute();
+
+    const [event] = await db.insert(eventsTable)
+      .values({ name: 'Summer Festival', starts_at: new Date('2030-07-10T14:00:00Z'), ends_at: new Date('2030-07-12T23:00:00Z') })
+      .returning()
+      .execute();
+
+    await db.insert(equipmentTransactionsTable)
+      .values([
+        {
+          equipment_id: equipment.id,
+          admin_id: admin.id,
+          transaction_type: 'booking' as const,
+          user_name: 'Festival Crew',
+          event_id: event.id
+        },
+        {
+          equipment_id: equipment.id,
+          admin_id: admin.id,
+          transaction_type: 'check_in' as const,
+          user_name: 'Someone Else'
+        }
+      ])
+      .execute();
+
+    const result = await getTransactions({ event_id: event.id });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].user_name).toEqual('Festival Crew');
+  });
+
   it('should filter transactions by transaction_type', async () => {
     // Create prerequisite data
     const [admin] = await db.insert(adminsTable)
@@ -219,7 +339,8 @@ describe('getTransactions', () => {
         equipment_id: equipment.id,
         admin_id: admin.id,
         transaction_type: 'check_out' as const,
-        user_name: 'Check Out User'
+        user_name: 'Check Out User',
+        actual_return_date: new Date()
       },
       {
         equipment_id: equipment.id,
@@ -381,7 +502,8 @@ describe('getTransactions', () => {
         admin_id: admin.id,
         transaction_type: 'check_out' as const,
         user_name: 'Middle Transaction',
-        transaction_date: new Date('2024-01-10')
+        transaction_date: new Date('2024-01-10'),
+        actual_return_date: new Date('2024-01-20')
       },
       {
         equipment_id: equipment.id,
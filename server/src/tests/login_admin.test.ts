@@ -1,11 +1,15 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { adminsTable } from '../db/schema';
-import { type LoginAdminInput } from '../schema';
+import { adminsTable, adminSessionsTable, loginEventsTable, loginThrottlesTable, loginChallengesTable, securitySettingsTable } from '../db/schema';
+import { type LoginAdminInput, type LoginResult, type AuthenticatedLogin } from '../schema';
 import { loginAdmin } from '../handlers/login_admin';
+import { hashSessionToken, resolveSession } from '../auth/session';
+import { verifyPassword } from '../auth/credentials';
+import { recordLoginFailure } from '../auth/throttle';
+import { eq } from 'drizzle-orm';
 
-// Simple password hashing function for tests (same as in handler)
+// Legacy unsalted SHA-256 hashing, as stored before Bun.password was adopted
 async function hashPassword(password: string): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(password);
@@ -14,6 +18,12 @@ async function hashPassword(password: string): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
+// Narrows a login result to a completed login, failing the test otherwise
+const expectAuthenticated = (result: LoginResult | null): AuthenticatedLogin => {
+  expect(result?.status).toBe('authenticated');
+  return result as AuthenticatedLogin;
+};
+
 // Test admin data
 const testAdminData = {
   username: 'testadmin',
@@ -47,12 +57,222 @@ describe('loginAdmin', () => {
 
     // Verify successful login
     expect(result).not.toBeNull();
-    expect(result!.id).toBe(createdAdmin.id);
-    expect(result!.username).toBe(testAdminData.username);
-    expect(result!.email).toBe(testAdminData.email);
-    expect(result!.password_hash).toBe(hashedPassword);
-    expect(result!.created_at).toBeInstanceOf(Date);
-    expect(result!.updated_at).toBeInstanceOf(Date);
+    expect(expectAuthenticated(result).admin.id).toBe(createdAdmin.id);
+    expect(expectAuthenticated(result).admin.username).toBe(testAdminData.username);
+    expect(expectAuthenticated(result).admin.email).toBe(testAdminData.email);
+    expect(expectAuthenticated(result).admin.created_at).toBeInstanceOf(Date);
+    expect(expectAuthenticated(result).admin.updated_at).toBeInstanceOf(Date);
+    expect(expectAuthenticated(result).admin.role).toBe('owner');
+    expect('password_hash' in expectAuthenticated(result).admin).toBe(false);
+    expect(expectAuthenticated(result).permissions).toContain('admins:manage');
+    expect(typeof expectAuthenticated(result).token).toBe('string');
+    expect(result!.expires_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should login an admin whose password was hashed with Bun.password', async () => {
+    // This is how createAdmin stores passwords
+    const passwordHash = await Bun.password.hash(testAdminData.password);
+
+    const [createdAdmin] = await db.insert(adminsTable)
+      .values({
+        username: testAdminData.username,
+        email: testAdminData.email,
+        password_hash: passwordHash,
+      })
+      .returning()
+      .execute();
+
+    const result = await loginAdmin({
+      username: testAdminData.username,
+      password: testAdminData.password,
+    });
+
+    expect(result).not.toBeNull();
+    expect(expectAuthenticated(result).admin.id).toBe(createdAdmin.id);
+
+    // Modern hashes are left untouched
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, createdAdmin.id))
+      .execute();
+
+    expect(admins[0].password_hash).toBe(passwordHash);
+  });
+
+  it('should reject a wrong password against a Bun.password hash', async () => {
+    await db.insert(adminsTable)
+      .values({
+        username: testAdminData.username,
+        email: testAdminData.email,
+        password_hash: await Bun.password.hash(testAdminData.password),
+      })
+      .execute();
+
+    const result = await loginAdmin({
+      username: testAdminData.username,
+      password: 'wrongpassword',
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it('should rehash a legacy SHA-256 hash on successful login', async () => {
+    const legacyHash = await hashPassword(testAdminData.password);
+
+    const [createdAdmin] = await db.insert(adminsTable)
+      .values({
+        username: testAdminData.username,
+        email: testAdminData.email,
+        password_hash: legacyHash,
+      })
+      .returning()
+      .execute();
+
+    await loginAdmin({
+      username: testAdminData.username,
+      password: testAdminData.password,
+    });
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, createdAdmin.id))
+      .execute();
+
+    expect(admins[0].password_hash).not.toBe(legacyHash);
+    expect(admins[0].password_hash).toStartWith('$argon2');
+    expect(await Bun.password.verify(testAdminData.password, admins[0].password_hash)).toBe(true);
+
+    // The upgraded hash keeps working
+    const secondLogin = await loginAdmin({
+      username: testAdminData.username,
+      password: testAdminData.password,
+    });
+
+    expect(secondLogin).not.toBeNull();
+  });
+
+  it('should not rehash a legacy hash after a failed login', async () => {
+    const legacyHash = await hashPassword(testAdminData.password);
+
+    const [createdAdmin] = await db.insert(adminsTable)
+      .values({
+        username: testAdminData.username,
+        email: testAdminData.email,
+        password_hash: legacyHash,
+      })
+      .returning()
+      .execute();
+
+    await loginAdmin({
+      username: testAdminData.username,
+      password: 'wrongpassword',
+    });
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, createdAdmin.id))
+      .execute();
+
+    expect(admins[0].password_hash).toBe(legacyHash);
+    expect((await verifyPassword(testAdminData.password, admins[0].password_hash)).needsRehash).toBe(true);
+  });
+
+  it('should return the permissions granted to the admin role', async () => {
+    await db.insert(adminsTable)
+      .values({
+        username: testAdminData.username,
+        email: testAdminData.email,
+        password_hash: await hashPassword(testAdminData.password),
+        role: 'clerk',
+      })
+      .execute();
+
+    const result = await loginAdmin({
+      username: testAdminData.username,
+      password: testAdminData.password,
+    });
+
+    expect(expectAuthenticated(result).admin.role).toBe('clerk');
+    expect(expectAuthenticated(result).permissions).toContain('transactions:write');
+    expect(expectAuthenticated(result).permissions).not.toContain('catalog:delete');
+    expect(expectAuthenticated(result).permissions).not.toContain('admins:manage');
+  });
+
+  it('should return null for a disabled admin', async () => {
+    await db.insert(adminsTable)
+      .values({
+        username: testAdminData.username,
+        email: testAdminData.email,
+        password_hash: await hashPassword(testAdminData.password),
+        disabled_at: new Date(),
+      })
+      .execute();
+
+    const result = await loginAdmin({
+      username: testAdminData.username,
+      password: testAdminData.password,
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it('should persist a hashed session that resolves to the admin', async () => {
+    const hashedPassword = await hashPassword(testAdminData.password);
+
+    const [createdAdmin] = await db.insert(adminsTable)
+      .values({
+        username: testAdminData.username,
+        email: testAdminData.email,
+        password_hash: hashedPassword,
+      })
+      .returning()
+      .execute();
+
+    const result = await loginAdmin({
+      username: testAdminData.username,
+      password: testAdminData.password,
+    });
+
+    // Only the hash of the token is stored
+    const sessions = await db.select()
+      .from(adminSessionsTable)
+      .where(eq(adminSessionsTable.admin_id, createdAdmin.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toBe(hashSessionToken(expectAuthenticated(result).token));
+    expect(sessions[0].token_hash).not.toBe(expectAuthenticated(result).token);
+
+    const sessionAdmin = await resolveSession(expectAuthenticated(result).token);
+    expect(sessionAdmin).not.toBeNull();
+    expect(sessionAdmin!.id).toBe(createdAdmin.id);
+  });
+
+  it('should not resolve an unknown or expired session token', async () => {
+    const hashedPassword = await hashPassword(testAdminData.password);
+
+    await db.insert(adminsTable)
+      .values({
+        username: testAdminData.username,
+        email: testAdminData.email,
+        password_hash: hashedPassword,
+      })
+      .execute();
+
+    const result = await loginAdmin({
+      username: testAdminData.username,
+      password: testAdminData.password,
+    });
+
+    expect(await resolveSession('not-a-real-token')).toBeNull();
+
+    // Expire the session
+    await db.update(adminSessionsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(adminSessionsTable.token_hash, hashSessionToken(expectAuthenticated(result).token)))
+      .execute();
+
+    expect(await resolveSession(expectAuthenticated(result).token)).toBeNull();
   });
 
   it('should return null for non-existent username', async () => {
@@ -153,7 +373,7 @@ describe('loginAdmin', () => {
     const result = await loginAdmin(loginInput);
 
     expect(result).not.toBeNull();
-    expect(result!.username).toBe(testAdminData.username);
+    expect(expectAuthenticated(result).admin.username).toBe(testAdminData.username);
   });
 
   it('should verify password against correct hash', async () => {
@@ -186,7 +406,7 @@ describe('loginAdmin', () => {
     });
 
     expect(result1).not.toBeNull();
-    expect(result1!.username).toBe('admin1');
+    expect(expectAuthenticated(result1).admin.username).toBe('admin1');
 
     // Test admin1 with admin2's password (should fail)
     const result2 = await loginAdmin({
@@ -217,6 +437,143 @@ describe('loginAdmin', () => {
     const result = await loginAdmin(loginInput);
 
     expect(result).not.toBeNull();
-    expect(result!.username).toBe(testAdminData.username);
+    expect(expectAuthenticated(result).admin.username).toBe(testAdminData.username);
+  });
+
+  describe('throttling and audit log', () => {
+    let adminId: number;
+
+    beforeEach(async () => {
+      const [created] = await db.insert(adminsTable)
+        .values({
+          username: testAdminData.username,
+          email: testAdminData.email,
+          password_hash: await Bun.password.hash(testAdminData.password),
+        })
+        .returning()
+        .execute();
+      adminId = created.id;
+    });
+
+    it('should record successful and failed logins with the source address', async () => {
+      await loginAdmin({ username: testAdminData.username, password: 'wrongpassword' }, '10.0.0.1');
+      await loginAdmin({ username: 'nobody', password: 'whatever' }, '10.0.0.2');
+      await loginAdmin({ username: testAdminData.username, password: testAdminData.password }, '10.0.0.1');
+
+      const events = await db.select()
+        .from(loginEventsTable)
+        .orderBy(loginEventsTable.id)
+        .execute();
+
+      expect(events).toHaveLength(3);
+      expect(events[0]).toMatchObject({ admin_id: adminId, username: 'testadmin', ip_address: '10.0.0.1', outcome: 'invalid_credentials' });
+      expect(events[1]).toMatchObject({ admin_id: null, username: 'nobody', ip_address: '10.0.0.2', outcome: 'invalid_credentials' });
+      expect(events[2]).toMatchObject({ admin_id: adminId, ip_address: '10.0.0.1', outcome: 'success' });
+      expect(events[2].created_at).toBeInstanceOf(Date);
+    });
+
+    it('should refuse attempts while the username is locked out, even with the right password', async () => {
+      for (let i = 0; i < 5; i++) {
+        await recordLoginFailure(testAdminData.username, null);
+      }
+
+      await expect(loginAdmin({ username: testAdminData.username, password: testAdminData.password }, '10.0.0.1'))
+        .rejects.toThrow(/too many failed login attempts/i);
+
+      const events = await db.select()
+        .from(loginEventsTable)
+        .execute();
+
+      expect(events).toHaveLength(1);
+      expect(events[0].outcome).toBe('throttled');
+    });
+
+    it('should impose a delay once the free attempts are used up', async () => {
+      for (let i = 0; i < 4; i++) {
+        const result = await loginAdmin({ username: testAdminData.username, password: 'wrongpassword' }, '10.0.0.1');
+        expect(result).toBeNull();
+      }
+
+      // The fourth failure blocks further attempts for a short while
+      await expect(loginAdmin({ username: testAdminData.username, password: testAdminData.password }, '10.0.0.1'))
+        .rejects.toThrow(/try again in \d+ seconds/i);
+    });
+
+    it('should throttle by source address across usernames', async () => {
+      for (let i = 0; i < 20; i++) {
+        await recordLoginFailure(`guess${i}`, '10.0.0.9');
+      }
+
+      await expect(loginAdmin({ username: testAdminData.username, password: testAdminData.password }, '10.0.0.9'))
+        .rejects.toThrow(/too many failed login attempts/i);
+
+      // Other addresses are unaffected
+      const result = await loginAdmin({ username: testAdminData.username, password: testAdminData.password }, '10.0.0.1');
+      expect(result).not.toBeNull();
+    });
+
+    it('should clear the username counter after a successful login', async () => {
+      await loginAdmin({ username: testAdminData.username, password: 'wrongpassword' }, '10.0.0.1');
+      await loginAdmin({ username: testAdminData.username, password: 'wrongpassword' }, '10.0.0.1');
+      await loginAdmin({ username: testAdminData.username, password: testAdminData.password }, '10.0.0.1');
+
+      const throttles = await db.select()
+        .from(loginThrottlesTable)
+        .execute();
+
+      // Only the address counter remains
+      expect(throttles).toHaveLength(1);
+      expect(throttles[0].scope).toBe('ip');
+      expect(throttles[0].failed_count).toBe(2);
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    it('should return a challenge instead of a session for enrolled admins', async () => {
+      const [admin] = await db.insert(adminsTable)
+        .values({
+          username: testAdminData.username,
+          email: testAdminData.email,
+          password_hash: await Bun.password.hash(testAdminData.password),
+          totp_secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+          totp_enabled_at: new Date(),
+        })
+        .returning()
+        .execute();
+
+      const result = await loginAdmin({ username: testAdminData.username, password: testAdminData.password });
+
+      expect(result!.status).toBe('two_factor_required');
+      expect('token' in result!).toBe(false);
+
+      const sessions = await db.select()
+        .from(adminSessionsTable)
+        .execute();
+      expect(sessions).toHaveLength(0);
+
+      const challenges = await db.select()
+        .from(loginChallengesTable)
+        .execute();
+      expect(challenges).toHaveLength(1);
+      expect(challenges[0].admin_id).toBe(admin.id);
+    });
+
+    it('should flag that setup is needed when 2FA is mandatory and the admin has not enrolled', async () => {
+      await db.insert(adminsTable)
+        .values({
+          username: testAdminData.username,
+          email: testAdminData.email,
+          password_hash: await Bun.password.hash(testAdminData.password),
+        })
+        .execute();
+
+      await db.insert(securitySettingsTable)
+        .values({ id: 1, require_two_factor: true })
+        .execute();
+
+      const result = await loginAdmin({ username: testAdminData.username, password: testAdminData.password });
+
+      expect(expectAuthenticated(result).two_factor_setup_required).toBe(true);
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, adminSessionsTable } from '../db/schema';
+import { logoutAdmin } from '../handlers/logout_admin';
+import { createSession, resolveSession } from '../auth/session';
+import { eq } from 'drizzle-orm';
+
+describe('logoutAdmin', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+
+  beforeEach(async () => {
+    const adminResult = await db.insert(adminsTable)
+      .values({
+        username: 'testadmin',
+        email: 'admin@test.com',
+        password_hash: 'hashedpassword'
+      })
+      .returning()
+      .execute();
+    adminId = adminResult[0].id;
+  });
+
+  it('should revoke the session so the token no longer resolves', async () => {
+    const { token } = await createSession(adminId);
+    expect(await resolveSession(token)).not.toBeNull();
+
+    const result = await logoutAdmin(token);
+
+    expect(result).toBe(true);
+    expect(await resolveSession(token)).toBeNull();
+  });
+
+  it('should only revoke the given session', async () => {
+    const first = await createSession(adminId);
+    const second = await createSession(adminId);
+
+    await logoutAdmin(first.token);
+
+    const sessions = await db.select()
+      .from(adminSessionsTable)
+      .where(eq(adminSessionsTable.admin_id, adminId))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(await resolveSession(second.token)).not.toBeNull();
+  });
+
+  it('should return false for an unknown token', async () => {
+    const result = await logoutAdmin('unknown-token');
+
+    expect(result).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, borrowersTable, equipmentTable, equipmentTransactionsTable, transactionGroupsTable } from '../db/schema';
+import { migrateBorrowers } from '../handlers/migrate_borrowers';
+import { asc } from 'drizzle-orm';
+
+describe('migrateBorrowers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let equipmentId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'admin', email: 'admin@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'SM58', serial_number: 'MIC001', category: 'Microphones' })
+      .returning()
+      .execute();
+    equipmentId = equipment.id;
+  });
+
+  // Transactions as they were recorded before the directory existed
+  const legacyTransaction = (userName: string, userContact: string | null, transactionType: 'check_out' | 'check_in' | 'booking' = 'check_out') => ({
+    equipment_id: equipmentId,
+    admin_id: adminId,
+    transaction_type: transactionType,
+    user_name: userName,
+    user_contact: userContact,
+    actual_return_date: transactionType === 'check_in' ? null : new Date()
+  });
+
+  it('should link older transactions and groups to directory borrowers', async () => {
+    const [existing] = await db.insert(borrowersTable)
+      .values({ name: 'Mia Wong', email: 'mia@example.com' })
+      .returning()
+      .execute();
+    await db.insert(equipmentTransactionsTable)
+      .values([
+        legacyTransaction('Jane Roe', 'jane@example.com'),
+        legacyTransaction('jane roe', 'Jane, 555-0100'),
+        legacyTransaction('Jane Roe', 'JANE@example.com', 'booking'),
+        legacyTransaction('Mia', 'mia@example.com'),
+        legacyTransaction('Jane Roe', null, 'check_in')
+      ])
+      .execute();
+    await db.insert(transactionGroupsTable)
+      .values({ admin_id: adminId, user_name: 'Jane Roe', user_contact: 'jane@example.com' })
+      .execute();
+
+    const result = await migrateBorrowers();
+
+    expect(result).toEqual({ borrowers_created: 1, transactions_linked: 4, groups_linked: 1 });
+
+    const borrowers = await db.select().from(borrowersTable).orderBy(asc(borrowersTable.id)).execute();
+    expect(borrowers.map(borrower => borrower.name)).toEqual(['Mia Wong', 'Jane Roe']);
+    const jane = borrowers[1];
+    expect(jane.email).toEqual('jane@example.com');
+
+    const transactions = await db.select().from(equipmentTransactionsTable).orderBy(asc(equipmentTransactionsTable.id)).execute();
+    expect(transactions.map(transaction => transaction.borrower_id)).toEqual([jane.id, jane.id, jane.id, existing.id, null]);
+    expect(transactions[3].user_name).toEqual('Mia'); // Recorded details are kept
+
+    const groups = await db.select().from(transactionGroupsTable).execute();
+    expect(groups[0].borrower_id).toEqual(jane.id);
+  });
+
+  it('should do nothing when everything is linked', async () => {
+    await db.insert(equipmentTransactionsTable).values(legacyTransaction('Jane Roe', null)).execute();
+    await migrateBorrowers();
+
+    expect(await migrateBorrowers()).toEqual({ borrowers_created: 0, transactions_linked: 0, groups_linked: 0 });
+  });
+});
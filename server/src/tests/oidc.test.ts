@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { createCodeChallenge, getOidcConfig } from '../auth/oidc';
+
+describe('OIDC configuration', () => {
+  afterEach(() => {
+    delete process.env['OIDC_ISSUER'];
+    delete process.env['OIDC_CLIENT_ID'];
+    delete process.env['OIDC_REDIRECT_URI'];
+    delete process.env['OIDC_DEFAULT_ROLE'];
+  });
+
+  it('should be disabled until issuer, client and redirect URI are set', () => {
+    process.env['OIDC_ISSUER'] = 'https://idp.example.com';
+    process.env['OIDC_CLIENT_ID'] = 'warehouse';
+    expect(getOidcConfig()).toBeNull();
+
+    process.env['OIDC_REDIRECT_URI'] = 'https://warehouse.example.com/';
+    const config = getOidcConfig();
+    expect(config).not.toBeNull();
+    expect(config!.clientSecret).toBeNull();
+    expect(config!.jitProvisioning).toBe(false);
+    expect(config!.defaultRole).toEqual('viewer');
+  });
+
+  it('should reject an unknown default role', () => {
+    process.env['OIDC_ISSUER'] = 'https://idp.example.com';
+    process.env['OIDC_CLIENT_ID'] = 'warehouse';
+    process.env['OIDC_REDIRECT_URI'] = 'https://warehouse.example.com/';
+    process.env['OIDC_DEFAULT_ROLE'] = 'superuser';
+
+    expect(() => getOidcConfig()).toThrow(/OIDC_DEFAULT_ROLE/);
+  });
+
+  it('should derive the S256 code challenge as unpadded base64url', () => {
+    const challenge = createCodeChallenge('dBjftJeZ4CVP-mJ92K9lDCf5j6i6u3thmYOi4WMv7yY');
+
+    expect(challenge).toEqual('byhOa4WwLec_cVQ26-r-H6eV256-Q_KkXxnqznRiuWU');
+    expect(challenge).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+});
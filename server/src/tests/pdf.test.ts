@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'bun:test';
+import { fitText, renderPdf, textWidth } from '../documents/pdf';
+
+// The byte offset of every object, as the cross-reference table lists them
+const xrefOffsets = (pdf: string): number[] => {
+  const table = pdf.slice(pdf.lastIndexOf('\nxref\n'));
+  return [...table.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+};
+
+describe('renderPdf', () => {
+  it('should write a well-formed file with one page per page given', () => {
+    const pdf = renderPdf([
+      [{ kind: 'text', x: 40, y: 50, text: 'Pull Sheet', size: 18, bold: true }],
+      [{ kind: 'box', x: 47, y: 60, width: 10, height: 10 }, { kind: 'line', x1: 40, y1: 80, x2: 555, y2: 80 }],
+    ], 'Pull Sheet: Summer Festival').toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('(Pull Sheet) Tj');
+    expect(pdf).toContain('/Title (Pull Sheet: Summer Festival)');
+
+    const offsets = xrefOffsets(pdf);
+    expect(offsets).toHaveLength(8);
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + 12)).toStartWith(`${index + 1} 0 obj`);
+    });
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)\n/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toEqual('xref');
+  });
+
+  it('should escape string delimiters and replace what the fonts cannot show', () => {
+    const pdf = renderPdf([[{ kind: 'text', x: 0, y: 0, text: 'Mic (spare) \\ Café – 日本', size: 9 }]], 'Test')
+      .toString('latin1');
+
+    expect(pdf).toContain('(Mic \\(spare\\) \\\\ Caf\xe9 \x96 ??) Tj');
+  });
+
+  it('should flip coordinates to the bottom-left origin', () => {
+    const pdf = renderPdf([[{ kind: 'text', x: 40, y: 41.89, text: 'Top', size: 10 }]], 'Test').toString('latin1');
+
+    expect(pdf).toContain('40 800 Td (Top) Tj');
+  });
+});
+
+describe('fitText', () => {
+  it('should leave text that fits alone', () => {
+    expect(fitText('Console', 100, 9)).toEqual('Console');
+  });
+
+  it('should shorten text to the width with an ellipsis', () => {
+    const fitted = fitText('Wireless Handheld Microphone Transmitter', 80, 9);
+
+    expect(fitted.endsWith('...')).toBe(true);
+    expect(textWidth(fitted, 9)).toBeLessThanOrEqual(80);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'bun:test';
+import { getRolePermissions, hasPermission } from '../auth/permissions';
+import { adminRoleSchema, permissionSchema } from '../schema';
+
+describe('role permissions', () => {
+  it('should grant owners every permission', () => {
+    for (const permission of permissionSchema.options) {
+      expect(hasPermission('owner', permission)).toBe(true);
+    }
+  });
+
+  it('should not let managers manage admins', () => {
+    expect(hasPermission('manager', 'catalog:delete')).toBe(true);
+    expect(hasPermission('manager', 'equipment:set_status')).toBe(true);
+    expect(hasPermission('manager', 'admins:read')).toBe(true);
+    expect(hasPermission('manager', 'admins:manage')).toBe(false);
+  });
+
+  it('should leave borrower restrictions and overrides to managers', () => {
+    expect(hasPermission('manager', 'borrowers:restrict')).toBe(true);
+    expect(hasPermission('clerk', 'borrowers:restrict')).toBe(false);
+  });
+
+  it('should let clerks check equipment in and out but not edit the catalog', () => {
+    expect(hasPermission('clerk', 'transactions:write')).toBe(true);
+    expect(hasPermission('clerk', 'catalog:read')).toBe(true);
+    expect(hasPermission('clerk', 'catalog:write')).toBe(false);
+    expect(hasPermission('clerk', 'catalog:delete')).toBe(false);
+    expect(hasPermission('clerk', 'equipment:set_status')).toBe(false);
+    expect(hasPermission('clerk', 'admins:manage')).toBe(false);
+  });
+
+  it('should keep viewers read-only', () => {
+    expect(getRolePermissions('viewer').sort()).toEqual(['catalog:read', 'transactions:read']);
+  });
+
+  it('should let every role read the catalog', () => {
+    for (const role of adminRoleSchema.options) {
+      expect(hasPermission(role, 'catalog:read')).toBe(true);
+    }
+  });
+
+  it('should return a copy of the role permissions', () => {
+    const permissions = getRolePermissions('viewer');
+    permissions.push('admins:manage');
+
+    expect(hasPermission('viewer', 'admins:manage')).toBe(false);
+  });
+});
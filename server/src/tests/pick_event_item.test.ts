@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, equipmentTable, eventsTable } from '../db/schema';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
+import { pickEventItem } from '../handlers/pick_event_item';
+import { createApiKey } from '../handlers/create_api_key';
+
+describe('pickEventItem', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let eventId: number;
+  let equipmentId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'admin', email: 'admin@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [event] = await db.insert(eventsTable)
+      .values({ name: 'Summer Festival', starts_at: new Date('2030-07-10T14:00:00Z'), ends_at: new Date('2030-07-12T23:00:00Z') })
+      .returning()
+      .execute();
+    eventId = event.id;
+
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'Console', serial_number: 'MIX001', category: 'Mixers' })
+      .returning()
+      .execute();
+    equipmentId = equipment.id;
+  });
+
+  const reserve = (event?: number) => reserveEquipment({
+    equipment_id: equipmentId,
+    user_name: 'Festival Crew',
+    event_id: event,
+    start_date: new Date('2030-07-09T08:00:00Z'),
+    end_date: new Date('2030-07-13T18:00:00Z')
+  }, adminId);
+
+  it('should mark a reserved item as picked and put it back', async () => {
+    const booking = await reserve(eventId);
+
+    const picked = await pickEventItem({ transaction_id: booking.id, picked: true }, adminId);
+    expect(picked!.picked_at).toBeInstanceOf(Date);
+    expect(picked!.picked_by).toEqual(adminId);
+
+    const unpicked = await pickEventItem({ transaction_id: booking.id, picked: false }, adminId);
+    expect(unpicked!.picked_at).toBeNull();
+    expect(unpicked!.picked_by).toBeNull();
+  });
+
+  it('should record the API key used to pick the item', async () => {
+    const booking = await reserve(eventId);
+    const { api_key } = await createApiKey(adminId, { name: 'Scanner', scopes: null, expires_at: null });
+
+    const picked = await pickEventItem({ transaction_id: booking.id, picked: true }, adminId, api_key.id);
+
+    expect(picked!.picked_by).toEqual(adminId);
+    expect(picked!.picked_by_api_key_id).toEqual(api_key.id);
+  });
+
+  it('should refuse a booking without an event', async () => {
+    const booking = await reserve();
+
+    await expect(pickEventItem({ transaction_id: booking.id, picked: true }, adminId))
+      .rejects.toThrow('Only items allocated to an event can be picked');
+  });
+
+  it('should refuse an item that has already left', async () => {
+    const checkOut = await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Festival Crew', event_id: eventId }, adminId);
+
+    await expect(pickEventItem({ transaction_id: checkOut.id, picked: true }, adminId))
+      .rejects.toThrow('Only reserved items can be picked');
+  });
+
+  it('should return null for a transaction that does not exist', async () => {
+    expect(await pickEventItem({ transaction_id: 9999, picked: true }, adminId)).toBeNull();
+  });
+});
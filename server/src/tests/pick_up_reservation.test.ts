@@ -0,0 +1,287 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable, borrowersTable, borrowerRuleOverridesTable, departmentsTable, eventsTable } from '../db/schema';
+import { pickUpReservation } from '../handlers/pick_up_reservation';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { bookEquipment } from '../handlers/book_equipment';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
+import { checkInEquipment } from '../handlers/check_in_equipment';
+import { cancelReservation } from '../handlers/cancel_reservation';
+import { eq } from 'drizzle-orm';
+
+describe('pickUpReservation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let equipmentId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({
+        username: 'testadmin',
+        email: 'admin@test.com',
+        password_hash: 'hashedpassword'
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [equipment] = await db.insert(equipmentTable)
+      .values({
+        name: 'Mixing Console',
+        serial_number: 'MIX001',
+        category: 'Mixers',
+        status: 'available'
+      })
+      .returning()
+      .execute();
+    equipmentId = equipment.id;
+  });
+
+  const reserve = () => reserveEquipment({
+    equipment_id: equipmentId,
+    user_name: 'Festival Crew',
+    user_contact: 'crew@example.com',
+    start_date: new Date('2030-07-10T08:00:00Z'),
+    end_date: new Date('2030-07-14T18:00:00Z'),
+    notes: 'Main stage'
+  }, adminId);
+
+  const getEquipmentStatus = async () => {
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, equipmentId))
+      .execute();
+    return equipment[0].status;
+  };
+
+  it('should turn a reservation into a linked check-out with its details prefilled', async () => {
+    const booking = await reserve();
+
+    const result = await pickUpReservation({ booking_id: booking.id }, adminId);
+
+    expect(result.transaction_type).toEqual('check_out');
+    expect(result.booking_id).toEqual(booking.id);
+    expect(result.borrower_id).toEqual(booking.borrower_id);
+    expect(result.user_name).toEqual('Festival Crew');
+    expect(result.user_contact).toEqual('crew@example.com');
+    expect(result.notes).toEqual('Main stage');
+    expect(result.expected_return_date).toEqual(new Date('2030-07-14T18:00:00Z'));
+    expect(result.actual_return_date).toBeNull();
+    expect(await getEquipmentStatus()).toEqual('checked_out');
+
+    const closed = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.id, booking.id))
+      .execute();
+    expect(closed[0].actual_return_date).toBeInstanceOf(Date);
+    expect(closed[0].cancelled_at).toBeNull();
+  });
+
+  it('should refuse a borrower suspended since the reservation was made unless overridden', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe' })
+      .returning()
+      .execute();
+    const booking = await reserveEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Jane Roe',
+      borrower_id: borrower.id,
+      start_date: new Date('2030-07-10T08:00:00Z'),
+      end_date: new Date('2030-07-14T18:00:00Z')
+    }, adminId);
+    await db.update(borrowersTable)
+      .set({ suspended_at: new Date(), suspension_reason: 'Returned a mixer damaged' })
+      .where(eq(borrowersTable.id, borrower.id))
+      .execute();
+
+    await expect(pickUpReservation({ booking_id: booking.id }, adminId))
+      .rejects.toThrow('Loan refused: Jane Roe is suspended: Returned a mixer damaged');
+    expect(await getEquipmentStatus()).toEqual('available');
+
+    const result = await pickUpReservation({ booking_id: booking.id, override_reason: 'Festival contract' }, adminId);
+
+    expect(result.actual_return_date).toBeNull();
+    const overrides = await db.select().from(borrowerRuleOverridesTable).execute();
+    expect(overrides.map(override => override.rule)).toEqual(['suspended']);
+    expect(overrides[0].transaction_id).toEqual(result.id);
+  });
+
+  it('should not count the booking being picked up against the item limit', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe', max_items: 1 })
+      .returning()
+      .execute();
+    const booking = await bookEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Jane Roe',
+      borrower_id: borrower.id,
+      expected_return_date: new Date('2030-07-14T18:00:00Z')
+    }, adminId);
+
+    const result = await pickUpReservation({ booking_id: booking.id }, adminId);
+
+    expect(result.transaction_type).toEqual('check_out');
+    expect(await db.select().from(borrowerRuleOverridesTable).execute()).toHaveLength(0);
+  });
+
+  it('should charge the check-out to the department of the reservation', async () => {
+    const [department] = await db.insert(departmentsTable).values({ name: 'Events' }).returning().execute();
+    const booking = await reserveEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Festival Crew',
+      department_id: department.id,
+      start_date: new Date('2030-07-10T08:00:00Z'),
+      end_date: new Date('2030-07-14T18:00:00Z')
+    }, adminId);
+
+    const result = await pickUpReservation({ booking_id: booking.id }, adminId);
+
+    expect(result.department_id).toEqual(department.id);
+  });
+
+  it('should keep the check-out on the event of the reservation', async () => {
+    const [event] = await db.insert(eventsTable)
+      .values({ name: 'Summer Festival', starts_at: new Date('2030-07-10T14:00:00Z'), ends_at: new Date('2030-07-12T23:00:00Z') })
+      .returning()
+      .execute();
+    const booking = await reserveEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Festival Crew',
+      event_id: event.id,
+      start_date: new Date('2030-07-10T08:00:00Z'),
+      end_date: new Date('2030-07-14T18:00:00Z')
+    }, adminId);
+
+    const result = await pickUpReservation({ booking_id: booking.id }, adminId);
+
+    expect(result.event_id).toEqual(event.id);
+  });
+
+  it('should let the pickup override contact, notes and return date', async () => {
+    const booking = await reserve();
+
+    const result = await pickUpReservation({
+      booking_id: booking.id,
+      user_contact: '555-0100',
+      notes: null,
+      expected_return_date: new Date('2030-07-15T12:00:00Z')
+    }, adminId);
+
+    expect(result.user_contact).toEqual('555-0100');
+    expect(result.notes).toBeNull();
+    expect(result.expected_return_date).toEqual(new Date('2030-07-15T12:00:00Z'));
+  });
+
+  it('should refuse a pickup whose return date runs into the next reservation', async () => {
+    const booking = await reserve();
+    const next = await reserveEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Wedding Band',
+      start_date: new Date('2030-07-16T08:00:00Z'),
+      end_date: new Date('2030-07-18T18:00:00Z')
+    }, adminId);
+
+    await expect(pickUpReservation({ booking_id: booking.id, expected_return_date: new Date('2030-07-17T12:00:00Z') }, adminId))
+      .rejects.toThrow(`already reserved for this period: #${next.id} for Wedding Band`);
+    expect(await getEquipmentStatus()).toEqual('available');
+  });
+
+  it('should pick up an immediate booking of a booked item', async () => {
+    const booking = await bookEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Walk-in',
+      expected_return_date: new Date(Date.now() + 24 * 60 * 60 * 1000)
+    }, adminId);
+    expect(await getEquipmentStatus()).toEqual('booked');
+
+    const result = await pickUpReservation({ booking_id: booking.id }, adminId);
+
+    expect(result.booking_id).toEqual(booking.id);
+    expect(await getEquipmentStatus()).toEqual('checked_out');
+
+    // The linked check-out is returned with a normal check-in
+    await checkInEquipment({ equipment_id: equipmentId }, adminId);
+    expect(await getEquipmentStatus()).toEqual('available');
+  });
+
+  it('should refuse a pickup while the item is still out on another loan', async () => {
+    const booking = await reserve();
+    await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Touring Band', expected_return_date: new Date('2030-07-01T00:00:00Z') }, adminId);
+
+    await expect(pickUpReservation({ booking_id: booking.id }, adminId))
+      .rejects.toThrow(/not available for pickup \(current status: checked_out\)/i);
+
+    const open = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.id, booking.id))
+      .execute();
+    expect(open[0].actual_return_date).toBeNull();
+  });
+
+  it('should refuse a dated reservation while another booking holds the item', async () => {
+    const booking = await reserve();
+    await bookEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Walk-in',
+      expected_return_date: new Date(Date.now() + 60 * 60 * 1000)
+    }, adminId);
+
+    await expect(pickUpReservation({ booking_id: booking.id }, adminId))
+      .rejects.toThrow(/current status: booked/i);
+  });
+
+  it('should refuse to pick up a booking twice', async () => {
+    const booking = await reserve();
+    await pickUpReservation({ booking_id: booking.id }, adminId);
+
+    await expect(pickUpReservation({ booking_id: booking.id }, adminId))
+      .rejects.toThrow(`Reservation #${booking.id} has already been picked up or released`);
+  });
+
+  it('should refuse to pick up a cancelled booking', async () => {
+    const booking = await reserve();
+    await cancelReservation(booking.id, adminId);
+
+    await expect(pickUpReservation({ booking_id: booking.id }, adminId))
+      .rejects.toThrow(`Reservation #${booking.id} has already been cancelled`);
+  });
+
+  it('should let only one of two concurrent pickups succeed', async () => {
+    const booking = await reserve();
+
+    const results = await Promise.allSettled([
+      pickUpReservation({ booking_id: booking.id }, adminId),
+      pickUpReservation({ booking_id: booking.id }, adminId)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const checkOuts = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.transaction_type, 'check_out'))
+      .execute();
+    expect(checkOuts).toHaveLength(1);
+  });
+
+  it('should reject transactions that are not bookings', async () => {
+    const checkOut = await checkOutEquipment({ equipment_id: equipmentId, user_name: 'Someone' }, adminId);
+
+    await expect(pickUpReservation({ booking_id: checkOut.id }, adminId))
+      .rejects.toThrow(`Reservation with id ${checkOut.id} not found`);
+  });
+
+  it('should throw error for non-existent booking', async () => {
+    await expect(pickUpReservation({ booking_id: 99999 }, adminId))
+      .rejects.toThrow(/Reservation with id 99999 not found/i);
+  });
+
+  it('should throw error for non-existent admin', async () => {
+    const booking = await reserve();
+
+    await expect(pickUpReservation({ booking_id: booking.id }, 99999))
+      .rejects.toThrow(/Admin with id 99999 not found/i);
+  });
+});
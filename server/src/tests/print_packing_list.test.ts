@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, equipmentTable, eventsTable } from '../db/schema';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
+import { checkOutGroup } from '../handlers/check_out_group';
+import { printPackingList } from '../handlers/print_packing_list';
+
+describe('printPackingList', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let eventId: number;
+  let equipmentIds: number[];
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'admin', email: 'admin@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [event] = await db.insert(eventsTable)
+      .values({
+        name: 'Summer Festival',
+        venue: 'Riverside Park',
+        crew_lead: 'Sam Lee',
+        starts_at: new Date('2030-07-10T14:00:00Z'),
+        ends_at: new Date('2030-07-12T23:00:00Z'),
+      })
+      .returning()
+      .execute();
+    eventId = event.id;
+
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'Console', serial_number: 'MIX001', category: 'Mixers', storage_location: 'Bay 2', case_label: 'FOH Rack', weight_grams: 18500 },
+        { name: 'Wedge', serial_number: 'WDG001', category: 'Speakers', storage_location: 'Bay 9', case_label: 'Wedge Case', weight_grams: 16000 },
+        { name: 'Wedge', serial_number: 'WDG002', category: 'Speakers', storage_location: 'Bay 1', case_label: 'Wedge Case', weight_grams: 16000 },
+        { name: 'Mic <Beta 58>', serial_number: 'MIC001', category: 'Microphones' },
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+  });
+
+  const reserve = (equipmentId: number) => reserveEquipment({
+    equipment_id: equipmentId,
+    user_name: 'Festival Crew',
+    event_id: eventId,
+    start_date: new Date('2030-07-09T08:00:00Z'),
+    end_date: new Date('2030-07-13T18:00:00Z')
+  }, adminId);
+
+  // The serial numbers of the table rows, in the order they are printed
+  const serials = (html: string): string[] => [...html.matchAll(/<td>(MIX|WDG|MIC)(\d+)<\/td>/g)].map(match => match[1] + match[2]);
+
+  it('should print a pull sheet of an event grouped by category and sorted by shelf', async () => {
+    await reserve(equipmentIds[0]);
+    await reserve(equipmentIds[1]);
+    await reserve(equipmentIds[2]);
+    await checkOutEquipment({ equipment_id: equipmentIds[3], user_name: 'Festival Crew', event_id: eventId }, adminId);
+
+    const result = await printPackingList({ sheet: 'pull', event_id: eventId, time_zone: 'Europe/London' });
+
+    expect(result!.filename).toEqual(`pull-sheet-event-${eventId}-summer-festival.html`);
+    expect(result!.html).toContain('<h1>Pull Sheet</h1>');
+    expect(result!.html).toContain('<dd>Riverside Park</dd>');
+    expect(result!.html).toContain('<dd>Sam Lee</dd>');
+    expect(result!.html).toContain('<dd>10 Jul 2030, 15:00 – 13 Jul 2030, 00:00</dd>');
+    expect(result!.html).toContain('Mic &lt;Beta 58&gt;');
+    expect(result!.html).toContain('<th colspan="6">Speakers – 2 items, 32 kg</th>');
+    expect(result!.html).toContain('<td>Bay 1</td>');
+    expect(serials(result!.html)).toEqual(['MIC001', 'MIX001', 'WDG002', 'WDG001']);
+    expect(result!.html).toContain('4 items · 50.5 kg (1 without a weight) · 2 cases, 1 loose');
+  });
+
+  it('should list only what went out on the return checklist of an event', async () => {
+    await reserve(equipmentIds[0]);
+    await checkOutGroup({ equipment_ids: [equipmentIds[1], equipmentIds[2]], user_name: 'Festival Crew', event_id: eventId }, adminId);
+
+    const result = await printPackingList({ sheet: 'return', event_id: eventId, time_zone: 'UTC' });
+
+    expect(result!.filename).toEqual(`return-checklist-event-${eventId}-summer-festival.html`);
+    expect(result!.html).toContain('<h1>Return Checklist</h1>');
+    expect(result!.html).toContain('<th style="width:80pt">Condition / Notes</th>');
+    expect(serials(result!.html)).toEqual(['WDG001', 'WDG002']);
+    expect(result!.html).toContain('2 items · 32 kg · 1 case');
+  });
+
+  it('should print the items of a multi-item check-out', async () => {
+    const receipt = await checkOutGroup({
+      equipment_ids: [equipmentIds[0], equipmentIds[3]],
+      user_name: 'Jane Roe',
+      user_contact: 'jane@example.com',
+    }, adminId);
+
+    const result = await printPackingList({ sheet: 'pull', group_id: receipt.group.id, time_zone: 'UTC' });
+
+    expect(result!.filename).toEqual(`pull-sheet-receipt-${receipt.group.id}.html`);
+    expect(result!.html).toContain(`<h2>Receipt #${receipt.group.id}</h2>`);
+    expect(result!.html).toContain('<dd>Jane Roe</dd>');
+    expect(result!.html).toContain('<dd>jane@example.com</dd>');
+    expect(result!.html).not.toContain('<dt>Due back</dt>');
+    expect(serials(result!.html)).toEqual(['MIC001', 'MIX001']);
+  });
+
+  it('should say so when nothing is allocated', async () => {
+    const result = await printPackingList({ sheet: 'pull', event_id: eventId, time_zone: 'UTC' });
+
+    expect(result!.html).toContain('<p>No items.</p>');
+    expect(result!.html).toContain('0 items · Weight unknown · 0 cases');
+  });
+
+  it('should return null for an event or group that does not exist', async () => {
+    expect(await printPackingList({ sheet: 'pull', event_id: 9999, time_zone: 'UTC' })).toBeNull();
+    expect(await printPackingList({ sheet: 'return', group_id: 9999, time_zone: 'UTC' })).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, adminSessionsTable, loginChallengesTable, loginEventsTable, loginThrottlesTable, oidcLoginStatesTable } from '../db/schema';
+import { pruneExpiredRecords } from '../handlers/prune_expired_records';
+import { createSession } from '../auth/session';
+
+const past = (ms: number) => new Date(Date.now() - ms);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('pruneExpiredRecords', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'owner', email: 'owner@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+
+    await createSession(admin.id);
+    await db.insert(adminSessionsTable)
+      .values({ admin_id: admin.id, token_hash: 'expired', expires_at: past(1000) })
+      .execute();
+    await db.insert(loginChallengesTable)
+      .values({ admin_id: admin.id, token_hash: 'expired', expires_at: past(1000) })
+      .execute();
+    await db.insert(oidcLoginStatesTable)
+      .values({ state_hash: 'expired', nonce: 'n', code_verifier: 'v', browser_key_hash: 'k', expires_at: past(1000) })
+      .execute();
+    await db.insert(loginThrottlesTable)
+      .values([
+        { scope: 'username', key: 'stale', failed_count: 2, last_failed_at: past(DAY_MS) },
+        { scope: 'username', key: 'recent', failed_count: 2, last_failed_at: past(1000) },
+        { scope: 'ip', key: '10.0.0.1', failed_count: 20, last_failed_at: past(DAY_MS), blocked_until: new Date(Date.now() + DAY_MS) }
+      ])
+      .execute();
+    await db.insert(loginEventsTable)
+      .values([
+        { admin_id: admin.id, username: 'owner', outcome: 'success', created_at: past(100 * DAY_MS) },
+        { admin_id: admin.id, username: 'owner', outcome: 'success' }
+      ])
+      .execute();
+  });
+
+  it('should delete expired and stale records only', async () => {
+    const result = await pruneExpiredRecords();
+
+    expect(result).toEqual({
+      admin_sessions: 1,
+      login_challenges: 1,
+      oidc_login_states: 1,
+      login_throttles: 1,
+      login_events: 0,
+    });
+
+    const sessions = await db.select()
+      .from(adminSessionsTable)
+      .execute();
+    expect(sessions).toHaveLength(1);
+
+    const throttles = await db.select()
+      .from(loginThrottlesTable)
+      .execute();
+    expect(throttles.map(throttle => throttle.key).sort()).toEqual(['10.0.0.1', 'recent']);
+  });
+
+  it('should trim the login audit log to the retention period', async () => {
+    const result = await pruneExpiredRecords(90);
+
+    expect(result.login_events).toEqual(1);
+
+    const events = await db.select()
+      .from(loginEventsTable)
+      .execute();
+    expect(events).toHaveLength(1);
+  });
+});
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { borrowersTable } from '../db/schema';
+import { reinstateBorrower } from '../handlers/reinstate_borrower';
+
+describe('reinstateBorrower', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should lift a suspension', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({
+        name: 'Jane Roe',
+        suspended_at: new Date(),
+        suspension_reason: 'Late returns',
+        suspended_until: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    const result = await reinstateBorrower(borrower.id);
+
+    expect(result!.suspended_at).toBeNull();
+    expect(result!.suspension_reason).toBeNull();
+    expect(result!.suspended_until).toBeNull();
+  });
+
+  it('should return null for a borrower that does not exist', async () => {
+    expect(await reinstateBorrower(9999)).toBeNull();
+  });
+});
@@ -0,0 +1,280 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, equipmentTransactionsTable, adminsTable, borrowersTable, borrowerRuleOverridesTable } from '../db/schema';
+import { reserveEquipmentInputSchema, type ReserveEquipmentInput } from '../schema';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { checkOutEquipment } from '../handlers/check_out_equipment';
+import { checkInEquipment } from '../handlers/check_in_equipment';
+import { eq } from 'drizzle-orm';
+
+describe('reserveEquipment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let equipmentId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({
+        username: 'testadmin',
+        email: 'admin@test.com',
+        password_hash: 'hashedpassword'
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [equipment] = await db.insert(equipmentTable)
+      .values({
+        name: 'Mixing Console',
+        serial_number: 'MIX001',
+        category: 'Mixers',
+        status: 'available'
+      })
+      .returning()
+      .execute();
+    equipmentId = equipment.id;
+  });
+
+  const festival = (overrides: Partial<ReserveEquipmentInput> = {}): ReserveEquipmentInput => ({
+    equipment_id: equipmentId,
+    user_name: 'Festival Crew',
+    user_contact: 'crew@example.com',
+    start_date: new Date('2030-07-10T08:00:00Z'),
+    end_date: new Date('2030-07-14T18:00:00Z'),
+    notes: 'Main stage',
+    ...overrides
+  });
+
+  it('should refuse a suspended borrower unless overridden', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe', suspended_at: new Date(), suspension_reason: 'Late returns' })
+      .returning()
+      .execute();
+
+    await expect(reserveEquipment(festival({ borrower_id: borrower.id }), adminId))
+      .rejects.toThrow('Loan refused: Jane Roe is suspended: Late returns');
+
+    const result = await reserveEquipment(festival({ borrower_id: borrower.id, override_reason: 'Booked before the suspension' }), adminId);
+
+    const overrides = await db.select().from(borrowerRuleOverridesTable).execute();
+    expect(overrides).toHaveLength(1);
+    expect(overrides[0].rule).toEqual('suspended');
+    expect(overrides[0].transaction_id).toEqual(result.id);
+  });
+
+  it('should record a booking for the window without changing the status', async () => {
+    const result = await reserveEquipment(festival(), adminId);
+
+    expect(result.transaction_type).toEqual('booking');
+    expect(result.user_name).toEqual('Festival Crew');
+    expect(result.reserved_from).toEqual(new Date('2030-07-10T08:00:00Z'));
+    expect(result.expected_return_date).toEqual(new Date('2030-07-14T18:00:00Z'));
+    expect(result.actual_return_date).toBeNull();
+
+    const equipment = await db.select()
+      .from(equipmentTable)
+      .where(eq(equipmentTable.id, equipmentId))
+      .execute();
+    expect(equipment[0].status).toEqual('available');
+  });
+
+  it('should reserve equipment that is currently checked out', async () => {
+    await checkOutEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Touring Band',
+      expected_return_date: new Date('2030-07-01T12:00:00Z')
+    }, adminId);
+
+    const result = await reserveEquipment(festival(), adminId);
+    expect(result.reserved_from).toEqual(new Date('2030-07-10T08:00:00Z'));
+
+    // Returning the current loan leaves the future reservation in place
+    await checkInEquipment({ equipment_id: equipmentId }, adminId);
+
+    const reservation = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.id, result.id))
+      .execute();
+    expect(reservation[0].actual_return_date).toBeNull();
+  });
+
+  it('should reject a reservation while the item is checked out for the window', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const checkOut = await checkOutEquipment({
+      equipment_id: equipmentId,
+      user_name: 'Touring Band',
+      expected_return_date: new Date(Date.now() + 14 * day)
+    }, adminId);
+
+    await expect(reserveEquipment(festival({
+      start_date: new Date(Date.now() + 2 * day),
+      end_date: new Date(Date.now() + 3 * day)
+    }), adminId)).rejects.toThrow(`already reserved for this period: #${checkOut.id} checked out to Touring Band`);
+  });
+
+  it('should reject a reservation starting now while an overdue check-out is still out', async () => {
+    const [checkOut] = await db.insert(equipmentTransactionsTable)
+      .values({
+        equipment_id: equipmentId,
+        admin_id: adminId,
+        transaction_type: 'check_out',
+        user_name: 'Touring Band',
+        transaction_date: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+        expected_return_date: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    await expect(reserveEquipment(festival({
+      start_date: new Date(Date.now() - 60 * 1000),
+      end_date: new Date(Date.now() + 60 * 60 * 1000)
+    }), adminId)).rejects.toThrow(`#${checkOut.id} checked out to Touring Band`);
+
+    // A window that starts later may count on the item coming back by then
+    await reserveEquipment(festival(), adminId);
+  });
+
+  it('should reject an overlapping reservation and name the clashing one', async () => {
+    const existing = await reserveEquipment(festival(), adminId);
+
+    const clash = reserveEquipment(festival({
+      user_name: 'Wedding Band',
+      start_date: new Date('2030-07-13T10:00:00Z'),
+      end_date: new Date('2030-07-16T10:00:00Z')
+    }), adminId);
+
+    await expect(clash).rejects.toThrow(`already reserved for this period: #${existing.id} for Festival Crew (2030-07-10T08:00:00.000Z to 2030-07-14T18:00:00.000Z)`);
+
+    const bookings = await db.select()
+      .from(equipmentTransactionsTable)
+      .execute();
+    expect(bookings).toHaveLength(1);
+  });
+
+  it('should reject a reservation that contains an existing one', async () => {
+    await reserveEquipment(festival(), adminId);
+
+    await expect(reserveEquipment(festival({
+      start_date: new Date('2030-07-01T00:00:00Z'),
+      end_date: new Date('2030-08-01T00:00:00Z')
+    }), adminId)).rejects.toThrow(/already reserved/i);
+  });
+
+  it('should list every clashing reservation', async () => {
+    const first = await reserveEquipment(festival({
+      user_name: 'First',
+      start_date: new Date('2030-07-01T00:00:00Z'),
+      end_date: new Date('2030-07-03T00:00:00Z')
+    }), adminId);
+    const second = await reserveEquipment(festival({
+      user_name: 'Second',
+      start_date: new Date('2030-07-05T00:00:00Z'),
+      end_date: new Date('2030-07-07T00:00:00Z')
+    }), adminId);
+
+    const error = await reserveEquipment(festival({
+      start_date: new Date('2030-07-02T00:00:00Z'),
+      end_date: new Date('2030-07-06T00:00:00Z')
+    }), adminId).catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain(`#${first.id} for First`);
+    expect((error as Error).message).toContain(`#${second.id} for Second`);
+  });
+
+  it('should allow back-to-back reservations', async () => {
+    await reserveEquipment(festival(), adminId);
+
+    const next = await reserveEquipment(festival({
+      user_name: 'Next Crew',
+      start_date: new Date('2030-07-14T18:00:00Z'),
+      end_date: new Date('2030-07-20T18:00:00Z')
+    }), adminId);
+
+    expect(next.user_name).toEqual('Next Crew');
+  });
+
+  it('should ignore closed bookings and other equipment', async () => {
+    const [otherEquipment] = await db.insert(equipmentTable)
+      .values({ name: 'Spare Console', serial_number: 'MIX002', category: 'Mixers' })
+      .returning()
+      .execute();
+
+    await db.insert(equipmentTransactionsTable)
+      .values([
+        {
+          equipment_id: equipmentId,
+          admin_id: adminId,
+          transaction_type: 'booking',
+          user_name: 'Finished',
+          reserved_from: new Date('2030-07-10T00:00:00Z'),
+          expected_return_date: new Date('2030-07-12T00:00:00Z'),
+          actual_return_date: new Date('2030-07-12T00:00:00Z')
+        },
+        {
+          equipment_id: otherEquipment.id,
+          admin_id: adminId,
+          transaction_type: 'booking',
+          user_name: 'Other Item',
+          reserved_from: new Date('2030-07-10T00:00:00Z'),
+          expected_return_date: new Date('2030-07-12T00:00:00Z')
+        }
+      ])
+      .execute();
+
+    const result = await reserveEquipment(festival(), adminId);
+    expect(result.user_name).toEqual('Festival Crew');
+  });
+
+  it('should conflict with an immediate booking that is still held', async () => {
+    await db.insert(equipmentTransactionsTable)
+      .values({
+        equipment_id: equipmentId,
+        admin_id: adminId,
+        transaction_type: 'booking',
+        user_name: 'Walk-in',
+        transaction_date: new Date('2030-07-09T00:00:00Z'),
+        expected_return_date: new Date('2030-07-11T00:00:00Z')
+      })
+      .execute();
+
+    await expect(reserveEquipment(festival(), adminId)).rejects.toThrow(/Walk-in/);
+  });
+
+  it('should let only one of two concurrent overlapping reservations succeed', async () => {
+    const results = await Promise.allSettled([
+      reserveEquipment(festival({ user_name: 'First' }), adminId),
+      reserveEquipment(festival({ user_name: 'Second' }), adminId)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const bookings = await db.select()
+      .from(equipmentTransactionsTable)
+      .execute();
+    expect(bookings).toHaveLength(1);
+  });
+
+  it('should reject a window that ends before it starts', () => {
+    const parsed = reserveEquipmentInputSchema.safeParse({
+      ...festival(),
+      start_date: new Date('2030-07-14T00:00:00Z'),
+      end_date: new Date('2030-07-10T00:00:00Z')
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('should throw error for non-existent equipment', async () => {
+    await expect(reserveEquipment(festival({ equipment_id: 99999 }), adminId))
+      .rejects.toThrow(/Equipment with id 99999 not found/i);
+  });
+
+  it('should throw error for non-existent admin', async () => {
+    await expect(reserveEquipment(festival(), 99999))
+      .rejects.toThrow(/Admin with id 99999 not found/i);
+  });
+});
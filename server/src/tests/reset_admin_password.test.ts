@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { resetAdminPassword } from '../handlers/reset_admin_password';
+import { createSession, resolveSession } from '../auth/session';
+import { verifyPassword } from '../auth/credentials';
+import { eq } from 'drizzle-orm';
+
+describe('resetAdminPassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+
+  beforeEach(async () => {
+    const adminResult = await db.insert(adminsTable)
+      .values({
+        username: 'testadmin',
+        email: 'admin@test.com',
+        password_hash: await Bun.password.hash('forgotten')
+      })
+      .returning()
+      .execute();
+    adminId = adminResult[0].id;
+  });
+
+  it('should set a new password', async () => {
+    const result = await resetAdminPassword({ id: adminId, new_password: 'temporary123' });
+
+    expect(result).not.toBeNull();
+    expect('password_hash' in result!).toBe(false);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    expect((await verifyPassword('temporary123', admins[0].password_hash)).valid).toBe(true);
+    expect((await verifyPassword('forgotten', admins[0].password_hash)).valid).toBe(false);
+  });
+
+  it('should revoke all sessions of the admin', async () => {
+    const { token } = await createSession(adminId);
+
+    await resetAdminPassword({ id: adminId, new_password: 'temporary123' });
+
+    expect(await resolveSession(token)).toBeNull();
+  });
+
+  it('should return null for non-existent admin', async () => {
+    const result = await resetAdminPassword({ id: 99999, new_password: 'temporary123' });
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, adminRecoveryCodesTable } from '../db/schema';
+import { resetAdminTwoFactor } from '../handlers/reset_admin_two_factor';
+import { createSession, resolveSession } from '../auth/session';
+import { issueRecoveryCodes } from '../auth/recovery_codes';
+
+describe('resetAdminTwoFactor', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let managerId: number;
+
+  beforeEach(async () => {
+    const admins = await db.insert(adminsTable)
+      .values([
+        { username: 'owner', email: 'owner@test.com', password_hash: 'hash', role: 'owner' },
+        {
+          username: 'manager',
+          email: 'manager@test.com',
+          password_hash: 'hash',
+          role: 'manager',
+          totp_secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+          totp_enabled_at: new Date()
+        }
+      ])
+      .returning()
+      .execute();
+    ownerId = admins[0].id;
+    managerId = admins[1].id;
+    await issueRecoveryCodes(managerId);
+  });
+
+  it('should clear 2FA and sign the admin out', async () => {
+    const { token } = await createSession(managerId);
+
+    const result = await resetAdminTwoFactor(managerId, ownerId);
+
+    expect(result).not.toBeNull();
+    expect(result!.totp_enabled_at).toBeNull();
+    expect('totp_secret' in result!).toBe(false);
+    expect(await resolveSession(token)).toBeNull();
+
+    const codes = await db.select()
+      .from(adminRecoveryCodesTable)
+      .execute();
+    expect(codes).toHaveLength(0);
+  });
+
+  it('should not reset your own account', async () => {
+    await expect(resetAdminTwoFactor(ownerId, ownerId)).rejects.toThrow(/your own security settings/i);
+  });
+
+  it('should return null for non-existent admin', async () => {
+    const result = await resetAdminTwoFactor(99999, ownerId);
+
+    expect(result).toBeNull();
+  });
+});
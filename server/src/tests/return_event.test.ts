@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, equipmentTable, equipmentTransactionsTable, eventsTable } from '../db/schema';
+import { checkOutGroup } from '../handlers/check_out_group';
+import { reserveEquipment } from '../handlers/reserve_equipment';
+import { returnEvent } from '../handlers/return_event';
+import { eq } from 'drizzle-orm';
+
+describe('returnEvent', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+  let eventId: number;
+  let equipmentIds: number[];
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'admin', email: 'admin@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+
+    const [event] = await db.insert(eventsTable)
+      .values({ name: 'Summer Festival', starts_at: new Date('2030-07-10T14:00:00Z'), ends_at: new Date('2030-07-12T23:00:00Z') })
+      .returning()
+      .execute();
+    eventId = event.id;
+
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'Amp', serial_number: 'AMP001', category: 'Amplifiers' },
+        { name: 'Bass Cab', serial_number: 'CAB001', category: 'Speakers' },
+        { name: 'Console', serial_number: 'MIX001', category: 'Mixers' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+
+    await checkOutGroup({ equipment_ids: equipmentIds.slice(0, 2), user_name: 'Festival Crew', event_id: eventId }, adminId);
+  });
+
+  it('should return everything still out and tag the check-ins with the event', async () => {
+    await reserveEquipment({
+      equipment_id: equipmentIds[2],
+      user_name: 'Festival Crew',
+      event_id: eventId,
+      start_date: new Date('2030-07-09T08:00:00Z'),
+      end_date: new Date('2030-07-13T18:00:00Z')
+    }, adminId);
+
+    const result = await returnEvent({ event_id: eventId, notes: 'Back from the park' }, adminId);
+
+    expect(result!.event.returned_at).toBeInstanceOf(Date);
+    expect(result!.items.map(item => [item.equipment.serial_number, item.status])).toEqual([
+      ['AMP001', 'returned'],
+      ['CAB001', 'returned'],
+      ['MIX001', 'reserved'],
+    ]);
+
+    const equipment = await db.select().from(equipmentTable).execute();
+    expect(equipment.every(item => item.status === 'available')).toBe(true);
+
+    const checkIns = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.transaction_type, 'check_in'))
+      .execute();
+    expect(checkIns).toHaveLength(2);
+    checkIns.forEach(checkIn => {
+      expect(checkIn.event_id).toEqual(eventId);
+      expect(checkIn.group_id).not.toBeNull();
+      expect(checkIn.notes).toEqual('Back from the park');
+    });
+  });
+
+  it('should mark what did not come back as missing', async () => {
+    const result = await returnEvent({ event_id: eventId, equipment_ids: [equipmentIds[0]] }, adminId);
+
+    expect(result!.items.map(item => item.status)).toEqual(['returned', 'missing']);
+
+    // It can still be returned once it turns up
+    const found = await returnEvent({ event_id: eventId, equipment_ids: [equipmentIds[1]] }, adminId);
+    expect(found!.items.map(item => item.status)).toEqual(['returned', 'returned']);
+  });
+
+  it('should charge damage found on the returned items', async () => {
+    const result = await returnEvent({ event_id: eventId, damage: [{ equipment_id: equipmentIds[0], damage_cost: 120 }] }, adminId);
+
+    expect(result!.items.map(item => [item.equipment.serial_number, item.transaction.damage_cost])).toEqual([
+      ['AMP001', 120],
+      ['CAB001', null],
+    ]);
+  });
+
+  it('should refuse items that are not out for the event', async () => {
+    await expect(returnEvent({ event_id: eventId, equipment_ids: [equipmentIds[2]] }, adminId))
+      .rejects.toThrow(`Equipment is not out for event #${eventId}: ${equipmentIds[2]}`);
+  });
+
+  it('should return null for an event that does not exist', async () => {
+    expect(await returnEvent({ event_id: 9999 }, adminId)).toBeNull();
+  });
+});
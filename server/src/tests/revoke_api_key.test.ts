@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type Admin } from '../schema';
+import { revokeApiKey } from '../handlers/revoke_api_key';
+import { createApiKey } from '../handlers/create_api_key';
+import { resolveApiKey } from '../auth/api_keys';
+
+describe('revokeApiKey', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: Admin;
+  let clerk: Admin;
+  let viewer: Admin;
+
+  beforeEach(async () => {
+    const admins = await db.insert(adminsTable)
+      .values([
+        { username: 'owner', email: 'owner@test.com', password_hash: 'hash', role: 'owner' },
+        { username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' },
+        { username: 'viewer', email: 'viewer@test.com', password_hash: 'hash', role: 'viewer' }
+      ])
+      .returning()
+      .execute();
+    [owner, clerk, viewer] = admins;
+  });
+
+  it('should revoke the admin\'s own key', async () => {
+    const { key, api_key } = await createApiKey(clerk.id, { name: 'Scanner', scopes: null, expires_at: null });
+
+    const result = await revokeApiKey(api_key.id, clerk);
+
+    expect(result).not.toBeNull();
+    expect(result!.revoked_at).toBeInstanceOf(Date);
+    expect(await resolveApiKey(key)).toBeNull();
+  });
+
+  it('should let admins:manage revoke another admin\'s key', async () => {
+    const { api_key } = await createApiKey(clerk.id, { name: 'Scanner', scopes: null, expires_at: null });
+
+    const result = await revokeApiKey(api_key.id, owner);
+
+    expect(result!.revoked_at).toBeInstanceOf(Date);
+  });
+
+  it('should not let other admins revoke the key', async () => {
+    const { api_key } = await createApiKey(clerk.id, { name: 'Scanner', scopes: null, expires_at: null });
+
+    await expect(revokeApiKey(api_key.id, viewer)).rejects.toThrow(/only revoke your own/i);
+  });
+
+  it('should keep the original revocation time', async () => {
+    const { api_key } = await createApiKey(clerk.id, { name: 'Scanner', scopes: null, expires_at: null });
+
+    const first = await revokeApiKey(api_key.id, clerk);
+    const second = await revokeApiKey(api_key.id, clerk);
+
+    expect(second!.revoked_at).toEqual(first!.revoked_at);
+  });
+
+  it('should return null for non-existent key', async () => {
+    const result = await revokeApiKey(99999, owner);
+
+    expect(result).toBeNull();
+  });
+});
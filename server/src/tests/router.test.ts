@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, borrowersTable, equipmentTable, securitySettingsTable } from '../db/schema';
+import { createCaller } from '../router';
+import { hashPassword } from '../auth/credentials';
+import { resolveApiKey } from '../auth/api_keys';
+import { createApiKey } from '../handlers/create_api_key';
+import { type Admin } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Walks a response and collects every credential key, at any depth
+const findCredentialKeys = (value: unknown, path = '$'): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findCredentialKeys(item, `${path}[${index}]`));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.entries(value).flatMap(([key, nested]) => [
+      ...(['password_hash', 'totp_secret'].includes(key) ? [`${path}.${key}`] : []),
+      ...findCredentialKeys(nested, `${path}.${key}`)
+    ]);
+  }
+  return [];
+};
+
+const expectNoCredentials = (value: unknown, storedHash: string) => {
+  expect(findCredentialKeys(value)).toEqual([]);
+  expect(JSON.stringify(value)).not.toContain(storedHash);
+};
+
+describe('appRouter admin responses', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let owner: Admin;
+
+  beforeEach(async () => {
+    const [created] = await db.insert(adminsTable)
+      .values({
+        username: 'owner',
+        email: 'owner@test.com',
+        password_hash: await hashPassword('ownerpass')
+      })
+      .returning()
+      .execute();
+    owner = created;
+  });
+
+  const ownerCaller = () => createCaller({ admin: owner, sessionToken: 'test-token', apiKey: null, ipAddress: '127.0.0.1' });
+
+  it('should not expose password hashes from any admin-returning procedure', async () => {
+    const caller = ownerCaller();
+
+    const login = await createCaller({ admin: null, sessionToken: null, apiKey: null, ipAddress: '127.0.0.1' })
+      .loginAdmin({ username: 'owner', password: 'ownerpass' });
+    expectNoCredentials(login, owner.password_hash);
+
+    const created = await caller.createAdmin({
+      username: 'clerk',
+      email: 'clerk@test.com',
+      password: 'clerkpass',
+      role: 'clerk'
+    });
+    const [clerkRow] = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, created.id))
+      .execute();
+    expectNoCredentials(created, clerkRow.password_hash);
+
+    expectNoCredentials(await caller.getAdmins(), clerkRow.password_hash);
+    expectNoCredentials(await caller.getAdmins(), owner.password_hash);
+    expectNoCredentials(await caller.updateAdmin({ id: created.id, role: 'viewer' }), clerkRow.password_hash);
+    expectNoCredentials(await caller.setAdminDisabled({ id: created.id, disabled: true }), clerkRow.password_hash);
+    expectNoCredentials(await caller.resetAdminPassword({ id: created.id, new_password: 'newpass123' }), clerkRow.password_hash);
+    expectNoCredentials(await caller.me(), owner.password_hash);
+  });
+
+  it('should return the current admin and permissions from me', async () => {
+    const result = await ownerCaller().me();
+
+    expect(result).not.toBeNull();
+    expect(result!.admin.id).toBe(owner.id);
+    expect(result!.admin.username).toBe('owner');
+    expect(result!.permissions).toContain('admins:manage');
+  });
+
+  it('should reject me without a session', async () => {
+    await expect(createCaller({ admin: null, sessionToken: null, apiKey: null, ipAddress: '127.0.0.1' }).me()).rejects.toThrow();
+  });
+
+  it('should limit admins to enrolment while mandatory 2FA is not set up', async () => {
+    await db.insert(securitySettingsTable)
+      .values({ id: 1, require_two_factor: true })
+      .execute();
+
+    const caller = ownerCaller();
+
+    await expect(caller.getAdmins()).rejects.toThrow(/two-factor authentication must be set up/i);
+
+    const me = await caller.me();
+    expect(me!.two_factor_setup_required).toBe(true);
+
+    const enrolment = await caller.beginTwoFactorEnrolment();
+    expect(enrolment!.provisioning_uri).toStartWith('otpauth://');
+  });
+});
+
+describe('appRouter API key access', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let clerk: Admin;
+  let equipmentId: number;
+
+  beforeEach(async () => {
+    const [created] = await db.insert(adminsTable)
+      .values({ username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' })
+      .returning()
+      .execute();
+    clerk = created;
+
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'SM58', serial_number: 'SM58-001', category: 'Microphones' })
+      .returning()
+      .execute();
+    equipmentId = equipment.id;
+  });
+
+  const keyCaller = async (scopes: Parameters<typeof createApiKey>[1]['scopes']) => {
+    const { key } = await createApiKey(clerk.id, { name: 'Scanner', scopes, expires_at: null });
+    const resolved = await resolveApiKey(key);
+    return createCaller({ admin: resolved!.admin, sessionToken: null, apiKey: resolved!.apiKey, ipAddress: '127.0.0.1' });
+  };
+
+  it('should record the key on transactions made with it', async () => {
+    const caller = await keyCaller(null);
+
+    const transaction = await caller.checkOutEquipment({ equipment_id: equipmentId, user_name: 'Sam' });
+
+    expect(transaction.api_key_id).not.toBeNull();
+    expect(transaction.admin_id).toEqual(clerk.id);
+
+    const transactions = await caller.getTransactions({ api_key_id: transaction.api_key_id! });
+    expect(transactions).toHaveLength(1);
+  });
+
+  it('should reject procedures outside the key\'s scopes', async () => {
+    const caller = await keyCaller(['catalog:read']);
+
+    expect(await caller.getEquipment()).toHaveLength(1);
+    await expect(caller.checkOutEquipment({ equipment_id: equipmentId, user_name: 'Sam' }))
+      .rejects.toThrow(/missing permission: transactions:write/i);
+  });
+
+  it('should let only borrowers:restrict override a borrower rule', async () => {
+    const caller = await keyCaller(null);
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Sam', suspended_at: new Date(), suspension_reason: 'Lost a cable' })
+      .returning()
+      .execute();
+
+    await expect(caller.checkOutEquipment({ equipment_id: equipmentId, user_name: 'Sam', borrower_id: borrower.id, override_reason: 'Festival' }))
+      .rejects.toThrow(/missing permission: borrowers:restrict/i);
+    await expect(caller.checkOutEquipment({ equipment_id: equipmentId, user_name: 'Sam', borrower_id: borrower.id }))
+      .rejects.toThrow('Loan refused: Sam is suspended: Lost a cable');
+  });
+
+  it('should keep session-only procedures closed to keys', async () => {
+    const caller = await keyCaller(null);
+
+    await expect(caller.me()).rejects.toThrow(/authentication required/i);
+    await expect(caller.createApiKey({ name: 'Another' })).rejects.toThrow(/authentication required/i);
+    await expect(caller.changePassword({ current_password: 'hash', new_password: 'newpass123' }))
+      .rejects.toThrow(/authentication required/i);
+  });
+});
@@ -0,0 +1,233 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, equipmentTable, equipmentTransactionsTable, transactionRemindersTable } from '../db/schema';
+import { runOverdueCheck } from '../handlers/run_overdue_check';
+import { startMockSmtpServer, type MockSmtpServer } from '../helpers/mock_smtp_server';
+import { type SmtpConfig } from '../notifications/smtp';
+import { asc, eq } from 'drizzle-orm';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const due = new Date('2026-03-10T18:00:00Z');
+const at = (offsetMs: number) => new Date(due.getTime() + offsetMs);
+
+describe('runOverdueCheck', () => {
+  let sink: MockSmtpServer;
+  let smtp: SmtpConfig;
+
+  beforeAll(() => {
+    sink = startMockSmtpServer();
+    smtp = { host: '127.0.0.1', port: sink.port, secure: false, user: null, password: null, from: 'warehouse@example.com' };
+  });
+  afterAll(() => sink.stop());
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+  afterEach(() => {
+    sink.messages.splice(0);
+    sink.rejectRecipients(false);
+  });
+
+  let adminId: number;
+  let equipmentId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'testadmin', email: 'admin@test.com', password_hash: 'hashedpassword' })
+      .returning()
+      .execute();
+    adminId = admin.id;
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'Mixing Console', serial_number: 'MIX001', category: 'Mixers', status: 'checked_out' })
+      .returning()
+      .execute();
+    equipmentId = equipment.id;
+  });
+
+  const checkOut = async (values: Partial<typeof equipmentTransactionsTable.$inferInsert> = {}) => {
+    const [transaction] = await db.insert(equipmentTransactionsTable)
+      .values({
+        equipment_id: equipmentId,
+        admin_id: adminId,
+        transaction_type: 'check_out',
+        user_name: 'Jane Doe',
+        user_contact: 'Jane, 555-0100, jane@example.com',
+        transaction_date: at(-3 * DAY_MS),
+        expected_return_date: due,
+        ...values,
+      })
+      .returning()
+      .execute();
+    return transaction;
+  };
+
+  const remindersOf = (transactionId: number) => db.select()
+    .from(transactionRemindersTable)
+    .where(eq(transactionRemindersTable.transaction_id, transactionId))
+    .orderBy(asc(transactionRemindersTable.id))
+    .execute();
+
+  it('should mark open check-outs past due as overdue once', async () => {
+    const late = await checkOut();
+    const returned = await checkOut({ actual_return_date: at(-HOUR_MS) });
+    const booking = await checkOut({ transaction_type: 'booking' });
+
+    const result = await runOverdueCheck(at(HOUR_MS), null);
+    expect(result).toEqual({ marked_overdue: 1, reminders_sent: 0, reminders_failed: 0, reminders_skipped: 0 });
+
+    const rows = await db.select().from(equipmentTransactionsTable).orderBy(asc(equipmentTransactionsTable.id)).execute();
+    expect(rows.find(row => row.id === late.id)!.overdue_at).toEqual(at(HOUR_MS));
+    expect(rows.find(row => row.id === returned.id)!.overdue_at).toBeNull();
+    expect(rows.find(row => row.id === booking.id)!.overdue_at).toBeNull();
+
+    // A later run keeps the time it was first found overdue
+    expect((await runOverdueCheck(at(2 * HOUR_MS), null)).marked_overdue).toEqual(0);
+    const [again] = await db.select().from(equipmentTransactionsTable).where(eq(equipmentTransactionsTable.id, late.id)).execute();
+    expect(again.overdue_at).toEqual(at(HOUR_MS));
+  });
+
+  it('should not mark or remind check-outs that are not yet due', async () => {
+    const transaction = await checkOut();
+
+    const result = await runOverdueCheck(at(-2 * DAY_MS), smtp);
+
+    expect(result).toEqual({ marked_overdue: 0, reminders_sent: 0, reminders_failed: 0, reminders_skipped: 0 });
+    expect(sink.messages).toHaveLength(0);
+    expect(await remindersOf(transaction.id)).toHaveLength(0);
+  });
+
+  it('should send no reminders without SMTP configured', async () => {
+    const transaction = await checkOut();
+
+    await runOverdueCheck(at(DAY_MS), null);
+
+    expect(await remindersOf(transaction.id)).toHaveLength(0);
+  });
+
+  it('should remind the borrower before the due date, on it and after it', async () => {
+    const transaction = await checkOut();
+
+    expect((await runOverdueCheck(at(-12 * HOUR_MS), smtp)).reminders_sent).toEqual(1);
+    expect(sink.messages[0].to).toEqual(['jane@example.com']);
+    expect(sink.messages[0].subject).toEqual('Reminder: Mixing Console (MIX001) is due back soon');
+    expect(sink.messages[0].text).toContain('Hello Jane Doe');
+
+    // Nothing new until the due date
+    expect((await runOverdueCheck(at(-HOUR_MS), smtp)).reminders_sent).toEqual(0);
+
+    expect((await runOverdueCheck(at(HOUR_MS), smtp)).reminders_sent).toEqual(1);
+    expect(sink.messages[1].subject).toEqual('Mixing Console (MIX001) is due back today');
+
+    expect((await runOverdueCheck(at(DAY_MS + HOUR_MS), smtp)).reminders_sent).toEqual(1);
+    expect(sink.messages[2].subject).toEqual('Overdue: Mixing Console (MIX001) was due back 1 day ago');
+
+    // The next overdue reminder waits for day 3
+    expect((await runOverdueCheck(at(2 * DAY_MS), smtp)).reminders_sent).toEqual(0);
+    expect((await runOverdueCheck(at(3 * DAY_MS), smtp)).reminders_sent).toEqual(1);
+    expect(sink.messages[3].subject).toEqual('Overdue: Mixing Console (MIX001) was due back 3 days ago');
+
+    const reminders = await remindersOf(transaction.id);
+    expect(reminders.map(reminder => [reminder.stage, reminder.overdue_days])).toEqual([
+      ['due_soon', 0],
+      ['due', 0],
+      ['overdue', 1],
+      ['overdue', 3],
+    ]);
+    expect(reminders[3].recipient).toEqual('jane@example.com');
+    expect(reminders[3].sent_at).toEqual(at(3 * DAY_MS));
+  });
+
+  it('should only send the latest reminder a check-out has reached', async () => {
+    const transaction = await checkOut();
+
+    const result = await runOverdueCheck(at(8 * DAY_MS), smtp);
+
+    expect(result.reminders_sent).toEqual(1);
+    expect(sink.messages[0].subject).toEqual('Overdue: Mixing Console (MIX001) was due back 7 days ago');
+    const reminders = await remindersOf(transaction.id);
+    expect(reminders.map(reminder => [reminder.stage, reminder.overdue_days])).toEqual([['overdue', 7]]);
+  });
+
+  it('should not remind returned check-outs', async () => {
+    await checkOut({ actual_return_date: at(-HOUR_MS) });
+
+    expect((await runOverdueCheck(at(DAY_MS), smtp)).reminders_sent).toEqual(0);
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('should skip borrowers without an email address', async () => {
+    const transaction = await checkOut({ user_contact: '555-0100' });
+    const [other] = await db.insert(equipmentTable)
+      .values({ name: 'DI Box', serial_number: 'DI001', category: 'DI Boxes', status: 'checked_out' })
+      .returning()
+      .execute();
+    await checkOut({ equipment_id: other.id, user_contact: null, expected_return_date: at(HOUR_MS) });
+
+    const result = await runOverdueCheck(at(2 * HOUR_MS), smtp);
+
+    expect(result).toEqual({ marked_overdue: 2, reminders_sent: 0, reminders_failed: 0, reminders_skipped: 2 });
+    const reminders = await remindersOf(transaction.id);
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].recipient).toBeNull();
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('should count a skipped reminder only in the run that reached it', async () => {
+    await checkOut({ user_contact: '555-0100' });
+
+    expect((await runOverdueCheck(at(2 * HOUR_MS), smtp)).reminders_skipped).toEqual(1);
+    expect((await runOverdueCheck(at(3 * HOUR_MS), smtp)).reminders_skipped).toEqual(0);
+
+    // The next stage is skipped afresh
+    expect((await runOverdueCheck(at(DAY_MS + HOUR_MS), smtp)).reminders_skipped).toEqual(1);
+  });
+
+  it('should retry a reminder the mail server refused on the next run', async () => {
+    const transaction = await checkOut();
+    sink.rejectRecipients(true);
+
+    const failed = await runOverdueCheck(at(HOUR_MS), smtp);
+    expect(failed.reminders_failed).toEqual(1);
+    expect(failed.reminders_sent).toEqual(0);
+    expect(await remindersOf(transaction.id)).toHaveLength(0);
+
+    sink.rejectRecipients(false);
+    const retried = await runOverdueCheck(at(2 * HOUR_MS), smtp);
+    expect(retried.reminders_sent).toEqual(1);
+    expect(await remindersOf(transaction.id)).toHaveLength(1);
+  });
+
+  it('should send each reminder once when runs overlap', async () => {
+    await checkOut();
+
+    const results = await Promise.all([
+      runOverdueCheck(at(HOUR_MS), smtp),
+      runOverdueCheck(at(HOUR_MS), smtp),
+    ]);
+
+    expect(results[0].reminders_sent + results[1].reminders_sent).toEqual(1);
+    expect(sink.messages).toHaveLength(1);
+  });
+
+  it('should start the reminders again for a new due date', async () => {
+    const transaction = await checkOut();
+    await runOverdueCheck(at(HOUR_MS), smtp);
+
+    // The loan is extended by two days, as extendLoan would
+    const newDue = at(2 * DAY_MS);
+    await db.update(equipmentTransactionsTable)
+      .set({ expected_return_date: newDue, overdue_at: null })
+      .where(eq(equipmentTransactionsTable.id, transaction.id))
+      .execute();
+
+    const result = await runOverdueCheck(new Date(newDue.getTime() + HOUR_MS), smtp);
+
+    expect(result).toEqual({ marked_overdue: 1, reminders_sent: 1, reminders_failed: 0, reminders_skipped: 0 });
+    const reminders = await remindersOf(transaction.id);
+    expect(reminders.map(reminder => [reminder.stage, reminder.due_date])).toEqual([
+      ['due', due],
+      ['due', newDue],
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, adminSessionsTable, equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { setAdminDisabled } from '../handlers/set_admin_disabled';
+import { createSession, resolveSession } from '../auth/session';
+import { eq } from 'drizzle-orm';
+
+describe('setAdminDisabled', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let clerkId: number;
+
+  beforeEach(async () => {
+    const adminResult = await db.insert(adminsTable)
+      .values([
+        { username: 'owner', email: 'owner@test.com', password_hash: 'hash', role: 'owner' },
+        { username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' }
+      ])
+      .returning()
+      .execute();
+    ownerId = adminResult[0].id;
+    clerkId = adminResult[1].id;
+  });
+
+  it('should disable an admin', async () => {
+    const result = await setAdminDisabled({ id: clerkId, disabled: true }, ownerId);
+
+    expect(result).not.toBeNull();
+    expect(result!.disabled_at).toBeInstanceOf(Date);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+
+    expect(admins[0].disabled_at).toBeInstanceOf(Date);
+  });
+
+  it('should revoke the sessions of a disabled admin', async () => {
+    const { token } = await createSession(clerkId);
+
+    await setAdminDisabled({ id: clerkId, disabled: true }, ownerId);
+
+    expect(await resolveSession(token)).toBeNull();
+
+    const sessions = await db.select()
+      .from(adminSessionsTable)
+      .where(eq(adminSessionsTable.admin_id, clerkId))
+      .execute();
+
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should keep the transaction history of a disabled admin', async () => {
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'Mixer', serial_number: 'MIX001', category: 'Mixers' })
+      .returning()
+      .execute();
+
+    await db.insert(equipmentTransactionsTable)
+      .values({
+        equipment_id: equipment.id,
+        admin_id: clerkId,
+        transaction_type: 'check_out',
+        user_name: 'John Doe'
+      })
+      .execute();
+
+    await setAdminDisabled({ id: clerkId, disabled: true }, ownerId);
+
+    const transactions = await db.select()
+      .from(equipmentTransactionsTable)
+      .where(eq(equipmentTransactionsTable.admin_id, clerkId))
+      .execute();
+
+    expect(transactions).toHaveLength(1);
+  });
+
+  it('should re-enable a disabled admin', async () => {
+    await setAdminDisabled({ id: clerkId, disabled: true }, ownerId);
+
+    const result = await setAdminDisabled({ id: clerkId, disabled: false }, ownerId);
+
+    expect(result!.disabled_at).toBeNull();
+  });
+
+  it('should refuse to disable the acting admin', async () => {
+    await expect(setAdminDisabled({ id: ownerId, disabled: true }, ownerId)).rejects.toThrow(/your own account/i);
+  });
+
+  it('should refuse to disable the last active owner', async () => {
+    await expect(setAdminDisabled({ id: ownerId, disabled: true }, clerkId)).rejects.toThrow(/last active owner/i);
+  });
+
+  it('should return null for non-existent admin', async () => {
+    const result = await setAdminDisabled({ id: 99999, disabled: true }, ownerId);
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { borrowersTable } from '../db/schema';
+import { setBorrowerLimitsInputSchema } from '../schema';
+import { setBorrowerLimits } from '../handlers/set_borrower_limits';
+
+describe('setBorrowerLimits', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should set and remove limits', async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe' })
+      .returning()
+      .execute();
+
+    const limited = await setBorrowerLimits({ id: borrower.id, max_items: 5, max_value: 2500 });
+    expect(limited!.max_items).toEqual(5);
+    expect(limited!.max_value).toEqual(2500);
+
+    const unlimited = await setBorrowerLimits({ id: borrower.id, max_items: null, max_value: null });
+    expect(unlimited!.max_items).toBeNull();
+    expect(unlimited!.max_value).toBeNull();
+  });
+
+  it('should only accept positive limits', () => {
+    expect(setBorrowerLimitsInputSchema.safeParse({ id: 1, max_items: 0, max_value: null }).success).toBe(false);
+    expect(setBorrowerLimitsInputSchema.safeParse({ id: 1, max_items: null, max_value: -5 }).success).toBe(false);
+  });
+
+  it('should return null for a borrower that does not exist', async () => {
+    expect(await setBorrowerLimits({ id: 9999, max_items: 1, max_value: null })).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { setupFirstAdmin } from '../handlers/setup_first_admin';
+import { resolveSession } from '../auth/session';
+import { verifyPassword } from '../auth/credentials';
+
+const setupInput = {
+  username: 'founder',
+  email: 'founder@test.com',
+  password: 'founderpass'
+};
+
+describe('setupFirstAdmin', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an owner and sign them in', async () => {
+    const result = await setupFirstAdmin(setupInput, '10.0.0.1');
+
+    expect(result.status).toEqual('authenticated');
+    expect(result.admin.username).toEqual('founder');
+    expect(result.admin.role).toEqual('owner');
+    expect(result.permissions).toContain('admins:manage');
+    expect((await resolveSession(result.token))!.id).toEqual(result.admin.id);
+
+    const [stored] = await db.select()
+      .from(adminsTable)
+      .execute();
+    expect((await verifyPassword('founderpass', stored.password_hash)).valid).toBe(true);
+  });
+
+  it('should refuse once an admin exists', async () => {
+    await db.insert(adminsTable)
+      .values({ username: 'owner', email: 'owner@test.com', password_hash: 'hash' })
+      .execute();
+
+    await expect(setupFirstAdmin(setupInput)).rejects.toThrow(/already been completed/i);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .execute();
+    expect(admins).toHaveLength(1);
+  });
+
+  it('should create only one owner when setups race', async () => {
+    const results = await Promise.allSettled([
+      setupFirstAdmin(setupInput),
+      setupFirstAdmin({ ...setupInput, username: 'intruder', email: 'intruder@test.com' })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .execute();
+    expect(admins).toHaveLength(1);
+  });
+});
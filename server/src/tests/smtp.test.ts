@@ -0,0 +1,84 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'bun:test';
+import { sendMail, getSmtpConfig, type SmtpConfig } from '../notifications/smtp';
+import { startMockSmtpServer, type MockSmtpServer } from '../helpers/mock_smtp_server';
+
+describe('sendMail', () => {
+  let sink: MockSmtpServer;
+  let config: SmtpConfig;
+
+  beforeAll(() => {
+    sink = startMockSmtpServer();
+    config = { host: '127.0.0.1', port: sink.port, secure: false, user: null, password: null, from: 'Warehouse <warehouse@example.com>' };
+  });
+  afterAll(() => sink.stop());
+  afterEach(() => {
+    sink.messages.splice(0);
+    sink.rejectRecipients(false);
+  });
+
+  it('should deliver a message to the server', async () => {
+    await sendMail(config, { to: 'jane@example.com', subject: 'Mixer due back', text: 'Please return the mixer.' });
+
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0].from).toEqual('warehouse@example.com');
+    expect(sink.messages[0].to).toEqual(['jane@example.com']);
+    expect(sink.messages[0].subject).toEqual('Mixer due back');
+    expect(sink.messages[0].text).toEqual('Please return the mixer.');
+    expect(sink.messages[0].raw).toContain('From: Warehouse <warehouse@example.com>');
+  });
+
+  it('should encode subjects outside printable ASCII', async () => {
+    await sendMail(config, { to: 'jane@example.com', subject: 'Über mixer\r\nBcc: attacker@example.com', text: 'Ünïcode body' });
+
+    expect(sink.messages[0].raw).not.toContain('\r\nBcc:');
+    expect(sink.messages[0].subject).toEqual('Über mixer\r\nBcc: attacker@example.com');
+    expect(sink.messages[0].text).toEqual('Ünïcode body');
+  });
+
+  it('should authenticate when credentials are configured', async () => {
+    await sendMail({ ...config, user: 'warehouse', password: 'secret' }, { to: 'jane@example.com', subject: 'Hi', text: 'Hi' });
+
+    expect(sink.messages).toHaveLength(1);
+  });
+
+  it('should throw when the server refuses the recipient', async () => {
+    sink.rejectRecipients(true);
+
+    await expect(sendMail(config, { to: 'nobody@example.com', subject: 'Hi', text: 'Hi' }))
+      .rejects.toThrow(/RCPT TO rejected: 550/);
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('should throw when nothing listens on the port', async () => {
+    const stopped = startMockSmtpServer();
+    stopped.stop();
+
+    await expect(sendMail({ ...config, port: stopped.port }, { to: 'jane@example.com', subject: 'Hi', text: 'Hi' }))
+      .rejects.toThrow();
+  });
+});
+
+describe('getSmtpConfig', () => {
+  afterEach(() => {
+    delete process.env['SMTP_HOST'];
+    delete process.env['SMTP_PORT'];
+    delete process.env['SMTP_SECURE'];
+  });
+
+  it('should be off without SMTP_HOST', () => {
+    expect(getSmtpConfig()).toBeNull();
+  });
+
+  it('should default to a local mail sink port', () => {
+    process.env['SMTP_HOST'] = 'localhost';
+
+    expect(getSmtpConfig()).toMatchObject({ host: 'localhost', port: 1025, secure: false, user: null });
+  });
+
+  it('should default to port 465 for implicit TLS', () => {
+    process.env['SMTP_HOST'] = 'mail.example.com';
+    process.env['SMTP_SECURE'] = 'true';
+
+    expect(getSmtpConfig()).toMatchObject({ port: 465, secure: true });
+  });
+});
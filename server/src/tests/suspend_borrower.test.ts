@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { borrowersTable } from '../db/schema';
+import { suspendBorrowerInputSchema } from '../schema';
+import { suspendBorrower } from '../handlers/suspend_borrower';
+
+describe('suspendBorrower', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let borrowerId: number;
+
+  beforeEach(async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe' })
+      .returning()
+      .execute();
+    borrowerId = borrower.id;
+  });
+
+  it('should suspend a borrower until lifted', async () => {
+    const result = await suspendBorrower({ id: borrowerId, reason: 'Returned a mixer damaged' });
+
+    expect(result!.suspended_at).toBeInstanceOf(Date);
+    expect(result!.suspension_reason).toEqual('Returned a mixer damaged');
+    expect(result!.suspended_until).toBeNull();
+  });
+
+  it('should replace the terms of a running suspension', async () => {
+    await suspendBorrower({ id: borrowerId, reason: 'Late returns' });
+    const until = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+    const result = await suspendBorrower({ id: borrowerId, reason: 'Late returns, reduced on appeal', until });
+
+    expect(result!.suspension_reason).toEqual('Late returns, reduced on appeal');
+    expect(result!.suspended_until).toEqual(until);
+  });
+
+  it('should refuse an end date in the past', async () => {
+    await expect(suspendBorrower({ id: borrowerId, reason: 'Late returns', until: new Date(Date.now() - 1000) }))
+      .rejects.toThrow('The suspension must end in the future');
+  });
+
+  it('should require a reason', () => {
+    expect(suspendBorrowerInputSchema.safeParse({ id: borrowerId, reason: ' ' }).success).toBe(false);
+  });
+
+  it('should return null for a borrower that does not exist', async () => {
+    expect(await suspendBorrower({ id: 9999, reason: 'Late returns' })).toBeNull();
+  });
+});
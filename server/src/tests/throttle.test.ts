@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loginThrottlesTable } from '../db/schema';
+import { getBlockDurationMs, getLoginBlock, recordLoginFailure, clearUsernameThrottle } from '../auth/throttle';
+import { eq } from 'drizzle-orm';
+
+describe('login throttle', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should allow the first few failures without delay', () => {
+    expect(getBlockDurationMs('username', 1)).toBe(0);
+    expect(getBlockDurationMs('username', 3)).toBe(0);
+  });
+
+  it('should double the delay for each further failure and lock out at the threshold', () => {
+    expect(getBlockDurationMs('username', 4)).toBe(2000);
+    expect(getBlockDurationMs('ip', 5)).toBe(4000);
+    expect(getBlockDurationMs('ip', 6)).toBe(8000);
+    expect(getBlockDurationMs('username', 5)).toBe(15 * 60 * 1000);
+    expect(getBlockDurationMs('ip', 20)).toBe(15 * 60 * 1000);
+  });
+
+  it('should count failures per username and per address', async () => {
+    await recordLoginFailure('alice', '10.0.0.1');
+    await recordLoginFailure('alice', '10.0.0.2');
+    await recordLoginFailure('bob', '10.0.0.1');
+
+    const throttles = await db.select()
+      .from(loginThrottlesTable)
+      .execute();
+
+    const counts = Object.fromEntries(throttles.map(t => [`${t.scope}:${t.key}`, t.failed_count]));
+    expect(counts).toEqual({
+      'username:alice': 2,
+      'username:bob': 1,
+      'ip:10.0.0.1': 2,
+      'ip:10.0.0.2': 1,
+    });
+  });
+
+  it('should report the block until the lockout expires', async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordLoginFailure('alice', null);
+    }
+
+    const blockedUntil = await getLoginBlock('alice', null);
+    expect(blockedUntil).toBeInstanceOf(Date);
+    expect(blockedUntil!.getTime()).toBeGreaterThan(Date.now() + 14 * 60 * 1000);
+
+    // Not blocked for another username
+    expect(await getLoginBlock('bob', null)).toBeNull();
+
+    // Expired blocks no longer apply
+    await db.update(loginThrottlesTable)
+      .set({ blocked_until: new Date(Date.now() - 1000) })
+      .where(eq(loginThrottlesTable.key, 'alice'))
+      .execute();
+
+    expect(await getLoginBlock('alice', null)).toBeNull();
+  });
+
+  it('should restart the count once the last failure is outside the lockout window', async () => {
+    await recordLoginFailure('alice', null);
+    await recordLoginFailure('alice', null);
+
+    await db.update(loginThrottlesTable)
+      .set({ last_failed_at: new Date(Date.now() - 60 * 60 * 1000) })
+      .execute();
+
+    await recordLoginFailure('alice', null);
+
+    const throttles = await db.select()
+      .from(loginThrottlesTable)
+      .execute();
+
+    expect(throttles[0].failed_count).toBe(1);
+  });
+
+  it('should clear only the username counter', async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordLoginFailure('alice', '10.0.0.1');
+    }
+
+    await clearUsernameThrottle('alice');
+
+    const throttles = await db.select()
+      .from(loginThrottlesTable)
+      .execute();
+
+    expect(throttles).toHaveLength(1);
+    expect(throttles[0].scope).toBe('ip');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test';
+import { generateTotpSecret, generateTotpCode, getTotpStep, verifyTotpCode, buildProvisioningUri } from '../auth/totp';
+
+// Base32 of the ASCII secret "12345678901234567890" used by the RFC 6238 test vectors
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotpCode(RFC_SECRET, getTotpStep(59 * 1000))).toBe('287082');
+    expect(generateTotpCode(RFC_SECRET, getTotpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotpCode(RFC_SECRET, getTotpStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('should generate distinct base32 secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it('should accept the current code and its neighbours, returning the matched step', () => {
+    const now = Date.now();
+    const step = getTotpStep(now);
+
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step), null, now)).toBe(step);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), null, now)).toBe(step - 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 1), null, now)).toBe(step + 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 3), null, now)).toBeNull();
+  });
+
+  it('should refuse codes from steps that were already used', () => {
+    const now = Date.now();
+    const step = getTotpStep(now);
+    const code = generateTotpCode(RFC_SECRET, step);
+
+    expect(verifyTotpCode(RFC_SECRET, code, step, now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, code, step - 1, now)).toBe(step);
+  });
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef', null)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, '12345', null)).toBeNull();
+  });
+
+  it('should build an otpauth provisioning URI', () => {
+    const uri = buildProvisioningUri(RFC_SECRET, 'owner');
+
+    expect(uri).toStartWith('otpauth://totp/Sound%20Equipment%20Warehouse%3Aowner?');
+    const params = new URL(uri).searchParams;
+    expect(params.get('secret')).toBe(RFC_SECRET);
+    expect(params.get('issuer')).toBe('Sound Equipment Warehouse');
+    expect(params.get('digits')).toBe('6');
+    expect(params.get('period')).toBe('30');
+  });
+});
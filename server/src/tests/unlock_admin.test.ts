@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { unlockAdmin } from '../handlers/unlock_admin';
+import { loginAdmin } from '../handlers/login_admin';
+import { getLoginBlock, recordLoginFailure } from '../auth/throttle';
+
+describe('unlockAdmin', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({
+        username: 'clerk',
+        email: 'clerk@test.com',
+        password_hash: await Bun.password.hash('clerkpass'),
+        role: 'clerk'
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  it('should lift a lockout so the admin can log in again', async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordLoginFailure('clerk', null);
+    }
+
+    await expect(loginAdmin({ username: 'clerk', password: 'clerkpass' })).rejects.toThrow(/too many/i);
+
+    const result = await unlockAdmin(adminId);
+
+    expect(result).toBe(true);
+    expect(await getLoginBlock('clerk', null)).toBeNull();
+
+    const login = await loginAdmin({ username: 'clerk', password: 'clerkpass' });
+    expect(login).not.toBeNull();
+  });
+
+  it('should succeed for an admin who is not locked out', async () => {
+    const result = await unlockAdmin(adminId);
+
+    expect(result).toBe(true);
+  });
+
+  it('should return false for non-existent admin', async () => {
+    const result = await unlockAdmin(99999);
+
+    expect(result).toBe(false);
+  });
+});
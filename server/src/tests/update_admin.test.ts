@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { type UpdateAdminInput } from '../schema';
+import { updateAdmin } from '../handlers/update_admin';
+import { eq } from 'drizzle-orm';
+
+describe('updateAdmin', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+  let clerkId: number;
+
+  beforeEach(async () => {
+    const adminResult = await db.insert(adminsTable)
+      .values([
+        { username: 'owner', email: 'owner@test.com', password_hash: 'hash', role: 'owner' },
+        { username: 'clerk', email: 'clerk@test.com', password_hash: 'hash', role: 'clerk' }
+      ])
+      .returning()
+      .execute();
+    ownerId = adminResult[0].id;
+    clerkId = adminResult[1].id;
+  });
+
+  it('should update email, username and role', async () => {
+    const input: UpdateAdminInput = {
+      id: clerkId,
+      username: 'senior_clerk',
+      email: 'senior@test.com',
+      role: 'manager'
+    };
+
+    const result = await updateAdmin(input);
+
+    expect(result).not.toBeNull();
+    expect(result!.username).toEqual('senior_clerk');
+    expect(result!.email).toEqual('senior@test.com');
+    expect(result!.role).toEqual('manager');
+
+    const admins = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+
+    expect(admins[0].email).toEqual('senior@test.com');
+    expect(admins[0].role).toEqual('manager');
+  });
+
+  it('should only update provided fields', async () => {
+    const result = await updateAdmin({ id: clerkId, email: 'new@test.com' });
+
+    expect(result!.email).toEqual('new@test.com');
+    expect(result!.username).toEqual('clerk');
+    expect(result!.role).toEqual('clerk');
+  });
+
+  it('should return null for non-existent admin', async () => {
+    const result = await updateAdmin({ id: 99999, email: 'x@test.com' });
+
+    expect(result).toBeNull();
+  });
+
+  it('should refuse to demote the last active owner', async () => {
+    await expect(updateAdmin({ id: ownerId, role: 'manager' })).rejects.toThrow(/last active owner/i);
+  });
+
+  it('should allow demoting an owner when another owner remains', async () => {
+    await db.update(adminsTable)
+      .set({ role: 'owner' })
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+
+    const result = await updateAdmin({ id: ownerId, role: 'viewer' });
+
+    expect(result!.role).toEqual('viewer');
+  });
+
+  it('should keep one owner when two owners are demoted at the same time', async () => {
+    await db.update(adminsTable)
+      .set({ role: 'owner' })
+      .where(eq(adminsTable.id, clerkId))
+      .execute();
+
+    const results = await Promise.allSettled([
+      updateAdmin({ id: ownerId, role: 'manager' }),
+      updateAdmin({ id: clerkId, role: 'manager' })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const owners = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.role, 'owner'))
+      .execute();
+
+    expect(owners).toHaveLength(1);
+  });
+
+  it('should enforce unique email constraint', async () => {
+    await expect(updateAdmin({ id: clerkId, email: 'owner@test.com' })).rejects.toThrow(/unique/i);
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, borrowersTable, departmentsTable, equipmentTable, equipmentTransactionsTable } from '../db/schema';
+import { updateBorrower } from '../handlers/update_borrower';
+
+describe('updateBorrower', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let borrowerId: number;
+
+  beforeEach(async () => {
+    const [borrower] = await db.insert(borrowersTable)
+      .values({ name: 'Jane Roe', email: 'jane@example.com', phone: '555-0100' })
+      .returning()
+      .execute();
+    borrowerId = borrower.id;
+  });
+
+  it('should update only the given fields', async () => {
+    const result = await updateBorrower({ id: borrowerId, organisation: 'Drama Society', phone: null });
+
+    expect(result!.name).toEqual('Jane Roe');
+    expect(result!.email).toEqual('jane@example.com');
+    expect(result!.organisation).toEqual('Drama Society');
+    expect(result!.phone).toBeNull();
+    expect(result!.updated_at.getTime()).toBeGreaterThanOrEqual(result!.created_at.getTime());
+  });
+
+  it('should leave earlier transactions as they were recorded', async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({ username: 'admin', email: 'admin@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    const [equipment] = await db.insert(equipmentTable)
+      .values({ name: 'SM58', serial_number: 'MIC001', category: 'Microphones', status: 'checked_out' })
+      .returning()
+      .execute();
+    await db.insert(equipmentTransactionsTable)
+      .values({
+        equipment_id: equipment.id,
+        admin_id: admin.id,
+        transaction_type: 'check_out',
+        user_name: 'Jane Roe',
+        user_contact: 'jane@example.com',
+        borrower_id: borrowerId
+      })
+      .execute();
+
+    await updateBorrower({ id: borrowerId, name: 'Jane Smith' });
+
+    const transactions = await db.select().from(equipmentTransactionsTable).execute();
+    expect(transactions[0].user_name).toEqual('Jane Roe');
+  });
+
+  it('should refuse an email another borrower has', async () => {
+    await db.insert(borrowersTable).values({ name: 'John Doe', email: 'john@example.com' }).execute();
+
+    await expect(updateBorrower({ id: borrowerId, email: 'John@Example.com' }))
+      .rejects.toThrow('A borrower with this email already exists');
+  });
+
+  it('should set and clear the department', async () => {
+    const [department] = await db.insert(departmentsTable).values({ name: 'Sound' }).returning().execute();
+
+    const assigned = await updateBorrower({ id: borrowerId, department_id: department.id });
+    expect(assigned!.department_id).toEqual(department.id);
+
+    const cleared = await updateBorrower({ id: borrowerId, department_id: null });
+    expect(cleared!.department_id).toBeNull();
+
+    await expect(updateBorrower({ id: borrowerId, department_id: 9999 }))
+      .rejects.toThrow('Department with id 9999 not found');
+  });
+
+  it('should return null for a borrower that does not exist', async () => {
+    expect(await updateBorrower({ id: 9999, name: 'Nobody' })).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { departmentsTable } from '../db/schema';
+import { updateDepartment } from '../handlers/update_department';
+
+describe('updateDepartment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let departmentId: number;
+
+  beforeEach(async () => {
+    const [department] = await db.insert(departmentsTable)
+      .values({ name: 'Sound', cost_centre: 'CC-100' })
+      .returning()
+      .execute();
+    departmentId = department.id;
+  });
+
+  it('should update only the given fields', async () => {
+    const result = await updateDepartment({ id: departmentId, cost_centre: 'CC-200' });
+
+    expect(result!.name).toEqual('Sound');
+    expect(result!.cost_centre).toEqual('CC-200');
+    expect(result!.updated_at.getTime()).toBeGreaterThanOrEqual(result!.created_at.getTime());
+  });
+
+  it('should clear the cost centre', async () => {
+    const result = await updateDepartment({ id: departmentId, cost_centre: null });
+
+    expect(result!.cost_centre).toBeNull();
+  });
+
+  it('should refuse a name another department has', async () => {
+    await db.insert(departmentsTable).values({ name: 'Drama' }).execute();
+
+    await expect(updateDepartment({ id: departmentId, name: 'drama' }))
+      .rejects.toThrow('A department with this name already exists');
+  });
+
+  it('should return null for a department that does not exist', async () => {
+    expect(await updateDepartment({ id: 9999, name: 'Nobody' })).toBeNull();
+  });
+});
@@ -50,7 +50,11 @@ describe('updateEquipment', () => {
       category: 'Video',
       brand: 'Updated Brand',
       model: 'Updated Model',
-      status: 'maintenance'
+      status: 'maintenance',
+      replacement_value: 1200,
+      storage_location: 'Bay 1',
+      case_label: 'Rack A',
+      weight_grams: 4200
     };
 
     const result = await updateEquipment(updateInput);
@@ -64,6 +68,10 @@ describe('updateEquipment', () => {
     expect(result!.brand).toEqual('Updated Brand');
     expect(result!.model).toEqual('Updated Model');
     expect(result!.status).toEqual('maintenance');
+    expect(result!.replacement_value).toEqual(1200);
+    expect(result!.storage_location).toEqual('Bay 1');
+    expect(result!.case_label).toEqual('Rack A');
+    expect(result!.weight_grams).toEqual(4200);
     expect(result!.created_at).toEqual(existingEquipment.created_at);
     expect(result!.updated_at).toBeInstanceOf(Date);
     expect(result!.updated_at > existingEquipment.updated_at).toBe(true);
@@ -204,4 +212,29 @@ describe('updateEquipment', () => {
       expect(statusResult!.status).toEqual(status);
     }
   });
-});
\ No newline at end of file
+
+  it('should attach an item to a parent and detach it again', async () => {
+    const [speaker] = await db.insert(equipmentTable)
+      .values({ name: 'Powered Speaker', serial_number: 'SPK001', category: 'Speakers' })
+      .returning()
+      .execute();
+
+    const attached = await updateEquipment({ id: existingEquipment.id, parent_id: speaker.id });
+    expect(attached!.parent_id).toEqual(speaker.id);
+
+    const detached = await updateEquipment({ id: existingEquipment.id, parent_id: null });
+    expect(detached!.parent_id).toBeNull();
+  });
+
+  it('should reject a parent that would make a cycle', async () => {
+    const [accessory] = await db.insert(equipmentTable)
+      .values({ name: 'Rain Cover', serial_number: 'RAIN001', category: 'Speakers', parent_id: existingEquipment.id })
+      .returning()
+      .execute();
+
+    await expect(updateEquipment({ id: existingEquipment.id, parent_id: accessory.id }))
+      .rejects.toThrow('Equipment cannot be an accessory of itself or of its own accessories');
+    await expect(updateEquipment({ id: existingEquipment.id, parent_id: existingEquipment.id }))
+      .rejects.toThrow('Equipment cannot be an accessory of itself or of its own accessories');
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { eventsTable } from '../db/schema';
+import { updateEvent } from '../handlers/update_event';
+
+describe('updateEvent', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let eventId: number;
+
+  beforeEach(async () => {
+    const [event] = await db.insert(eventsTable)
+      .values({
+        name: 'Summer Festival',
+        venue: 'Riverside Park',
+        starts_at: new Date('2030-07-10T14:00:00Z'),
+        ends_at: new Date('2030-07-12T23:00:00Z')
+      })
+      .returning()
+      .execute();
+    eventId = event.id;
+  });
+
+  it('should update only the given fields', async () => {
+    const result = await updateEvent({ id: eventId, crew_lead: 'Sam Lee', venue: null });
+
+    expect(result!.name).toEqual('Summer Festival');
+    expect(result!.crew_lead).toEqual('Sam Lee');
+    expect(result!.venue).toBeNull();
+    expect(result!.updated_at.getTime()).toBeGreaterThanOrEqual(result!.created_at.getTime());
+  });
+
+  it('should refuse dates that end before the event starts', async () => {
+    await expect(updateEvent({ id: eventId, ends_at: new Date('2030-07-09T00:00:00Z') }))
+      .rejects.toThrow('An event cannot end before it starts');
+
+    const moved = await updateEvent({ id: eventId, starts_at: new Date('2030-07-11T14:00:00Z') });
+    expect(moved!.starts_at).toEqual(new Date('2030-07-11T14:00:00Z'));
+  });
+
+  it('should return null for an event that does not exist', async () => {
+    expect(await updateEvent({ id: 9999, name: 'Nothing' })).toBeNull();
+  });
+});
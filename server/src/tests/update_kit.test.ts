@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { equipmentTable, kitMembersTable } from '../db/schema';
+import { createKit } from '../handlers/create_kit';
+import { updateKit } from '../handlers/update_kit';
+
+describe('updateKit', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let equipmentIds: number[];
+  let kitId: number;
+
+  beforeEach(async () => {
+    const equipment = await db.insert(equipmentTable)
+      .values([
+        { name: 'SM58', serial_number: 'MIC001', category: 'Microphones' },
+        { name: 'XLR 10m', serial_number: 'XLR001', category: 'Cables' },
+        { name: 'Mic Stand', serial_number: 'STD001', category: 'Stands' }
+      ])
+      .returning()
+      .execute();
+    equipmentIds = equipment.map(item => item.id);
+
+    const kit = await createKit({ name: 'Vocal Kit 3', equipment_ids: [equipmentIds[0], equipmentIds[1]] });
+    kitId = kit.kit.id;
+  });
+
+  it('should update the kit details and keep its members', async () => {
+    const result = await updateKit({ id: kitId, name: 'Vocal Kit 3B', serial_number: 'KIT-3B' });
+
+    expect(result!.kit.name).toEqual('Vocal Kit 3B');
+    expect(result!.kit.serial_number).toEqual('KIT-3B');
+    expect(result!.members.map(member => member.serial_number)).toEqual(['MIC001', 'XLR001']);
+  });
+
+  it('should replace the member list', async () => {
+    const result = await updateKit({ id: kitId, equipment_ids: [equipmentIds[0], equipmentIds[2]] });
+
+    expect(result!.members.map(member => member.serial_number)).toEqual(['STD001', 'MIC001']);
+    expect(await db.select().from(kitMembersTable).execute()).toHaveLength(2);
+  });
+
+  it('should reject members of another kit and keep the old list', async () => {
+    await createKit({ name: 'Stand Kit', equipment_ids: [equipmentIds[2]] });
+
+    await expect(updateKit({ id: kitId, equipment_ids: [equipmentIds[2]] }))
+      .rejects.toThrow('Some equipment already belongs to another kit: STD001 (Stand Kit)');
+
+    const members = await db.select().from(kitMembersTable).execute();
+    expect(members.filter(member => member.kit_id === kitId)).toHaveLength(2);
+  });
+
+  it('should return null for a non-existent kit', async () => {
+    expect(await updateKit({ id: 99999, name: 'Nothing' })).toBeNull();
+  });
+});
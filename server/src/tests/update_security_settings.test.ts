@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable } from '../db/schema';
+import { updateSecuritySettings } from '../handlers/update_security_settings';
+import { getSecuritySettings } from '../handlers/get_security_settings';
+import { isTwoFactorRequired } from '../auth/two_factor';
+import { eq } from 'drizzle-orm';
+
+describe('updateSecuritySettings', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let ownerId: number;
+
+  beforeEach(async () => {
+    const [owner] = await db.insert(adminsTable)
+      .values({ username: 'owner', email: 'owner@test.com', password_hash: 'hash' })
+      .returning()
+      .execute();
+    ownerId = owner.id;
+  });
+
+  it('should require 2FA for every account', async () => {
+    await db.update(adminsTable)
+      .set({ totp_secret: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', totp_enabled_at: new Date() })
+      .where(eq(adminsTable.id, ownerId))
+      .execute();
+
+    const result = await updateSecuritySettings({ require_two_factor: true }, ownerId);
+
+    expect(result.require_two_factor).toBe(true);
+    expect(await isTwoFactorRequired()).toBe(true);
+    expect((await getSecuritySettings()).require_two_factor).toBe(true);
+
+    await updateSecuritySettings({ require_two_factor: false }, ownerId);
+    expect(await isTwoFactorRequired()).toBe(false);
+  });
+
+  it('should refuse to require 2FA before the owner has enrolled', async () => {
+    await expect(updateSecuritySettings({ require_two_factor: true }, ownerId)).rejects.toThrow(/your own account/i);
+
+    expect(await isTwoFactorRequired()).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { adminsTable, loginChallengesTable, loginEventsTable } from '../db/schema';
+import { type TwoFactorChallenge } from '../schema';
+import { loginAdmin } from '../handlers/login_admin';
+import { verifyTwoFactorLogin } from '../handlers/verify_two_factor_login';
+import { resolveSession } from '../auth/session';
+import { issueRecoveryCodes } from '../auth/recovery_codes';
+import { verifySecondFactor } from '../auth/two_factor';
+import { generateTotpCode, getTotpStep } from '../auth/totp';
+import { eq } from 'drizzle-orm';
+
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('verifyTwoFactorLogin', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let adminId: number;
+
+  beforeEach(async () => {
+    const [admin] = await db.insert(adminsTable)
+      .values({
+        username: 'owner',
+        email: 'owner@test.com',
+        password_hash: await Bun.password.hash('ownerpass'),
+        totp_secret: SECRET,
+        totp_enabled_at: new Date()
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  const startLogin = async (): Promise<TwoFactorChallenge> => {
+    const result = await loginAdmin({ username: 'owner', password: 'ownerpass' }, '10.0.0.1');
+    expect(result?.status).toBe('two_factor_required');
+    return result as TwoFactorChallenge;
+  };
+
+  it('should issue a session for a valid TOTP code', async () => {
+    const challenge = await startLogin();
+
+    const result = await verifyTwoFactorLogin({
+      challenge_token: challenge.challenge_token,
+      code: generateTotpCode(SECRET, getTotpStep())
+    }, '10.0.0.1');
+
+    expect(result).not.toBeNull();
+    expect(result!.status).toBe('authenticated');
+    expect(result!.admin.id).toBe(adminId);
+    expect((await resolveSession(result!.token))!.id).toBe(adminId);
+
+    // The challenge is spent
+    const challenges = await db.select()
+      .from(loginChallengesTable)
+      .execute();
+    expect(challenges).toHaveLength(0);
+
+    const events = await db.select()
+      .from(loginEventsTable)
+      .execute();
+    expect(events.map(e => e.outcome)).toEqual(['success']);
+  });
+
+  it('should not accept the same TOTP code twice', async () => {
+    const code = generateTotpCode(SECRET, getTotpStep());
+
+    const first = await verifyTwoFactorLogin({ challenge_token: (await startLogin()).challenge_token, code });
+    expect(first).not.toBeNull();
+
+    const second = await verifyTwoFactorLogin({ challenge_token: (await startLogin()).challenge_token, code });
+    expect(second).toBeNull();
+  });
+
+  it('should accept a TOTP code only once when two logins race with it', async () => {
+    // Both logins read the admin before either records the step
+    const [admin] = await db.select()
+      .from(adminsTable)
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+    const code = generateTotpCode(SECRET, getTotpStep());
+
+    expect(await verifySecondFactor(admin, code)).toBe(true);
+    expect(await verifySecondFactor(admin, code)).toBe(false);
+  });
+
+  it('should accept a recovery code only once when two logins race with it', async () => {
+    const [recoveryCode] = await issueRecoveryCodes(adminId);
+    const challenges = [await startLogin(), await startLogin()];
+
+    const results = await Promise.all(challenges.map(challenge => verifyTwoFactorLogin({
+      challenge_token: challenge.challenge_token,
+      code: recoveryCode
+    })));
+
+    expect(results.filter(result => result !== null)).toHaveLength(1);
+  });
+
+  it('should accept each recovery code once', async () => {
+    const [recoveryCode] = await issueRecoveryCodes(adminId);
+
+    const first = await verifyTwoFactorLogin({
+      challenge_token: (await startLogin()).challenge_token,
+      code: recoveryCode.toUpperCase()
+    });
+    expect(first).not.toBeNull();
+
+    const second = await verifyTwoFactorLogin({
+      challenge_token: (await startLogin()).challenge_token,
+      code: recoveryCode
+    });
+    expect(second).toBeNull();
+  });
+
+  it('should log a wrong code and discard the challenge after five attempts', async () => {
+    const challenge = await startLogin();
+    const wrong = generateTotpCode(SECRET, getTotpStep() + 5);
+
+    for (let i = 0; i < 3; i++) {
+      const result = await verifyTwoFactorLogin({ challenge_token: challenge.challenge_token, code: wrong }, '10.0.0.1');
+      expect(result).toBeNull();
+    }
+
+    const events = await db.select()
+      .from(loginEventsTable)
+      .where(eq(loginEventsTable.outcome, 'invalid_two_factor'))
+      .execute();
+    expect(events).toHaveLength(3);
+
+    // Skip ahead to the last attempt the challenge allows
+    await db.update(loginChallengesTable)
+      .set({ failed_attempts: 4 })
+      .execute();
+
+    await verifyTwoFactorLogin({ challenge_token: challenge.challenge_token, code: wrong });
+
+    const challenges = await db.select()
+      .from(loginChallengesTable)
+      .execute();
+    expect(challenges).toHaveLength(0);
+  });
+
+  it('should return null for an expired challenge', async () => {
+    const challenge = await startLogin();
+
+    await db.update(loginChallengesTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    const result = await verifyTwoFactorLogin({
+      challenge_token: challenge.challenge_token,
+      code: generateTotpCode(SECRET, getTotpStep())
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null when the account was disabled after the password step', async () => {
+    const challenge = await startLogin();
+
+    await db.update(adminsTable)
+      .set({ disabled_at: new Date() })
+      .where(eq(adminsTable.id, adminId))
+      .execute();
+
+    const result = await verifyTwoFactorLogin({
+      challenge_token: challenge.challenge_token,
+      code: generateTotpCode(SECRET, getTotpStep())
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it('should return null for an unknown challenge token', async () => {
+    const result = await verifyTwoFactorLogin({ challenge_token: 'not-a-challenge', code: '123456' });
+
+    expect(result).toBeNull();
+  });
+});